@@ -1,29 +1,68 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { getServiceSupabase } from '../../../lib/supabaseServer'
+import { expireOverdueDocuments } from '../../../lib/cleanup'
+import { sendExpiryReminders } from '../../../lib/reminders'
+import { createEmailTransport } from '../../../lib/email'
+import { createMalwareScanner, scanQuarantinedDocuments } from '../../../lib/malwareScan'
+import { generateMissingThumbnails } from '../../../lib/thumbnails'
+import { purgeExpiredTrash } from '../../../lib/trash'
+import { applyRetentionPolicies } from '../../../lib/retention'
+import { backfillMissingExpiryDates } from '../../../lib/validityRules'
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // This is a cron job endpoint for cleanup tasks
-    // Only allow access from Vercel's cron system or localhost
-    const isFromCron = process.env.VERCEL_ENV === 'production'
-    const isLocal = process.env.NODE_ENV === 'development'
-    
-    if (!isFromCron && !isLocal) {
+    // This is a cron job endpoint for cleanup tasks. Vercel cron sends the
+    // configured secret as a bearer token; only local development may run
+    // the tasks without one.
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      if (process.env.NODE_ENV !== 'development') {
+        console.error('CRON_SECRET is not set; refusing to run cleanup')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    } else if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    console.log('Running cleanup tasks...')
-    
-    // Add your cleanup logic here
-    // For example:
-    // - Clean up expired files
-    // - Remove old session data
-    // - Clean up temporary data
-    
+    const { searchParams } = new URL(request.url)
+    const dryRun = ['1', 'true'].includes(searchParams.get('dryRun') || '')
+
+    console.log(`Running cleanup tasks${dryRun ? ' (dry run)' : ''}...`)
+
+    const client = getServiceSupabase()
+    const tasks: Record<string, unknown> = {}
+    const errors: Record<string, string> = {}
+
+    // A failing task is reported alongside the others rather than ending the run
+    const runTask = async (name: string, task: () => Promise<unknown>) => {
+      try {
+        tasks[name] = await task()
+      } catch (error) {
+        console.error(`Cleanup task ${name} failed:`, error)
+        errors[name] = error instanceof Error ? error.message : 'Task failed'
+      }
+    }
+
+    await runTask('scans', () => scanQuarantinedDocuments(client, createMalwareScanner(), { dryRun }))
+    await runTask('thumbnails', () => generateMissingThumbnails(client, { dryRun }))
+    // Backfill first so documents given a past expiry are expired in the same run
+    await runTask('expiryBackfill', () => backfillMissingExpiryDates(client, { dryRun }))
+    await runTask('expiry', () => expireOverdueDocuments(client, { dryRun }))
+    await runTask('reminders', () => sendExpiryReminders(client, createEmailTransport(), { dryRun }))
+    await runTask('trash', () => purgeExpiredTrash(client, { dryRun }))
+    await runTask('retention', () => applyRetentionPolicies(client, { dryRun }))
+
+    const failed = Object.keys(errors).length > 0
     return NextResponse.json({
-      success: true,
-      message: 'Cleanup completed',
-      timestamp: new Date().toISOString()
-    })
+      success: !failed,
+      message: failed
+        ? `Cleanup finished with ${Object.keys(errors).length} failed task(s)`
+        : dryRun ? 'Cleanup dry run completed' : 'Cleanup completed',
+      dryRun,
+      timestamp: new Date().toISOString(),
+      tasks,
+      errors
+    }, { status: failed ? 500 : 200 })
   } catch (error) {
     console.error('Cleanup task failed:', error)
     return NextResponse.json(
@@ -31,4 +70,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
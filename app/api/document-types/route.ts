@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../../../lib/apiAuth'
+import { fetchDocumentTypes } from '../../../lib/documentTypes'
+
+// List the document type registry. Inactive types are only included on request.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const documentTypes = await fetchDocumentTypes({
+      includeInactive: request.nextUrl.searchParams.get('include_inactive') === 'true'
+    }, auth.client)
+
+    return NextResponse.json({ documentTypes })
+  } catch (error) {
+    console.error('Document type list failed:', error)
+    return NextResponse.json({ error: 'Failed to fetch document types' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { issueDocumentLink } from '../../../../../lib/downloads'
+
+// Issue a single-use download link for a document the caller can read.
+// The download is logged, under the caller's own session, before the link
+// is handed out.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!auth.role) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const link = await issueDocumentLink(auth, parsedId.id, 'download')
+    if (!link.success) {
+      return NextResponse.json({ error: link.error }, { status: link.status })
+    }
+
+    return NextResponse.json({ url: link.url, expiresAt: link.expiresAt })
+  } catch (error) {
+    console.error('Creating download link failed:', error)
+    return NextResponse.json({ error: 'Failed to create download link' }, { status: 500 })
+  }
+}
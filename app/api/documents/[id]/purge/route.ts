@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { getServiceSupabase } from '../../../../../lib/supabaseServer'
+import { getTrashCandidate, purgeTrashedDocument } from '../../../../../lib/trash'
+import { getActiveLegalHold } from '../../../../../lib/legalHolds'
+import { auditHelpers } from '../../../../../lib/audit'
+
+// Permanently remove a trashed document's file. Admin only. The document's
+// record, reviews and audit trail are kept.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    const service = getServiceSupabase()
+    const document = await getTrashCandidate(service, id)
+    if (!document || !document.deleted_at || document.purged_at) {
+      return NextResponse.json({ error: 'Document not found in trash' }, { status: 404 })
+    }
+
+    const hold = await getActiveLegalHold({ pilotId: document.pilot_id, documentId: id }, service)
+    if (hold) {
+      return NextResponse.json({ error: `Document is under legal hold: ${hold.reason}` }, { status: 409 })
+    }
+
+    if (!(await purgeTrashedDocument(service, document))) {
+      return NextResponse.json({ error: 'Document not found in trash' }, { status: 404 })
+    }
+
+    try {
+      await auditHelpers.logDocumentPurged(id, document.title, auth.client)
+    } catch (auditError) {
+      // Don't fail the main operation if audit logging fails
+      console.warn('Failed to log document purge:', auditError)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Document purge failed:', error)
+    return NextResponse.json({ error: 'Failed to purge document' }, { status: 500 })
+  }
+}
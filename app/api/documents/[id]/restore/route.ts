@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { getServiceSupabase } from '../../../../../lib/supabaseServer'
+import { getTrashCandidate, restoreDocumentFromTrash } from '../../../../../lib/trash'
+import { getActiveLegalHold } from '../../../../../lib/legalHolds'
+import { auditHelpers } from '../../../../../lib/audit'
+
+// Take a document out of the trash. Admin only.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    const service = getServiceSupabase()
+    const document = await getTrashCandidate(service, id)
+    if (!document || !document.deleted_at) {
+      return NextResponse.json({ error: 'Document not found in trash' }, { status: 404 })
+    }
+    if (document.purged_at) {
+      return NextResponse.json({ error: 'Document has been purged and cannot be restored' }, { status: 409 })
+    }
+
+    const hold = await getActiveLegalHold({ pilotId: document.pilot_id, documentId: id }, service)
+    if (hold) {
+      return NextResponse.json({ error: `Document is under legal hold: ${hold.reason}` }, { status: 409 })
+    }
+
+    if (!(await restoreDocumentFromTrash(service, document))) {
+      return NextResponse.json({ error: 'Document not found in trash' }, { status: 404 })
+    }
+
+    try {
+      await auditHelpers.logDocumentRestored(id, document.title, auth.client)
+    } catch (auditError) {
+      // Don't fail the main operation if audit logging fails
+      console.warn('Failed to log document restore:', auditError)
+    }
+
+    const { data: restored, error } = await service
+      .from('documents')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      throw new Error('Error fetching restored document: ' + error.message)
+    }
+
+    return NextResponse.json({ document: restored })
+  } catch (error) {
+    console.error('Document restore failed:', error)
+    return NextResponse.json({ error: 'Failed to restore document' }, { status: 500 })
+  }
+}
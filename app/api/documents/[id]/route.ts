@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../lib/apiAuth'
+import { getServiceSupabase } from '../../../../lib/supabaseServer'
+import { getDocumentWithPilot } from '../../../../lib/documents'
+import { getTrashCandidate, moveDocumentToTrash } from '../../../../lib/trash'
+import { getActiveLegalHold } from '../../../../lib/legalHolds'
+import { auditHelpers } from '../../../../lib/audit'
+
+// Get a document's details. The file is opened through a view or download
+// link, which logs the access.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!auth.role) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    // Ownership is checked before anything is read
+    const { data: owner } = await auth.client
+      .from('documents')
+      .select('id, pilots!inner ( user_id )')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!owner) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (auth.role === 'pilot' && (owner as unknown as { pilots: { user_id: string } }).pilots.user_id !== auth.user.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const document = await getDocumentWithPilot(id, auth.client)
+    return NextResponse.json({ document }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('Document fetch failed:', error)
+    return NextResponse.json({ error: 'Failed to fetch document' }, { status: 500 })
+  }
+}
+
+// Move a document to the trash. Pilots may delete their own, admins any.
+// Trashed documents can be restored by an admin until they are purged.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'pilot' && auth.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    // Trashed rows are hidden from the caller, so the trash is managed with the service role
+    const service = getServiceSupabase()
+    const document = await getTrashCandidate(service, id)
+    if (!document || document.deleted_at || (auth.role === 'pilot' && document.pilots.user_id !== auth.user.id)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const hold = await getActiveLegalHold({ pilotId: document.pilot_id, documentId: id }, service)
+    if (hold) {
+      return NextResponse.json({ error: `Document is under legal hold: ${hold.reason}` }, { status: 409 })
+    }
+
+    if (!(await moveDocumentToTrash(service, document, auth.user.id))) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    try {
+      await auditHelpers.logDocumentTrashed(id, document.title, auth.client)
+    } catch (auditError) {
+      // Don't fail the main operation if audit logging fails
+      console.warn('Failed to log document deletion:', auditError)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Document delete failed:', error)
+    return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 })
+  }
+}
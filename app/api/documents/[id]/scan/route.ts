@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { getServiceSupabase } from '../../../../../lib/supabaseServer'
+import { createMalwareScanner, scanDocument } from '../../../../../lib/malwareScan'
+
+// Malware-scan a quarantined document. Pilots may scan their own uploads, admins any.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'pilot' && auth.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    const { data: document } = await auth.client
+      .from('documents')
+      .select('id, title, file_url, status, scan_status, scan_signature, scan_attempts, pilots!inner ( user_id )')
+      .eq('id', id)
+      .maybeSingle()
+
+    const typedDocument = document as unknown as {
+      id: string
+      title: string
+      file_url: string
+      status: string
+      scan_status: 'unscanned' | 'clean' | 'infected' | 'error'
+      scan_signature: string | null
+      scan_attempts: number
+      pilots: { user_id: string }
+    } | null
+
+    if (!typedDocument || (auth.role === 'pilot' && typedDocument.pilots.user_id !== auth.user.id)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Already released, or already found infected: report the recorded outcome
+    if (typedDocument.status !== 'quarantined' || typedDocument.scan_status === 'infected') {
+      return NextResponse.json({
+        id: typedDocument.id,
+        title: typedDocument.title,
+        verdict: typedDocument.scan_status === 'infected' ? 'infected' : 'clean',
+        signature: typedDocument.scan_signature || undefined
+      })
+    }
+
+    // Only the service role may release a document from quarantine
+    const result = await scanDocument(getServiceSupabase(), createMalwareScanner(), typedDocument)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Document scan failed:', error)
+    return NextResponse.json({ error: 'Document scan failed' }, { status: 500 })
+  }
+}
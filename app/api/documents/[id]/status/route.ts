@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { updateDocumentStatus, DOCUMENT_STATUSES, DocumentStatus } from '../../../../../lib/documents'
+import { getActiveLegalHold } from '../../../../../lib/legalHolds'
+
+// Change a document's review status (admin only).
+// Body: { status, reason?, comment? } — reason is required when rejecting.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'admin') {
+      return NextResponse.json({ error: 'Only admins can change document status' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    const body = await request.json().catch(() => null) as { status?: string; reason?: string; comment?: string } | null
+    if (!body || !DOCUMENT_STATUSES.includes(body.status as DocumentStatus)) {
+      return NextResponse.json({ error: 'A valid status is required' }, { status: 400 })
+    }
+    if (body.status === 'rejected' && !body.reason?.trim()) {
+      return NextResponse.json({ error: 'A reason is required to reject a document' }, { status: 400 })
+    }
+
+    const { data: existing } = await auth.client
+      .from('documents')
+      .select('id, pilot_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const hold = await getActiveLegalHold({ pilotId: (existing as { pilot_id: string }).pilot_id, documentId: id }, auth.client)
+    if (hold) {
+      return NextResponse.json({ error: `Document is under legal hold: ${hold.reason}` }, { status: 409 })
+    }
+
+    const document = await updateDocumentStatus(
+      id,
+      body.status as DocumentStatus,
+      body.reason,
+      body.comment,
+      auth.client
+    )
+
+    return NextResponse.json({ document })
+  } catch (error) {
+    console.error('Document status update failed:', error)
+    return NextResponse.json({ error: 'Failed to update document status' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, parseUuidParam } from '../../../../../lib/apiAuth'
+import { issueDocumentLink } from '../../../../../lib/downloads'
+
+// Issue a single-use link for viewing a document in the app. It is served
+// inline rather than as an attachment, but is otherwise a download: logged
+// as a view before the link is handed out, and watermarked for the viewer.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!auth.role) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'document')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const link = await issueDocumentLink(auth, parsedId.id, 'view')
+    if (!link.success) {
+      return NextResponse.json({ error: link.error }, { status: link.status })
+    }
+
+    return NextResponse.json({ url: link.url, expiresAt: link.expiresAt })
+  } catch (error) {
+    console.error('Creating view link failed:', error)
+    return NextResponse.json({ error: 'Failed to create view link' }, { status: 500 })
+  }
+}
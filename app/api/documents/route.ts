@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../../../lib/apiAuth'
+import { validateFile, uploadPilotDocument } from '../../../lib/storage'
+import { getDocumentTypeDefinition } from '../../../lib/documentTypes'
+import { checkUploadDetails, completeStoredUpload } from '../../../lib/uploadCompletion'
+import { fetchDocumentsPage, DOCUMENT_STATUSES, DocumentStatus } from '../../../lib/documents'
+
+// List documents. Pilots only ever see their own; admins and inspectors see all.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!auth.role) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+    const documentType = searchParams.get('document_type')
+
+    if (status && !DOCUMENT_STATUSES.includes(status as DocumentStatus)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 })
+    }
+    if (documentType && !(await getDocumentTypeDefinition(documentType, auth.client))) {
+      return NextResponse.json({ error: `Invalid document_type: ${documentType}` }, { status: 400 })
+    }
+
+    const result = await fetchDocumentsPage({
+      userId: auth.role === 'pilot' ? auth.user.id : undefined,
+      pilotId: auth.role === 'pilot' ? undefined : searchParams.get('pilot_id') || undefined,
+      status: (status as DocumentStatus) || undefined,
+      documentType: documentType || undefined,
+      search: searchParams.get('search') || undefined,
+      includeHistory: searchParams.get('include_history') === 'true',
+      page: Number(searchParams.get('page')) || undefined,
+      pageSize: Number(searchParams.get('page_size')) || undefined
+    }, auth.client)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Document list failed:', error)
+    return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 })
+  }
+}
+
+// Upload a document for the calling pilot (multipart/form-data)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'pilot') {
+      return NextResponse.json({ error: 'Only pilots can upload documents' }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const rawMetadata = formData.get('metadata')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+
+    // Custom field values arrive as a JSON object keyed by field
+    let metadata: unknown
+    if (rawMetadata !== null) {
+      try {
+        metadata = JSON.parse(typeof rawMetadata === 'string' ? rawMetadata : '')
+      } catch {
+        return NextResponse.json({ error: 'metadata must be a JSON object' }, { status: 400 })
+      }
+    }
+
+    const check = await checkUploadDetails({
+      title: formData.get('title'),
+      document_type: formData.get('document_type'),
+      expiry_date: formData.get('expiry_date'),
+      issue_date: formData.get('issue_date'),
+      metadata,
+      extracted_text: formData.get('extracted_text'),
+      new_version: formData.get('new_version')
+    }, auth)
+    if (!check.valid) {
+      return NextResponse.json({ error: check.error, fields: check.fields }, { status: 400 })
+    }
+
+    const validation = validateFile(file, check.definition)
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+
+    const uploadResult = await uploadPilotDocument(file, auth.user.id, check.definition!.code, undefined, auth.client)
+    if (!uploadResult.success) {
+      return NextResponse.json({ error: uploadResult.error }, { status: 400 })
+    }
+
+    const result = await completeStoredUpload(auth, uploadResult.fullPath!, check.details!, check.definition!)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const { document, scan, duplicates } = result
+    return NextResponse.json({ document, scan, duplicates }, { status: 201 })
+  } catch (error) {
+    console.error('Document upload failed:', error)
+    return NextResponse.json({ error: 'Failed to upload document' }, { status: 500 })
+  }
+}
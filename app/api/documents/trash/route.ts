@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../../../../lib/apiAuth'
+import { getServiceSupabase } from '../../../../lib/supabaseServer'
+import { getTrashRetentionDays, listTrashedDocuments } from '../../../../lib/trash'
+
+// List the trash. Pilots only see their own documents; admins and
+// inspectors see everything.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!auth.role) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Trashed rows are hidden from the caller, so they are read with the service role
+    const documents = await listTrashedDocuments(getServiceSupabase(), {
+      ownerUserId: auth.role === 'pilot' ? auth.user.id : undefined
+    })
+
+    return NextResponse.json({ documents, retentionDays: getTrashRetentionDays() }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('Trash list failed:', error)
+    return NextResponse.json({ error: 'Failed to fetch trash' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServiceSupabase } from '../../../../lib/supabaseServer'
+import { redeemDownloadToken, prepareDownload } from '../../../../lib/downloads'
+import { WatermarkError } from '../../../../lib/watermark'
+
+// Serve a watermarked copy of a document. The token in the URL is the only
+// credential, so this works as a plain link; it is consumed on first use.
+// View tokens are served inline for the app's viewer.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const client = getServiceSupabase()
+
+    const redeemed = await redeemDownloadToken(client, token)
+    if (!redeemed) {
+      return NextResponse.json(
+        { error: 'This download link is invalid, has expired or has already been used' },
+        { status: 404 }
+      )
+    }
+
+    const download = await prepareDownload(redeemed)
+    const asciiName = download.fileName.replace(/[^\x20-\x7e]/g, '_')
+    const disposition = redeemed.purpose === 'view' ? 'inline' : 'attachment'
+
+    return new NextResponse(Buffer.from(download.content), {
+      headers: {
+        'Content-Type': download.mimeType,
+        'Content-Length': String(download.content.byteLength),
+        'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    // Unstamped copies are never served
+    if (error instanceof WatermarkError) {
+      console.error('Document could not be watermarked:', error)
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Document download failed:', error)
+    return NextResponse.json({ error: 'Download failed' }, { status: 500 })
+  }
+}
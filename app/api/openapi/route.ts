@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { openApiSpec } from '../../../lib/openapi'
+
+export async function GET() {
+  return NextResponse.json(openApiSpec, {
+    headers: { 'Cache-Control': 'public, max-age=300' }
+  })
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServiceSupabase } from '../../../../../lib/supabaseServer'
+import { hasIntegrationApiKey, parseUuidParam } from '../../../../../lib/apiAuth'
+import { getPilotEligibility } from '../../../../../lib/eligibility'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!hasIntegrationApiKey(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsedId = parseUuidParam((await params).id, 'pilot')
+    if (!parsedId.valid) {
+      return parsedId.response
+    }
+    const { id } = parsedId
+
+    const eligibility = await getPilotEligibility(id, getServiceSupabase())
+
+    if (!eligibility) {
+      return NextResponse.json({ error: 'Pilot not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(eligibility, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('Eligibility check failed:', error)
+    return NextResponse.json(
+      { error: 'Eligibility check failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, isUuid } from '../../../../lib/apiAuth'
+import { getViewerName } from '../../../../lib/downloads'
+import { collectDossier, createDossierStream, MAX_DOSSIER_PILOTS } from '../../../../lib/dossier'
+import { auditHelpers } from '../../../../lib/audit'
+
+// Export pilots' documents as a ZIP with an index manifest (admins and inspectors).
+// Body: { pilotIds, includeHistory? }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'admin' && auth.role !== 'inspector') {
+      return NextResponse.json({ error: 'Only admins and inspectors can export dossiers' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null) as { pilotIds?: unknown; includeHistory?: unknown } | null
+    const pilotIds = Array.isArray(body?.pilotIds) ? Array.from(new Set(body.pilotIds)) : []
+    if (pilotIds.length === 0 || !pilotIds.every(isUuid)) {
+      return NextResponse.json({ error: 'pilotIds must be a non-empty list of pilot ids' }, { status: 400 })
+    }
+    if (pilotIds.length > MAX_DOSSIER_PILOTS) {
+      return NextResponse.json({ error: `At most ${MAX_DOSSIER_PILOTS} pilots can be exported at once` }, { status: 400 })
+    }
+
+    const includeHistory = body?.includeHistory === true
+    const dossier = await collectDossier(
+      auth.client,
+      { pilotIds: pilotIds as string[], includeHistory },
+      await getViewerName(auth.client, auth.user)
+    )
+
+    if (dossier.pilots.length === 0) {
+      return NextResponse.json({ error: 'Pilot not found' }, { status: 404 })
+    }
+
+    // No audit entry, no export
+    const auditId = await auditHelpers.logDataExport(auth.user.id, 'pilot_dossier', {
+      pilot_ids: dossier.pilots.map(pilot => pilot.id),
+      include_history: includeHistory,
+      document_count: dossier.entries.length
+    }, auth.client)
+    if (!auditId) {
+      return NextResponse.json({ error: 'Export could not be logged' }, { status: 500 })
+    }
+
+    const fileName = `pilot-dossier-${dossier.generatedAt.slice(0, 10)}.zip`
+    return new NextResponse(createDossierStream(dossier), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Dossier export failed:', error)
+    return NextResponse.json({ error: 'Dossier export failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../../../../lib/apiAuth'
+import { checkUploadDetails, completeStoredUpload } from '../../../../lib/uploadCompletion'
+
+// Record a file the browser uploaded straight to storage as a document.
+// The stored bytes are inspected here before the record is created, and
+// rejected files are deleted, so a document can only point at verified content.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (auth.role !== 'pilot') {
+      return NextResponse.json({ error: 'Only pilots can upload documents' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null) as Record<string, unknown> | null
+    if (!body || typeof body.path !== 'string') {
+      return NextResponse.json({ error: 'path is required' }, { status: 400 })
+    }
+
+    const check = await checkUploadDetails({
+      title: body.title,
+      document_type: body.document_type,
+      expiry_date: body.expiry_date,
+      issue_date: body.issue_date,
+      metadata: body.metadata,
+      extracted_text: body.extracted_text,
+      new_version: body.new_version
+    }, auth)
+    if (!check.valid) {
+      return NextResponse.json({ error: check.error, fields: check.fields }, { status: 400 })
+    }
+
+    const result = await completeStoredUpload(auth, body.path, check.details!, check.definition!)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({
+      document: result.document,
+      scan: result.scan,
+      duplicates: result.duplicates
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Upload completion failed:', error)
+    return NextResponse.json({ error: 'Failed to record upload' }, { status: 500 })
+  }
+}
@@ -20,7 +20,10 @@ import {
 } from '../../lib/documents'
 import { supabase } from '../../lib/supabase'
 import { AdminDashboardSkeleton } from './SkeletonLoaders'
+import ComplianceGrid from './ComplianceGrid'
 import toast from 'react-hot-toast'
+import { useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
 
 interface AdminDashboardProps {
   userId: string
@@ -50,6 +53,7 @@ interface ActivityItem {
 }
 
 export default function AdminDashboard({ userId: _userId }: AdminDashboardProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
   const [documentStats, setDocumentStats] = useState<DocumentStats>({
     total: 0,
     pending: 0,
@@ -196,17 +200,6 @@ export default function AdminDashboard({ userId: _userId }: AdminDashboardProps)
     }
   }
 
-  const formatDocumentType = (type: string) => {
-    const typeMap: { [key: string]: string } = {
-      'noc': 'NOC',
-      'medical_certificate': 'Medical',
-      'alcohol_test': 'Alcohol Test',
-      'license_certification': 'License',
-      'training_records': 'Training'
-    }
-    return typeMap[type] || type
-  }
-
   if (loading) {
     return <AdminDashboardSkeleton />
   }
@@ -335,6 +328,9 @@ export default function AdminDashboard({ userId: _userId }: AdminDashboardProps)
         </div>
       </div>
 
+      {/* Fleet Compliance Matrix */}
+      <ComplianceGrid />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Recent Activity Feed */}
@@ -362,7 +358,7 @@ export default function AdminDashboard({ userId: _userId }: AdminDashboardProps)
                       </div>
                       <div className="flex items-center mt-1 text-xs text-gray-500">
                         <span className="bg-gray-200 text-gray-700 px-2 py-1 rounded-full">
-                          {formatDocumentType(activity.documentType)}
+                          {formatDocumentType(activity.documentType, documentTypes)}
                         </span>
                         <span className="ml-2">
                           {formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
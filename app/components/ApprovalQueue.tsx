@@ -4,21 +4,28 @@ import { useState, useEffect } from 'react'
 import { 
   CheckCircleIcon,
   XCircleIcon,
-  DocumentIcon,
   ClockIcon,
   UserIcon,
   CalendarIcon,
-  PhotoIcon,
-  DocumentTextIcon
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns/format'
 import { 
   fetchDocumentsByStatus,
   updateDocumentStatus,
-  getDocumentWithUrl,
-  DocumentWithPilot
+  findCrossPilotDuplicates,
+  DocumentWithPilot,
+  CrossPilotDuplicate
 } from '../../lib/documents'
 import { ApprovalQueueSkeleton } from './SkeletonLoaders'
+import RejectDocumentDialog from './RejectDocumentDialog'
+import DocumentViewer from './DocumentViewer'
+import { DocumentThumbnail } from './OptimizedImage'
+import { useDocumentThumbnails, useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
+import { getMetadataFields, describeDocumentMetadata } from '../../lib/documentMetadata'
+import { hasExpiryMismatch } from '../../lib/validityRules'
 import toast from 'react-hot-toast'
 
 interface ApprovalQueueProps {
@@ -26,12 +33,22 @@ interface ApprovalQueueProps {
 }
 
 export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
   const [pendingDocuments, setPendingDocuments] = useState<DocumentWithPilot[]>([])
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set())
   const [bulkProcessing, setBulkProcessing] = useState(false)
-  const [viewingDocument, setViewingDocument] = useState<string | null>(null)
+  const [viewerDocumentId, setViewerDocumentId] = useState<string | null>(null)
+  const [rejectTarget, setRejectTarget] = useState<{ documentId: string | null } | null>(null)
+  const [duplicates, setDuplicates] = useState<Record<string, CrossPilotDuplicate[]>>({})
+  const { data: thumbnailUrls } = useDocumentThumbnails(pendingDocuments)
+
+  // Custom field values entered by the pilot, for checking against the file
+  const getDocumentDetails = (document: DocumentWithPilot) => describeDocumentMetadata(
+    getMetadataFields(documentTypes?.find(type => type.code === document.document_type)),
+    document.metadata
+  )
 
   useEffect(() => {
     loadPendingDocuments()
@@ -43,6 +60,13 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
       const documents = await fetchDocumentsByStatus('pending')
       setPendingDocuments(documents)
       setSelectedDocuments(new Set()) // Clear selections when refreshing
+
+      // The same file under another pilot's name is worth a closer look
+      try {
+        setDuplicates(await findCrossPilotDuplicates(documents))
+      } catch (duplicateError) {
+        console.warn('Failed to check for duplicate documents:', duplicateError)
+      }
     } catch (error) {
       console.error('Error loading pending documents:', error)
       toast.error('Failed to load pending documents')
@@ -69,16 +93,22 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
     }
   }
 
-  const handleSingleAction = async (documentId: string, action: 'approved' | 'rejected') => {
+  const handleSingleAction = async (
+    documentId: string,
+    action: 'approved' | 'rejected',
+    reason?: string,
+    comment?: string
+  ) => {
     try {
       setProcessingIds(prev => new Set(prev).add(documentId))
       
-      await updateDocumentStatus(documentId, action)
+      await updateDocumentStatus(documentId, action, reason, comment)
       
       toast.success(`Document ${action === 'approved' ? 'approved' : 'rejected'} successfully`)
       
       // Remove from pending list
       setPendingDocuments(prev => prev.filter(doc => doc.id !== documentId))
+      setViewerDocumentId(prev => (prev === documentId ? null : prev))
       
       // Remove from selected if it was selected
       setSelectedDocuments(prev => {
@@ -100,13 +130,18 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
     }
   }
 
-  const handleBulkAction = async (action: 'approved' | 'rejected') => {
+  const handleBulkAction = async (
+    action: 'approved' | 'rejected',
+    reason?: string,
+    comment?: string
+  ) => {
     if (selectedDocuments.size === 0) {
       toast.error('Please select documents to process')
       return
     }
 
-    if (!confirm(`Are you sure you want to ${action === 'approved' ? 'approve' : 'reject'} ${selectedDocuments.size} document(s)?`)) {
+    // Rejections are confirmed through the reason dialog instead
+    if (action === 'approved' && !confirm(`Are you sure you want to approve ${selectedDocuments.size} document(s)?`)) {
       return
     }
 
@@ -116,7 +151,7 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
       
       // Process all selected documents
       await Promise.all(
-        selectedIds.map(id => updateDocumentStatus(id, action))
+        selectedIds.map(id => updateDocumentStatus(id, action, reason, comment))
       )
       
       toast.success(`${selectedIds.length} document(s) ${action === 'approved' ? 'approved' : 'rejected'} successfully`)
@@ -138,49 +173,21 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
     }
   }
 
-  const handleViewDocument = async (document: DocumentWithPilot) => {
-    try {
-      setViewingDocument(document.id)
-      
-      const { viewUrl } = await getDocumentWithUrl(document.id)
-      window.open(viewUrl, '_blank')
-    } catch (error) {
-      console.error('Error viewing document:', error)
-      toast.error('Failed to open document')
-    } finally {
-      setViewingDocument(null)
-    }
-  }
+  const handleRejectConfirm = async (reason: string, comment: string) => {
+    if (!rejectTarget) return
 
-  const getFileTypeIcon = (fileType: string | null) => {
-    if (!fileType) return <DocumentIcon className="h-6 w-6 text-gray-400" />
-    
-    if (fileType === 'application/pdf') {
-      return <DocumentTextIcon className="h-6 w-6 text-red-500" />
-    }
-    if (fileType.startsWith('image/')) {
-      return <PhotoIcon className="h-6 w-6 text-blue-500" />
+    if (rejectTarget.documentId) {
+      await handleSingleAction(rejectTarget.documentId, 'rejected', reason, comment)
+    } else {
+      await handleBulkAction('rejected', reason, comment)
     }
-    return <DocumentIcon className="h-6 w-6 text-gray-400" />
-  }
 
-  const formatDocumentType = (type: string) => {
-    const typeMap: { [key: string]: string } = {
-      'noc': 'No Objection Certificate',
-      'medical_certificate': 'Medical Certificate',
-      'alcohol_test': 'Alcohol Test',
-      'license_certification': 'License Certification',
-      'training_records': 'Training Records'
-    }
-    return typeMap[type] || type
+    setRejectTarget(null)
   }
 
-  const getFileThumbnail = (document: DocumentWithPilot) => {
-    return (
-      <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-lg border">
-        {getFileTypeIcon(document.file_type)}
-      </div>
-    )
+  // Opens the in-app viewer, where the document can be reviewed in place
+  const handleViewDocument = (document: DocumentWithPilot) => {
+    setViewerDocumentId(document.id)
   }
 
   if (loading) {
@@ -218,7 +225,7 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                 Approve All
               </button>
               <button
-                onClick={() => handleBulkAction('rejected')}
+                onClick={() => setRejectTarget({ documentId: null })}
                 disabled={bulkProcessing}
                 className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
@@ -303,17 +310,14 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                     <div className="flex items-center">
                       <button
                         onClick={() => handleViewDocument(document)}
-                        disabled={viewingDocument === document.id}
                         className="cursor-pointer hover:opacity-75 transition-opacity"
                         title="Click to view document"
                       >
-                        {viewingDocument === document.id ? (
-                          <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-lg border">
-                            <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-600 border-t-transparent"></div>
-                          </div>
-                        ) : (
-                          getFileThumbnail(document)
-                        )}
+                        <DocumentThumbnail
+                          src={thumbnailUrls?.[document.id]}
+                          alt={document.title}
+                          fileType={document.file_type}
+                        />
                       </button>
                     </div>
                   </td>
@@ -324,7 +328,6 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                       <div>
                         <button
                           onClick={() => handleViewDocument(document)}
-                          disabled={viewingDocument === document.id}
                           className="text-left cursor-pointer hover:text-blue-600 transition-colors"
                           title="Click to view document"
                         >
@@ -332,6 +335,26 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                             {document.title}
                           </div>
                         </button>
+                        {duplicates[document.id] && (
+                          <span
+                            className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200"
+                            title={`Same file uploaded by ${duplicates[document.id]
+                              .map(duplicate => `${duplicate.pilot_name} ("${duplicate.title}", ${format(new Date(duplicate.upload_date), 'MMM d, yyyy')})`)
+                              .join(', ')}`}
+                          >
+                            <DocumentDuplicateIcon className="h-3 w-3 mr-1" />
+                            Possible duplicate
+                          </span>
+                        )}
+                        {hasExpiryMismatch(document) && (
+                          <span
+                            className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800 border border-orange-200"
+                            title={`The validity rules for this type give ${format(new Date(document.computed_expiry_date!), 'MMM d, yyyy')}`}
+                          >
+                            <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                            Expiry differs from rules
+                          </span>
+                        )}
                         <div className="text-sm text-gray-500">
                           {document.file_size && (
                             <span>{(document.file_size / 1024 / 1024).toFixed(2)} MB</span>
@@ -343,6 +366,16 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                             </>
                           )}
                         </div>
+                        {getDocumentDetails(document).length > 0 && (
+                          <dl className="mt-1 text-xs text-gray-600 space-y-0.5">
+                            {getDocumentDetails(document).map(detail => (
+                              <div key={detail.key} className="flex">
+                                <dt className="font-medium text-gray-700 mr-1">{detail.label}:</dt>
+                                <dd className="truncate max-w-[12rem]" title={detail.value}>{detail.value}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -365,7 +398,7 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
                   {/* Document Type */}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      {formatDocumentType(document.document_type)}
+                      {formatDocumentType(document.document_type, documentTypes)}
                     </span>
                   </td>
 
@@ -407,7 +440,7 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
 
                       {/* Reject Button */}
                       <button
-                        onClick={() => handleSingleAction(document.id, 'rejected')}
+                        onClick={() => setRejectTarget({ documentId: document.id })}
                         disabled={processingIds.has(document.id)}
                         className="inline-flex items-center px-2 sm:px-3 py-1 sm:py-2 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700 active:bg-red-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 min-h-[44px] touch-manipulation"
                       >
@@ -445,6 +478,24 @@ export default function ApprovalQueue({ onDocumentUpdate }: ApprovalQueueProps)
           </div>
         </div>
       )}
+
+      {/* Document Viewer */}
+      <DocumentViewer
+        documentId={viewerDocumentId}
+        onClose={() => setViewerDocumentId(null)}
+        onApprove={(document) => handleSingleAction(document.id, 'approved')}
+        onReject={(document) => setRejectTarget({ documentId: document.id })}
+        processing={viewerDocumentId !== null && processingIds.has(viewerDocumentId)}
+      />
+
+      {/* Rejection Reason Dialog */}
+      <RejectDocumentDialog
+        open={rejectTarget !== null}
+        documentCount={rejectTarget?.documentId ? 1 : selectedDocuments.size}
+        submitting={bulkProcessing || (rejectTarget?.documentId ? processingIds.has(rejectTarget.documentId) : false)}
+        onConfirm={handleRejectConfirm}
+        onCancel={() => setRejectTarget(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
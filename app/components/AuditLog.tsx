@@ -243,6 +243,9 @@ export default function AuditLog({ user }: AuditLogProps) {
                   <option value="documents">Documents</option>
                   <option value="pilots">Pilots</option>
                   <option value="user_roles">User Roles</option>
+                  <option value="legal_holds">Legal Holds</option>
+                  <option value="retention_policies">Retention Policies</option>
+                  <option value="document_types">Document Types</option>
                   <option value="auth">Authentication</option>
                   <option value="system">System</option>
                 </select>
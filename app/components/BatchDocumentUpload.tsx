@@ -0,0 +1,483 @@
+'use client'
+
+import { useState, useCallback, useMemo, useEffect, Fragment } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { uploadPilotDocumentResumable, validateFile } from '../../lib/storage'
+import { completeDocumentUpload, DocumentType } from '../../lib/documents'
+import { getMaxFileSize, getAcceptedFileTypes, DocumentTypeDefinition } from '../../lib/documentTypes'
+import { getMetadataFields, validateDocumentMetadata } from '../../lib/documentMetadata'
+import { computeExpiryDate, fetchPilotDateOfBirth } from '../../lib/validityRules'
+import { useDocumentTypes } from '../hooks/useDocuments'
+import {
+  CloudArrowUpIcon,
+  XMarkIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronUpIcon
+} from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+import DocumentMetadataFields from './DocumentMetadataFields'
+
+interface BatchDocumentUploadProps {
+  userId: string
+  onUploadSuccess?: () => void
+}
+
+// How many files upload at the same time
+const UPLOAD_CONCURRENCY = 3
+
+type BatchItemStatus = 'queued' | 'uploading' | 'done' | 'failed'
+
+interface BatchItem {
+  id: string
+  file: File
+  documentType: DocumentType
+  title: string
+  expiryDate: string
+  // Values of the type's custom fields
+  metadata: Record<string, string>
+  // Supersede the pilot's current document of this type instead of adding a separate one
+  newVersion: boolean
+  detailsOpen: boolean
+  status: BatchItemStatus
+  progress: number
+  error?: string
+}
+
+// Run tasks with at most `limit` in flight
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  const queue = [...items]
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await worker(queue.shift()!)
+    }
+  })
+  await Promise.all(runners)
+}
+
+export default function BatchDocumentUpload({ userId, onUploadSuccess }: BatchDocumentUploadProps) {
+  const { data: documentTypes = [] } = useDocumentTypes()
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [uploading, setUploading] = useState(false)
+  // Age-dependent validity rules need the pilot's date of birth
+  const [dateOfBirth, setDateOfBirth] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPilotDateOfBirth({ user_id: userId })
+      .then(setDateOfBirth)
+      .catch(error => console.warn('Failed to load date of birth:', error))
+  }, [userId])
+
+  const getDefinition = (code: DocumentType) => documentTypes.find(type => type.code === code) || null
+
+  // Files start out as the type with the largest size limit, so anything
+  // dropped fits until the pilot picks the right type; onboarding batches
+  // are mostly training records, which have that limit
+  const defaultType = useMemo<DocumentTypeDefinition | null>(
+    () => documentTypes.reduce<DocumentTypeDefinition | null>(
+      (largest, type) => (!largest || type.max_file_size_mb > largest.max_file_size_mb ? type : largest),
+      null
+    ),
+    [documentTypes]
+  )
+
+  // A dropped file is accepted if any type allows it
+  const acceptedFileTypes = useMemo(
+    () => Object.assign({}, ...documentTypes.map(type => getAcceptedFileTypes(type))) as Record<string, string[]>,
+    [documentTypes]
+  )
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const newItems: BatchItem[] = []
+
+    if (!defaultType) return
+
+    for (const file of acceptedFiles) {
+      const validation = validateFile(file, defaultType)
+      if (!validation.valid) {
+        toast.error(`${file.name}: ${validation.error || 'Invalid file'}`)
+        continue
+      }
+
+      newItems.push({
+        id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        file,
+        documentType: defaultType.code,
+        title: file.name.replace(/\.[^/.]+$/, ''),
+        expiryDate: '',
+        metadata: {},
+        newVersion: false,
+        detailsOpen: false,
+        status: 'queued',
+        progress: 0
+      })
+    }
+
+    setItems(prev => [...prev, ...newItems])
+  }, [defaultType])
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: acceptedFileTypes,
+    multiple: true,
+    disabled: uploading || !defaultType
+  })
+
+  const uploadItem = async (item: BatchItem) => {
+    updateItem(item.id, { status: 'uploading', progress: 0, error: undefined })
+
+    try {
+      const uploadResult = await uploadPilotDocumentResumable(item.file, userId, item.documentType, {
+        onProgress: (uploaded, total) => updateItem(item.id, { progress: total ? uploaded / total : 0 })
+      })
+
+      if (!uploadResult.success) {
+        throw new Error(uploadResult.error)
+      }
+
+      await completeDocumentUpload(uploadResult.fullPath!, {
+        document_type: item.documentType,
+        title: item.title.trim(),
+        expiry_date: item.expiryDate || undefined,
+        metadata: validateDocumentMetadata(getMetadataFields(getDefinition(item.documentType)), item.metadata).metadata,
+        new_version: item.newVersion
+      })
+
+      updateItem(item.id, { status: 'done', progress: 1 })
+      return true
+    } catch (error) {
+      console.error('Batch upload error:', error)
+      updateItem(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      })
+      return false
+    }
+  }
+
+  const uploadItems = async (toUpload: BatchItem[]) => {
+    if (toUpload.length === 0) return
+
+    const invalid = toUpload.find(item => !item.title.trim() || !validateFile(item.file, getDefinition(item.documentType)).valid)
+    if (invalid) {
+      toast.error(
+        invalid.title.trim()
+          ? `${invalid.file.name}: ${validateFile(invalid.file, getDefinition(invalid.documentType)).error}`
+          : `Please enter a title for ${invalid.file.name}`
+      )
+      return
+    }
+
+    // When the expiry date is left empty it is derived from the type's validity rules
+    const missingExpiry = toUpload.find(item => {
+      const definition = getDefinition(item.documentType)
+      return definition?.expiry_required && !item.expiryDate && !computeExpiryDate(definition, { dateOfBirth })
+    })
+    if (missingExpiry) {
+      toast.error(`Please enter the expiry date for ${missingExpiry.file.name}`)
+      return
+    }
+
+    for (const item of toUpload) {
+      const metadataCheck = validateDocumentMetadata(getMetadataFields(getDefinition(item.documentType)), item.metadata)
+      if (!metadataCheck.valid) {
+        updateItem(item.id, { detailsOpen: true })
+        toast.error(`${item.file.name}: ${Object.values(metadataCheck.errors)[0]}`)
+        return
+      }
+    }
+
+    // Only one file can replace the current document of a type
+    const versionedTypes = new Set<DocumentType>()
+    for (const item of toUpload.filter(item => item.newVersion)) {
+      if (versionedTypes.has(item.documentType)) {
+        toast.error(`Only one file can be a new version of your ${getDefinition(item.documentType)?.label || item.documentType}`)
+        return
+      }
+      versionedTypes.add(item.documentType)
+    }
+
+    setUploading(true)
+    let succeeded = 0
+
+    try {
+      // Each file is its own document. New versions go first, so each one
+      // replaces the document that was current before this batch.
+      const upload = async (item: BatchItem) => {
+        if (await uploadItem(item)) succeeded++
+      }
+      await runWithConcurrency(toUpload.filter(item => item.newVersion), UPLOAD_CONCURRENCY, upload)
+      await runWithConcurrency(toUpload.filter(item => !item.newVersion), UPLOAD_CONCURRENCY, upload)
+    } catch (error) {
+      console.error('Batch upload error:', error)
+      toast.error(error instanceof Error ? error.message : 'Upload failed')
+      return
+    } finally {
+      setUploading(false)
+    }
+
+    const failed = toUpload.length - succeeded
+    if (failed === 0) {
+      toast.success(`${succeeded} document${succeeded !== 1 ? 's' : ''} uploaded successfully!`)
+    } else {
+      toast.error(`${failed} of ${toUpload.length} uploads failed`)
+    }
+
+    if (succeeded > 0) {
+      onUploadSuccess?.()
+    }
+  }
+
+  const handleUploadAll = () => {
+    uploadItems(items.filter(item => item.status === 'queued' || item.status === 'failed'))
+  }
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  const clearCompleted = () => {
+    setItems(prev => prev.filter(item => item.status !== 'done'))
+  }
+
+  const pendingCount = items.filter(item => item.status === 'queued' || item.status === 'failed').length
+  const doneCount = items.filter(item => item.status === 'done').length
+
+  const getStatusBadge = (item: BatchItem) => {
+    switch (item.status) {
+      case 'uploading':
+        return (
+          <div className="w-24">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${Math.round(item.progress * 100)}%` }}
+              ></div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{Math.round(item.progress * 100)}%</p>
+          </div>
+        )
+      case 'done':
+        return (
+          <span className="inline-flex items-center text-xs font-medium text-green-700">
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            Uploaded
+          </span>
+        )
+      case 'failed':
+        return (
+          <span className="inline-flex items-center text-xs font-medium text-red-700" title={item.error}>
+            <ExclamationCircleIcon className="h-4 w-4 mr-1" />
+            Failed
+          </span>
+        )
+      default:
+        return <span className="text-xs text-gray-500">Ready</span>
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* File Drop Zone */}
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragActive
+            ? 'border-blue-400 bg-blue-50'
+            : 'border-gray-300 hover:border-gray-400'
+        } ${uploading ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        <input {...getInputProps()} />
+        <CloudArrowUpIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        {isDragActive ? (
+          <p className="text-blue-600">Drop the files here...</p>
+        ) : (
+          <div>
+            <p className="text-gray-600">
+              Drag and drop several files here, or click to select
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Accepted files and size limits depend on the document type.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Per-file metadata */}
+      {items.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Title</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expiry</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item) => {
+                const locked = uploading || item.status === 'uploading' || item.status === 'done'
+                const definition = getDefinition(item.documentType)
+                const tooLarge = item.file.size > getMaxFileSize(definition)
+                const metadataFields = getMetadataFields(definition)
+
+                return (
+                  <Fragment key={item.id}>
+                    <tr className={item.status === 'failed' ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 text-sm">
+                        <div className="font-medium text-gray-900 truncate max-w-[12rem]" title={item.file.name}>
+                          {item.file.name}
+                        </div>
+                        <div className={`text-xs ${tooLarge ? 'text-red-600' : 'text-gray-500'}`}>
+                          {(item.file.size / 1024 / 1024).toFixed(2)} MB
+                          {tooLarge && ` · over ${Math.round(getMaxFileSize(definition) / 1024 / 1024)}MB limit`}
+                        </div>
+                        {item.status === 'failed' && item.error && (
+                          <div className="text-xs text-red-600 mt-1">{item.error}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={item.documentType}
+                          onChange={(e) => updateItem(item.id, { documentType: e.target.value, metadata: {} })}
+                          disabled={locked}
+                          className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        >
+                          {documentTypes.map((type) => (
+                            <option key={type.code} value={type.code}>
+                              {type.label}
+                            </option>
+                          ))}
+                        </select>
+                        {metadataFields.length > 0 && (
+                          <button
+                            onClick={() => updateItem(item.id, { detailsOpen: !item.detailsOpen })}
+                            className="mt-1 inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            {item.detailsOpen ? (
+                              <ChevronUpIcon className="h-3 w-3 mr-1" />
+                            ) : (
+                              <ChevronDownIcon className="h-3 w-3 mr-1" />
+                            )}
+                            Details
+                          </button>
+                        )}
+                        <label className="mt-1 flex items-center text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={item.newVersion}
+                            onChange={(e) => updateItem(item.id, { newVersion: e.target.checked })}
+                            disabled={locked}
+                            className="h-3 w-3 mr-1 text-blue-600 border-gray-300 rounded"
+                          />
+                          Replaces my current one
+                        </label>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={item.title}
+                          onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                          disabled={locked}
+                          placeholder="Document title"
+                          className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="date"
+                          value={item.expiryDate}
+                          onChange={(e) => updateItem(item.id, { expiryDate: e.target.value })}
+                          disabled={locked}
+                          className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {getStatusBadge(item)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">
+                        {item.status === 'failed' && !uploading && (
+                          <button
+                            onClick={() => uploadItems([item])}
+                            className="text-blue-600 hover:text-blue-800 mr-2"
+                            title="Retry"
+                          >
+                            <ArrowPathIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        {item.status !== 'uploading' && !uploading && (
+                          <button
+                            onClick={() => removeItem(item.id)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Remove"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {item.detailsOpen && metadataFields.length > 0 && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-3 py-3">
+                          <DocumentMetadataFields
+                            fields={metadataFields}
+                            values={item.metadata}
+                            onChange={(key, value) => updateItem(item.id, { metadata: { ...item.metadata, [key]: value } })}
+                            disabled={locked}
+                            idPrefix={`metadata-${item.id}`}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Actions */}
+      {items.length > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {doneCount} of {items.length} uploaded
+          </p>
+          <div className="flex space-x-2">
+            {doneCount > 0 && !uploading && (
+              <button
+                onClick={clearCompleted}
+                className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Clear uploaded
+              </button>
+            )}
+            <button
+              onClick={handleUploadAll}
+              disabled={pendingCount === 0 || uploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {uploading ? (
+                <div className="flex items-center">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Uploading...
+                </div>
+              ) : (
+                `Upload ${pendingCount} Document${pendingCount !== 1 ? 's' : ''}`
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { ShieldCheckIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns/format'
+import { RequirementStatus, RequirementResult } from '../../lib/compliance'
+import { useFleetCompliance } from '../hooks/useDocuments'
+
+const STATUS_STYLES: Record<RequirementStatus, { label: string; className: string }> = {
+  valid: { label: 'Valid', className: 'bg-green-100 text-green-800' },
+  expiring: { label: 'Expiring', className: 'bg-orange-100 text-orange-800' },
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-800' },
+  missing: { label: 'Missing', className: 'bg-gray-100 text-gray-600' }
+}
+
+export default function ComplianceGrid() {
+  const { data, isLoading, error } = useFleetCompliance()
+
+  const getCellTitle = (result: RequirementResult) => {
+    if (!result.document) return 'No document on file'
+    const until = result.validUntil ? ` · until ${format(new Date(result.validUntil), 'MMM d, yyyy')}` : ''
+    return `${result.document.title}${until}`
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="animate-pulse space-y-3">
+          <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-sm text-red-600">
+        Failed to load fleet compliance
+      </div>
+    )
+  }
+
+  const compliantCount = data.rows.filter(row => row.compliance.compliant).length
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Fleet Compliance</h2>
+          <p className="text-sm text-gray-600">
+            {compliantCount} of {data.rows.length} active pilot{data.rows.length !== 1 ? 's' : ''} fully compliant
+          </p>
+        </div>
+        <ShieldCheckIcon className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {data.rows.length === 0 || data.requirements.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          {data.requirements.length === 0 ? 'No document requirements configured' : 'No active pilots'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pilot
+                </th>
+                {data.requirements.map((requirement) => (
+                  <th
+                    key={requirement.id}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {requirement.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.rows.map(({ pilot, compliance }) => (
+                <tr key={pilot.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="flex items-center">
+                      <div className={`w-2 h-2 rounded-full mr-2 ${compliance.compliant ? 'bg-green-400' : 'bg-red-400'}`}></div>
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {pilot.first_name} {pilot.last_name}
+                        </div>
+                        <div className="text-xs text-gray-500">{pilot.pilot_license}</div>
+                      </div>
+                    </div>
+                  </td>
+                  {compliance.requirements.map((result) => (
+                    <td key={result.requirement.id} className="px-4 py-3 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[result.status].className}`}
+                        title={getCellTitle(result)}
+                      >
+                        {STATUS_STYLES[result.status].label}
+                      </span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
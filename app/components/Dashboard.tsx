@@ -17,9 +17,11 @@ import {
 } from '@heroicons/react/24/outline'
 import toast from 'react-hot-toast'
 const DocumentUpload = lazy(() => import('./DocumentUpload'))
+const BatchDocumentUpload = lazy(() => import('./BatchDocumentUpload'))
 import { DashboardStatsSkeleton, DocumentListSkeleton } from './SkeletonLoaders'
-import { DocumentType } from '../../lib/documents'
-import { useDocumentStats } from '../hooks/useDocuments'
+import { PilotCompliance, RequirementStatus } from '../../lib/compliance'
+import { useDocumentStats, usePilotCompliance } from '../hooks/useDocuments'
+import { format } from 'date-fns'
 import { lazy, Suspense } from 'react'
 
 // Dynamic imports for code splitting
@@ -28,6 +30,10 @@ const RoleAssignment = lazy(() => import('./RoleAssignment'))
 const AdminDashboard = lazy(() => import('./AdminDashboard'))
 const ApprovalQueue = lazy(() => import('./ApprovalQueue'))
 const AuditLog = lazy(() => import('./AuditLog'))
+const DossierExport = lazy(() => import('./DossierExport'))
+const DocumentTrash = lazy(() => import('./DocumentTrash'))
+const LegalHolds = lazy(() => import('./LegalHolds'))
+const DocumentTypeRegistry = lazy(() => import('./DocumentTypeRegistry'))
 
 // Define types locally to avoid import issues
 interface UserWithRole {
@@ -276,6 +282,50 @@ function ProgressRing({ percentage, size = 120, strokeWidth = 8 }: { percentage:
   )
 }
 
+// Compliance Checklist Component
+function ComplianceChecklist({ compliance }: { compliance: PilotCompliance }) {
+  const statusStyles: Record<RequirementStatus, { label: string; className: string }> = {
+    valid: { label: 'Valid', className: 'bg-green-100 text-green-800' },
+    expiring: { label: 'Expiring', className: 'bg-orange-100 text-orange-800' },
+    pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+    expired: { label: 'Expired', className: 'bg-red-100 text-red-800' },
+    missing: { label: 'Missing', className: 'bg-gray-100 text-gray-700' }
+  }
+
+  if (compliance.requirements.length === 0) {
+    return <p className="text-xs sm:text-sm text-gray-500 text-center">No document requirements configured</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {compliance.requirements.map((result) => (
+        <li key={result.requirement.id} className="flex items-center justify-between py-2 min-h-[44px]">
+          <div className="flex items-center min-w-0 flex-1">
+            {result.status === 'valid' ? (
+              <CheckCircleIcon className="h-4 w-4 sm:h-5 sm:w-5 text-green-500 mr-2 flex-shrink-0" />
+            ) : result.status === 'pending' ? (
+              <ClockIcon className="h-4 w-4 sm:h-5 sm:w-5 text-yellow-500 mr-2 flex-shrink-0" />
+            ) : (
+              <ExclamationTriangleIcon className="h-4 w-4 sm:h-5 sm:w-5 text-orange-500 mr-2 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="text-xs sm:text-sm font-medium text-gray-900 truncate">{result.requirement.label}</p>
+              {result.validUntil && result.status !== 'pending' && (
+                <p className="text-xs text-gray-500">
+                  {result.status === 'expired' ? 'Expired' : 'Valid until'} {format(new Date(result.validUntil), 'MMM d, yyyy')}
+                </p>
+              )}
+            </div>
+          </div>
+          <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[result.status].className}`}>
+            {statusStyles[result.status].label}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 // Document stats type
 interface DocumentStats {
   total: number
@@ -289,33 +339,36 @@ interface DocumentStats {
 // Pilot Dashboard Component
 function PilotDashboard({ user }: { user: UserWithRole }) {
   const [refreshTrigger, setRefreshTrigger] = useState(0)
+  const [batchUpload, setBatchUpload] = useState(false)
   
   // Use React Query for better performance and caching
-  const { data: stats, isLoading: loading, refetch } = useDocumentStats(user.id)
+  const { data: stats, isLoading: statsLoading, refetch } = useDocumentStats(user.id)
+  const { data: compliance, isLoading: complianceLoading, refetch: refetchCompliance } = usePilotCompliance(user.id)
+  const loading = statsLoading || complianceLoading
 
   const handleUploadSuccess = () => {
     setRefreshTrigger(prev => prev + 1)
     // Refetch data when upload succeeds
     refetch()
+    refetchCompliance()
   }
 
   // Refetch when refreshTrigger changes
   useEffect(() => {
     refetch()
-  }, [refreshTrigger, refetch])
+    refetchCompliance()
+  }, [refreshTrigger, refetch, refetchCompliance])
+
+  const requirementCount = compliance?.requirements.length || 0
 
-  const requiredDocumentTypes: DocumentType[] = ['noc', 'medical_certificate', 'license_certification', 'alcohol_test', 'training_records']
-  
   const getCompliancePercentage = () => {
-    if (!stats) return 0
-    return (stats.approved / requiredDocumentTypes.length) * 100
+    if (!compliance || requirementCount === 0) return 0
+    return (compliance.satisfiedCount / requirementCount) * 100
   }
 
+  // Requirements the pilot must act on: nothing on file, or only an expired document
   const getMissingDocuments = () => {
-    // This would need to be implemented based on your actual document tracking
-    // For now, using a simple calculation based on required vs approved
-    const missingCount = requiredDocumentTypes.length - (stats?.approved || 0)
-    return Math.max(0, missingCount)
+    return compliance?.requirements.filter(result => result.status === 'missing' || result.status === 'expired').length || 0
   }
 
   return (
@@ -420,9 +473,14 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
           </div>
           <div className="text-center mt-3 sm:mt-4">
             <p className="text-xs sm:text-sm text-gray-600">
-              {stats?.approved || 0} of {requiredDocumentTypes.length} required documents approved
+              {compliance?.satisfiedCount || 0} of {requirementCount} requirements met
             </p>
           </div>
+          {!loading && compliance && (
+            <div className="mt-3 sm:mt-4">
+              <ComplianceChecklist compliance={compliance} />
+            </div>
+          )}
         </div>
 
         {/* Document Status Cards */}
@@ -458,7 +516,7 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
                 <span className="text-xs sm:text-sm font-medium text-red-900 truncate">Action Required</span>
               </div>
               <span className="text-sm sm:text-base font-bold text-red-600 ml-2">
-                {loading ? '-' : (stats?.expired || 0) + getMissingDocuments()}
+                {loading ? '-' : getMissingDocuments()}
               </span>
             </div>
           </div>
@@ -475,7 +533,7 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
               <div className="space-y-1 sm:space-y-2 mb-3 sm:mb-4">
                 {getMissingDocuments() > 0 && (
                   <p className="text-xs sm:text-sm text-orange-800">
-                    • {getMissingDocuments()} required document{getMissingDocuments() > 1 ? 's' : ''} missing
+                    • {getMissingDocuments()} required document{getMissingDocuments() > 1 ? 's' : ''} missing or expired
                   </p>
                 )}
                 {stats?.expiringSoon && stats.expiringSoon > 0 && (
@@ -501,7 +559,25 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
       
       {/* Upload Section */}
       <div id="upload-section" className="bg-white rounded-lg sm:rounded-xl shadow-sm border border-gray-100 p-4 sm:p-6">
-        <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Upload New Document</h3>
+        <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+            {batchUpload ? 'Upload Several Documents' : 'Upload New Document'}
+          </h3>
+          <div className="inline-flex rounded-md border border-gray-300 text-xs sm:text-sm">
+            <button
+              onClick={() => setBatchUpload(false)}
+              className={`px-3 py-1 rounded-l-md ${!batchUpload ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              Single
+            </button>
+            <button
+              onClick={() => setBatchUpload(true)}
+              className={`px-3 py-1 rounded-r-md ${batchUpload ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              Batch
+            </button>
+          </div>
+        </div>
         <Suspense fallback={
           <div className="animate-pulse space-y-4">
             <div className="h-12 bg-gray-200 rounded-lg"></div>
@@ -509,10 +585,17 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
             <div className="h-10 bg-gray-200 rounded-lg"></div>
           </div>
         }>
-          <DocumentUpload 
-            userId={user.id} 
-            onUploadSuccess={handleUploadSuccess}
-          />
+          {batchUpload ? (
+            <BatchDocumentUpload
+              userId={user.id}
+              onUploadSuccess={handleUploadSuccess}
+            />
+          ) : (
+            <DocumentUpload 
+              userId={user.id} 
+              onUploadSuccess={handleUploadSuccess}
+            />
+          )}
         </Suspense>
       </div>
       
@@ -526,6 +609,11 @@ function PilotDashboard({ user }: { user: UserWithRole }) {
           />
         </Suspense>
       </div>
+
+      {/* Deleted documents */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DocumentTrash userRole="pilot" />
+      </Suspense>
     </div>
   )
 }
@@ -580,6 +668,11 @@ function AdminDashboardWrapper({ user }: { user: UserWithRole }) {
       }>
         <AuditLog user={user as any} /> {/* eslint-disable-line @typescript-eslint/no-explicit-any */}
       </Suspense>
+
+      {/* Dossier Export */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DossierExport />
+      </Suspense>
       
       {/* All Documents List for Admin with Search */}
       <Suspense fallback={<DocumentListSkeleton />}>
@@ -589,6 +682,21 @@ function AdminDashboardWrapper({ user }: { user: UserWithRole }) {
           refreshTrigger={dashboardRefreshTrigger}
         />
       </Suspense>
+
+      {/* Trash */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DocumentTrash userRole="admin" onRestore={handleDocumentUpdate} />
+      </Suspense>
+
+      {/* Legal Holds */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <LegalHolds userRole="admin" />
+      </Suspense>
+
+      {/* Document Types */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DocumentTypeRegistry />
+      </Suspense>
     </div>
   )
 }
@@ -621,12 +729,27 @@ function InspectorDashboard({ user }: { user: UserWithRole }) {
       }>
         <AuditLog user={user as any} /> {/* eslint-disable-line @typescript-eslint/no-explicit-any */}
       </Suspense>
+
+      {/* Dossier Export */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DossierExport />
+      </Suspense>
       
       {/* All Documents List for Inspector (Read-only) with Search */}
       <DocumentsListWithSearch 
         userId={user.id}
         userRole="inspector"
       />
+
+      {/* Trash (read-only) */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <DocumentTrash userRole="inspector" />
+      </Suspense>
+
+      {/* Legal Holds (read-only) */}
+      <Suspense fallback={<DashboardStatsSkeleton />}>
+        <LegalHolds userRole="inspector" />
+      </Suspense>
     </div>
   )
 }
\ No newline at end of file
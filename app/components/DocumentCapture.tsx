@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import {
+  CameraIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  TrashIcon,
+  ScissorsIcon
+} from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { processCapturedImage, assemblePdf, CapturedPage } from '../../lib/imageCapture'
+
+interface DocumentCaptureProps {
+  // Receives a JPEG for a single page, or a PDF combining several
+  onCaptured: (file: File) => void
+  disabled?: boolean
+}
+
+interface CapturePage {
+  id: string
+  source: File
+  page: CapturedPage
+  previewUrl: string
+}
+
+// Camera capture for phones: each photo is straightened, cropped to the
+// page and recompressed in the browser, so uploads stay well under the size
+// limit. Several photos can be combined into one PDF.
+export default function DocumentCapture({ onCaptured, disabled = false }: DocumentCaptureProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [pages, setPages] = useState<CapturePage[]>([])
+  const [processing, setProcessing] = useState(false)
+
+  // Preview URLs are released when pages are removed and on unmount
+  const pagesRef = useRef(pages)
+  pagesRef.current = pages
+  useEffect(() => {
+    return () => pagesRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl))
+  }, [])
+
+  const toCapturePage = async (source: File, autoCrop: boolean): Promise<CapturePage> => {
+    const page = await processCapturedImage(source, { autoCrop })
+    return {
+      id: crypto.randomUUID(),
+      source,
+      page,
+      previewUrl: URL.createObjectURL(page.blob)
+    }
+  }
+
+  const handlePhotos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    setProcessing(true)
+    try {
+      const added: CapturePage[] = []
+      for (const file of Array.from(files)) {
+        if (!file.type.startsWith('image/')) {
+          toast.error(`${file.name} is not a photo`)
+          continue
+        }
+        added.push(await toCapturePage(file, true))
+      }
+      setPages(prev => [...prev, ...added])
+    } catch (error) {
+      console.error('Error processing photo:', error)
+      toast.error('Could not process this photo')
+    } finally {
+      setProcessing(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  // Switch a page between the detected crop and the full photo
+  const toggleCrop = async (item: CapturePage) => {
+    setProcessing(true)
+    try {
+      const replacement = await toCapturePage(item.source, !item.page.cropped)
+      if (item.page.cropped === replacement.page.cropped) {
+        toast.error('No page edges found in this photo')
+        URL.revokeObjectURL(replacement.previewUrl)
+        return
+      }
+      URL.revokeObjectURL(item.previewUrl)
+      setPages(prev => prev.map(existing => (existing.id === item.id ? replacement : existing)))
+    } catch (error) {
+      console.error('Error processing photo:', error)
+      toast.error('Could not process this photo')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const removePage = (item: CapturePage) => {
+    URL.revokeObjectURL(item.previewUrl)
+    setPages(prev => prev.filter(existing => existing.id !== item.id))
+  }
+
+  const movePage = (index: number, offset: number) => {
+    setPages(prev => {
+      const reordered = [...prev]
+      const [moved] = reordered.splice(index, 1)
+      reordered.splice(index + offset, 0, moved)
+      return reordered
+    })
+  }
+
+  const handleDone = async () => {
+    if (pages.length === 0) return
+
+    setProcessing(true)
+    try {
+      const baseName = `scan-${format(new Date(), 'yyyyMMdd-HHmm')}`
+      const file = pages.length === 1
+        ? new File([pages[0].page.blob], `${baseName}.jpg`, { type: 'image/jpeg' })
+        : await assemblePdf(pages.map(item => item.page), `${baseName}.pdf`)
+
+      onCaptured(file)
+    } catch (error) {
+      console.error('Error combining pages:', error)
+      toast.error('Could not create the document from these photos')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const totalSize = pages.reduce((sum, item) => sum + item.page.blob.size, 0)
+  const pageButton = 'p-2 text-gray-500 hover:text-gray-800 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed min-h-[44px] min-w-[44px] touch-manipulation flex items-center justify-center'
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={(e) => handlePhotos(e.target.files)}
+      />
+
+      {pages.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-300 rounded-lg">
+          {pages.map((item, index) => (
+            <li key={item.id} className="flex items-center p-2">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={item.previewUrl}
+                alt={`Page ${index + 1}`}
+                className="h-16 w-12 object-cover rounded border border-gray-200 bg-gray-50"
+              />
+              <div className="ml-3 flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900">Page {index + 1}</p>
+                <p className="text-xs text-gray-500">
+                  {(item.page.blob.size / 1024).toFixed(0)} KB
+                  {item.page.cropped ? ' · cropped' : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => toggleCrop(item)}
+                disabled={processing || disabled}
+                className={`${pageButton} ${item.page.cropped ? 'text-blue-600' : ''}`}
+                title={item.page.cropped ? 'Use the full photo' : 'Crop to the page'}
+              >
+                <ScissorsIcon className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => movePage(index, -1)}
+                disabled={index === 0 || processing || disabled}
+                className={pageButton}
+                title="Move up"
+              >
+                <ChevronUpIcon className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => movePage(index, 1)}
+                disabled={index === pages.length - 1 || processing || disabled}
+                className={pageButton}
+                title="Move down"
+              >
+                <ChevronDownIcon className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => removePage(item)}
+                disabled={processing || disabled}
+                className={`${pageButton} hover:text-red-600`}
+                title="Remove page"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={processing || disabled}
+        className="w-full border-2 border-dashed border-gray-300 hover:border-gray-400 rounded-lg p-6 text-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+      >
+        {processing ? (
+          <div className="flex items-center justify-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Processing...</span>
+          </div>
+        ) : (
+          <>
+            <CameraIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-600">
+              {pages.length === 0 ? 'Take a photo of the document' : 'Add another page'}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Photos are cropped to the page and compressed before upload
+            </p>
+          </>
+        )}
+      </button>
+
+      {pages.length > 0 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {pages.length} page{pages.length !== 1 ? 's' : ''}, {(totalSize / 1024 / 1024).toFixed(2)} MB
+          </span>
+          <button
+            onClick={handleDone}
+            disabled={processing || disabled}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors min-h-[44px] touch-manipulation"
+          >
+            {pages.length === 1 ? 'Use photo' : 'Combine into PDF'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
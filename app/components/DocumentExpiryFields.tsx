@@ -0,0 +1,107 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { DocumentTypeDefinition } from '../../lib/documentTypes'
+import { computeExpiryDate, canDeriveExpiry, needsDateOfBirth } from '../../lib/validityRules'
+
+interface DocumentExpiryFieldsProps {
+  definition: DocumentTypeDefinition | null
+  issueDate: string
+  expiryDate: string
+  dateOfBirth: string
+  onIssueDateChange: (value: string) => void
+  onExpiryDateChange: (value: string) => void
+  onDateOfBirthChange: (value: string) => void
+  disabled?: boolean
+}
+
+// Issue and expiry date inputs of the upload forms. Shows the expiry the
+// type's validity rules give, which is used when the expiry is left empty,
+// and warns when an entered expiry differs from it.
+export default function DocumentExpiryFields({
+  definition,
+  issueDate,
+  expiryDate,
+  dateOfBirth,
+  onIssueDateChange,
+  onExpiryDateChange,
+  onDateOfBirthChange,
+  disabled = false
+}: DocumentExpiryFieldsProps) {
+  const computed = computeExpiryDate(definition, { issueDate, dateOfBirth })
+  const expiryOptional = !definition?.expiry_required || canDeriveExpiry(definition)
+  const mismatch = Boolean(computed && expiryDate && expiryDate !== computed.expiryDate)
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100'
+
+  return (
+    <div className="space-y-4">
+      {canDeriveExpiry(definition) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="issueDate" className="block text-sm font-medium text-gray-700">
+              Issue Date (Optional)
+            </label>
+            <input
+              type="date"
+              id="issueDate"
+              value={issueDate}
+              onChange={(e) => onIssueDateChange(e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500">Today if left empty</p>
+          </div>
+
+          {needsDateOfBirth(definition) && (
+            <div>
+              <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
+                Your Date of Birth
+              </label>
+              <input
+                type="date"
+                id="dateOfBirth"
+                value={dateOfBirth}
+                onChange={(e) => onDateOfBirthChange(e.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                How long a {definition!.label.toLowerCase()} is valid depends on your age
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700">
+          Expiry Date{expiryOptional ? ' (Optional)' : ''}
+        </label>
+        <input
+          type="date"
+          id="expiryDate"
+          value={expiryDate}
+          onChange={(e) => onExpiryDateChange(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        />
+        {computed && !mismatch && (
+          <p className="mt-1 text-xs text-gray-500">
+            {expiryDate ? 'Matches' : 'Defaults to'} {format(parseISO(computed.expiryDate), 'MMM d, yyyy')} ({computed.description})
+          </p>
+        )}
+        {computed && mismatch && (
+          <p className="mt-1 flex items-start text-xs text-yellow-700">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+            <span>
+              The rules for this type give {format(parseISO(computed.expiryDate), 'MMM d, yyyy')} ({computed.description}).
+              {' '}A reviewer will check the date you entered.
+            </span>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
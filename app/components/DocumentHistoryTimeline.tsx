@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react'
+import {
+  XMarkIcon,
+  EyeIcon,
+  ClockIcon,
+  CalendarDaysIcon
+} from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import {
+  getDocumentHistory,
+  getVersionCurrentAt,
+  DocumentWithPilot
+} from '../../lib/documents'
+import DocumentViewer from './DocumentViewer'
+
+interface DocumentHistoryTimelineProps {
+  documentId: string | null
+  onClose: () => void
+}
+
+export default function DocumentHistoryTimeline({ documentId, onClose }: DocumentHistoryTimelineProps) {
+  const [history, setHistory] = useState<DocumentWithPilot[]>([])
+  const [loading, setLoading] = useState(false)
+  const [viewerVersionId, setViewerVersionId] = useState<string | null>(null)
+  const [asOfDate, setAsOfDate] = useState('')
+
+  useEffect(() => {
+    if (!documentId) return
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true)
+        setHistory(await getDocumentHistory(documentId))
+      } catch (error) {
+        console.error('Error loading document history:', error)
+        toast.error('Failed to load document history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    setAsOfDate('')
+    setViewerVersionId(null)
+    loadHistory()
+  }, [documentId])
+
+  // Version that was current at the end of the selected day
+  const versionAsOf = useMemo(() => {
+    if (!asOfDate) return null
+    const endOfDay = new Date(`${asOfDate}T23:59:59.999`)
+    return getVersionCurrentAt(history, endOfDay)
+  }, [history, asOfDate])
+
+  const getStatusColor = (status: DocumentWithPilot['status']) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-100 text-green-800'
+      case 'rejected':
+        return 'bg-red-100 text-red-800'
+      case 'expired':
+        return 'bg-orange-100 text-orange-800'
+      case 'quarantined':
+        return 'bg-purple-100 text-purple-800'
+      default:
+        return 'bg-yellow-100 text-yellow-800'
+    }
+  }
+
+  return (
+    <Dialog open={documentId !== null} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="w-full max-w-lg bg-white rounded-xl shadow-xl max-h-[85vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <DialogTitle className="text-lg font-semibold text-gray-900">
+              Revision History
+            </DialogTitle>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg min-h-[44px] min-w-[44px] touch-manipulation"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* As-of date lookup */}
+          <div className="px-6 py-3 bg-gray-50 border-b border-gray-200">
+            <label htmlFor="asOfDate" className="flex items-center text-xs font-medium text-gray-700 mb-1">
+              <CalendarDaysIcon className="h-4 w-4 mr-1" />
+              Show version current on
+            </label>
+            <input
+              type="date"
+              id="asOfDate"
+              value={asOfDate}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            {asOfDate && !loading && (
+              <p className="mt-1 text-xs text-gray-600">
+                {versionAsOf
+                  ? `Version ${versionAsOf.version_number} was current on ${format(new Date(asOfDate), 'MMM d, yyyy')}`
+                  : `No version was on file on ${format(new Date(asOfDate), 'MMM d, yyyy')}`}
+              </p>
+            )}
+          </div>
+
+          {/* Timeline */}
+          <div className="overflow-y-auto px-6 py-4">
+            {loading ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                <span className="ml-2 text-gray-600">Loading history...</span>
+              </div>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-2">
+                {history.map((version) => (
+                  <li
+                    key={version.id}
+                    className={`mb-6 ml-4 p-3 rounded-lg ${
+                      versionAsOf?.id === version.id ? 'bg-blue-50 border border-blue-200' : ''
+                    }`}
+                  >
+                    <div className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 border border-white ${
+                      version.is_current ? 'bg-blue-600' : 'bg-gray-300'
+                    }`}></div>
+
+                    <div className="flex items-start justify-between">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-semibold text-gray-900">
+                            Version {version.version_number}
+                          </span>
+                          {version.is_current && (
+                            <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              Current
+                            </span>
+                          )}
+                          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(version.status)}`}>
+                            {version.status}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-700 truncate mt-1">{version.title}</p>
+                        <div className="flex items-center text-xs text-gray-500 mt-1">
+                          <ClockIcon className="h-3 w-3 mr-1" />
+                          {version.current_from ? (
+                            <span>
+                              {format(new Date(version.current_from), 'MMM d, yyyy')}
+                              {' – '}
+                              {version.superseded_at
+                                ? format(new Date(version.superseded_at), 'MMM d, yyyy')
+                                : 'present'}
+                            </span>
+                          ) : (
+                            <span>
+                              Uploaded {format(new Date(version.upload_date), 'MMM d, yyyy')}
+                              {version.superseded_at ? ', never current' : ', awaiting approval'}
+                            </span>
+                          )}
+                        </div>
+                        {version.expiry_date && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Expires {format(new Date(version.expiry_date), 'MMM d, yyyy')}
+                          </p>
+                        )}
+                      </div>
+
+                      <button
+                        onClick={() => setViewerVersionId(version.id)}
+                        className="p-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg min-h-[44px] min-w-[44px] touch-manipulation"
+                        title="View this version"
+                      >
+                        <EyeIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Opens on top of the timeline, which stays in place behind it */}
+          <DocumentViewer
+            documentId={viewerVersionId}
+            onClose={() => setViewerVersionId(null)}
+          />
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
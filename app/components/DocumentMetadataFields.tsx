@@ -0,0 +1,80 @@
+'use client'
+
+import { MetadataFieldDefinition } from '../../lib/documentMetadata'
+
+interface DocumentMetadataFieldsProps {
+  fields: MetadataFieldDefinition[]
+  values: Record<string, string>
+  onChange: (key: string, value: string) => void
+  errors?: Record<string, string>
+  disabled?: boolean
+  // Prefix for input ids, so several forms can share a page
+  idPrefix?: string
+}
+
+// Inputs for a document type's custom fields, rendered from its definition
+export default function DocumentMetadataFields({
+  fields,
+  values,
+  onChange,
+  errors = {},
+  disabled = false,
+  idPrefix = 'metadata'
+}: DocumentMetadataFieldsProps) {
+  if (fields.length === 0) return null
+
+  const inputClassName = (key: string) =>
+    `mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 ${
+      errors[key] ? 'border-red-300' : 'border-gray-300'
+    }`
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.key}`
+        const value = values[field.key] || ''
+
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+              {field.label}{field.required ? '' : ' (Optional)'}
+            </label>
+            {field.type === 'enum' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                disabled={disabled}
+                className={inputClassName(field.key)}
+              >
+                <option value="">Select...</option>
+                {(field.options || []).map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={id}
+                type={field.type === 'text' ? 'text' : field.type}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                disabled={disabled}
+                min={field.type === 'number' ? field.min : undefined}
+                max={field.type === 'number' ? field.max : undefined}
+                step={field.type === 'number' ? 'any' : undefined}
+                className={inputClassName(field.key)}
+              />
+            )}
+            {errors[field.key] ? (
+              <p className="mt-1 text-xs text-red-600">{errors[field.key]}</p>
+            ) : field.help ? (
+              <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+            ) : null}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
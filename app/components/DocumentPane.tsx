@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  MagnifyingGlassPlusIcon,
+  MagnifyingGlassMinusIcon,
+  ArrowPathRoundedSquareIcon
+} from '@heroicons/react/24/outline'
+import { openPdf } from '../../lib/pdf'
+
+interface DocumentPaneProps {
+  url: string
+  fileType: string | null
+  title: string
+  // Shown above the toolbar, e.g. "Version 2"
+  label?: string
+}
+
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 4
+const ZOOM_STEP = 0.25
+
+// Renders one document: PDFs page by page through PDF.js, images directly.
+// Each pane keeps its own page, zoom and rotation so two can be compared.
+export default function DocumentPane({ url, fileType, title, label }: DocumentPaneProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [zoom, setZoom] = useState(1)
+  const [rotation, setRotation] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const isPdf = fileType === 'application/pdf'
+
+  // Load the PDF. Parents key panes by URL, so a new file starts a fresh pane.
+  useEffect(() => {
+    if (!isPdf) return
+
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+
+    openPdf(url)
+      .then(pdfDocument => {
+        loaded = pdfDocument
+        if (!cancelled) setPdf(pdfDocument)
+      })
+      .catch(loadError => {
+        console.error('Error loading PDF:', loadError)
+        if (!cancelled) {
+          setError('Could not load this PDF')
+          setLoading(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [url, isPdf])
+
+  // Draw the current page at the current zoom and rotation
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return
+
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    pdf.getPage(pageNumber)
+      .then(page => {
+        const canvas = canvasRef.current
+        if (cancelled || !canvas) return
+
+        // Render at device resolution so text stays sharp on high-DPI screens
+        const outputScale = window.devicePixelRatio || 1
+        const viewport = page.getViewport({ scale: zoom * outputScale, rotation })
+        canvas.width = Math.floor(viewport.width)
+        canvas.height = Math.floor(viewport.height)
+        canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`
+        canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`
+
+        renderTask = page.render({ canvas, viewport })
+        return renderTask.promise
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false)
+      })
+      .catch(renderError => {
+        if (cancelled || renderError?.name === 'RenderingCancelledException') return
+        console.error('Error rendering PDF page:', renderError)
+        setError('Could not display this page')
+        setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber, zoom, rotation])
+
+  const pageCount = pdf?.numPages || 1
+
+  const changeZoom = (delta: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev + delta)))
+  }
+
+  const toolbarButton = 'p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed min-h-[44px] min-w-[44px] touch-manipulation flex items-center justify-center'
+
+  return (
+    <div className="flex flex-col min-h-0 h-full border border-gray-200 rounded-lg overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-2 bg-gray-50 border-b border-gray-200">
+        <div className="flex items-center">
+          {label && (
+            <span className="px-2 text-xs font-medium text-gray-700 whitespace-nowrap">{label}</span>
+          )}
+          {isPdf && (
+            <>
+              <button
+                onClick={() => setPageNumber(prev => prev - 1)}
+                disabled={pageNumber <= 1}
+                className={toolbarButton}
+                title="Previous page"
+              >
+                <ChevronLeftIcon className="h-4 w-4" />
+              </button>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {pageNumber} / {pageCount}
+              </span>
+              <button
+                onClick={() => setPageNumber(prev => prev + 1)}
+                disabled={pageNumber >= pageCount}
+                className={toolbarButton}
+                title="Next page"
+              >
+                <ChevronRightIcon className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center">
+          <button
+            onClick={() => changeZoom(-ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+            className={toolbarButton}
+            title="Zoom out"
+          >
+            <MagnifyingGlassMinusIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setZoom(1)}
+            className="px-1 text-xs text-gray-600 hover:text-gray-900 min-w-[44px] min-h-[44px] touch-manipulation"
+            title="Reset zoom"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            className={toolbarButton}
+            title="Zoom in"
+          >
+            <MagnifyingGlassPlusIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setRotation(prev => (prev + 90) % 360)}
+            className={toolbarButton}
+            title="Rotate"
+          >
+            <ArrowPathRoundedSquareIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Document */}
+      <div className="relative flex-1 min-h-[300px] overflow-auto bg-gray-100">
+        {loading && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {error ? (
+          <div className="flex items-center justify-center h-full p-6 text-sm text-gray-600">
+            {error}
+          </div>
+        ) : isPdf ? (
+          <div className="p-4 w-max mx-auto">
+            <canvas ref={canvasRef} className="shadow bg-white" />
+          </div>
+        ) : (
+          <div className="p-4 flex items-center justify-center min-h-full">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={url}
+              alt={title}
+              onLoad={() => setLoading(false)}
+              onError={() => {
+                setError('Could not load this image')
+                setLoading(false)
+              }}
+              className="shadow bg-white max-w-none transition-transform"
+              style={{ width: `${zoom * 100}%`, transform: `rotate(${rotation}deg)` }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
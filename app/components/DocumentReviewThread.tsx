@@ -0,0 +1,184 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  CheckCircleIcon,
+  XCircleIcon,
+  ArrowPathIcon,
+  ChatBubbleLeftRightIcon
+} from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import {
+  fetchDocumentReviews,
+  addReviewComment,
+  DocumentReview
+} from '../../lib/reviews'
+import { resubmitDocument, DocumentStatus } from '../../lib/documents'
+
+interface DocumentReviewThreadProps {
+  documentId: string
+  documentStatus: DocumentStatus
+  userRole: 'pilot' | 'admin' | 'inspector'
+  onResubmitted?: () => void
+}
+
+export default function DocumentReviewThread({
+  documentId,
+  documentStatus,
+  userRole,
+  onResubmitted
+}: DocumentReviewThreadProps) {
+  const [reviews, setReviews] = useState<DocumentReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reply, setReply] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true)
+      setReviews(await fetchDocumentReviews(documentId))
+    } catch (error) {
+      console.error('Error loading review thread:', error)
+      toast.error('Failed to load comments')
+    } finally {
+      setLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  const handleReply = async () => {
+    if (!reply.trim()) return
+
+    try {
+      setSubmitting(true)
+      await addReviewComment(documentId, reply)
+      setReply('')
+      loadReviews()
+    } catch (error) {
+      console.error('Error posting comment:', error)
+      toast.error('Failed to post comment')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleResubmit = async () => {
+    try {
+      setSubmitting(true)
+      await resubmitDocument(documentId, reply)
+      toast.success('Document resubmitted for review')
+      setReply('')
+      loadReviews()
+      onResubmitted?.()
+    } catch (error) {
+      console.error('Error resubmitting document:', error)
+      toast.error('Failed to resubmit document')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const getDecisionIcon = (decision: DocumentReview['decision']) => {
+    switch (decision) {
+      case 'approved':
+        return <CheckCircleIcon className="h-4 w-4 text-green-500" />
+      case 'rejected':
+        return <XCircleIcon className="h-4 w-4 text-red-500" />
+      case 'resubmitted':
+        return <ArrowPathIcon className="h-4 w-4 text-blue-500" />
+      default:
+        return <ChatBubbleLeftRightIcon className="h-4 w-4 text-gray-400" />
+    }
+  }
+
+  const getDecisionText = (decision: DocumentReview['decision']) => {
+    switch (decision) {
+      case 'approved':
+        return 'approved the document'
+      case 'rejected':
+        return 'rejected the document'
+      case 'resubmitted':
+        return 'resubmitted for review'
+      default:
+        return 'commented'
+    }
+  }
+
+  const canResubmit = userRole === 'pilot' && documentStatus === 'rejected'
+
+  if (loading) {
+    return (
+      <div className="flex items-center py-3 text-sm text-gray-500">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+        Loading comments...
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+      {reviews.length === 0 ? (
+        <p className="text-xs text-gray-500">No comments yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {reviews.map((review) => (
+            <li key={review.id} className="flex items-start space-x-2">
+              <div className="mt-0.5">{getDecisionIcon(review.decision)}</div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-900">{review.author_email || 'Unknown'}</span>
+                  {review.author_role && (
+                    <span className="ml-1 capitalize">({review.author_role})</span>
+                  )}
+                  <span className="ml-1">{getDecisionText(review.decision)}</span>
+                  <span className="ml-1">· {format(new Date(review.created_at), 'MMM d, yyyy HH:mm')}</span>
+                </p>
+                {review.reason && (
+                  <p className="text-sm text-red-700 mt-0.5">
+                    <span className="font-medium">Reason:</span> {review.reason}
+                  </p>
+                )}
+                {review.comment && (
+                  <p className="text-sm text-gray-700 mt-0.5 whitespace-pre-wrap">{review.comment}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Reply */}
+      <div className="space-y-2">
+        <textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          rows={2}
+          className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder={canResubmit ? 'Explain what you changed...' : 'Add a comment...'}
+        />
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={handleReply}
+            disabled={!reply.trim() || submitting}
+            className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Comment
+          </button>
+          {canResubmit && (
+            <button
+              onClick={handleResubmit}
+              disabled={submitting}
+              className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Resubmit for Review
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
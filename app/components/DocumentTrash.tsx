@@ -0,0 +1,170 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  TrashIcon,
+  ArrowUturnLeftIcon,
+  ChevronDownIcon,
+  ChevronUpIcon
+} from '@heroicons/react/24/outline'
+import { format, addDays } from 'date-fns'
+import toast from 'react-hot-toast'
+import {
+  fetchTrashedDocuments,
+  restoreTrashedDocument,
+  purgeTrashedDocument,
+  DocumentWithPilot
+} from '../../lib/documents'
+import { useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
+
+interface DocumentTrashProps {
+  userRole: 'pilot' | 'admin' | 'inspector'
+  // Called after a document is restored so document lists can reload
+  onRestore?: () => void
+}
+
+// Deleted documents, kept until they are purged. Pilots see their own,
+// admins and inspectors see everyone's; only admins can restore or purge.
+export default function DocumentTrash({ userRole, onRestore }: DocumentTrashProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
+  const [open, setOpen] = useState(false)
+  const [documents, setDocuments] = useState<DocumentWithPilot[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const canManage = userRole === 'admin'
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await fetchTrashedDocuments()
+      setDocuments(result.documents)
+      setRetentionDays(result.retentionDays)
+    } catch (error) {
+      console.error('Error loading trash:', error)
+      toast.error('Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Reload on every open so documents deleted elsewhere on the page show up
+  useEffect(() => {
+    if (open) loadTrash()
+  }, [open, loadTrash])
+
+  const handleRestore = async (document: DocumentWithPilot) => {
+    setBusyId(document.id)
+    try {
+      await restoreTrashedDocument(document.id)
+      setDocuments(prev => prev.filter(doc => doc.id !== document.id))
+      toast.success('Document restored')
+      onRestore?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore document')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (document: DocumentWithPilot) => {
+    if (!confirm(`Permanently delete the file of "${document.title}"? This cannot be undone.`)) {
+      return
+    }
+
+    setBusyId(document.id)
+    try {
+      await purgeTrashedDocument(document.id)
+      setDocuments(prev => prev.filter(doc => doc.id !== document.id))
+      toast.success('Document purged')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to purge document')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 min-h-[44px] touch-manipulation"
+      >
+        <div className="flex items-center">
+          <TrashIcon className="h-5 w-5 text-gray-400 mr-3" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Trash</h2>
+            <p className="text-sm text-gray-600">
+              {canManage
+                ? 'Restore deleted documents or remove them permanently'
+                : 'Deleted documents can be restored by an administrator'}
+              {retentionDays !== null && ` · purged automatically after ${retentionDays} days`}
+            </p>
+          </div>
+        </div>
+        {open ? (
+          <ChevronUpIcon className="h-5 w-5 text-gray-400" />
+        ) : (
+          <ChevronDownIcon className="h-5 w-5 text-gray-400" />
+        )}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200">
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+              ))}
+            </div>
+          ) : documents.length === 0 ? (
+            <div className="text-center py-6 text-gray-500 text-sm">The trash is empty</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {documents.map((document) => (
+                <li key={document.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {document.title}
+                      <span className="ml-2 text-xs text-gray-500">v{document.version_number}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {userRole !== 'pilot' && `${document.pilots.first_name} ${document.pilots.last_name} · `}
+                      {formatDocumentType(document.document_type, documentTypes)}
+                      {document.deleted_at && ` · Deleted ${format(new Date(document.deleted_at), 'MMM dd, yyyy')}`}
+                      {document.deleted_at && retentionDays !== null &&
+                        ` · Purged ${format(addDays(new Date(document.deleted_at), retentionDays), 'MMM dd, yyyy')}`}
+                    </p>
+                  </div>
+
+                  {canManage && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleRestore(document)}
+                        disabled={busyId === document.id}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePurge(document)}
+                        disabled={busyId === document.id}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+                      >
+                        <TrashIcon className="h-4 w-4 mr-1" />
+                        Delete forever
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,370 @@
+'use client'
+
+import { useState } from 'react'
+import { RectangleStackIcon, ChevronDownIcon, ChevronUpIcon, PlusIcon, PencilSquareIcon } from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  createDocumentType,
+  updateDocumentType,
+  describeAllowedFileTypes,
+  SUPPORTED_FILE_TYPES,
+  DEFAULT_ALLOWED_MIME_TYPES,
+  DOCUMENT_TYPE_CODE_PATTERN,
+  DocumentTypeDefinition,
+  DocumentTypeInput
+} from '../../lib/documentTypes'
+import { validateMetadataFieldDefinitions } from '../../lib/documentMetadata'
+import { validateValidityRules } from '../../lib/validityRules'
+import { useDocumentTypes } from '../hooks/useDocuments'
+import MetadataFieldsEditor, { MetadataFieldDraft, toFieldDraft, fromFieldDraft } from './MetadataFieldsEditor'
+import ValidityRulesEditor, { ValidityRuleDraft, toRuleDraft, fromRuleDraft } from './ValidityRulesEditor'
+
+const EMPTY_FORM: DocumentTypeInput = {
+  code: '',
+  label: '',
+  description: null,
+  expiry_required: false,
+  default_validity_days: null,
+  allowed_mime_types: DEFAULT_ALLOWED_MIME_TYPES,
+  max_file_size_mb: 10,
+  sort_order: 0,
+  is_active: true,
+  metadata_fields: [],
+  validity_rules: []
+}
+
+// Lets admins manage the document types pilots can upload: labels, expiry
+// and validity rules, accepted files and custom fields. Types are
+// deactivated rather than deleted so existing documents keep theirs.
+export default function DocumentTypeRegistry() {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const { data: documentTypes = [], isLoading } = useDocumentTypes({ includeInactive: true })
+
+  // null when no form is open; editingCode is null for a new type
+  const [form, setForm] = useState<DocumentTypeInput | null>(null)
+  const [editingCode, setEditingCode] = useState<string | null>(null)
+  const [fieldDrafts, setFieldDrafts] = useState<MetadataFieldDraft[]>([])
+  const [ruleDrafts, setRuleDrafts] = useState<ValidityRuleDraft[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const startCreate = () => {
+    setEditingCode(null)
+    setFieldDrafts([])
+    setRuleDrafts([])
+    setForm({
+      ...EMPTY_FORM,
+      sort_order: Math.max(0, ...documentTypes.map(type => type.sort_order)) + 10
+    })
+  }
+
+  const startEdit = (type: DocumentTypeDefinition) => {
+    setEditingCode(type.code)
+    setFieldDrafts(type.metadata_fields.map(toFieldDraft))
+    setRuleDrafts(type.validity_rules.map(toRuleDraft))
+    setForm({
+      code: type.code,
+      label: type.label,
+      description: type.description,
+      expiry_required: type.expiry_required,
+      default_validity_days: type.default_validity_days,
+      allowed_mime_types: type.allowed_mime_types,
+      max_file_size_mb: type.max_file_size_mb,
+      sort_order: type.sort_order,
+      is_active: type.is_active,
+      metadata_fields: type.metadata_fields,
+      validity_rules: type.validity_rules
+    })
+  }
+
+  const updateForm = (changes: Partial<DocumentTypeInput>) => {
+    setForm(prev => (prev ? { ...prev, ...changes } : prev))
+  }
+
+  const toggleMimeType = (mimeType: string) => {
+    if (!form) return
+    const allowed = form.allowed_mime_types.includes(mimeType)
+      ? form.allowed_mime_types.filter(type => type !== mimeType)
+      : [...form.allowed_mime_types, mimeType]
+    updateForm({ allowed_mime_types: allowed })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+
+    if (!form.label.trim()) {
+      toast.error('Please enter a label')
+      return
+    }
+    if (form.allowed_mime_types.length === 0) {
+      toast.error('Allow at least one file type')
+      return
+    }
+
+    const metadataFields = fieldDrafts.map(fromFieldDraft)
+    const fieldsError = validateMetadataFieldDefinitions(metadataFields)
+    if (fieldsError) {
+      toast.error(fieldsError)
+      return
+    }
+
+    const validityRules = ruleDrafts.map(fromRuleDraft)
+    const rulesError = validateValidityRules(validityRules)
+    if (rulesError) {
+      toast.error(rulesError)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { code, ...settings } = { ...form, metadata_fields: metadataFields, validity_rules: validityRules }
+      if (editingCode) {
+        await updateDocumentType(editingCode, { ...settings, label: settings.label.trim() })
+        toast.success('Document type updated')
+      } else {
+        await createDocumentType({ code, ...settings })
+        toast.success('Document type added')
+      }
+
+      setForm(null)
+      queryClient.invalidateQueries({ queryKey: ['documentTypes'] })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save document type')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 min-h-[44px] touch-manipulation"
+      >
+        <div className="flex items-center">
+          <RectangleStackIcon className="h-5 w-5 text-gray-400 mr-3" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Document Types</h2>
+            <p className="text-sm text-gray-600">
+              Which documents pilots can upload, their expiry rules and accepted files
+            </p>
+          </div>
+        </div>
+        {open ? (
+          <ChevronUpIcon className="h-5 w-5 text-gray-400" />
+        ) : (
+          <ChevronDownIcon className="h-5 w-5 text-gray-400" />
+        )}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200">
+          {form ? (
+            <form onSubmit={handleSave} className="px-6 py-4 bg-gray-50 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="type-code" className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <input
+                    id="type-code"
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => updateForm({ code: e.target.value.toLowerCase() })}
+                    disabled={Boolean(editingCode)}
+                    placeholder="e.g. type_rating"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 min-h-[44px]"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {editingCode
+                      ? 'Codes cannot change once created'
+                      : 'Lowercase letters, digits and underscores; cannot be changed later'}
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="type-label" className="block text-sm font-medium text-gray-700 mb-1">
+                    Label
+                  </label>
+                  <input
+                    id="type-label"
+                    type="text"
+                    value={form.label}
+                    onChange={(e) => updateForm({ label: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="type-description" className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <input
+                  id="type-description"
+                  type="text"
+                  value={form.description || ''}
+                  onChange={(e) => updateForm({ description: e.target.value || null })}
+                  placeholder="Shown to pilots when they upload"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="type-validity" className="block text-sm font-medium text-gray-700 mb-1">
+                    Default validity (days)
+                  </label>
+                  <input
+                    id="type-validity"
+                    type="number"
+                    min={1}
+                    value={form.default_validity_days ?? ''}
+                    onChange={(e) => updateForm({ default_validity_days: e.target.value ? parseInt(e.target.value, 10) : null })}
+                    placeholder="None"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="type-size" className="block text-sm font-medium text-gray-700 mb-1">
+                    Max file size (MB)
+                  </label>
+                  <input
+                    id="type-size"
+                    type="number"
+                    min={1}
+                    value={form.max_file_size_mb}
+                    onChange={(e) => updateForm({ max_file_size_mb: parseInt(e.target.value, 10) || 1 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="type-order" className="block text-sm font-medium text-gray-700 mb-1">
+                    Sort order
+                  </label>
+                  <input
+                    id="type-order"
+                    type="number"
+                    value={form.sort_order}
+                    onChange={(e) => updateForm({ sort_order: parseInt(e.target.value, 10) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700">
+                <span className="font-medium">Accepted files:</span>
+                {Object.entries(SUPPORTED_FILE_TYPES).map(([mimeType, { label }]) => (
+                  <label key={mimeType} className="inline-flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={form.allowed_mime_types.includes(mimeType)}
+                      onChange={() => toggleMimeType(mimeType)}
+                      className="mr-2 rounded border-gray-300"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700">
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.expiry_required}
+                    onChange={(e) => updateForm({ expiry_required: e.target.checked })}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  Expiry date required
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => updateForm({ is_active: e.target.checked })}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  Accepting uploads
+                </label>
+              </div>
+
+              <ValidityRulesEditor rules={ruleDrafts} onChange={setRuleDrafts} disabled={saving} />
+
+              <MetadataFieldsEditor fields={fieldDrafts} onChange={setFieldDrafts} disabled={saving} />
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={saving || !DOCUMENT_TYPE_CODE_PATTERN.test(form.code)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+                >
+                  {saving ? 'Saving...' : editingCode ? 'Save changes' : 'Add document type'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 min-h-[44px] touch-manipulation"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="px-6 py-3 flex justify-end">
+              <button
+                onClick={startCreate}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 min-h-[44px] touch-manipulation"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add document type
+              </button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="p-6 animate-pulse space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+              ))}
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 border-t border-gray-200">
+              {documentTypes.map(type => (
+                <li key={type.code} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {type.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{type.code}</span>
+                      {!type.is_active && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Inactive
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {describeAllowedFileTypes(type)} up to {type.max_file_size_mb}MB
+                      {type.expiry_required ? ' · expiry required' : ''}
+                      {type.default_validity_days ? ` · valid ${type.default_validity_days} days by default` : ''}
+                      {type.validity_rules.length > 0 ? ` · ${type.validity_rules.length} validity rule${type.validity_rules.length !== 1 ? 's' : ''}` : ''}
+                      {type.metadata_fields.length > 0 ? ` · ${type.metadata_fields.length} custom field${type.metadata_fields.length !== 1 ? 's' : ''}` : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => startEdit(type)}
+                    disabled={saving}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 min-h-[44px] touch-manipulation"
+                  >
+                    <PencilSquareIcon className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
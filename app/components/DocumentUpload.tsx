@@ -1,61 +1,219 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { uploadPilotDocument, validateFile } from '../../lib/storage'
-import { getOrCreatePilotRecord, saveDocumentMetadata } from '../../lib/documents'
+import {
+  uploadPilotDocumentResumable,
+  validateFile,
+  getInterruptedUploads,
+  discardInterruptedUpload,
+  InterruptedUpload
+} from '../../lib/storage'
+import {
+  getOrCreatePilotRecord,
+  completeDocumentUpload,
+  findDuplicateDocuments,
+  Document,
+  DocumentType
+} from '../../lib/documents'
+import {
+  getMaxFileSize,
+  getAcceptedFileTypes,
+  describeAllowedFileTypes,
+  formatDocumentType
+} from '../../lib/documentTypes'
+import { getMetadataFields, validateDocumentMetadata } from '../../lib/documentMetadata'
+import { computeExpiryDate, needsDateOfBirth, fetchPilotDateOfBirth, updatePilotDateOfBirth } from '../../lib/validityRules'
+import { extractDocumentText } from '../../lib/ocr'
+import {
+  suggestDocumentDetails,
+  DocumentSuggestions,
+  ExtractedText,
+  LICENCE_NUMBER_FIELD_KEYS
+} from '../../lib/documentExtraction'
+import { useDocumentTypes } from '../hooks/useDocuments'
+import { hashFile } from '../../lib/fileInspection'
 import { supabase } from '../../lib/supabase'
-import { CloudArrowUpIcon, DocumentIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { CloudArrowUpIcon, DocumentIcon, XMarkIcon, ArrowPathIcon, ExclamationTriangleIcon, CameraIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
 import toast from 'react-hot-toast'
+import DocumentCapture from './DocumentCapture'
+import DocumentMetadataFields from './DocumentMetadataFields'
+import DocumentExpiryFields from './DocumentExpiryFields'
+import ScanSuggestions from './ScanSuggestions'
 
 interface DocumentUploadProps {
   userId: string
   onUploadSuccess?: () => void
 }
 
-const DOCUMENT_TYPES = [
-  { value: 'noc', label: 'No Objection Certificate' },
-  { value: 'medical_certificate', label: 'Medical Certificate' },
-  { value: 'alcohol_test', label: 'Alcohol Test' },
-  { value: 'license_certification', label: 'License Certification' },
-  { value: 'training_records', label: 'Training Records' }
-] as const
-
-type DocumentType = typeof DOCUMENT_TYPES[number]['value']
-
 export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUploadProps) {
+  const { data: documentTypes = [] } = useDocumentTypes()
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [documentType, setDocumentType] = useState<DocumentType>('medical_certificate')
+  const [documentType, setDocumentType] = useState<DocumentType>('')
   const [title, setTitle] = useState('')
   const [expiryDate, setExpiryDate] = useState('')
+  const [issueDate, setIssueDate] = useState('')
+  // Age-dependent validity rules need the pilot's date of birth
+  const [dateOfBirth, setDateOfBirth] = useState('')
+  const [savedDateOfBirth, setSavedDateOfBirth] = useState('')
+  const [metadata, setMetadata] = useState<Record<string, string>>({})
+  const [metadataErrors, setMetadataErrors] = useState<Record<string, string>>({})
   const [uploading, setUploading] = useState(false)
+  const [progress, setProgress] = useState<{ uploaded: number; total: number } | null>(null)
+  const [interruptedUploads, setInterruptedUploads] = useState<InterruptedUpload[]>([])
+  const [duplicates, setDuplicates] = useState<Document[]>([])
+  const [captureMode, setCaptureMode] = useState(false)
+  // Text read from the selected file, used for suggestions and stored for search
+  const [extractedText, setExtractedText] = useState<ExtractedText | null>(null)
+  const [readingProgress, setReadingProgress] = useState<number | null>(null)
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false)
+
+  const definition = documentTypes.find(type => type.code === documentType) || null
+  const metadataFields = getMetadataFields(definition)
+
+  // Custom fields differ per type, so values entered for another type are dropped
+  const changeDocumentType = useCallback((code: DocumentType) => {
+    setDocumentType(code)
+    setMetadata({})
+    setMetadataErrors({})
+  }, [])
+
+  const updateMetadata = (key: string, value: string) => {
+    setMetadata(prev => ({ ...prev, [key]: value }))
+    setMetadataErrors(prev => ({ ...prev, [key]: '' }))
+  }
+
+  useEffect(() => {
+    fetchPilotDateOfBirth({ user_id: userId })
+      .then(value => {
+        setDateOfBirth(value || '')
+        setSavedDateOfBirth(value || '')
+      })
+      .catch(error => console.warn('Failed to load date of birth:', error))
+  }, [userId])
+
+  // Start with the first type once the registry has loaded
+  useEffect(() => {
+    if (!documentType && documentTypes.length > 0) {
+      setDocumentType(documentTypes[0].code)
+    }
+  }, [documentType, documentTypes])
+
+  // Uploads cut off by a lost connection or page reload can be picked up again
+  useEffect(() => {
+    getInterruptedUploads(userId).then(setInterruptedUploads)
+  }, [userId])
+
+  // Warn when the chosen file has been uploaded before
+  useEffect(() => {
+    setDuplicates([])
+    if (!selectedFile) return
+
+    let cancelled = false
+    hashFile(selectedFile)
+      .then(contentHash => findDuplicateDocuments(userId, contentHash))
+      .then(matches => {
+        if (!cancelled) setDuplicates(matches)
+      })
+      .catch(error => console.warn('Duplicate check failed:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedFile, userId])
+
+  // Read the chosen file's text in the browser to suggest its details
+  useEffect(() => {
+    setExtractedText(null)
+    setSuggestionsDismissed(false)
+    if (!selectedFile) return
+
+    let cancelled = false
+    setReadingProgress(0)
+    extractDocumentText(selectedFile, progress => {
+      if (!cancelled) setReadingProgress(progress)
+    })
+      .then(result => {
+        if (!cancelled) setExtractedText(result)
+      })
+      .catch(error => console.warn('Text extraction failed:', error))
+      .finally(() => {
+        if (!cancelled) setReadingProgress(null)
+      })
+
+    return () => {
+      cancelled = true
+      setReadingProgress(null)
+    }
+  }, [selectedFile])
+
+  const suggestions = useMemo<DocumentSuggestions | null>(() => {
+    if (!extractedText) return null
+    const found = suggestDocumentDetails(extractedText, documentTypes)
+    // A licence number is only offered when some type has a field for it
+    const hasLicenceField = documentTypes.some(type =>
+      getMetadataFields(type).some(field => LICENCE_NUMBER_FIELD_KEYS.includes(field.key))
+    )
+    return hasLicenceField ? found : { ...found, licenceNumber: undefined }
+  }, [extractedText, documentTypes])
+
+  const applySuggestions = (selected: DocumentSuggestions) => {
+    const targetType = selected.documentType?.value || documentType
+    if (targetType !== documentType) changeDocumentType(targetType)
+    if (selected.issueDate) setIssueDate(selected.issueDate.value)
+    if (selected.expiryDate) setExpiryDate(selected.expiryDate.value)
+
+    const licenceField = getMetadataFields(documentTypes.find(type => type.code === targetType))
+      .find(field => LICENCE_NUMBER_FIELD_KEYS.includes(field.key))
+    if (selected.licenceNumber && licenceField) {
+      updateMetadata(licenceField.key, selected.licenceNumber.value)
+    }
+
+    setSuggestionsDismissed(true)
+    toast.success('Details filled in; please check them before uploading')
+  }
+
+  const selectFile = useCallback((file: File) => {
+    // Selecting the file of an interrupted upload resumes it under its original type
+    const interrupted = interruptedUploads.find(upload =>
+      upload.originalName === file.name && upload.size === file.size
+    )
+    const targetType = interrupted?.documentType || documentType
+    const validation = validateFile(file, documentTypes.find(type => type.code === targetType))
+    
+    if (!validation.valid) {
+      toast.error(validation.error || 'Invalid file')
+      return
+    }
+    
+    if (interrupted) {
+      if (targetType !== documentType) changeDocumentType(targetType)
+      toast.success('This upload will continue where it left off')
+    }
+
+    setSelectedFile(file)
+    if (!title) {
+      setTitle(file.name.replace(/\.[^/.]+$/, ''))
+    }
+  }, [title, documentType, documentTypes, interruptedUploads, changeDocumentType])
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0]
-      const validation = validateFile(file)
-      
-      if (!validation.valid) {
-        toast.error(validation.error || 'Invalid file')
-        return
-      }
-      
-      setSelectedFile(file)
-      if (!title) {
-        setTitle(file.name.replace(/\.[^/.]+$/, ''))
-      }
+      selectFile(acceptedFiles[0])
     }
-  }, [title])
+  }, [selectFile])
+
+  const handleDiscardInterrupted = async (upload: InterruptedUpload) => {
+    await discardInterruptedUpload(upload)
+    setInterruptedUploads(prev => prev.filter(item => item.urlStorageKey !== upload.urlStorageKey))
+  }
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png']
-    },
+    accept: getAcceptedFileTypes(definition),
     maxFiles: 1,
-    maxSize: 10 * 1024 * 1024 // 10MB
+    maxSize: getMaxFileSize(definition)
   })
 
   const handleUpload = async () => {
@@ -64,16 +222,36 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
       return
     }
 
+    // The type may have changed since the file was chosen
+    const validation = validateFile(selectedFile, definition)
+    if (!validation.valid) {
+      toast.error(validation.error || 'Invalid file')
+      return
+    }
+
+    // When the expiry date is left empty it is derived from the type's validity rules
+    if (definition?.expiry_required && !expiryDate && !computeExpiryDate(definition, { issueDate, dateOfBirth })) {
+      toast.error(needsDateOfBirth(definition) && !dateOfBirth
+        ? 'Please enter your date of birth or the expiry date'
+        : `Please enter the expiry date of the ${definition.label.toLowerCase()}`)
+      return
+    }
+
+    const metadataCheck = validateDocumentMetadata(metadataFields, metadata)
+    if (!metadataCheck.valid) {
+      setMetadataErrors(metadataCheck.errors)
+      toast.error('Please complete the document details')
+      return
+    }
+
     setUploading(true)
+    setProgress({ uploaded: 0, total: selectedFile.size })
 
     try {
-      // Upload to storage
-      const uploadResult = await uploadPilotDocument(
-        selectedFile,
-        userId,
-        documentType,
-        `${documentType}_${Date.now()}.${selectedFile.name.split('.').pop()}`
-      )
+      // Upload to storage in resumable chunks
+      const uploadResult = await uploadPilotDocumentResumable(selectedFile, userId, documentType, {
+        onProgress: (uploaded, total) => setProgress({ uploaded, total })
+      })
 
       if (!uploadResult.success) {
         throw new Error(uploadResult.error)
@@ -100,15 +278,19 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
         pilotId = (existingPilot as { id: string }).id
       }
 
-      // Save document metadata to database using helper function
-      await saveDocumentMetadata(pilotId, {
+      if (needsDateOfBirth(definition) && dateOfBirth && dateOfBirth !== savedDateOfBirth) {
+        await updatePilotDateOfBirth(pilotId, dateOfBirth)
+        setSavedDateOfBirth(dateOfBirth)
+      }
+
+      // The server checks the stored file, records the document and scans it
+      await completeDocumentUpload(uploadResult.fullPath!, {
         document_type: documentType,
         title: title.trim(),
-        file_url: uploadResult.fullPath || uploadResult.path || '',
-        file_size: selectedFile.size,
-        file_type: selectedFile.type,
         expiry_date: expiryDate || undefined,
-        status: 'pending'
+        issue_date: issueDate || undefined,
+        metadata: metadataCheck.metadata,
+        extracted_text: extractedText?.text
       })
 
       toast.success('Document uploaded successfully!')
@@ -117,7 +299,8 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
       setSelectedFile(null)
       setTitle('')
       setExpiryDate('')
-      setDocumentType('medical_certificate')
+      setIssueDate('')
+      changeDocumentType(documentTypes[0]?.code || '')
       
       onUploadSuccess?.()
     } catch (error) {
@@ -125,6 +308,8 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
       toast.error(error instanceof Error ? error.message : 'Upload failed')
     } finally {
       setUploading(false)
+      setProgress(null)
+      getInterruptedUploads(userId).then(setInterruptedUploads)
     }
   }
 
@@ -139,6 +324,35 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
       </h3>
       
       <div className="space-y-4">
+        {/* Interrupted uploads */}
+        {interruptedUploads.length > 0 && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+            <div className="flex items-center text-sm font-medium text-yellow-800">
+              <ArrowPathIcon className="h-4 w-4 mr-2" />
+              Unfinished upload{interruptedUploads.length !== 1 ? 's' : ''}
+            </div>
+            <p className="text-xs text-yellow-700 mt-1">
+              Select the same file again to continue uploading.
+            </p>
+            <ul className="mt-2 space-y-1">
+              {interruptedUploads.map((upload) => (
+                <li key={upload.urlStorageKey} className="flex items-center justify-between text-sm text-yellow-900">
+                  <span className="truncate">
+                    {upload.originalName}
+                    {upload.size ? ` (${(upload.size / 1024 / 1024).toFixed(2)} MB)` : ''}
+                  </span>
+                  <button
+                    onClick={() => handleDiscardInterrupted(upload)}
+                    className="ml-3 text-xs text-yellow-700 hover:text-yellow-900 underline"
+                  >
+                    Discard
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Document Type Selection */}
         <div>
           <label htmlFor="documentType" className="block text-sm font-medium text-gray-700">
@@ -147,15 +361,18 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
           <select
             id="documentType"
             value={documentType}
-            onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+            onChange={(e) => changeDocumentType(e.target.value)}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           >
-            {DOCUMENT_TYPES.map((type) => (
-              <option key={type.value} value={type.value}>
+            {documentTypes.map((type) => (
+              <option key={type.code} value={type.code}>
                 {type.label}
               </option>
             ))}
           </select>
+          {definition?.description && (
+            <p className="mt-1 text-xs text-gray-500">{definition.description}</p>
+          )}
         </div>
 
         {/* Title Input */}
@@ -174,27 +391,60 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
           />
         </div>
 
-        {/* Expiry Date (Optional) */}
-        <div>
-          <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700">
-            Expiry Date (Optional)
-          </label>
-          <input
-            type="date"
-            id="expiryDate"
-            value={expiryDate}
-            onChange={(e) => setExpiryDate(e.target.value)}
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-          />
-        </div>
+        {/* Issue and Expiry Dates */}
+        <DocumentExpiryFields
+          definition={definition}
+          issueDate={issueDate}
+          expiryDate={expiryDate}
+          dateOfBirth={dateOfBirth}
+          onIssueDateChange={setIssueDate}
+          onExpiryDateChange={setExpiryDate}
+          onDateOfBirthChange={setDateOfBirth}
+          disabled={uploading}
+        />
+
+        {/* Document Details */}
+        <DocumentMetadataFields
+          fields={metadataFields}
+          values={metadata}
+          onChange={updateMetadata}
+          errors={metadataErrors}
+          disabled={uploading}
+        />
 
         {/* File Drop Zone */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Upload File
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Upload File
+            </label>
+            {!selectedFile && (
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                <button
+                  onClick={() => setCaptureMode(false)}
+                  className={`inline-flex items-center px-3 py-1.5 min-h-[44px] touch-manipulation ${
+                    !captureMode ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <CloudArrowUpIcon className="h-4 w-4 mr-1" />
+                  Choose file
+                </button>
+                <button
+                  onClick={() => setCaptureMode(true)}
+                  className={`inline-flex items-center px-3 py-1.5 border-l border-gray-300 min-h-[44px] touch-manipulation ${
+                    captureMode ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <CameraIcon className="h-4 w-4 mr-1" />
+                  Take photos
+                </button>
+              </div>
+            )}
+          </div>
           
-          {!selectedFile ? (
+          {!selectedFile && captureMode ? (
+            <DocumentCapture onCaptured={selectFile} disabled={uploading} />
+          ) : !selectedFile ? (
             <div
               {...getRootProps()}
               className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
@@ -213,7 +463,7 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
                     Drag and drop a file here, or click to select
                   </p>
                   <p className="text-sm text-gray-500 mt-1">
-                    PDF, JPEG, PNG files up to 10MB
+                    {describeAllowedFileTypes(definition)} files up to {Math.round(getMaxFileSize(definition) / 1024 / 1024)}MB
                   </p>
                 </div>
               )}
@@ -243,17 +493,84 @@ export default function DocumentUpload({ userId, onUploadSuccess }: DocumentUplo
           )}
         </div>
 
+        {/* Duplicate Warning */}
+        {duplicates.length > 0 && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+            <div className="flex items-center text-sm font-medium text-yellow-800">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+              You have already uploaded this file
+            </div>
+            <ul className="mt-2 space-y-1">
+              {duplicates.map((duplicate) => (
+                <li key={duplicate.id} className="text-sm text-yellow-900 truncate">
+                  {duplicate.title} ({formatDocumentType(duplicate.document_type, documentTypes)},
+                  {' '}uploaded {format(new Date(duplicate.upload_date), 'MMM d, yyyy')})
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-yellow-700 mt-1">
+              You can still upload it if this is intentional.
+            </p>
+          </div>
+        )}
+
+        {/* Reading the file */}
+        {readingProgress !== null && (
+          <div>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>Reading the document for details...</span>
+              <span>{Math.round(readingProgress * 100)}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+              <div
+                className="bg-blue-400 h-1.5 rounded-full transition-all"
+                style={{ width: `${Math.round(readingProgress * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        {/* Suggested details */}
+        {suggestions && !suggestionsDismissed && (
+          <ScanSuggestions
+            suggestions={suggestions}
+            documentTypes={documentTypes}
+            onApply={applySuggestions}
+            onDismiss={() => setSuggestionsDismissed(true)}
+          />
+        )}
+
+                {/* Upload Progress */}
+        {progress && (
+          <div>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>Uploading...</span>
+              <span>
+                {(progress.uploaded / 1024 / 1024).toFixed(1)} / {(progress.total / 1024 / 1024).toFixed(1)} MB
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${progress.total ? Math.round((progress.uploaded / progress.total) * 100) : 0}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
         {/* Upload Button */}
         <div className="flex justify-end">
           <button
             onClick={handleUpload}
-            disabled={!selectedFile || !title.trim() || uploading}
+            disabled={!selectedFile || !title.trim() || !definition || uploading}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {uploading ? (
               <div className="flex items-center">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Uploading...
+                {progress && progress.total
+                  ? `Uploading ${Math.round((progress.uploaded / progress.total) * 100)}%`
+                  : 'Uploading...'}
               </div>
             ) : (
               'Upload Document'
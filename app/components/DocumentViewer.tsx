@@ -0,0 +1,367 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react'
+import {
+  XMarkIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ArrowsRightLeftIcon,
+  ArrowDownTrayIcon
+} from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import {
+  getDocumentWithPilot,
+  openDocumentForViewing,
+  getDocumentHistory,
+  downloadDocument,
+  DocumentWithPilot
+} from '../../lib/documents'
+import { findLegalHold } from '../../lib/legalHolds'
+import { useLegalHoldIndex, useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
+import DocumentPane from './DocumentPane'
+import LegalHoldBadge from './LegalHoldBadge'
+
+interface DocumentViewerProps {
+  documentId: string | null
+  onClose: () => void
+  // Review controls are shown when these are given
+  onApprove?: (document: DocumentWithPilot) => void
+  onReject?: (document: DocumentWithPilot) => void
+  processing?: boolean
+}
+
+interface LoadedDocument {
+  document: DocumentWithPilot
+  // Object URL of the watermarked copy; revoked when it is replaced
+  viewUrl: string
+}
+
+// Each open is a single-use, logged view of a watermarked copy
+async function loadDocument(documentId: string): Promise<LoadedDocument> {
+  const [document, viewUrl] = await Promise.all([
+    getDocumentWithPilot(documentId),
+    openDocumentForViewing(documentId)
+  ])
+  return { document, viewUrl }
+}
+
+// Full-screen viewer with the document's details and, for reviewers, the
+// approve/reject controls. Can show an earlier version side by side.
+export default function DocumentViewer({
+  documentId,
+  onClose,
+  onApprove,
+  onReject,
+  processing = false
+}: DocumentViewerProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
+  const [current, setCurrent] = useState<LoadedDocument | null>(null)
+  const [history, setHistory] = useState<DocumentWithPilot[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [compared, setCompared] = useState<LoadedDocument | null>(null)
+  const [downloading, setDownloading] = useState(false)
+  const { data: legalHolds } = useLegalHoldIndex()
+
+  useEffect(() => {
+    setCurrent(null)
+    setHistory([])
+    setCompareId(null)
+    setLoadError(null)
+    if (!documentId) return
+
+    let cancelled = false
+
+    let opened: LoadedDocument | null = null
+
+    const loadCurrent = async () => {
+      try {
+        setLoading(true)
+        const [loaded, versions] = await Promise.all([
+          loadDocument(documentId),
+          getDocumentHistory(documentId)
+        ])
+        opened = loaded
+        if (cancelled) {
+          URL.revokeObjectURL(loaded.viewUrl)
+          return
+        }
+        setCurrent(loaded)
+        setHistory(versions)
+      } catch (error) {
+        console.error('Error opening document:', error)
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to open document')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadCurrent()
+    return () => {
+      cancelled = true
+      if (opened) URL.revokeObjectURL(opened.viewUrl)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    setCompared(null)
+    if (!compareId) return
+
+    let cancelled = false
+    let opened: LoadedDocument | null = null
+    loadDocument(compareId)
+      .then(loaded => {
+        opened = loaded
+        if (cancelled) URL.revokeObjectURL(loaded.viewUrl)
+        else setCompared(loaded)
+      })
+      .catch(error => {
+        console.error('Error opening version:', error)
+        toast.error('Failed to open document version')
+        if (!cancelled) setCompareId(null)
+      })
+
+    return () => {
+      cancelled = true
+      if (opened) URL.revokeObjectURL(opened.viewUrl)
+    }
+  }, [compareId])
+
+  const otherVersions = useMemo(
+    () => history.filter(version => version.id !== current?.document.id),
+    [history, current]
+  )
+
+  // Compare against the version just before this one, or the closest there is
+  const toggleCompare = () => {
+    if (compareId) {
+      setCompareId(null)
+      return
+    }
+    const currentVersion = current?.document.version_number || 0
+    const previous = otherVersions.find(version => version.version_number < currentVersion) || otherVersions[0]
+    if (previous) setCompareId(previous.id)
+  }
+
+  const handleDownload = async () => {
+    if (!current) return
+
+    try {
+      setDownloading(true)
+      await downloadDocument(current.document.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download document')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const getStatusColor = (status: DocumentWithPilot['status']) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-100 text-green-800'
+      case 'rejected':
+        return 'bg-red-100 text-red-800'
+      case 'expired':
+        return 'bg-orange-100 text-orange-800'
+      case 'quarantined':
+        return 'bg-purple-100 text-purple-800'
+      default:
+        return 'bg-yellow-100 text-yellow-800'
+    }
+  }
+
+  const document = current?.document
+  const hold = document && legalHolds ? findLegalHold(legalHolds, document) : null
+  // Held documents keep their status until the hold is released
+  const canReview = document?.status === 'pending' && !hold && (onApprove || onReject)
+
+  return (
+    <Dialog open={documentId !== null} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex sm:p-4">
+        <DialogPanel className="w-full bg-white sm:rounded-xl shadow-xl flex flex-col min-h-0">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 sm:px-6 py-3 border-b border-gray-200">
+            <DialogTitle className="text-lg font-semibold text-gray-900 truncate">
+              {document?.title || 'Document'}
+            </DialogTitle>
+            <div className="flex items-center space-x-2">
+              {otherVersions.length > 0 && (
+                <button
+                  onClick={toggleCompare}
+                  className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border min-h-[44px] touch-manipulation transition-colors ${
+                    compareId
+                      ? 'bg-blue-50 border-blue-200 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <ArrowsRightLeftIcon className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Compare versions</span>
+                </button>
+              )}
+              {document && document.status !== 'quarantined' && (
+                <button
+                  onClick={handleDownload}
+                  disabled={downloading}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation transition-colors"
+                  title="Download a watermarked copy"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">{downloading ? 'Preparing...' : 'Download'}</span>
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg min-h-[44px] min-w-[44px] touch-manipulation"
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          {loadError ? (
+            <div className="flex flex-1 items-center justify-center p-6 text-sm text-red-600">
+              {loadError}
+            </div>
+          ) : loading || !current || !document ? (
+            <div className="flex flex-1 items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading document...</span>
+            </div>
+          ) : (
+            <div className="flex flex-1 flex-col lg:flex-row min-h-0 overflow-y-auto lg:overflow-hidden">
+              {/* Document panes */}
+              <div className={`flex-1 min-h-0 grid gap-3 p-3 ${compareId ? 'md:grid-cols-2' : 'grid-cols-1'}`}>
+                <DocumentPane
+                  key={current.viewUrl}
+                  url={current.viewUrl}
+                  fileType={document.file_type}
+                  title={document.title}
+                  label={compareId ? `Version ${document.version_number}` : undefined}
+                />
+                {compareId && (
+                  compared ? (
+                    <DocumentPane
+                      key={compared.viewUrl}
+                      url={compared.viewUrl}
+                      fileType={compared.document.file_type}
+                      title={compared.document.title}
+                      label={`Version ${compared.document.version_number}`}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center border border-gray-200 rounded-lg min-h-[300px]">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                    </div>
+                  )
+                )}
+              </div>
+
+              {/* Details and review controls */}
+              <aside className="lg:w-80 shrink-0 border-t lg:border-t-0 lg:border-l border-gray-200 p-4 space-y-4 lg:overflow-y-auto">
+                <LegalHoldBadge hold={hold} banner />
+
+                <dl className="space-y-3 text-sm">
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Pilot</dt>
+                    <dd className="text-gray-900">
+                      {document.pilots.first_name} {document.pilots.last_name}
+                      {document.pilots.pilot_license && (
+                        <span className="block text-gray-500">{document.pilots.pilot_license}</span>
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Type</dt>
+                    <dd className="text-gray-900">{formatDocumentType(document.document_type, documentTypes)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Status</dt>
+                    <dd>
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(document.status)}`}>
+                        {document.status}
+                      </span>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Version</dt>
+                    <dd className="text-gray-900">
+                      {document.version_number}
+                      {document.is_current ? ' (current)' : ''}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Uploaded</dt>
+                    <dd className="text-gray-900">{format(new Date(document.upload_date), 'MMM d, yyyy')}</dd>
+                  </div>
+                  {document.expiry_date && (
+                    <div>
+                      <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</dt>
+                      <dd className="text-gray-900">{format(new Date(document.expiry_date), 'MMM d, yyyy')}</dd>
+                    </div>
+                  )}
+                  {document.file_size && (
+                    <div>
+                      <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Size</dt>
+                      <dd className="text-gray-900">{(document.file_size / 1024 / 1024).toFixed(2)} MB</dd>
+                    </div>
+                  )}
+                </dl>
+
+                {compareId && (
+                  <div>
+                    <label htmlFor="compareVersion" className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+                      Compare with
+                    </label>
+                    <select
+                      id="compareVersion"
+                      value={compareId}
+                      onChange={(e) => setCompareId(e.target.value)}
+                      className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {otherVersions.map((version) => (
+                        <option key={version.id} value={version.id}>
+                          Version {version.version_number} – {format(new Date(version.upload_date), 'MMM d, yyyy')} ({version.status})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {canReview && (
+                  <div className="flex space-x-2 pt-2">
+                    {onApprove && (
+                      <button
+                        onClick={() => onApprove(document)}
+                        disabled={processing}
+                        className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors min-h-[44px] touch-manipulation"
+                      >
+                        <CheckCircleIcon className="h-4 w-4 mr-2" />
+                        Approve
+                      </button>
+                    )}
+                    {onReject && (
+                      <button
+                        onClick={() => onReject(document)}
+                        disabled={processing}
+                        className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors min-h-[44px] touch-manipulation"
+                      >
+                        <XCircleIcon className="h-4 w-4 mr-2" />
+                        Reject
+                      </button>
+                    )}
+                  </div>
+                )}
+              </aside>
+            </div>
+          )}
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
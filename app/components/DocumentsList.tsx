@@ -2,20 +2,31 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '../../lib/supabase'
-import { getDocumentUrl, deleteDocument } from '../../lib/storage'
+import { trashDocument, DOCUMENT_LIST_COLUMNS } from '../../lib/documents'
+import { fetchLatestDecisions, DocumentReview } from '../../lib/reviews'
 import { 
   EyeIcon, 
   TrashIcon, 
   DocumentIcon,
   CheckCircleIcon,
   XCircleIcon,
-  ClockIcon
+  ClockIcon,
+  ChatBubbleLeftRightIcon,
+  ShieldExclamationIcon
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
+import DocumentReviewThread from './DocumentReviewThread'
+import DocumentViewer from './DocumentViewer'
+import { DocumentThumbnail } from './OptimizedImage'
+import { useDocumentThumbnails, useLegalHoldIndex, useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
+import { findLegalHold } from '../../lib/legalHolds'
+import LegalHoldBadge from './LegalHoldBadge'
 
 interface Document {
   id: string
+  pilot_id: string
   document_type: string
   title: string
   file_url: string
@@ -23,7 +34,8 @@ interface Document {
   file_type: string | null
   upload_date: string
   expiry_date: string | null
-  status: 'pending' | 'approved' | 'rejected' | 'expired'
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+  thumbnail_url: string | null
   created_at: string
 }
 
@@ -34,9 +46,17 @@ interface DocumentsListProps {
 }
 
 export default function DocumentsList({ userId, userRole, refreshTrigger }: DocumentsListProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
   const [documents, setDocuments] = useState<Document[]>([])
   const [loading, setLoading] = useState(true)
-  const [viewingDocument, setViewingDocument] = useState<string | null>(null)
+  const [viewerDocumentId, setViewerDocumentId] = useState<string | null>(null)
+  const [latestDecisions, setLatestDecisions] = useState<Record<string, DocumentReview>>({})
+  const [openThread, setOpenThread] = useState<string | null>(null)
+  const { data: thumbnailUrls } = useDocumentThumbnails(documents)
+  const { data: legalHolds } = useLegalHoldIndex()
+
+  const getLegalHold = (document: Document) =>
+    legalHolds ? findLegalHold(legalHolds, document) : null
 
   const loadDocuments = useCallback(async () => {
     try {
@@ -45,7 +65,7 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
       let query = supabase
         .from('documents')
         .select(`
-          *,
+          ${DOCUMENT_LIST_COLUMNS},
           pilots!inner (
             id,
             user_id,
@@ -54,6 +74,7 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
             email
           )
         `)
+        .is('superseded_at', null)
         .order('created_at', { ascending: false })
 
       // If user is a pilot, only show their documents
@@ -68,7 +89,12 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
         throw error
       }
 
-      setDocuments((data as unknown as Document[]) || [])
+      const loadedDocuments = (data as unknown as Document[]) || []
+      setDocuments(loadedDocuments)
+
+      // Load rejection reasons so they are visible without opening the thread
+      const rejectedIds = loadedDocuments.filter(doc => doc.status === 'rejected').map(doc => doc.id)
+      setLatestDecisions(await fetchLatestDecisions(rejectedIds))
     } catch (error) {
       console.error('Error loading documents:', error)
       toast.error('Failed to load documents')
@@ -88,46 +114,14 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
     }
   }, [refreshTrigger, loadDocuments])
 
-  const handleViewDocument = async (fileUrl: string) => {
-    try {
-      setViewingDocument(fileUrl)
-      const result = await getDocumentUrl(fileUrl)
-      
-      if (result.success && result.url) {
-        window.open(result.url, '_blank')
-      } else {
-        toast.error('Failed to load document')
-      }
-    } catch {
-      toast.error('Failed to open document')
-    } finally {
-      setViewingDocument(null)
-    }
-  }
-
-  const handleDeleteDocument = async (documentId: string, fileUrl: string) => {
-    if (!confirm('Are you sure you want to delete this document?')) {
+  const handleDeleteDocument = async (documentId: string) => {
+    if (!confirm('Move this document to the trash? An admin can restore it until it is purged.')) {
       return
     }
 
     try {
-      // Delete from storage
-      const storageResult = await deleteDocument(fileUrl)
-      if (!storageResult.success) {
-        throw new Error('Failed to delete file from storage')
-      }
-
-      // Delete from database
-      const { error } = await (supabase
-        .from('documents')
-        .delete() as unknown as { eq: (field: string, value: unknown) => Promise<{ error: unknown }> })
-        .eq('id', documentId)
-
-      if (error) {
-        throw error
-      }
-
-      toast.success('Document deleted successfully')
+      await trashDocument(documentId)
+      toast.success('Document moved to trash')
       loadDocuments() // Refresh the list
     } catch (error) {
       console.error('Delete error:', error)
@@ -143,6 +137,8 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
         return <XCircleIcon className="h-5 w-5 text-red-500" />
       case 'expired':
         return <XCircleIcon className="h-5 w-5 text-orange-500" />
+      case 'quarantined':
+        return <ShieldExclamationIcon className="h-5 w-5 text-purple-500" />
       default:
         return <ClockIcon className="h-5 w-5 text-yellow-500" />
     }
@@ -156,26 +152,13 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
         return 'bg-red-100 text-red-800'
       case 'expired':
         return 'bg-orange-100 text-orange-800'
+      case 'quarantined':
+        return 'bg-purple-100 text-purple-800'
       default:
         return 'bg-yellow-100 text-yellow-800'
     }
   }
 
-  const formatDocumentType = (type: string) => {
-    const typeMap: { [key: string]: string } = {
-      'noc': 'No Objection Certificate',
-      'medical_certificate': 'Medical Certificate', 
-      'alcohol_test': 'Alcohol Test',
-      'license_certification': 'License Certification',
-      'training_records': 'Training Records'
-    }
-    
-    return typeMap[type] || type
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ')
-  }
-
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
@@ -208,13 +191,24 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
               <div className="flex items-center justify-between">
                 <div className="flex-1">
                   <div className="flex items-center space-x-3">
-                    <DocumentIcon className="h-5 w-5 text-gray-400" />
+                    <button
+                      onClick={() => setViewerDocumentId(document.id)}
+                      className="shrink-0 hover:opacity-75 transition-opacity"
+                      title="View Document"
+                    >
+                      <DocumentThumbnail
+                        src={thumbnailUrls?.[document.id]}
+                        alt={document.title}
+                        fileType={document.file_type}
+                      />
+                    </button>
                     <div>
                       <h4 className="text-sm font-medium text-gray-900">
                         {document.title}
                       </h4>
+                      <LegalHoldBadge hold={getLegalHold(document)} />
                       <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
-                        <span>{formatDocumentType(document.document_type)}</span>
+                        <span>{formatDocumentType(document.document_type, documentTypes)}</span>
                         <span>•</span>
                         <span>
                           Uploaded {format(new Date(document.upload_date), 'MMM d, yyyy')}
@@ -236,6 +230,11 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
                           </>
                         )}
                       </div>
+                      {document.status === 'rejected' && latestDecisions[document.id]?.reason && (
+                        <p className="text-xs text-red-700 mt-1">
+                          <span className="font-medium">Rejection reason:</span> {latestDecisions[document.id].reason}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -250,17 +249,24 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
                   {/* Action Buttons */}
                   <div className="flex space-x-2">
                     <button
-                      onClick={() => handleViewDocument(document.file_url)}
-                      disabled={viewingDocument === document.file_url}
-                      className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      onClick={() => setViewerDocumentId(document.id)}
+                      className="p-1 text-blue-600 hover:text-blue-800"
                       title="View Document"
                     >
                       <EyeIcon className="h-4 w-4" />
                     </button>
+
+                    <button
+                      onClick={() => setOpenThread(openThread === document.id ? null : document.id)}
+                      className="p-1 text-gray-600 hover:text-gray-800"
+                      title="Comments"
+                    >
+                      <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                    </button>
                     
-                    {(userRole === 'pilot' || userRole === 'admin') && (
+                    {(userRole === 'pilot' || userRole === 'admin') && !getLegalHold(document) && (
                       <button
-                        onClick={() => handleDeleteDocument(document.id, document.file_url)}
+                        onClick={() => handleDeleteDocument(document.id)}
                         className="p-1 text-red-600 hover:text-red-800"
                         title="Delete Document"
                       >
@@ -270,10 +276,26 @@ export default function DocumentsList({ userId, userRole, refreshTrigger }: Docu
                   </div>
                 </div>
               </div>
+
+              {/* Review Thread */}
+              {openThread === document.id && (
+                <DocumentReviewThread
+                  documentId={document.id}
+                  documentStatus={document.status}
+                  userRole={userRole}
+                  onResubmitted={loadDocuments}
+                />
+              )}
             </div>
           ))}
         </div>
       )}
+
+      {/* Document Viewer */}
+      <DocumentViewer
+        documentId={viewerDocumentId}
+        onClose={() => setViewerDocumentId(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
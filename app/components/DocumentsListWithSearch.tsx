@@ -10,19 +10,28 @@ import {
   ClockIcon,
   ExclamationTriangleIcon,
   UserIcon,
-  CalendarIcon
+  CalendarIcon,
+  QueueListIcon,
+  ShieldExclamationIcon
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
 import { 
-  getDocumentWithUrl, 
-  deleteDocumentComplete,
+  trashDocument,
   updateDocumentStatus,
   DocumentWithPilot,
   DocumentStatus
 } from '../../lib/documents'
 import DocumentsSearchFilter from './DocumentsSearchFilter'
 import VirtualList, { useOptimalItemHeight } from './VirtualList'
+import DocumentHistoryTimeline from './DocumentHistoryTimeline'
+import RejectDocumentDialog from './RejectDocumentDialog'
+import DocumentViewer from './DocumentViewer'
+import { DocumentThumbnail } from './OptimizedImage'
+import { useDocumentThumbnails, useLegalHoldIndex, useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
+import { findLegalHold } from '../../lib/legalHolds'
+import LegalHoldBadge from './LegalHoldBadge'
 
 interface DocumentsListWithSearchProps {
   userId: string
@@ -35,11 +44,16 @@ export default function DocumentsListWithSearch({
   userRole, 
   refreshTrigger 
 }: DocumentsListWithSearchProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
   const [documents, setDocuments] = useState<DocumentWithPilot[]>([])
   const [loading, setLoading] = useState(false)
-  const [viewingDocument, setViewingDocument] = useState<string | null>(null)
+  const [viewerDocumentId, setViewerDocumentId] = useState<string | null>(null)
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null)
+  const [historyDocumentId, setHistoryDocumentId] = useState<string | null>(null)
+  const [rejectingDocumentId, setRejectingDocumentId] = useState<string | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
+  const { data: thumbnailUrls } = useDocumentThumbnails(documents)
+  const { data: legalHolds } = useLegalHoldIndex()
   
   // Optimize item height based on container size
   const itemHeight = useOptimalItemHeight(containerRef as React.RefObject<HTMLElement>, 280)
@@ -48,44 +62,18 @@ export default function DocumentsListWithSearch({
     setDocuments(filteredDocuments)
   }, [])
 
-  const handleViewDocument = async (document: DocumentWithPilot) => {
-    try {
-      setViewingDocument(document.id)
-      
-      // Try to get the document URL directly from storage first
-      const { getDocumentUrl } = await import('../../lib/storage')
-      const urlResult = await getDocumentUrl(document.file_url)
-      
-      if (urlResult.success && urlResult.url) {
-        window.open(urlResult.url, '_blank')
-      } else {
-        throw new Error(`Storage error: ${urlResult.error || 'Could not get document URL'}`)
-      }
-    } catch (error) {
-      console.error('View error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Failed to open document'
-      toast.error(`Failed to open document: ${errorMessage}`)
-      
-      // Log the document info for debugging
-      console.log('Document info:', {
-        id: document.id,
-        file_url: document.file_url,
-        title: document.title,
-        document_type: document.document_type
-      })
-    } finally {
-      setViewingDocument(null)
-    }
+  const handleViewDocument = (document: DocumentWithPilot) => {
+    setViewerDocumentId(document.id)
   }
 
   const handleDeleteDocument = async (document: DocumentWithPilot) => {
-    if (!confirm('Are you sure you want to delete this document?')) {
+    if (!confirm('Move this document to the trash? An admin can restore it until it is purged.')) {
       return
     }
 
     try {
-      await deleteDocumentComplete(document.id, document.file_url)
-      toast.success('Document deleted successfully')
+      await trashDocument(document.id)
+      toast.success('Document moved to trash')
       
       // Remove from current filtered list
       setDocuments(prev => prev.filter(doc => doc.id !== document.id))
@@ -95,10 +83,15 @@ export default function DocumentsListWithSearch({
     }
   }
 
-  const handleStatusUpdate = async (documentId: string, newStatus: DocumentStatus) => {
+  const handleStatusUpdate = async (
+    documentId: string,
+    newStatus: DocumentStatus,
+    reason?: string,
+    comment?: string
+  ) => {
     try {
       setUpdatingStatus(documentId)
-      await updateDocumentStatus(documentId, newStatus)
+      await updateDocumentStatus(documentId, newStatus, reason, comment)
       
       toast.success(`Document ${newStatus === 'approved' ? 'approved' : 'rejected'}`)
       
@@ -126,6 +119,8 @@ export default function DocumentsListWithSearch({
         return <XCircleIcon className="h-5 w-5 text-red-500" />
       case 'expired':
         return <ExclamationTriangleIcon className="h-5 w-5 text-orange-500" />
+      case 'quarantined':
+        return <ShieldExclamationIcon className="h-5 w-5 text-purple-500" />
       default:
         return <ClockIcon className="h-5 w-5 text-yellow-500" />
     }
@@ -139,26 +134,13 @@ export default function DocumentsListWithSearch({
         return 'bg-red-100 text-red-800 border-red-200'
       case 'expired':
         return 'bg-orange-100 text-orange-800 border-orange-200'
+      case 'quarantined':
+        return 'bg-purple-100 text-purple-800 border-purple-200'
       default:
         return 'bg-yellow-100 text-yellow-800 border-yellow-200'
     }
   }
 
-  const formatDocumentType = (type: string) => {
-    const typeMap: { [key: string]: string } = {
-      'noc': 'No Objection Certificate',
-      'medical_certificate': 'Medical Certificate', 
-      'alcohol_test': 'Alcohol Test',
-      'license_certification': 'License Certification',
-      'training_records': 'Training Records'
-    }
-    
-    return typeMap[type] || type
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ')
-  }
-
   const isExpired = (document: DocumentWithPilot) => {
     if (!document.expiry_date) return false
     return new Date(document.expiry_date) < new Date()
@@ -173,154 +155,181 @@ export default function DocumentsListWithSearch({
   }
 
   // Render individual document card
-  const renderDocumentCard = useCallback((document: DocumentWithPilot, index: number) => (
-    <div
-      key={document.id}
-      className={`mobile-card relative overflow-hidden m-2 ${
-        isExpired(document) ? 'border-red-200 bg-red-50' :
-        isExpiringSoon(document) ? 'border-orange-200 bg-orange-50' :
-        'border-gray-100 bg-white hover:shadow-lg'
-      }`}
-    >
-      {/* Document Header */}
-      <div className="flex items-start justify-between mb-3">
-        <div className="flex items-center space-x-3 flex-1 min-w-0">
-          <div className="p-2 rounded-lg bg-blue-50 border border-blue-100">
-            <DocumentIcon className="h-5 w-5 text-blue-600" />
+  const renderDocumentCard = useCallback((document: DocumentWithPilot, index: number) => {
+    const hold = legalHolds ? findLegalHold(legalHolds, document) : null
+
+    return (
+      <div
+        key={document.id}
+        className={`mobile-card relative overflow-hidden m-2 ${
+          isExpired(document) ? 'border-red-200 bg-red-50' :
+          isExpiringSoon(document) ? 'border-orange-200 bg-orange-50' :
+          'border-gray-100 bg-white hover:shadow-lg'
+        }`}
+      >
+        {/* Document Header */}
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center space-x-3 flex-1 min-w-0">
+            {thumbnailUrls?.[document.id] ? (
+              <button
+                onClick={() => handleViewDocument(document)}
+                className="shrink-0 hover:opacity-75 transition-opacity"
+                title="View document"
+              >
+                <DocumentThumbnail src={thumbnailUrls[document.id]} alt={document.title} />
+              </button>
+            ) : (
+              <div className="p-2 rounded-lg bg-blue-50 border border-blue-100">
+                <DocumentIcon className="h-5 w-5 text-blue-600" />
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <h4 className="text-sm sm:text-base font-semibold text-gray-900 truncate mb-1">
+                {document.title}
+              </h4>
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700">
+                {formatDocumentType(document.document_type, documentTypes)}
+              </span>
+              {document.version_number > 1 && (
+                <span className="inline-flex items-center ml-1 px-2 py-1 rounded-md text-xs font-medium bg-blue-100 text-blue-700">
+                  v{document.version_number}
+                </span>
+              )}
+              {hold && (
+                <span className="ml-1">
+                  <LegalHoldBadge hold={hold} />
+                </span>
+              )}
+            </div>
           </div>
-          <div className="flex-1 min-w-0">
-            <h4 className="text-sm sm:text-base font-semibold text-gray-900 truncate mb-1">
-              {document.title}
-            </h4>
-            <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700">
-              {formatDocumentType(document.document_type)}
-            </span>
+          
+          {/* Status Badge */}
+          <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(document.status)}`}>
+            {getStatusIcon(document.status)}
+            <span className="ml-1 capitalize hidden sm:inline">{document.status}</span>
           </div>
         </div>
-        
-        {/* Status Badge */}
-        <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(document.status)}`}>
-          {getStatusIcon(document.status)}
-          <span className="ml-1 capitalize hidden sm:inline">{document.status}</span>
-        </div>
-      </div>
 
-      {/* Pilot Info (for admin/inspector) */}
-      {userRole !== 'pilot' && (
-        <div className="flex items-center space-x-2 mb-3 p-2 bg-gray-50 rounded-lg">
-          <UserIcon className="h-4 w-4 text-gray-500 flex-shrink-0" />
-          <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-gray-900 truncate">
-              {document.pilots.first_name} {document.pilots.last_name}
-            </p>
-            <p className="text-xs text-gray-500 truncate">{document.pilots.email}</p>
+        {/* Pilot Info (for admin/inspector) */}
+        {userRole !== 'pilot' && (
+          <div className="flex items-center space-x-2 mb-3 p-2 bg-gray-50 rounded-lg">
+            <UserIcon className="h-4 w-4 text-gray-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {document.pilots.first_name} {document.pilots.last_name}
+              </p>
+              <p className="text-xs text-gray-500 truncate">{document.pilots.email}</p>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Document Metadata */}
-      <div className="space-y-2 mb-3">
-        <div className="flex items-center justify-between text-xs text-gray-500">
-          <div className="flex items-center space-x-1">
-            <CalendarIcon className="h-3 w-3" />
-            <span>Uploaded {format(new Date(document.upload_date), 'MMM d')}</span>
+        {/* Document Metadata */}
+        <div className="space-y-2 mb-3">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <div className="flex items-center space-x-1">
+              <CalendarIcon className="h-3 w-3" />
+              <span>Uploaded {format(new Date(document.upload_date), 'MMM d')}</span>
+            </div>
+            {document.file_size && (
+              <span>{(document.file_size / 1024 / 1024).toFixed(1)} MB</span>
+            )}
           </div>
-          {document.file_size && (
-            <span>{(document.file_size / 1024 / 1024).toFixed(1)} MB</span>
+          
+          {document.expiry_date && (
+            <div className={`flex items-center space-x-1 text-xs ${
+              isExpired(document) ? 'text-red-600 font-medium' : 
+              isExpiringSoon(document) ? 'text-orange-600 font-medium' : 'text-gray-500'
+            }`}>
+              <CalendarIcon className="h-3 w-3" />
+              <span>
+                {isExpired(document) ? 'Expired' : 'Expires'} {format(new Date(document.expiry_date), 'MMM d, yyyy')}
+              </span>
+            </div>
           )}
         </div>
-        
-        {document.expiry_date && (
-          <div className={`flex items-center space-x-1 text-xs ${
-            isExpired(document) ? 'text-red-600 font-medium' : 
-            isExpiringSoon(document) ? 'text-orange-600 font-medium' : 'text-gray-500'
+
+        {/* Expiry Warning */}
+        {(isExpired(document) || isExpiringSoon(document)) && (
+          <div className={`p-2 rounded-lg text-xs mb-3 ${
+            isExpired(document) ? 'bg-red-100 text-red-700 border border-red-200' :
+            'bg-orange-100 text-orange-700 border border-orange-200'
           }`}>
-            <CalendarIcon className="h-3 w-3" />
-            <span>
-              {isExpired(document) ? 'Expired' : 'Expires'} {format(new Date(document.expiry_date), 'MMM d, yyyy')}
-            </span>
+            <div className="flex items-center space-x-1">
+              <ExclamationTriangleIcon className="h-3 w-3" />
+              <span className="font-medium">
+                {isExpired(document) ? 'Document expired' : 'Expires soon'}
+              </span>
+            </div>
           </div>
         )}
-      </div>
 
-      {/* Expiry Warning */}
-      {(isExpired(document) || isExpiringSoon(document)) && (
-        <div className={`p-2 rounded-lg text-xs mb-3 ${
-          isExpired(document) ? 'bg-red-100 text-red-700 border border-red-200' :
-          'bg-orange-100 text-orange-700 border border-orange-200'
-        }`}>
-          <div className="flex items-center space-x-1">
-            <ExclamationTriangleIcon className="h-3 w-3" />
-            <span className="font-medium">
-              {isExpired(document) ? 'Document expired' : 'Expires soon'}
-            </span>
-          </div>
-        </div>
-      )}
-
-      {/* Action Buttons */}
-      <div className="flex items-center justify-between pt-3 border-t border-gray-100">
-        <button
-          onClick={() => handleViewDocument(document)}
-          disabled={viewingDocument === document.id}
-          className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg disabled:opacity-50 transition-colors duration-200 min-h-[44px] touch-manipulation"
-        >
-          {viewingDocument === document.id ? (
-            <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-600 border-t-transparent"></div>
-          ) : (
+        {/* Action Buttons */}
+        <div className="flex items-center justify-between pt-3 border-t border-gray-100">
+          <button
+            onClick={() => handleViewDocument(document)}
+            className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors duration-200 min-h-[44px] touch-manipulation"
+          >
             <EyeIcon className="h-4 w-4" />
-          )}
-          <span>View</span>
-        </button>
-        
-        <div className="flex items-center space-x-1">
-          {/* Admin Status Controls */}
-          {userRole === 'admin' && document.status === 'pending' && (
-            <>
-              <button
-                onClick={() => handleStatusUpdate(document.id, 'approved')}
-                disabled={updatingStatus === document.id}
-                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-600 hover:bg-green-700 text-white rounded-md disabled:opacity-50 transition-colors duration-200 min-h-[44px] touch-manipulation"
-              >
-                {updatingStatus === document.id ? (
-                  <div className="animate-spin rounded-full h-3 w-3 border border-white border-t-transparent"></div>
-                ) : (
-                  <>
-                    <CheckCircleIcon className="h-3 w-3 mr-1" />
-                    <span className="hidden sm:inline">Approve</span>
-                  </>
-                )}
-              </button>
-              <button
-                onClick={() => handleStatusUpdate(document.id, 'rejected')}
-                disabled={updatingStatus === document.id}
-                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50 transition-colors duration-200 min-h-[44px] touch-manipulation"
-              >
-                {updatingStatus === document.id ? (
-                  <div className="animate-spin rounded-full h-3 w-3 border border-white border-t-transparent"></div>
-                ) : (
-                  <>
-                    <XCircleIcon className="h-3 w-3 mr-1" />
-                    <span className="hidden sm:inline">Reject</span>
-                  </>
-                )}
-              </button>
-            </>
-          )}
+            <span>View</span>
+          </button>
           
-          {(userRole === 'pilot' || userRole === 'admin') && (
+          <div className="flex items-center space-x-1">
             <button
-              onClick={() => handleDeleteDocument(document)}
-              className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors duration-200 min-h-[44px] min-w-[44px] touch-manipulation"
-              title="Delete Document"
+              onClick={() => setHistoryDocumentId(document.id)}
+              className="p-2 text-gray-600 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200 min-h-[44px] min-w-[44px] touch-manipulation"
+              title="Revision History"
             >
-              <TrashIcon className="h-4 w-4" />
+              <QueueListIcon className="h-4 w-4" />
             </button>
-          )}
+
+            {/* Admin Status Controls */}
+            {userRole === 'admin' && document.status === 'pending' && !hold && (
+              <>
+                <button
+                  onClick={() => handleStatusUpdate(document.id, 'approved')}
+                  disabled={updatingStatus === document.id}
+                  className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-600 hover:bg-green-700 text-white rounded-md disabled:opacity-50 transition-colors duration-200 min-h-[44px] touch-manipulation"
+                >
+                  {updatingStatus === document.id ? (
+                    <div className="animate-spin rounded-full h-3 w-3 border border-white border-t-transparent"></div>
+                  ) : (
+                    <>
+                      <CheckCircleIcon className="h-3 w-3 mr-1" />
+                      <span className="hidden sm:inline">Approve</span>
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={() => setRejectingDocumentId(document.id)}
+                  disabled={updatingStatus === document.id}
+                  className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50 transition-colors duration-200 min-h-[44px] touch-manipulation"
+                >
+                  {updatingStatus === document.id ? (
+                    <div className="animate-spin rounded-full h-3 w-3 border border-white border-t-transparent"></div>
+                  ) : (
+                    <>
+                      <XCircleIcon className="h-3 w-3 mr-1" />
+                      <span className="hidden sm:inline">Reject</span>
+                    </>
+                  )}
+                </button>
+              </>
+            )}
+            
+            {(userRole === 'pilot' || userRole === 'admin') && !hold && (
+              <button
+                onClick={() => handleDeleteDocument(document)}
+                className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors duration-200 min-h-[44px] min-w-[44px] touch-manipulation"
+                title="Delete Document"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
-    </div>
-  ), [userRole, viewingDocument, updatingStatus, handleViewDocument, handleStatusUpdate, handleDeleteDocument, getStatusIcon, getStatusColor, formatDocumentType, isExpired, isExpiringSoon])
+    )
+  }, [userRole, updatingStatus, thumbnailUrls, legalHolds, handleViewDocument, handleStatusUpdate, handleDeleteDocument, getStatusIcon, getStatusColor, documentTypes, isExpired, isExpiringSoon])
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -397,6 +406,38 @@ export default function DocumentsListWithSearch({
           </div>
         </div>
       )}
+
+      {/* Document Viewer */}
+      <DocumentViewer
+        documentId={viewerDocumentId}
+        onClose={() => setViewerDocumentId(null)}
+        onApprove={userRole === 'admin' ? async (document) => {
+          await handleStatusUpdate(document.id, 'approved')
+          setViewerDocumentId(null)
+        } : undefined}
+        onReject={userRole === 'admin' ? (document) => setRejectingDocumentId(document.id) : undefined}
+        processing={updatingStatus !== null && updatingStatus === viewerDocumentId}
+      />
+
+      {/* Rejection Reason Dialog */}
+      <RejectDocumentDialog
+        open={rejectingDocumentId !== null}
+        documentCount={1}
+        submitting={updatingStatus !== null && updatingStatus === rejectingDocumentId}
+        onConfirm={async (reason, comment) => {
+          if (!rejectingDocumentId) return
+          await handleStatusUpdate(rejectingDocumentId, 'rejected', reason, comment)
+          setViewerDocumentId(prev => (prev === rejectingDocumentId ? null : prev))
+          setRejectingDocumentId(null)
+        }}
+        onCancel={() => setRejectingDocumentId(null)}
+      />
+
+      {/* Revision History */}
+      <DocumentHistoryTimeline
+        documentId={historyDocumentId}
+        onClose={() => setHistoryDocumentId(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -5,9 +5,8 @@ import {
   fetchUserDocuments, 
   fetchAllDocuments, 
   uploadDocumentComplete, 
-  deleteDocumentComplete,
+  trashDocument,
   updateDocumentStatus,
-  getDocumentWithUrl,
   getDocumentStats,
   DocumentWithPilot,
   DocumentUploadData,
@@ -20,10 +19,17 @@ import {
   CheckCircleIcon, 
   XCircleIcon, 
   ClockIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ShieldExclamationIcon
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
+import RejectDocumentDialog from './RejectDocumentDialog'
+import DocumentViewer from './DocumentViewer'
+import LegalHoldBadge from './LegalHoldBadge'
+import { findLegalHold } from '../../lib/legalHolds'
+import { useLegalHoldIndex, useDocumentTypes } from '../hooks/useDocuments'
+import { formatDocumentType } from '../../lib/documentTypes'
 
 interface DocumentsManagerProps {
   userId: string
@@ -31,7 +37,9 @@ interface DocumentsManagerProps {
 }
 
 export default function DocumentsManager({ userId, userRole }: DocumentsManagerProps) {
+  const { data: documentTypes } = useDocumentTypes({ includeInactive: true })
   const [documents, setDocuments] = useState<DocumentWithPilot[]>([])
+  const [rejectingDocumentId, setRejectingDocumentId] = useState<string | null>(null)
   const [stats, setStats] = useState({
     total: 0,
     pending: 0,
@@ -42,7 +50,11 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
   })
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
-  const [viewingDocument, setViewingDocument] = useState<string | null>(null)
+  const [viewerDocumentId, setViewerDocumentId] = useState<string | null>(null)
+  const { data: legalHolds } = useLegalHoldIndex()
+
+  const getLegalHold = (document: DocumentWithPilot) =>
+    legalHolds ? findLegalHold(legalHolds, document) : null
 
   useEffect(() => {
     loadDocuments()
@@ -100,28 +112,18 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
     }
   }
 
-  const handleView = async (document: DocumentWithPilot) => {
-    try {
-      setViewingDocument(document.id)
-      
-      const { viewUrl } = await getDocumentWithUrl(document.id)
-      window.open(viewUrl, '_blank')
-    } catch (error) {
-      console.error('View error:', error)
-      toast.error('Failed to open document')
-    } finally {
-      setViewingDocument(null)
-    }
+  const handleView = (document: DocumentWithPilot) => {
+    setViewerDocumentId(document.id)
   }
 
   const handleDelete = async (document: DocumentWithPilot) => {
-    if (!confirm('Are you sure you want to delete this document?')) {
+    if (!confirm('Move this document to the trash? An admin can restore it until it is purged.')) {
       return
     }
 
     try {
-      await deleteDocumentComplete(document.id, document.file_url)
-      toast.success('Document deleted successfully')
+      await trashDocument(document.id)
+      toast.success('Document moved to trash')
       loadDocuments()
       if (userRole === 'pilot') loadStats()
     } catch (error) {
@@ -130,9 +132,14 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
     }
   }
 
-  const handleStatusUpdate = async (documentId: string, newStatus: DocumentStatus) => {
+  const handleStatusUpdate = async (
+    documentId: string,
+    newStatus: DocumentStatus,
+    reason?: string,
+    comment?: string
+  ) => {
     try {
-      await updateDocumentStatus(documentId, newStatus)
+      await updateDocumentStatus(documentId, newStatus, reason, comment)
       toast.success(`Document status updated to ${newStatus}`)
       loadDocuments()
     } catch (error) {
@@ -149,6 +156,8 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
         return <XCircleIcon className="h-5 w-5 text-red-500" />
       case 'expired':
         return <ExclamationTriangleIcon className="h-5 w-5 text-orange-500" />
+      case 'quarantined':
+        return <ShieldExclamationIcon className="h-5 w-5 text-purple-500" />
       default:
         return <ClockIcon className="h-5 w-5 text-yellow-500" />
     }
@@ -162,26 +171,13 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
         return 'bg-red-100 text-red-800'
       case 'expired':
         return 'bg-orange-100 text-orange-800'
+      case 'quarantined':
+        return 'bg-purple-100 text-purple-800'
       default:
         return 'bg-yellow-100 text-yellow-800'
     }
   }
 
-  const formatDocumentType = (type: string) => {
-    const typeMap: { [key: string]: string } = {
-      'noc': 'No Objection Certificate',
-      'medical_certificate': 'Medical Certificate', 
-      'alcohol_test': 'Alcohol Test',
-      'license_certification': 'License Certification',
-      'training_records': 'Training Records'
-    }
-    
-    return typeMap[type] || type
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ')
-  }
-
   const isExpired = (document: DocumentWithPilot) => {
     if (!document.expiry_date) return false
     return new Date(document.expiry_date) < new Date()
@@ -268,8 +264,9 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
                         <h4 className="text-sm font-medium text-gray-900">
                           {document.title}
                         </h4>
+                        <LegalHoldBadge hold={getLegalHold(document)} />
                         <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
-                          <span>{formatDocumentType(document.document_type)}</span>
+                          <span>{formatDocumentType(document.document_type, documentTypes)}</span>
                           {userRole !== 'pilot' && (
                             <>
                               <span>•</span>
@@ -315,14 +312,13 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
                     <div className="flex space-x-2">
                       <button
                         onClick={() => handleView(document)}
-                        disabled={viewingDocument === document.id}
-                        className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        className="p-1 text-blue-600 hover:text-blue-800"
                         title="View Document"
                       >
                         <EyeIcon className="h-4 w-4" />
                       </button>
                       
-                      {(userRole === 'pilot' || userRole === 'admin') && (
+                      {(userRole === 'pilot' || userRole === 'admin') && !getLegalHold(document) && (
                         <button
                           onClick={() => handleDelete(document)}
                           className="p-1 text-red-600 hover:text-red-800"
@@ -333,7 +329,7 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
                       )}
                       
                       {/* Admin Status Controls */}
-                      {userRole === 'admin' && document.status === 'pending' && (
+                      {userRole === 'admin' && document.status === 'pending' && !getLegalHold(document) && (
                         <div className="flex space-x-1">
                           <button
                             onClick={() => handleStatusUpdate(document.id, 'approved')}
@@ -343,7 +339,7 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
                             Approve
                           </button>
                           <button
-                            onClick={() => handleStatusUpdate(document.id, 'rejected')}
+                            onClick={() => setRejectingDocumentId(document.id)}
                             className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
                             title="Reject"
                           >
@@ -359,6 +355,30 @@ export default function DocumentsManager({ userId, userRole }: DocumentsManagerP
           </div>
         )}
       </div>
+
+      {/* Document Viewer */}
+      <DocumentViewer
+        documentId={viewerDocumentId}
+        onClose={() => setViewerDocumentId(null)}
+        onApprove={userRole === 'admin' ? async (document) => {
+          await handleStatusUpdate(document.id, 'approved')
+          setViewerDocumentId(null)
+        } : undefined}
+        onReject={userRole === 'admin' ? (document) => setRejectingDocumentId(document.id) : undefined}
+      />
+
+      {/* Rejection Reason Dialog */}
+      <RejectDocumentDialog
+        open={rejectingDocumentId !== null}
+        documentCount={1}
+        onConfirm={async (reason, comment) => {
+          if (!rejectingDocumentId) return
+          await handleStatusUpdate(rejectingDocumentId, 'rejected', reason, comment)
+          setViewerDocumentId(prev => (prev === rejectingDocumentId ? null : prev))
+          setRejectingDocumentId(null)
+        }}
+        onCancel={() => setRejectingDocumentId(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
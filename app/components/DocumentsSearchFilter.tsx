@@ -14,10 +14,13 @@ import { Fragment } from 'react'
 import { 
   fetchUserDocuments, 
   fetchAllDocuments,
+  searchDocumentText,
   DocumentWithPilot,
   DocumentStatus,
   DocumentType
 } from '../../lib/documents'
+import { getMetadataFields, formatMetadataValue } from '../../lib/documentMetadata'
+import { useDocumentTypes } from '../hooks/useDocuments'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
 
@@ -34,23 +37,17 @@ interface FilterState {
   dateFrom: string
   dateTo: string
   pilotName: string
+  // Custom field filters of the selected document type, keyed by field
+  metadata: Record<string, string>
 }
 
-const DOCUMENT_TYPES = [
-  { value: 'all', label: 'All Types' },
-  { value: 'noc', label: 'No Objection Certificate' },
-  { value: 'medical_certificate', label: 'Medical Certificate' },
-  { value: 'alcohol_test', label: 'Alcohol Test' },
-  { value: 'license_certification', label: 'License Certification' },
-  { value: 'training_records', label: 'Training Records' }
-] as const
-
 const STATUS_OPTIONS = [
   { value: 'all', label: 'All Statuses' },
   { value: 'pending', label: 'Pending' },
   { value: 'approved', label: 'Approved' },
   { value: 'rejected', label: 'Rejected' },
-  { value: 'expired', label: 'Expired' }
+  { value: 'expired', label: 'Expired' },
+  { value: 'quarantined', label: 'Quarantined' }
 ] as const
 
 export default function DocumentsSearchFilter({ 
@@ -58,6 +55,12 @@ export default function DocumentsSearchFilter({
   userRole, 
   onDocumentsChange 
 }: DocumentsSearchFilterProps) {
+  // Inactive types are listed too, since older documents may still use them
+  const { data: documentTypes = [] } = useDocumentTypes({ includeInactive: true })
+  const typeOptions = useMemo(() => [
+    { value: 'all', label: 'All Types' },
+    ...documentTypes.map(type => ({ value: type.code, label: type.label }))
+  ], [documentTypes])
   const [allDocuments, setAllDocuments] = useState<DocumentWithPilot[]>([])
   const [loading, setLoading] = useState(false)
   const [filters, setFilters] = useState<FilterState>({
@@ -66,9 +69,42 @@ export default function DocumentsSearchFilter({
     status: 'all',
     dateFrom: '',
     dateTo: '',
-    pilotName: ''
+    pilotName: '',
+    metadata: {}
   })
 
+  // Documents whose text read from the file matches the search term. The
+  // text is not loaded with the list, so it is searched on the server.
+  const [textMatches, setTextMatches] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    const searchTerm = filters.searchTerm.trim()
+    setTextMatches(new Set())
+    if (!searchTerm) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      searchDocumentText(searchTerm)
+        .then(ids => {
+          if (!cancelled) setTextMatches(new Set(ids))
+        })
+        .catch(error => console.warn('Document text search failed:', error))
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [filters.searchTerm])
+
+  // Custom fields can be filtered on once a single type is selected
+  const metadataFields = useMemo(
+    () => filters.documentType === 'all'
+      ? []
+      : getMetadataFields(documentTypes.find(type => type.code === filters.documentType)),
+    [documentTypes, filters.documentType]
+  )
+
   // Load initial documents
   useEffect(() => {
     loadDocuments()
@@ -106,6 +142,8 @@ export default function DocumentsSearchFilter({
         doc.title.toLowerCase().includes(searchLower) ||
         doc.document_type.toLowerCase().includes(searchLower) ||
         doc.status.toLowerCase().includes(searchLower) ||
+        Object.values(doc.metadata || {}).some(value => String(value).toLowerCase().includes(searchLower)) ||
+        textMatches.has(doc.id) ||
         (userRole !== 'pilot' && 
           (`${doc.pilots.first_name} ${doc.pilots.last_name}`.toLowerCase().includes(searchLower) ||
            doc.pilots.email.toLowerCase().includes(searchLower) ||
@@ -119,6 +157,20 @@ export default function DocumentsSearchFilter({
       filtered = filtered.filter(doc => doc.document_type === filters.documentType)
     }
 
+    // Custom field filters: text matches partially, other types exactly
+    for (const field of metadataFields) {
+      const filterValue = filters.metadata[field.key]?.trim()
+      if (!filterValue) continue
+
+      filtered = filtered.filter(doc => {
+        const value = doc.metadata?.[field.key]
+        if (value === undefined) return false
+        if (field.type === 'text') return String(value).toLowerCase().includes(filterValue.toLowerCase())
+        if (field.type === 'number') return Number(value) === Number(filterValue)
+        return String(value) === filterValue
+      })
+    }
+
     // Status filter
     if (filters.status !== 'all') {
       filtered = filtered.filter(doc => doc.status === filters.status)
@@ -146,7 +198,7 @@ export default function DocumentsSearchFilter({
     }
 
     return filtered
-  }, [allDocuments, filters, userRole])
+  }, [allDocuments, filters, userRole, metadataFields, textMatches])
 
   // Update parent component with filtered documents
   useEffect(() => {
@@ -158,10 +210,19 @@ export default function DocumentsSearchFilter({
     setFilters(prev => ({ ...prev, searchTerm: value }))
   }, [])
 
-  const updateFilter = (key: keyof FilterState, value: string) => {
+  const updateFilter = (key: Exclude<keyof FilterState, 'metadata'>, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
   }
 
+  // Field filters belong to one type, so they are cleared when it changes
+  const updateDocumentTypeFilter = (value: string) => {
+    setFilters(prev => ({ ...prev, documentType: value, metadata: {} }))
+  }
+
+  const updateMetadataFilter = (key: string, value: string) => {
+    setFilters(prev => ({ ...prev, metadata: { ...prev.metadata, [key]: value } }))
+  }
+
   const clearAllFilters = () => {
     setFilters({
       searchTerm: '',
@@ -169,7 +230,8 @@ export default function DocumentsSearchFilter({
       status: 'all',
       dateFrom: '',
       dateTo: '',
-      pilotName: ''
+      pilotName: '',
+      metadata: {}
     })
   }
 
@@ -178,7 +240,8 @@ export default function DocumentsSearchFilter({
     filters.status !== 'all' || 
     filters.dateFrom || 
     filters.dateTo || 
-    filters.pilotName
+    filters.pilotName ||
+    Object.values(filters.metadata).some(value => value.trim())
 
   const getStatusBadgeColor = (status: DocumentStatus | 'all') => {
     switch (status) {
@@ -186,6 +249,7 @@ export default function DocumentsSearchFilter({
       case 'rejected': return 'bg-red-100 text-red-800'
       case 'expired': return 'bg-orange-100 text-orange-800'
       case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'quarantined': return 'bg-purple-100 text-purple-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -237,12 +301,12 @@ export default function DocumentsSearchFilter({
             </label>
             <Listbox 
               value={filters.documentType} 
-              onChange={(value) => updateFilter('documentType', value)}
+              onChange={updateDocumentTypeFilter}
             >
               <div className="relative">
                 <Listbox.Button className="relative w-full cursor-pointer rounded-lg bg-white py-2 pl-3 pr-10 text-left border border-gray-300 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500">
                   <span className="block truncate text-sm">
-                    {DOCUMENT_TYPES.find(t => t.value === filters.documentType)?.label}
+                    {typeOptions.find(t => t.value === filters.documentType)?.label}
                   </span>
                   <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2">
                     <ChevronUpDownIcon className="h-4 w-4 text-gray-400" />
@@ -255,7 +319,7 @@ export default function DocumentsSearchFilter({
                   leaveTo="opacity-0"
                 >
                   <Listbox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
-                    {DOCUMENT_TYPES.map((type) => (
+                    {typeOptions.map((type) => (
                       <Listbox.Option
                         key={type.value}
                         value={type.value}
@@ -405,6 +469,43 @@ export default function DocumentsSearchFilter({
           </div>
         </div>
 
+        {/* Custom Field Filters */}
+        {metadataFields.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {metadataFields.map((field) => (
+              <div key={field.key}>
+                <label htmlFor={`filter-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}
+                </label>
+                {field.type === 'enum' ? (
+                  <select
+                    id={`filter-${field.key}`}
+                    value={filters.metadata[field.key] || ''}
+                    onChange={(e) => updateMetadataFilter(field.key, e.target.value)}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Any</option>
+                    {(field.options || []).map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id={`filter-${field.key}`}
+                    type={field.type === 'text' ? 'text' : field.type}
+                    placeholder={field.type === 'text' ? `Search ${field.label.toLowerCase()}...` : undefined}
+                    value={filters.metadata[field.key] || ''}
+                    onChange={(e) => updateMetadataFilter(field.key, e.target.value)}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Active Filters Display */}
         {hasActiveFilters && (
           <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-100">
@@ -424,9 +525,9 @@ export default function DocumentsSearchFilter({
 
             {filters.documentType !== 'all' && (
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
-                Type: {DOCUMENT_TYPES.find(t => t.value === filters.documentType)?.label}
+                Type: {typeOptions.find(t => t.value === filters.documentType)?.label}
                 <button
-                  onClick={() => updateFilter('documentType', 'all')}
+                  onClick={() => updateDocumentTypeFilter('all')}
                   className="ml-1 inline-flex items-center justify-center w-4 h-4 text-purple-400 hover:bg-purple-200 hover:text-purple-600 rounded-full"
                 >
                   <XMarkIcon className="h-3 w-3" />
@@ -458,6 +559,22 @@ export default function DocumentsSearchFilter({
               </span>
             )}
 
+            {metadataFields
+              .filter(field => filters.metadata[field.key]?.trim())
+              .map(field => (
+                <span key={field.key} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                  {field.label}: {field.type === 'text'
+                    ? <>&ldquo;{filters.metadata[field.key]}&rdquo;</>
+                    : formatMetadataValue(field, filters.metadata[field.key])}
+                  <button
+                    onClick={() => updateMetadataFilter(field.key, '')}
+                    className="ml-1 inline-flex items-center justify-center w-4 h-4 text-teal-400 hover:bg-teal-200 hover:text-teal-600 rounded-full"
+                  >
+                    <XMarkIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+
             {(filters.dateFrom || filters.dateTo) && (
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
                 Date: {filters.dateFrom && format(new Date(filters.dateFrom), 'MMM d')}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { ArchiveBoxArrowDownIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+import { supabase } from '../../lib/supabase'
+import { exportPilotDossier } from '../../lib/documents'
+
+// Must match MAX_DOSSIER_PILOTS in lib/dossier.ts
+const MAX_PILOTS = 50
+
+interface PilotOption {
+  id: string
+  first_name: string
+  last_name: string
+  pilot_license: string
+  status: string
+}
+
+// Lets admins and inspectors pick pilots and download their documents as a
+// single ZIP, with an index of every document in CSV and JSON
+export default function DossierExport() {
+  const [pilots, setPilots] = useState<PilotOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [includeHistory, setIncludeHistory] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    const loadPilots = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('pilots')
+          .select('id, first_name, last_name, pilot_license, status')
+          .order('last_name', { ascending: true })
+
+        if (error) throw error
+        setPilots((data || []) as PilotOption[])
+      } catch (error) {
+        console.error('Error loading pilots:', error)
+        toast.error('Failed to load pilots')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPilots()
+  }, [])
+
+  const filteredPilots = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return pilots
+    return pilots.filter(pilot =>
+      `${pilot.first_name} ${pilot.last_name} ${pilot.pilot_license}`.toLowerCase().includes(term)
+    )
+  }, [pilots, search])
+
+  const togglePilot = (pilotId: string) => {
+    const newSelected = new Set(selected)
+    if (newSelected.has(pilotId)) {
+      newSelected.delete(pilotId)
+    } else {
+      newSelected.add(pilotId)
+    }
+    setSelected(newSelected)
+  }
+
+  const allFilteredSelected = filteredPilots.length > 0 && filteredPilots.every(pilot => selected.has(pilot.id))
+
+  const toggleAllFiltered = () => {
+    const newSelected = new Set(selected)
+    filteredPilots.forEach(pilot => {
+      if (allFilteredSelected) {
+        newSelected.delete(pilot.id)
+      } else {
+        newSelected.add(pilot.id)
+      }
+    })
+    setSelected(newSelected)
+  }
+
+  const handleExport = async () => {
+    if (selected.size === 0) return
+    if (selected.size > MAX_PILOTS) {
+      toast.error(`Select at most ${MAX_PILOTS} pilots per export`)
+      return
+    }
+
+    setExporting(true)
+    try {
+      const blob = await exportPilotDossier(Array.from(selected), includeHistory)
+
+      // Download file
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `pilot-dossier-${new Date().toISOString().split('T')[0]}.zip`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      toast.success('Dossier exported')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export dossier')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Export Dossier</h2>
+          <p className="text-sm text-gray-600">
+            Download pilots&apos; documents as a ZIP with an index of types, statuses, expiry dates and reviewers
+          </p>
+        </div>
+        <ArchiveBoxArrowDownIcon className="h-5 w-5 text-gray-400" />
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="relative">
+          <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search pilots by name or license"
+            className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+            ))}
+          </div>
+        ) : filteredPilots.length === 0 ? (
+          <div className="text-center py-6 text-gray-500 text-sm">No pilots found</div>
+        ) : (
+          <div className="border border-gray-200 rounded-md max-h-64 overflow-y-auto">
+            <label className="flex items-center px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer min-h-[44px] touch-manipulation">
+              <input
+                type="checkbox"
+                checked={allFilteredSelected}
+                onChange={toggleAllFiltered}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-3"
+              />
+              Select all{search.trim() ? ' matching' : ''}
+            </label>
+            {filteredPilots.map((pilot) => (
+              <label
+                key={pilot.id}
+                className="flex items-center px-3 py-2 hover:bg-gray-50 cursor-pointer min-h-[44px] touch-manipulation"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(pilot.id)}
+                  onChange={() => togglePilot(pilot.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-3"
+                />
+                <span className="text-sm text-gray-900">
+                  {pilot.last_name}, {pilot.first_name}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">{pilot.pilot_license}</span>
+                {pilot.status !== 'active' && (
+                  <span className="ml-auto text-xs text-gray-400 capitalize">{pilot.status}</span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeHistory}
+              onChange={(e) => setIncludeHistory(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+            />
+            Include previous versions
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={selected.size === 0 || exporting}
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors min-h-[44px] touch-manipulation"
+          >
+            {exporting ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Exporting...
+              </>
+            ) : (
+              <>
+                <ArchiveBoxArrowDownIcon className="h-4 w-4 mr-2" />
+                Export {selected.size > 0 ? `${selected.size} pilot${selected.size !== 1 ? 's' : ''}` : 'dossier'}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { ScaleIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import type { LegalHold } from '../../lib/legalHolds'
+
+interface LegalHoldBadgeProps {
+  // Nothing is rendered without a hold
+  hold: LegalHold | null
+  // Full-width notice instead of a compact badge
+  banner?: boolean
+}
+
+// Marks a document or pilot frozen by a legal hold
+export default function LegalHoldBadge({ hold, banner = false }: LegalHoldBadgeProps) {
+  if (!hold) return null
+
+  const scope = hold.pilot_id ? 'All of this pilot\'s documents are' : 'This document is'
+
+  if (banner) {
+    return (
+      <div className="flex items-start p-3 rounded-lg bg-red-50 border border-red-300 text-red-800">
+        <ScaleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-semibold">Legal hold</p>
+          <p>
+            {scope} frozen since {format(new Date(hold.placed_at), 'MMM dd, yyyy')} and cannot be deleted or changed.
+          </p>
+          <p className="mt-1 text-red-700">Reason: {hold.reason}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-1 rounded-md text-xs font-semibold bg-red-100 text-red-800 border border-red-300"
+      title={`Legal hold: ${hold.reason}`}
+    >
+      <ScaleIcon className="h-3 w-3 mr-1" />
+      Legal hold
+    </span>
+  )
+}
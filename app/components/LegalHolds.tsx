@@ -0,0 +1,362 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ScaleIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../../lib/supabase'
+import {
+  fetchLegalHolds,
+  placeLegalHold,
+  releaseLegalHold,
+  LegalHoldWithTarget
+} from '../../lib/legalHolds'
+
+interface LegalHoldsProps {
+  userRole: 'admin' | 'inspector'
+}
+
+interface PilotOption {
+  id: string
+  first_name: string
+  last_name: string
+  pilot_license: string
+}
+
+interface DocumentOption {
+  id: string
+  title: string
+  version_number: number
+}
+
+// Legal holds freeze a pilot or single documents during an investigation.
+// Admins place and release them; inspectors see which holds are in force.
+export default function LegalHolds({ userRole }: LegalHoldsProps) {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [holds, setHolds] = useState<LegalHoldWithTarget[]>([])
+  const [includeReleased, setIncludeReleased] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const [pilots, setPilots] = useState<PilotOption[]>([])
+  const [pilotDocuments, setPilotDocuments] = useState<DocumentOption[]>([])
+  const [pilotId, setPilotId] = useState('')
+  const [documentId, setDocumentId] = useState('')
+  const [reason, setReason] = useState('')
+  const [placing, setPlacing] = useState(false)
+
+  const [releasingId, setReleasingId] = useState<string | null>(null)
+  const [releaseReason, setReleaseReason] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const canManage = userRole === 'admin'
+
+  const loadHolds = useCallback(async () => {
+    try {
+      setLoading(true)
+      setHolds(await fetchLegalHolds({ includeReleased }))
+    } catch (error) {
+      console.error('Error loading legal holds:', error)
+      toast.error('Failed to load legal holds')
+    } finally {
+      setLoading(false)
+    }
+  }, [includeReleased])
+
+  useEffect(() => {
+    if (open) loadHolds()
+  }, [open, loadHolds])
+
+  useEffect(() => {
+    if (!open || !canManage || pilots.length > 0) return
+
+    const loadPilots = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('pilots')
+          .select('id, first_name, last_name, pilot_license')
+          .order('last_name', { ascending: true })
+
+        if (error) throw error
+        setPilots((data || []) as PilotOption[])
+      } catch (error) {
+        console.error('Error loading pilots:', error)
+        toast.error('Failed to load pilots')
+      }
+    }
+
+    loadPilots()
+  }, [open, canManage, pilots.length])
+
+  // Documents of the chosen pilot, for holds on a single document
+  useEffect(() => {
+    setDocumentId('')
+    setPilotDocuments([])
+    if (!pilotId) return
+
+    const loadDocuments = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('documents')
+          .select('id, title, version_number')
+          .eq('pilot_id', pilotId)
+          .order('created_at', { ascending: false })
+
+        if (error) throw error
+        setPilotDocuments((data || []) as DocumentOption[])
+      } catch (error) {
+        console.error('Error loading documents:', error)
+        toast.error('Failed to load documents')
+      }
+    }
+
+    loadDocuments()
+  }, [pilotId])
+
+  // Document lists and viewers read holds from the shared query
+  const refreshHolds = async () => {
+    await loadHolds()
+    queryClient.invalidateQueries({ queryKey: ['legalHolds'] })
+  }
+
+  const handlePlace = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pilotId || !reason.trim()) return
+
+    setPlacing(true)
+    try {
+      await placeLegalHold(documentId ? { documentId } : { pilotId }, reason)
+      toast.success('Legal hold placed')
+      setPilotId('')
+      setReason('')
+      await refreshHolds()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place legal hold')
+    } finally {
+      setPlacing(false)
+    }
+  }
+
+  const handleRelease = async (holdId: string) => {
+    if (!releaseReason.trim()) {
+      toast.error('Please give a reason for releasing the hold')
+      return
+    }
+
+    setBusyId(holdId)
+    try {
+      await releaseLegalHold(holdId, releaseReason)
+      toast.success('Legal hold released')
+      setReleasingId(null)
+      setReleaseReason('')
+      await refreshHolds()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to release legal hold')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const describeTarget = (hold: LegalHoldWithTarget) => {
+    if (hold.documents) {
+      const { first_name, last_name } = hold.documents.pilots
+      return `${hold.documents.title} (v${hold.documents.version_number}) · ${first_name} ${last_name}`
+    }
+    if (hold.pilots) {
+      return `${hold.pilots.first_name} ${hold.pilots.last_name} (${hold.pilots.pilot_license}) · all documents`
+    }
+    return 'Unknown target'
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 min-h-[44px] touch-manipulation"
+      >
+        <div className="flex items-center">
+          <ScaleIcon className="h-5 w-5 text-red-500 mr-3" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Legal Holds</h2>
+            <p className="text-sm text-gray-600">
+              {canManage
+                ? 'Freeze a pilot or documents during an investigation'
+                : 'Pilots and documents frozen during an investigation'}
+            </p>
+          </div>
+        </div>
+        {open ? (
+          <ChevronUpIcon className="h-5 w-5 text-gray-400" />
+        ) : (
+          <ChevronDownIcon className="h-5 w-5 text-gray-400" />
+        )}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200">
+          {canManage && (
+            <form onSubmit={handlePlace} className="px-6 py-4 bg-gray-50 border-b border-gray-200 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="hold-pilot" className="block text-sm font-medium text-gray-700 mb-1">
+                    Pilot
+                  </label>
+                  <select
+                    id="hold-pilot"
+                    value={pilotId}
+                    onChange={(e) => setPilotId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                  >
+                    <option value="">Select a pilot</option>
+                    {pilots.map(pilot => (
+                      <option key={pilot.id} value={pilot.id}>
+                        {pilot.last_name}, {pilot.first_name} ({pilot.pilot_license})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="hold-document" className="block text-sm font-medium text-gray-700 mb-1">
+                    Document
+                  </label>
+                  <select
+                    id="hold-document"
+                    value={documentId}
+                    onChange={(e) => setDocumentId(e.target.value)}
+                    disabled={!pilotId}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 min-h-[44px]"
+                  >
+                    <option value="">All of this pilot&apos;s records</option>
+                    {pilotDocuments.map(document => (
+                      <option key={document.id} value={document.id}>
+                        {document.title} (v{document.version_number})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="hold-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <input
+                  id="hold-reason"
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. investigation reference"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={placing || !pilotId || !reason.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+              >
+                <ScaleIcon className="h-4 w-4 mr-2" />
+                {placing ? 'Placing hold...' : 'Place legal hold'}
+              </button>
+            </form>
+          )}
+
+          <div className="px-6 py-3 flex items-center justify-end">
+            <label className="inline-flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeReleased}
+                onChange={(e) => setIncludeReleased(e.target.checked)}
+                className="mr-2 rounded border-gray-300"
+              />
+              Show released holds
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-4 bg-gray-200 rounded w-full"></div>
+              ))}
+            </div>
+          ) : holds.length === 0 ? (
+            <div className="text-center py-6 text-gray-500 text-sm">No legal holds</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {holds.map(hold => (
+                <li key={hold.id} className="px-6 py-4">
+                  <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {describeTarget(hold)}
+                        {hold.released_at ? (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Released
+                          </span>
+                        ) : (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Active
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-700 mt-1">{hold.reason}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Placed {format(new Date(hold.placed_at), 'MMM dd, yyyy HH:mm')}
+                        {hold.placed_by_email && ` by ${hold.placed_by_email}`}
+                      </p>
+                      {hold.released_at && (
+                        <p className="text-xs text-gray-500">
+                          Released {format(new Date(hold.released_at), 'MMM dd, yyyy HH:mm')}
+                          {hold.released_by_email && ` by ${hold.released_by_email}`}
+                          {hold.release_reason && `: ${hold.release_reason}`}
+                        </p>
+                      )}
+                    </div>
+
+                    {canManage && !hold.released_at && releasingId !== hold.id && (
+                      <button
+                        onClick={() => {
+                          setReleasingId(hold.id)
+                          setReleaseReason('')
+                        }}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 min-h-[44px] touch-manipulation"
+                      >
+                        Release
+                      </button>
+                    )}
+                  </div>
+
+                  {releasingId === hold.id && (
+                    <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="text"
+                        value={releaseReason}
+                        onChange={(e) => setReleaseReason(e.target.value)}
+                        placeholder="Why is the hold being released?"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                        autoFocus
+                      />
+                      <button
+                        onClick={() => handleRelease(hold.id)}
+                        disabled={busyId === hold.id || !releaseReason.trim()}
+                        className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+                      >
+                        {busyId === hold.id ? 'Releasing...' : 'Confirm release'}
+                      </button>
+                      <button
+                        onClick={() => setReleasingId(null)}
+                        disabled={busyId === hold.id}
+                        className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 min-h-[44px] touch-manipulation"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { METADATA_FIELD_TYPES, MetadataFieldDefinition, MetadataFieldType } from '../../lib/documentMetadata'
+
+// A custom field while it is being edited; options and bounds are kept as
+// typed so partial input such as "Class 1," is not lost
+export interface MetadataFieldDraft {
+  key: string
+  label: string
+  type: MetadataFieldType
+  required: boolean
+  optionsText: string
+  min: string
+  max: string
+  help: string
+  // Keys of saved fields are fixed, since documents store values under them
+  isNew: boolean
+}
+
+export function toFieldDraft(field: MetadataFieldDefinition): MetadataFieldDraft {
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    required: Boolean(field.required),
+    optionsText: (field.options || []).join(', '),
+    min: field.min !== undefined ? String(field.min) : '',
+    max: field.max !== undefined ? String(field.max) : '',
+    help: field.help || '',
+    isNew: false
+  }
+}
+
+export function fromFieldDraft(draft: MetadataFieldDraft): MetadataFieldDefinition {
+  const field: MetadataFieldDefinition = {
+    key: draft.key.trim(),
+    label: draft.label.trim(),
+    type: draft.type,
+    required: draft.required
+  }
+
+  if (draft.type === 'enum') {
+    field.options = draft.optionsText.split(',').map(option => option.trim()).filter(Boolean)
+  }
+  if (draft.type === 'number') {
+    if (draft.min.trim() && Number.isFinite(Number(draft.min))) field.min = Number(draft.min)
+    if (draft.max.trim() && Number.isFinite(Number(draft.max))) field.max = Number(draft.max)
+  }
+  if (draft.help.trim()) {
+    field.help = draft.help.trim()
+  }
+
+  return field
+}
+
+// Suggested key for a new field, e.g. "Issuing AME" -> "issuing_ame"
+function keyFromLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 50)
+}
+
+interface MetadataFieldsEditorProps {
+  fields: MetadataFieldDraft[]
+  onChange: (fields: MetadataFieldDraft[]) => void
+  disabled?: boolean
+}
+
+// Edits the custom fields pilots fill in when uploading a document type
+export default function MetadataFieldsEditor({ fields, onChange, disabled = false }: MetadataFieldsEditorProps) {
+  const updateField = (index: number, changes: Partial<MetadataFieldDraft>) => {
+    onChange(fields.map((field, i) => {
+      if (i !== index) return field
+      const updated = { ...field, ...changes }
+      // New fields take their key from the label until it is edited by hand
+      if (field.isNew && changes.label !== undefined && field.key === keyFromLabel(field.label)) {
+        updated.key = keyFromLabel(changes.label)
+      }
+      return updated
+    }))
+  }
+
+  const addField = () => {
+    onChange([
+      ...fields,
+      { key: '', label: '', type: 'text', required: false, optionsText: '', min: '', max: '', help: '', isNew: true }
+    ])
+  }
+
+  const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Custom fields</span>
+        <button
+          type="button"
+          onClick={addField}
+          disabled={disabled}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 min-h-[44px] touch-manipulation"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add field
+        </button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-xs text-gray-500">Pilots only enter a title and expiry date for this type.</p>
+      ) : (
+        fields.map((field, index) => (
+          <div key={index} className="rounded-md border border-gray-200 bg-white p-3 space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+              <input
+                type="text"
+                aria-label="Field label"
+                placeholder="Label"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                aria-label="Field key"
+                placeholder="key"
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value.toLowerCase() })}
+                disabled={disabled || !field.isNew}
+                title={field.isNew ? undefined : 'Keys cannot change once saved'}
+                className={inputClassName}
+              />
+              <select
+                aria-label="Field type"
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as MetadataFieldType })}
+                disabled={disabled}
+                className={inputClassName}
+              >
+                {METADATA_FIELD_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-center justify-between">
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateField(index, { required: e.target.checked })}
+                    disabled={disabled}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  Required
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  title="Remove field"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+              {field.type === 'enum' && (
+                <input
+                  type="text"
+                  aria-label="Options"
+                  placeholder="Options, comma separated"
+                  value={field.optionsText}
+                  onChange={(e) => updateField(index, { optionsText: e.target.value })}
+                  disabled={disabled}
+                  className={`${inputClassName} sm:col-span-2`}
+                />
+              )}
+              {field.type === 'number' && (
+                <>
+                  <input
+                    type="number"
+                    aria-label="Minimum"
+                    placeholder="Min"
+                    value={field.min}
+                    onChange={(e) => updateField(index, { min: e.target.value })}
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="number"
+                    aria-label="Maximum"
+                    placeholder="Max"
+                    value={field.max}
+                    onChange={(e) => updateField(index, { max: e.target.value })}
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                </>
+              )}
+              <input
+                type="text"
+                aria-label="Help text"
+                placeholder="Help text (optional)"
+                value={field.help}
+                onChange={(e) => updateField(index, { help: e.target.value })}
+                disabled={disabled}
+                className={`${inputClassName} ${field.type === 'enum' || field.type === 'number' ? 'sm:col-span-2' : 'sm:col-span-4'}`}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
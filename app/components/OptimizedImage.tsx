@@ -2,6 +2,7 @@
 
 import Image from 'next/image'
 import { useState } from 'react'
+import { DocumentIcon, DocumentTextIcon, PhotoIcon } from '@heroicons/react/24/outline'
 
 interface OptimizedImageProps {
   src: string
@@ -15,6 +16,7 @@ interface OptimizedImageProps {
   quality?: number
   placeholder?: 'blur' | 'empty'
   blurDataURL?: string
+  unoptimized?: boolean
   onLoad?: () => void
   onError?: () => void
 }
@@ -31,6 +33,7 @@ export default function OptimizedImage({
   quality = 85,
   placeholder = 'blur',
   blurDataURL,
+  unoptimized = false,
   onLoad,
   onError,
 }: OptimizedImageProps) {
@@ -75,6 +78,7 @@ export default function OptimizedImage({
     priority,
     placeholder,
     blurDataURL: blurDataURL || defaultBlurDataURL,
+    unoptimized,
     onLoad: handleLoad,
     onError: handleError,
     className: `${className} ${isLoading ? 'animate-pulse bg-gray-200' : ''}`,
@@ -116,25 +120,47 @@ export default function OptimizedImage({
 
 // Specialized components for common use cases
 
-// Document thumbnail component
+// Document thumbnail component: the generated preview when there is one,
+// otherwise an icon for the file type
 export function DocumentThumbnail({ 
   src, 
   alt, 
+  fileType,
+  size = 48,
   className = '' 
 }: { 
-  src: string
+  src?: string | null
   alt: string 
+  fileType?: string | null
+  size?: number
   className?: string 
 }) {
+  if (!src) {
+    const isPdf = fileType === 'application/pdf'
+    const isImage = fileType?.startsWith('image/')
+    const Icon = isPdf ? DocumentTextIcon : isImage ? PhotoIcon : DocumentIcon
+    return (
+      <div
+        className={`flex items-center justify-center bg-gray-100 rounded-lg border ${className}`}
+        style={{ width: size, height: size }}
+      >
+        <Icon className={`h-6 w-6 ${isPdf ? 'text-red-500' : isImage ? 'text-blue-500' : 'text-gray-400'}`} />
+      </div>
+    )
+  }
+
+  // Signed URLs expire, so they are not run through the image optimizer's cache
   return (
     <OptimizedImage
       src={src}
       alt={alt}
-      width={80}
-      height={80}
-      className={`rounded-lg object-cover ${className}`}
-      sizes="80px"
+      width={size}
+      height={size}
+      className={`rounded-lg border object-cover object-top bg-white ${className}`}
+      sizes={`${size}px`}
       quality={75}
+      placeholder="empty"
+      unoptimized
     />
   )
 }
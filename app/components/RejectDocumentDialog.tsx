@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react'
+import { XCircleIcon } from '@heroicons/react/24/outline'
+
+interface RejectDocumentDialogProps {
+  open: boolean
+  documentCount: number
+  submitting?: boolean
+  onConfirm: (reason: string, comment: string) => void
+  onCancel: () => void
+}
+
+export default function RejectDocumentDialog({
+  open,
+  documentCount,
+  submitting = false,
+  onConfirm,
+  onCancel
+}: RejectDocumentDialogProps) {
+  const [reason, setReason] = useState('')
+  const [comment, setComment] = useState('')
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setReason('')
+      setComment('')
+    }
+  }, [open])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    onConfirm(reason.trim(), comment.trim())
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !submitting && onCancel()} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="w-full max-w-md bg-white rounded-xl shadow-xl">
+          <form onSubmit={handleSubmit}>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+              <XCircleIcon className="h-6 w-6 text-red-500 mr-2" />
+              <DialogTitle className="text-lg font-semibold text-gray-900">
+                Reject {documentCount} document{documentCount !== 1 ? 's' : ''}
+              </DialogTitle>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <label htmlFor="rejectionReason" className="block text-sm font-medium text-gray-700">
+                  Reason <span className="text-red-600">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="rejectionReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+                  placeholder="e.g. Document is illegible"
+                  required
+                  autoFocus
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The pilot will see this reason.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="rejectionComment" className="block text-sm font-medium text-gray-700">
+                  Comments (Optional)
+                </label>
+                <textarea
+                  id="rejectionComment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500"
+                  placeholder="Guidance for the pilot on what to fix"
+                />
+              </div>
+            </div>
+
+            <div className="px-6 py-4 bg-gray-50 rounded-b-xl flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={submitting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 min-h-[44px] touch-manipulation"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason.trim() || submitting}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+              >
+                {submitting && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
+                )}
+                Reject
+              </button>
+            </div>
+          </form>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
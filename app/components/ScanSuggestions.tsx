@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { DocumentSuggestions, FieldSuggestion, describeConfidence } from '../../lib/documentExtraction'
+import { DocumentTypeDefinition, formatDocumentType } from '../../lib/documentTypes'
+
+type SuggestionKey = keyof DocumentSuggestions
+
+interface ScanSuggestionsProps {
+  suggestions: DocumentSuggestions
+  documentTypes: DocumentTypeDefinition[]
+  onApply: (selected: DocumentSuggestions) => void
+  onDismiss: () => void
+}
+
+const FIELD_LABELS: Record<SuggestionKey, string> = {
+  documentType: 'Document type',
+  issueDate: 'Issue date',
+  expiryDate: 'Expiry date',
+  licenceNumber: 'Licence number'
+}
+
+const CONFIDENCE_STYLES = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800'
+}
+
+// Fields read from the scanned file, for the pilot to confirm before they
+// are filled in. Only confident readings start out ticked.
+export default function ScanSuggestions({ suggestions, documentTypes, onApply, onDismiss }: ScanSuggestionsProps) {
+  const entries = (Object.keys(FIELD_LABELS) as SuggestionKey[])
+    .map(key => [key, suggestions[key]] as const)
+    .filter((entry): entry is readonly [SuggestionKey, FieldSuggestion] => Boolean(entry[1]))
+
+  const [selected, setSelected] = useState<Set<SuggestionKey>>(() => new Set(
+    entries.filter(([, suggestion]) => describeConfidence(suggestion.confidence) === 'high').map(([key]) => key)
+  ))
+
+  const toggle = (key: SuggestionKey) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const formatValue = (key: SuggestionKey, value: string) => {
+    if (key === 'documentType') return formatDocumentType(value, documentTypes)
+    if (key === 'issueDate' || key === 'expiryDate') return format(parseISO(value), 'MMM d, yyyy')
+    return value
+  }
+
+  const applySelected = () => {
+    onApply(Object.fromEntries(entries.filter(([key]) => selected.has(key))))
+  }
+
+  if (entries.length === 0) return null
+
+  return (
+    <div className="rounded-md border border-blue-200 bg-blue-50 p-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-sm font-medium text-blue-900">
+          <SparklesIcon className="h-4 w-4 mr-2" />
+          Details found in your file
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-blue-700 hover:text-blue-900"
+          title="Dismiss suggestions"
+        >
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      </div>
+      <p className="text-xs text-blue-800 mt-1">
+        Check each value against the document before using it.
+      </p>
+
+      <ul className="mt-2 space-y-1">
+        {entries.map(([key, suggestion]) => {
+          const level = describeConfidence(suggestion.confidence)
+          return (
+            <li key={key}>
+              <label className="flex items-start gap-3 rounded-md bg-white px-3 py-2 min-h-[44px] touch-manipulation cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(key)}
+                  onChange={() => toggle(key)}
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600">{FIELD_LABELS[key]}:</span>
+                    <span className="font-medium text-gray-900">{formatValue(key, suggestion.value)}</span>
+                    <span
+                      className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${CONFIDENCE_STYLES[level]}`}
+                      title="How sure the reading is"
+                    >
+                      {level === 'high' ? 'High' : level === 'medium' ? 'Medium' : 'Low'} ({Math.round(suggestion.confidence * 100)}%)
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 truncate" title={suggestion.evidence}>
+                    Read from &ldquo;{suggestion.evidence}&rdquo;
+                  </p>
+                </div>
+              </label>
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="mt-2 flex justify-end">
+        <button
+          type="button"
+          onClick={applySelected}
+          disabled={selected.size === 0}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 min-h-[44px] touch-manipulation"
+        >
+          Use selected
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,36 +1,76 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { uploadDocumentComplete, DocumentUploadData, DocumentType } from '../../lib/documents'
+import { uploadDocumentComplete, getOrCreatePilotRecord, DocumentUploadData, DocumentType } from '../../lib/documents'
 import { validateFile } from '../../lib/storage'
+import {
+  getMaxFileSize,
+  getAcceptedFileTypes,
+  describeAllowedFileTypes
+} from '../../lib/documentTypes'
+import { getMetadataFields, validateDocumentMetadata } from '../../lib/documentMetadata'
+import { computeExpiryDate, needsDateOfBirth, fetchPilotDateOfBirth, updatePilotDateOfBirth } from '../../lib/validityRules'
+import { useDocumentTypes } from '../hooks/useDocuments'
 import { CloudArrowUpIcon, DocumentIcon, XMarkIcon } from '@heroicons/react/24/outline'
 import toast from 'react-hot-toast'
+import DocumentMetadataFields from './DocumentMetadataFields'
+import DocumentExpiryFields from './DocumentExpiryFields'
 
 interface SimpleDocumentUploadProps {
   userId: string
   onUploadSuccess?: (documentId: string) => void
 }
 
-const DOCUMENT_TYPES = [
-  { value: 'noc', label: 'No Objection Certificate' },
-  { value: 'medical_certificate', label: 'Medical Certificate' },
-  { value: 'alcohol_test', label: 'Alcohol Test' },
-  { value: 'license_certification', label: 'License Certification' },
-  { value: 'training_records', label: 'Training Records' }
-] as const
-
 export default function SimpleDocumentUpload({ userId, onUploadSuccess }: SimpleDocumentUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [documentType, setDocumentType] = useState<DocumentType>('medical_certificate')
+  const { data: documentTypes = [] } = useDocumentTypes()
+  const [documentType, setDocumentType] = useState<DocumentType>('')
   const [title, setTitle] = useState('')
   const [expiryDate, setExpiryDate] = useState('')
+  const [issueDate, setIssueDate] = useState('')
+  // Age-dependent validity rules need the pilot's date of birth
+  const [dateOfBirth, setDateOfBirth] = useState('')
+  const [savedDateOfBirth, setSavedDateOfBirth] = useState('')
+  const [metadata, setMetadata] = useState<Record<string, string>>({})
+  const [metadataErrors, setMetadataErrors] = useState<Record<string, string>>({})
   const [uploading, setUploading] = useState(false)
 
+  const definition = documentTypes.find(type => type.code === documentType) || null
+  const metadataFields = getMetadataFields(definition)
+
+  // Custom fields differ per type, so values entered for another type are dropped
+  const changeDocumentType = useCallback((code: DocumentType) => {
+    setDocumentType(code)
+    setMetadata({})
+    setMetadataErrors({})
+  }, [])
+
+  const updateMetadata = (key: string, value: string) => {
+    setMetadata(prev => ({ ...prev, [key]: value }))
+    setMetadataErrors(prev => ({ ...prev, [key]: '' }))
+  }
+
+  useEffect(() => {
+    fetchPilotDateOfBirth({ user_id: userId })
+      .then(value => {
+        setDateOfBirth(value || '')
+        setSavedDateOfBirth(value || '')
+      })
+      .catch(error => console.warn('Failed to load date of birth:', error))
+  }, [userId])
+
+  // Start with the first type once the registry has loaded
+  useEffect(() => {
+    if (!documentType && documentTypes.length > 0) {
+      setDocumentType(documentTypes[0].code)
+    }
+  }, [documentType, documentTypes])
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0]
-      const validation = validateFile(file)
+      const validation = validateFile(file, definition)
       
       if (!validation.valid) {
         toast.error(validation.error || 'Invalid file')
@@ -42,17 +82,13 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
         setTitle(file.name.replace(/\.[^/.]+$/, ''))
       }
     }
-  }, [title])
+  }, [title, definition])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png']
-    },
+    accept: getAcceptedFileTypes(definition),
     maxFiles: 1,
-    maxSize: 10 * 1024 * 1024 // 10MB
+    maxSize: getMaxFileSize(definition)
   })
 
   const handleUpload = async () => {
@@ -61,14 +97,43 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
       return
     }
 
+    // The type may have changed since the file was chosen
+    const validation = validateFile(selectedFile, definition)
+    if (!validation.valid) {
+      toast.error(validation.error || 'Invalid file')
+      return
+    }
+
+    // When the expiry date is left empty it is derived from the type's validity rules
+    if (definition?.expiry_required && !expiryDate && !computeExpiryDate(definition, { issueDate, dateOfBirth })) {
+      toast.error(needsDateOfBirth(definition) && !dateOfBirth
+        ? 'Please enter your date of birth or the expiry date'
+        : `Please enter the expiry date of the ${definition.label.toLowerCase()}`)
+      return
+    }
+
+    const metadataCheck = validateDocumentMetadata(metadataFields, metadata)
+    if (!metadataCheck.valid) {
+      setMetadataErrors(metadataCheck.errors)
+      toast.error('Please complete the document details')
+      return
+    }
+
     setUploading(true)
 
     try {
+      if (needsDateOfBirth(definition) && dateOfBirth && dateOfBirth !== savedDateOfBirth) {
+        await updatePilotDateOfBirth(await getOrCreatePilotRecord(userId), dateOfBirth)
+        setSavedDateOfBirth(dateOfBirth)
+      }
+
       const uploadData: DocumentUploadData = {
         title: title.trim(),
         document_type: documentType,
         file: selectedFile,
-        expiry_date: expiryDate || undefined
+        expiry_date: expiryDate || undefined,
+        issue_date: issueDate || undefined,
+        metadata: metadataCheck.metadata
       }
 
       const { document } = await uploadDocumentComplete(userId, uploadData)
@@ -79,7 +144,8 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
       setSelectedFile(null)
       setTitle('')
       setExpiryDate('')
-      setDocumentType('medical_certificate')
+      setIssueDate('')
+      changeDocumentType(documentTypes[0]?.code || '')
       
       onUploadSuccess?.(document.id)
     } catch (error) {
@@ -109,15 +175,18 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
           <select
             id="documentType"
             value={documentType}
-            onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+            onChange={(e) => changeDocumentType(e.target.value)}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           >
-            {DOCUMENT_TYPES.map((type) => (
-              <option key={type.value} value={type.value}>
+            {documentTypes.map((type) => (
+              <option key={type.code} value={type.code}>
                 {type.label}
               </option>
             ))}
           </select>
+          {definition?.description && (
+            <p className="mt-1 text-xs text-gray-500">{definition.description}</p>
+          )}
         </div>
 
         {/* Title Input */}
@@ -136,19 +205,26 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
           />
         </div>
 
-        {/* Expiry Date (Optional) */}
-        <div>
-          <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700">
-            Expiry Date (Optional)
-          </label>
-          <input
-            type="date"
-            id="expiryDate"
-            value={expiryDate}
-            onChange={(e) => setExpiryDate(e.target.value)}
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-          />
-        </div>
+        {/* Issue and Expiry Dates */}
+        <DocumentExpiryFields
+          definition={definition}
+          issueDate={issueDate}
+          expiryDate={expiryDate}
+          dateOfBirth={dateOfBirth}
+          onIssueDateChange={setIssueDate}
+          onExpiryDateChange={setExpiryDate}
+          onDateOfBirthChange={setDateOfBirth}
+          disabled={uploading}
+        />
+
+        {/* Document Details */}
+        <DocumentMetadataFields
+          fields={metadataFields}
+          values={metadata}
+          onChange={updateMetadata}
+          errors={metadataErrors}
+          disabled={uploading}
+        />
 
         {/* File Drop Zone */}
         <div>
@@ -175,7 +251,7 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
                     Drag and drop a file here, or click to select
                   </p>
                   <p className="text-sm text-gray-500 mt-1">
-                    PDF, JPEG, PNG files up to 10MB
+                    {describeAllowedFileTypes(definition)} files up to {Math.round(getMaxFileSize(definition) / 1024 / 1024)}MB
                   </p>
                 </div>
               )}
@@ -209,7 +285,7 @@ export default function SimpleDocumentUpload({ userId, onUploadSuccess }: Simple
         <div className="flex justify-end">
           <button
             onClick={handleUpload}
-            disabled={!selectedFile || !title.trim() || uploading}
+            disabled={!selectedFile || !title.trim() || !definition || uploading}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {uploading ? (
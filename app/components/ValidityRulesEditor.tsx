@@ -0,0 +1,146 @@
+'use client'
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { ValidityRule } from '../../lib/validityRules'
+
+// A validity rule while it is being edited; numbers are kept as typed
+export interface ValidityRuleDraft {
+  minAge: string
+  maxAge: string
+  months: string
+  days: string
+  description: string
+}
+
+export function toRuleDraft(rule: ValidityRule): ValidityRuleDraft {
+  return {
+    minAge: rule.min_age !== undefined ? String(rule.min_age) : '',
+    maxAge: rule.max_age !== undefined ? String(rule.max_age) : '',
+    months: rule.validity_months ? String(rule.validity_months) : '',
+    days: rule.validity_days ? String(rule.validity_days) : '',
+    description: rule.description || ''
+  }
+}
+
+export function fromRuleDraft(draft: ValidityRuleDraft): ValidityRule {
+  const rule: ValidityRule = {}
+  if (draft.minAge.trim()) rule.min_age = Number(draft.minAge)
+  if (draft.maxAge.trim()) rule.max_age = Number(draft.maxAge)
+  if (draft.months.trim()) rule.validity_months = Number(draft.months)
+  if (draft.days.trim()) rule.validity_days = Number(draft.days)
+  if (draft.description.trim()) rule.description = draft.description.trim()
+  return rule
+}
+
+interface ValidityRulesEditorProps {
+  rules: ValidityRuleDraft[]
+  onChange: (rules: ValidityRuleDraft[]) => void
+  disabled?: boolean
+}
+
+// Edits the rules deriving a document type's expiry date from its issue
+// date. The first rule matching the pilot's age applies.
+export default function ValidityRulesEditor({ rules, onChange, disabled = false }: ValidityRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<ValidityRuleDraft>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const addRule = () => {
+    onChange([...rules, { minAge: '', maxAge: '', months: '', days: '', description: '' }])
+  }
+
+  const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Validity rules</span>
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={disabled}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 min-h-[44px] touch-manipulation"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add rule
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Without rules, the default validity (if any) counts from the issue date.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">
+            The first rule matching the pilot&apos;s age on the issue date applies; leave ages empty to match everyone.
+          </p>
+          {rules.map((rule, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-center rounded-md border border-gray-200 bg-white p-3">
+              <input
+                type="number"
+                min={0}
+                aria-label="From age"
+                placeholder="From age"
+                value={rule.minAge}
+                onChange={(e) => updateRule(index, { minAge: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min={0}
+                aria-label="Under age"
+                placeholder="Under age"
+                value={rule.maxAge}
+                onChange={(e) => updateRule(index, { maxAge: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min={0}
+                aria-label="Months valid"
+                placeholder="Months"
+                value={rule.months}
+                onChange={(e) => updateRule(index, { months: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min={0}
+                aria-label="Days valid"
+                placeholder="Days"
+                value={rule.days}
+                onChange={(e) => updateRule(index, { days: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                aria-label="Description"
+                placeholder="Description (optional)"
+                value={rule.description}
+                onChange={(e) => updateRule(index, { description: e.target.value })}
+                disabled={disabled}
+                className={`${inputClassName} col-span-2 sm:col-span-1`}
+              />
+              <div className="text-right">
+                <button
+                  type="button"
+                  onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  title="Remove rule"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
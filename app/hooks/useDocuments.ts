@@ -6,8 +6,13 @@ import {
   fetchDocumentsByStatus,
   updateDocumentStatus,
   DocumentWithPilot,
-  DocumentStatus 
+  DocumentStatus,
+  getOrCreatePilotRecord
 } from '../../lib/documents'
+import { getPilotCompliance, getFleetCompliance } from '../../lib/compliance'
+import { getThumbnailUrls } from '../../lib/storage'
+import { fetchLegalHoldIndex } from '../../lib/legalHolds'
+import { fetchDocumentTypes } from '../../lib/documentTypes'
 
 // Query keys
 const QUERY_KEYS = {
@@ -15,6 +20,11 @@ const QUERY_KEYS = {
   userDocuments: (userId: string) => ['userDocuments', userId],
   allDocuments: () => ['allDocuments'],
   pendingDocuments: () => ['pendingDocuments'],
+  pilotCompliance: (userId: string) => ['pilotCompliance', userId],
+  fleetCompliance: () => ['fleetCompliance'],
+  documentThumbnails: (paths: string[]) => ['documentThumbnails', ...paths],
+  legalHolds: () => ['legalHolds'],
+  documentTypes: (includeInactive: boolean) => ['documentTypes', includeInactive],
 } as const
 
 // Custom hooks for document operations
@@ -55,18 +65,73 @@ export function usePendingDocuments() {
   })
 }
 
+export function usePilotCompliance(userId: string) {
+  return useQuery({
+    queryKey: QUERY_KEYS.pilotCompliance(userId),
+    queryFn: async () => getPilotCompliance(await getOrCreatePilotRecord(userId)),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    gcTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+export function useFleetCompliance() {
+  return useQuery({
+    queryKey: QUERY_KEYS.fleetCompliance(),
+    queryFn: () => getFleetCompliance(),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    gcTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+// Signed thumbnail URLs keyed by document id
+export function useDocumentThumbnails(documents: { id: string; thumbnail_url: string | null }[]) {
+  const paths = documents.map(doc => doc.thumbnail_url).filter((path): path is string => Boolean(path))
+
+  return useQuery({
+    queryKey: QUERY_KEYS.documentThumbnails(paths),
+    queryFn: () => getThumbnailUrls(documents),
+    enabled: paths.length > 0,
+    staleTime: 1000 * 60 * 50, // 50 minutes, inside the 1 hour URL expiry
+    gcTime: 1000 * 60 * 55, // 55 minutes
+  })
+}
+
+// Active legal holds the user can see, indexed by pilot and document
+export function useLegalHoldIndex() {
+  return useQuery({
+    queryKey: QUERY_KEYS.legalHolds(),
+    queryFn: () => fetchLegalHoldIndex(),
+    staleTime: 1000 * 30, // 30 seconds
+    gcTime: 1000 * 60 * 2, // 2 minutes
+  })
+}
+
+// Document type registry; inactive types are only needed to label old documents
+export function useDocumentTypes(options: { includeInactive?: boolean } = {}) {
+  const includeInactive = Boolean(options.includeInactive)
+
+  return useQuery({
+    queryKey: QUERY_KEYS.documentTypes(includeInactive),
+    queryFn: () => fetchDocumentTypes({ includeInactive }),
+    staleTime: 1000 * 60 * 10, // 10 minutes
+    gcTime: 1000 * 60 * 30, // 30 minutes
+  })
+}
+
 export function useUpdateDocumentStatus() {
   const queryClient = useQueryClient()
   
   return useMutation({
-    mutationFn: ({ id, status }: { id: string; status: DocumentStatus }) =>
-      updateDocumentStatus(id, status),
+    mutationFn: ({ id, status, reason, comment }: { id: string; status: DocumentStatus; reason?: string; comment?: string }) =>
+      updateDocumentStatus(id, status, reason, comment),
     onSuccess: () => {
       // Invalidate and refetch relevant queries
       queryClient.invalidateQueries({ queryKey: ['documentStats'] })
       queryClient.invalidateQueries({ queryKey: ['userDocuments'] })
       queryClient.invalidateQueries({ queryKey: ['allDocuments'] })
       queryClient.invalidateQueries({ queryKey: ['pendingDocuments'] })
+      queryClient.invalidateQueries({ queryKey: ['pilotCompliance'] })
+      queryClient.invalidateQueries({ queryKey: ['fleetCompliance'] })
     },
   })
 }
@@ -0,0 +1,107 @@
+-- Document Versioning
+-- A re-upload of the same document type supersedes the previous document
+-- instead of creating an unrelated record. All versions of one document share
+-- a version_group_id; only one row per group is current at a time.
+--
+-- A new version waits for review alongside the current one and only takes
+-- over once it is approved, so an approved document never gives way to an
+-- upload that is still pending, quarantined or infected. Versions awaiting
+-- review are neither current nor superseded.
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS version_group_id UUID,
+    ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS current_from TIMESTAMPTZ;
+
+-- Existing documents each start their own version group
+UPDATE public.documents
+SET version_group_id = id
+WHERE version_group_id IS NULL;
+
+UPDATE public.documents
+SET current_from = upload_date
+WHERE current_from IS NULL;
+
+-- New rows default to their own group unless the application supplies one
+CREATE OR REPLACE FUNCTION set_document_version_group()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.version_group_id IS NULL THEN
+        NEW.version_group_id := NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_document_version_group_trigger ON documents;
+CREATE TRIGGER set_document_version_group_trigger
+    BEFORE INSERT ON documents
+    FOR EACH ROW EXECUTE FUNCTION set_document_version_group();
+
+ALTER TABLE public.documents
+    ALTER COLUMN version_group_id SET NOT NULL;
+
+-- Indexes for history lookups and current-version listings
+CREATE INDEX IF NOT EXISTS idx_documents_version_group ON documents (version_group_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_documents_current ON documents (pilot_id, document_type) WHERE is_current;
+CREATE INDEX IF NOT EXISTS idx_documents_not_superseded ON documents (pilot_id, document_type) WHERE superseded_at IS NULL;
+
+-- At most one current version per group
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_one_current_per_group
+    ON documents (version_group_id) WHERE is_current;
+
+-- Make an approved version current, superseding the version it replaces
+-- and any older versions still awaiting review, in one transaction. Runs
+-- as the caller, so row level security and legal holds apply. Approving a
+-- version older than the current one leaves the current one in place.
+CREATE OR REPLACE FUNCTION promote_document_version(p_document_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    target documents%ROWTYPE;
+    current_version documents%ROWTYPE;
+BEGIN
+    SELECT * INTO target FROM documents
+    WHERE id = p_document_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND OR target.is_current THEN
+        RETURN;
+    END IF;
+
+    -- Locking the current version serialises promotions within the group
+    SELECT * INTO current_version FROM documents
+    WHERE version_group_id = target.version_group_id AND is_current
+    FOR UPDATE;
+
+    IF FOUND AND current_version.version_number > target.version_number THEN
+        UPDATE documents
+        SET superseded_by = current_version.id, superseded_at = NOW()
+        WHERE id = target.id;
+        RETURN;
+    END IF;
+
+    UPDATE documents
+    SET is_current = FALSE, superseded_by = target.id, superseded_at = NOW()
+    WHERE version_group_id = target.version_group_id
+    AND id <> target.id
+    AND version_number <= target.version_number
+    AND superseded_at IS NULL
+    AND deleted_at IS NULL;
+
+    UPDATE documents
+    SET is_current = TRUE, current_from = NOW(), superseded_by = NULL, superseded_at = NULL
+    WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION promote_document_version(UUID) TO authenticated;
+
+COMMENT ON COLUMN documents.version_group_id IS 'Shared by every version of the same logical document';
+COMMENT ON COLUMN documents.version_number IS 'Monotonic revision number within the version group, starting at 1';
+COMMENT ON COLUMN documents.is_current IS 'True for the version in force: the latest approved one, or the first upload until one is approved';
+COMMENT ON COLUMN documents.current_from IS 'When this version became current; NULL if it never has';
+COMMENT ON COLUMN documents.superseded_by IS 'The version that replaced this one';
+COMMENT ON COLUMN documents.superseded_at IS 'When this version stopped being current';
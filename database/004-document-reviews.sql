@@ -0,0 +1,93 @@
+-- Document Reviews
+-- Persists reviewer decisions, rejection reasons and the comment thread
+-- between reviewers and the pilot for each document.
+
+CREATE TABLE IF NOT EXISTS public.document_reviews (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+    author_id UUID,
+    author_email TEXT,
+    author_role TEXT CHECK (author_role IN ('pilot', 'admin', 'inspector')),
+    decision TEXT CHECK (decision IN ('approved', 'rejected', 'resubmitted')),
+    reason TEXT,
+    comment TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- A rejection must always carry a reason
+    CONSTRAINT document_reviews_rejection_reason CHECK (decision IS DISTINCT FROM 'rejected' OR length(trim(reason)) > 0),
+    -- Every entry must say something
+    CONSTRAINT document_reviews_not_empty CHECK (decision IS NOT NULL OR length(trim(comment)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_reviews_document_id ON document_reviews (document_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_document_reviews_author_id ON document_reviews (author_id);
+
+-- Fill in the author from the authenticated session so it cannot be spoofed
+CREATE OR REPLACE FUNCTION set_document_review_author()
+RETURNS TRIGGER AS $$
+DECLARE
+    user_context RECORD;
+BEGIN
+    SELECT * INTO user_context FROM get_current_user_context();
+
+    NEW.author_id := user_context.user_id;
+    NEW.author_email := user_context.user_email;
+    NEW.author_role := user_context.user_role;
+    NEW.created_at := NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_document_review_author_trigger ON document_reviews;
+CREATE TRIGGER set_document_review_author_trigger
+    BEFORE INSERT ON document_reviews
+    FOR EACH ROW EXECUTE FUNCTION set_document_review_author();
+
+DROP TRIGGER IF EXISTS audit_document_reviews_trigger ON document_reviews;
+CREATE TRIGGER audit_document_reviews_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON document_reviews
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- Enable RLS on document_reviews table
+ALTER TABLE document_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Reviewers see every thread, pilots see threads on their own documents
+CREATE POLICY "view_document_reviews" ON document_reviews FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role IN ('admin', 'inspector')
+        )
+        OR EXISTS (
+            SELECT 1 FROM documents d
+            JOIN pilots p ON p.id = d.pilot_id
+            WHERE d.id = document_reviews.document_id
+            AND p.user_id::TEXT = auth.uid()::TEXT
+        )
+    );
+
+-- Policy: Reviewers may record decisions; pilots may only comment or resubmit their own documents
+CREATE POLICY "insert_document_reviews" ON document_reviews FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role IN ('admin', 'inspector')
+        )
+        OR (
+            (decision IS NULL OR decision = 'resubmitted')
+            AND EXISTS (
+                SELECT 1 FROM documents d
+                JOIN pilots p ON p.id = d.pilot_id
+                WHERE d.id = document_reviews.document_id
+                AND p.user_id::TEXT = auth.uid()::TEXT
+            )
+        )
+    );
+
+-- Grant permissions
+GRANT SELECT, INSERT ON document_reviews TO authenticated;
+
+COMMENT ON TABLE document_reviews IS 'Reviewer decisions, rejection reasons and comment threads per document';
+COMMENT ON COLUMN document_reviews.decision IS 'NULL for a plain comment';
@@ -0,0 +1,34 @@
+-- Expiry Reminder Log
+-- One row per reminder sent. The unique key guarantees each document gets
+-- at most one reminder per offset, even if the cron runs concurrently.
+
+CREATE TABLE IF NOT EXISTS public.document_reminders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+    offset_days INTEGER NOT NULL CHECK (offset_days >= 0),
+    expiry_date TIMESTAMPTZ NOT NULL,
+    recipient TEXT NOT NULL,
+    transport TEXT NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+    -- expiry_date is part of the key so a corrected expiry date re-arms the reminders
+    CONSTRAINT document_reminders_once UNIQUE (document_id, offset_days, expiry_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_reminders_document_id ON document_reminders (document_id);
+
+-- Enable RLS on document_reminders table; only the service role writes here
+ALTER TABLE document_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can view the reminder log
+CREATE POLICY "admin_view_document_reminders" ON document_reminders FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+GRANT SELECT ON document_reminders TO authenticated;
+
+COMMENT ON TABLE document_reminders IS 'Log of expiry reminders sent, used to send each reminder exactly once';
@@ -0,0 +1,50 @@
+-- Compliance Requirements
+-- Which documents every active pilot must hold to be compliant.
+-- Admins edit these rows to change the requirements matrix.
+
+CREATE TABLE IF NOT EXISTS public.compliance_requirements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    document_type TEXT NOT NULL UNIQUE CHECK (document_type IN ('noc', 'medical_certificate', 'alcohol_test', 'license_certification', 'training_records')),
+    label TEXT NOT NULL,
+    -- Document is only valid for this many days after upload (NULL = no age limit)
+    max_age_days INTEGER CHECK (max_age_days IS NULL OR max_age_days > 0),
+    -- Valid documents within this many days of expiring are reported as 'expiring'
+    expiring_window_days INTEGER NOT NULL DEFAULT 30 CHECK (expiring_window_days >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Default requirements
+INSERT INTO public.compliance_requirements (document_type, label, max_age_days) VALUES
+    ('medical_certificate', 'Valid medical certificate', NULL),
+    ('license_certification', 'Valid license certification', NULL),
+    ('alcohol_test', 'Recent alcohol test', 30)
+ON CONFLICT (document_type) DO NOTHING;
+
+DROP TRIGGER IF EXISTS audit_compliance_requirements_trigger ON compliance_requirements;
+CREATE TRIGGER audit_compliance_requirements_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON compliance_requirements
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- Enable RLS on compliance_requirements table
+ALTER TABLE compliance_requirements ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Everyone signed in can read the requirements
+CREATE POLICY "view_compliance_requirements" ON compliance_requirements FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- Policy: Only admins can change the requirements
+CREATE POLICY "admin_manage_compliance_requirements" ON compliance_requirements FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+GRANT SELECT ON compliance_requirements TO authenticated;
+GRANT INSERT, UPDATE, DELETE ON compliance_requirements TO authenticated;
+
+COMMENT ON TABLE compliance_requirements IS 'Documents each active pilot is required to hold';
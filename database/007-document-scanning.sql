@@ -0,0 +1,82 @@
+-- Document Malware Scanning
+-- New uploads are held in a 'quarantined' status until the server-side
+-- malware scanner (lib/malwareScan.ts) reports them clean. Quarantined
+-- documents never reach the approval queue and cannot be released by
+-- anyone but the service role.
+--
+-- Scan attempts are counted. The scanner takes documents it has tried the
+-- fewest times first and gives up after a few, so files that can never be
+-- scanned do not keep newer uploads waiting; an admin can still rescan them.
+
+-- Allow the new status, whether documents.status is the enum or a checked TEXT column
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'document_status') THEN
+        ALTER TYPE document_status ADD VALUE IF NOT EXISTS 'quarantined';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'documents_status_check' AND conrelid = 'public.documents'::regclass
+    ) THEN
+        ALTER TABLE public.documents DROP CONSTRAINT documents_status_check;
+        ALTER TABLE public.documents ADD CONSTRAINT documents_status_check
+            CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'quarantined'));
+    END IF;
+END $$;
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS scan_status TEXT NOT NULL DEFAULT 'unscanned'
+        CHECK (scan_status IN ('unscanned', 'clean', 'infected', 'error')),
+    ADD COLUMN IF NOT EXISTS scan_signature TEXT,
+    ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS scan_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- The scanner works through the quarantine least tried, then oldest, first
+DROP INDEX IF EXISTS idx_documents_quarantine;
+CREATE INDEX IF NOT EXISTS idx_documents_scan_queue ON documents (scan_attempts, created_at)
+    WHERE status = 'quarantined';
+
+-- Only the service role (the scanner) may set scan results or release a
+-- quarantined document; every other upload starts out quarantined
+CREATE OR REPLACE FUNCTION enforce_document_quarantine()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'quarantined';
+        NEW.scan_status := 'unscanned';
+        NEW.scan_signature := NULL;
+        NEW.scanned_at := NULL;
+        NEW.scan_attempts := 0;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'quarantined' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        RAISE EXCEPTION 'Document % is quarantined until its malware scan passes', OLD.id;
+    END IF;
+
+    IF NEW.status = 'quarantined' AND OLD.status IS DISTINCT FROM 'quarantined' THEN
+        RAISE EXCEPTION 'Only the malware scanner can quarantine a document';
+    END IF;
+
+    NEW.scan_status := OLD.scan_status;
+    NEW.scan_signature := OLD.scan_signature;
+    NEW.scanned_at := OLD.scanned_at;
+    NEW.scan_attempts := OLD.scan_attempts;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_document_quarantine_trigger ON documents;
+CREATE TRIGGER enforce_document_quarantine_trigger
+    BEFORE INSERT OR UPDATE ON documents
+    FOR EACH ROW EXECUTE FUNCTION enforce_document_quarantine();
+
+COMMENT ON COLUMN documents.scan_status IS 'Outcome of the latest malware scan: unscanned, clean, infected or error';
+COMMENT ON COLUMN documents.scan_signature IS 'Signature reported by the scanner for infected files';
+COMMENT ON COLUMN documents.scanned_at IS 'When the latest malware scan finished';
+COMMENT ON COLUMN documents.scan_attempts IS 'Malware scans attempted on the document';
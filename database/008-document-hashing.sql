@@ -0,0 +1,18 @@
+-- Document Content Hashing
+-- Each upload records the SHA-256 of its file so repeated uploads can be
+-- spotted: the same content twice for one pilot is usually an accident,
+-- the same content under different pilots is a possible fraud signal.
+-- The malware scanner (service role) recomputes the hash from the stored
+-- file, so the value reviewers see does not depend on the uploading browser.
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS content_hash TEXT
+        CHECK (content_hash ~ '^[0-9a-f]{64}$');
+
+-- Lookups by hash, within one pilot and across pilots
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents (content_hash)
+    WHERE content_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_pilot_content_hash ON documents (pilot_id, content_hash)
+    WHERE content_hash IS NOT NULL;
+
+COMMENT ON COLUMN public.documents.content_hash IS 'SHA-256 of the file content, hex encoded';
@@ -0,0 +1,21 @@
+-- Document Thumbnails
+-- Once an upload passes the malware scan, the server renders a small WebP
+-- preview (first page of a PDF, or a downscaled image) and stores it next to
+-- the original as "<name>.thumb.webp". Lists and the approval queue show it
+-- instead of a generic file icon.
+--
+-- Failed attempts are counted, and the cleanup job's backfill gives up on a
+-- document after a few, so files that can never be rendered do not keep
+-- the rest of the queue waiting.
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS thumbnail_url TEXT,
+    ADD COLUMN IF NOT EXISTS thumbnail_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS thumbnail_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_missing_thumbnail
+    ON documents (thumbnail_attempts, created_at DESC) WHERE thumbnail_url IS NULL;
+
+COMMENT ON COLUMN public.documents.thumbnail_url IS 'Storage path of the preview image; NULL until generated';
+COMMENT ON COLUMN public.documents.thumbnail_attempts IS 'Failed attempts at generating the thumbnail';
+COMMENT ON COLUMN public.documents.thumbnail_error IS 'Why the last attempt failed';
@@ -0,0 +1,26 @@
+-- Document Downloads
+-- Downloads go through /api/downloads/<token>, which serves a watermarked
+-- copy of the file. Tokens are single use and expire after a minute, so a
+-- download link is worthless once forwarded. Only a SHA-256 hash of each
+-- token is stored.
+
+CREATE TABLE IF NOT EXISTS public.document_download_tokens (
+    token_hash TEXT PRIMARY KEY CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+    document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    -- Printed on the watermark
+    viewer_name TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_download_tokens_user_id ON document_download_tokens (user_id, expires_at);
+
+-- Tokens are issued and redeemed by the server with the service role;
+-- no policies means no access for anyone else
+ALTER TABLE document_download_tokens ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE document_download_tokens IS 'Single-use, short-lived tokens for watermarked document downloads';
+COMMENT ON COLUMN document_download_tokens.token_hash IS 'SHA-256 of the token, hex encoded; the token itself is never stored';
+COMMENT ON COLUMN document_download_tokens.used_at IS 'When the token was redeemed; redeemed tokens cannot be used again';
@@ -0,0 +1,131 @@
+-- Document Trash
+-- Deleting a document moves it to the trash instead of removing it. Trashed
+-- documents are hidden from the app; admins can restore them or purge them
+-- for good, and the cleanup job purges anything left in the trash past the
+-- retention window (TRASH_RETENTION_DAYS, default 30).
+--
+-- Purging removes the stored file and thumbnail but keeps the row, so the
+-- document's metadata, reviews and audit trail remain on record.
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID,
+    -- A document must be in the trash before it can be purged
+    ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ
+        CHECK (purged_at IS NULL OR deleted_at IS NOT NULL);
+
+-- The cleanup job works through the trash oldest first
+CREATE INDEX IF NOT EXISTS idx_documents_trash ON documents (deleted_at)
+    WHERE deleted_at IS NOT NULL AND purged_at IS NULL;
+
+-- Trashed documents are invisible to app users and cannot be changed by
+-- them. Trashing, restoring and purging run on the server with the service
+-- role, which bypasses row level security.
+CREATE POLICY "hide_trashed_documents" ON documents AS RESTRICTIVE FOR ALL
+    USING (deleted_at IS NULL)
+    WITH CHECK (deleted_at IS NULL);
+
+-- Rows are never hard-deleted by app users
+CREATE POLICY "no_hard_document_deletes" ON documents AS RESTRICTIVE FOR DELETE
+    USING (FALSE);
+
+-- Make the highest version left in a group current, demoting whichever
+-- version is current now. Trashed versions are passed over, and so are
+-- versions that have never been approved into place. Versions uploaded
+-- while an earlier one was in the trash can share its number; the newer
+-- upload wins.
+CREATE OR REPLACE FUNCTION reinstate_latest_document_version(p_version_group_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    latest documents%ROWTYPE;
+BEGIN
+    -- Locking the group serialises trash and restore within it
+    PERFORM 1 FROM documents
+    WHERE version_group_id = p_version_group_id
+    FOR UPDATE;
+
+    SELECT * INTO latest FROM documents
+    WHERE version_group_id = p_version_group_id
+    AND deleted_at IS NULL
+    AND current_from IS NOT NULL
+    ORDER BY version_number DESC, created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND OR latest.is_current THEN
+        RETURN;
+    END IF;
+
+    UPDATE documents
+    SET is_current = FALSE, superseded_by = latest.id, superseded_at = NOW()
+    WHERE version_group_id = p_version_group_id
+    AND is_current;
+
+    UPDATE documents
+    SET is_current = TRUE, superseded_by = NULL, superseded_at = NULL
+    WHERE id = latest.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a document to the trash, reinstating the previous version if it was
+-- the current one, in one transaction. Returns FALSE if the document was
+-- already in the trash.
+CREATE OR REPLACE FUNCTION trash_document(p_document_id UUID, p_deleted_by UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target documents%ROWTYPE;
+BEGIN
+    SELECT * INTO target FROM documents
+    WHERE id = p_document_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE documents
+    SET deleted_at = NOW(), deleted_by = p_deleted_by, is_current = FALSE
+    WHERE id = target.id;
+
+    IF target.is_current THEN
+        PERFORM reinstate_latest_document_version(target.version_group_id);
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take a document out of the trash and make the group's latest version
+-- current again, in one transaction. Returns FALSE if the document is not
+-- in the trash or has been purged.
+CREATE OR REPLACE FUNCTION restore_trashed_document(p_document_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    restored_group_id UUID;
+BEGIN
+    UPDATE documents
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = p_document_id
+    AND deleted_at IS NOT NULL
+    AND purged_at IS NULL
+    RETURNING version_group_id INTO restored_group_id;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM reinstate_latest_document_version(restored_group_id);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) trashes and restores documents
+REVOKE EXECUTE ON FUNCTION reinstate_latest_document_version FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION trash_document FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION restore_trashed_document FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reinstate_latest_document_version TO service_role;
+GRANT EXECUTE ON FUNCTION trash_document TO service_role;
+GRANT EXECUTE ON FUNCTION restore_trashed_document TO service_role;
+
+COMMENT ON COLUMN documents.deleted_at IS 'When the document was moved to the trash';
+COMMENT ON COLUMN documents.deleted_by IS 'User who moved the document to the trash';
+COMMENT ON COLUMN documents.purged_at IS 'When the stored file was permanently removed; the row is kept as a record';
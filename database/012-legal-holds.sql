@@ -0,0 +1,215 @@
+-- Legal Holds
+-- During an investigation an admin can freeze a pilot, or individual
+-- documents, so that nothing about them can be deleted or altered. While a
+-- hold is active, documents under it cannot be trashed, restored, purged,
+-- edited or change review status, and a held pilot's record cannot change.
+-- New uploads are still accepted; an older version being superseded is not
+-- a change to its content.
+--
+-- Holds are never deleted. Releasing one records who released it, when and
+-- why, and every change is written to the audit log.
+
+CREATE TABLE IF NOT EXISTS public.legal_holds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- A hold covers either a whole pilot or a single document. Holds keep
+    -- their target from being deleted even after they are released.
+    pilot_id UUID REFERENCES public.pilots(id) ON DELETE RESTRICT,
+    document_id UUID REFERENCES public.documents(id) ON DELETE RESTRICT,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    placed_by UUID,
+    placed_by_email TEXT,
+    placed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    released_by UUID,
+    released_by_email TEXT,
+    released_at TIMESTAMPTZ,
+    release_reason TEXT,
+    CONSTRAINT legal_holds_single_target CHECK ((pilot_id IS NULL) <> (document_id IS NULL)),
+    CONSTRAINT legal_holds_release_reason CHECK (released_at IS NULL OR length(trim(release_reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_holds_active_pilot ON legal_holds (pilot_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_legal_holds_active_document ON legal_holds (document_id) WHERE released_at IS NULL;
+
+-- Whether a pilot, or a document of that pilot, is under an active hold.
+-- Security definer so the check sees every hold regardless of the caller.
+CREATE OR REPLACE FUNCTION is_under_legal_hold(p_pilot_id UUID, p_document_id UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM legal_holds
+        WHERE released_at IS NULL
+        AND (pilot_id = p_pilot_id OR (p_document_id IS NOT NULL AND document_id = p_document_id))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Fill in who placed or released a hold from the session, and allow no
+-- change to a hold other than releasing it once
+CREATE OR REPLACE FUNCTION set_legal_hold_actor()
+RETURNS TRIGGER AS $$
+DECLARE
+    user_context RECORD;
+BEGIN
+    SELECT * INTO user_context FROM get_current_user_context();
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.placed_by := user_context.user_id;
+        NEW.placed_by_email := user_context.user_email;
+        NEW.placed_at := NOW();
+        NEW.released_by := NULL;
+        NEW.released_by_email := NULL;
+        NEW.released_at := NULL;
+        NEW.release_reason := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.released_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Legal hold % has already been released', OLD.id;
+    END IF;
+
+    IF NEW.pilot_id IS DISTINCT FROM OLD.pilot_id
+        OR NEW.document_id IS DISTINCT FROM OLD.document_id
+        OR NEW.reason IS DISTINCT FROM OLD.reason
+        OR NEW.placed_by IS DISTINCT FROM OLD.placed_by
+        OR NEW.placed_by_email IS DISTINCT FROM OLD.placed_by_email
+        OR NEW.placed_at IS DISTINCT FROM OLD.placed_at THEN
+        RAISE EXCEPTION 'A legal hold can only be released, not changed';
+    END IF;
+
+    IF NEW.released_at IS NOT NULL THEN
+        NEW.released_by := user_context.user_id;
+        NEW.released_by_email := user_context.user_email;
+        NEW.released_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_legal_hold_actor_trigger ON legal_holds;
+CREATE TRIGGER set_legal_hold_actor_trigger
+    BEFORE INSERT OR UPDATE ON legal_holds
+    FOR EACH ROW EXECUTE FUNCTION set_legal_hold_actor();
+
+CREATE OR REPLACE FUNCTION prevent_legal_hold_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Legal holds cannot be deleted; release the hold instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_legal_hold_delete_trigger ON legal_holds;
+CREATE TRIGGER prevent_legal_hold_delete_trigger
+    BEFORE DELETE ON legal_holds
+    FOR EACH ROW EXECUTE FUNCTION prevent_legal_hold_delete();
+
+DROP TRIGGER IF EXISTS audit_legal_holds_trigger ON legal_holds;
+CREATE TRIGGER audit_legal_holds_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON legal_holds
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- Held documents are frozen. This applies to the service role as well, so
+-- no server task can get around a hold. Every column is frozen except the
+-- bookkeeping listed below: version bookkeeping, scan results, thumbnails
+-- and updated_at may still change, and the malware scanner may still
+-- release a quarantined upload. Columns added by later migrations are
+-- frozen without this function having to change.
+CREATE OR REPLACE FUNCTION enforce_document_legal_hold()
+RETURNS TRIGGER AS $$
+DECLARE
+    bookkeeping TEXT[] := ARRAY[
+        'status',
+        'is_current', 'superseded_by', 'superseded_at', 'current_from',
+        'scan_status', 'scan_signature', 'scanned_at', 'scan_attempts',
+        'thumbnail_url', 'thumbnail_attempts', 'thumbnail_error',
+        'updated_at'
+    ];
+BEGIN
+    IF NOT is_under_legal_hold(OLD.pilot_id, OLD.id) THEN
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Document % is under legal hold and cannot be deleted', OLD.id;
+    END IF;
+
+    IF (NEW.status IS DISTINCT FROM OLD.status AND OLD.status <> 'quarantined')
+        OR (to_jsonb(NEW) - bookkeeping) IS DISTINCT FROM (to_jsonb(OLD) - bookkeeping) THEN
+        RAISE EXCEPTION 'Document % is under legal hold and cannot be changed', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_document_legal_hold_trigger ON documents;
+CREATE TRIGGER enforce_document_legal_hold_trigger
+    BEFORE UPDATE OR DELETE ON documents
+    FOR EACH ROW EXECUTE FUNCTION enforce_document_legal_hold();
+
+-- A held pilot's record cannot change at all
+CREATE OR REPLACE FUNCTION enforce_pilot_legal_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF is_under_legal_hold(OLD.id) THEN
+        RAISE EXCEPTION 'Pilot % is under legal hold and cannot be changed', OLD.id;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_pilot_legal_hold_trigger ON pilots;
+CREATE TRIGGER enforce_pilot_legal_hold_trigger
+    BEFORE UPDATE OR DELETE ON pilots
+    FOR EACH ROW EXECUTE FUNCTION enforce_pilot_legal_hold();
+
+-- Enable RLS on legal_holds table
+ALTER TABLE legal_holds ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins and inspectors see every hold, pilots see holds on
+-- themselves and their documents
+CREATE POLICY "view_legal_holds" ON legal_holds FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role IN ('admin', 'inspector')
+        )
+        OR EXISTS (
+            SELECT 1 FROM pilots p
+            LEFT JOIN documents d ON d.id = legal_holds.document_id
+            WHERE p.user_id::TEXT = auth.uid()::TEXT
+            AND (p.id = legal_holds.pilot_id OR p.id = d.pilot_id)
+        )
+    );
+
+-- Policy: Only admins can place holds
+CREATE POLICY "admin_place_legal_holds" ON legal_holds FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+-- Policy: Only admins can release holds
+CREATE POLICY "admin_release_legal_holds" ON legal_holds FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE ON legal_holds TO authenticated;
+
+COMMENT ON TABLE legal_holds IS 'Legal holds freezing a pilot or individual documents during an investigation';
+COMMENT ON COLUMN legal_holds.reason IS 'Why the hold was placed, e.g. the investigation reference';
+COMMENT ON COLUMN legal_holds.released_at IS 'When the hold was lifted; NULL while the hold is active';
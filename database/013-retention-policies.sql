@@ -0,0 +1,140 @@
+-- Retention Policies
+-- How long documents and audit log entries are kept. The cleanup job
+-- applies the active policies: documents past their retention are purged
+-- (file removed from storage, row kept and marked as purged) and audit log
+-- entries past their retention are deleted. Anything under legal hold is
+-- kept regardless. Without a matching policy nothing is removed.
+-- Admins edit these rows to change the policies.
+
+CREATE TABLE IF NOT EXISTS public.retention_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    target TEXT NOT NULL CHECK (target IN ('documents', 'audit_logs')),
+    -- Document policies: which document type, and whether the period runs
+    -- from the document's expiry or upload date
+    document_type TEXT CHECK (document_type IN ('noc', 'medical_certificate', 'alcohol_test', 'license_certification', 'training_records')),
+    retain_from TEXT CHECK (retain_from IN ('expiry_date', 'upload_date')),
+    -- Audit log policies: which entries (NULL matches any). When several
+    -- policies match an entry, the most specific one applies.
+    audit_table_name TEXT,
+    audit_action_type TEXT,
+    retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT retention_policies_document_target CHECK (
+        target <> 'documents'
+        OR (document_type IS NOT NULL AND retain_from IS NOT NULL AND audit_table_name IS NULL AND audit_action_type IS NULL)
+    ),
+    CONSTRAINT retention_policies_audit_target CHECK (
+        target <> 'audit_logs'
+        OR (document_type IS NULL AND retain_from IS NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_policies_scope ON retention_policies (
+    target,
+    COALESCE(document_type, ''),
+    COALESCE(audit_table_name, ''),
+    COALESCE(audit_action_type, '')
+);
+
+-- Default policies
+INSERT INTO public.retention_policies (target, document_type, retain_from, retention_days, description) VALUES
+    ('documents', 'alcohol_test', 'expiry_date', 730, 'Keep alcohol tests 2 years after they expire')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.retention_policies (target, retention_days, description) VALUES
+    ('audit_logs', 2555, 'Keep audit logs 7 years')
+ON CONFLICT DO NOTHING;
+
+DROP TRIGGER IF EXISTS audit_retention_policies_trigger ON retention_policies;
+CREATE TRIGGER audit_retention_policies_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON retention_policies
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- Delete audit log entries past the retention of the most specific active
+-- policy matching them, oldest first and at most p_limit per run. Entries
+-- about a pilot or document under legal hold are kept. With p_dry_run
+-- nothing is deleted. Returns per policy how many entries were (or would
+-- be) deleted and how many were kept for a hold.
+CREATE OR REPLACE FUNCTION apply_audit_log_retention(
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    p_dry_run BOOLEAN DEFAULT FALSE,
+    p_limit INTEGER DEFAULT 10000
+)
+RETURNS TABLE(policy_id UUID, purged_count INTEGER, held_count INTEGER) AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        SELECT al.id, policy.id AS policy_id,
+            EXISTS (
+                SELECT 1 FROM legal_holds lh
+                LEFT JOIN documents d ON d.id = al.record_id
+                WHERE lh.released_at IS NULL
+                AND (lh.pilot_id = al.record_id OR lh.document_id = al.record_id OR lh.pilot_id = d.pilot_id)
+            ) AS held
+        FROM audit_logs al
+        CROSS JOIN LATERAL (
+            SELECT rp.id, rp.retention_days
+            FROM retention_policies rp
+            WHERE rp.target = 'audit_logs'
+            AND rp.is_active
+            AND (rp.audit_table_name IS NULL OR rp.audit_table_name = al.table_name)
+            AND (rp.audit_action_type IS NULL OR rp.audit_action_type = al.action_type)
+            ORDER BY (rp.audit_table_name IS NOT NULL) DESC, (rp.audit_action_type IS NOT NULL) DESC
+            LIMIT 1
+        ) policy
+        WHERE al.created_at < p_now - make_interval(days => policy.retention_days)
+        ORDER BY al.created_at ASC
+        LIMIT p_limit
+    ),
+    -- Runs to completion even though the query below does not read it
+    deleted AS (
+        DELETE FROM audit_logs
+        WHERE NOT p_dry_run
+        AND id IN (SELECT e.id FROM expired e WHERE NOT e.held)
+    )
+    SELECT
+        e.policy_id,
+        (COUNT(*) FILTER (WHERE NOT e.held))::INTEGER,
+        (COUNT(*) FILTER (WHERE e.held))::INTEGER
+    FROM expired e
+    GROUP BY e.policy_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the cleanup job (service role) applies retention
+REVOKE EXECUTE ON FUNCTION apply_audit_log_retention FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_audit_log_retention TO service_role;
+
+-- Enable RLS on retention_policies table
+ALTER TABLE retention_policies ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins and inspectors can read the policies
+CREATE POLICY "view_retention_policies" ON retention_policies FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role IN ('admin', 'inspector')
+        )
+    );
+
+-- Policy: Only admins can change the policies
+CREATE POLICY "admin_manage_retention_policies" ON retention_policies FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+GRANT SELECT ON retention_policies TO authenticated;
+GRANT INSERT, UPDATE, DELETE ON retention_policies TO authenticated;
+
+COMMENT ON TABLE retention_policies IS 'How long documents and audit log entries are kept before the cleanup job removes them';
+COMMENT ON COLUMN retention_policies.retain_from IS 'For document policies, the date the retention period runs from';
+COMMENT ON COLUMN retention_policies.retention_days IS 'Days to keep a record after its retention period starts';
+COMMENT ON FUNCTION apply_audit_log_retention IS 'Delete audit log entries past their retention policy, keeping entries under legal hold';
@@ -0,0 +1,92 @@
+-- Document Types
+-- Registry of the kinds of documents pilots can upload, replacing the
+-- hard-coded list. Each type sets its label, whether an expiry date is
+-- required, the default validity used to suggest an expiry date, and which
+-- files are accepted. Admins edit these rows; a type that is no longer
+-- used is deactivated rather than deleted, so existing documents keep it.
+
+CREATE TABLE IF NOT EXISTS public.document_types (
+    -- Stable identifier stored on documents and used in storage paths;
+    -- it cannot change once documents use it
+    code TEXT PRIMARY KEY CHECK (code ~ '^[a-z][a-z0-9_]{1,49}$'),
+    label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+    description TEXT,
+    expiry_required BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Suggested expiry is the upload date plus this many days (NULL = none)
+    default_validity_days INTEGER CHECK (default_validity_days IS NULL OR default_validity_days > 0),
+    -- Only types the upload inspection can recognise are allowed
+    allowed_mime_types TEXT[] NOT NULL DEFAULT ARRAY['application/pdf', 'image/jpeg', 'image/png']
+        CHECK (
+            cardinality(allowed_mime_types) > 0
+            AND allowed_mime_types <@ ARRAY['application/pdf', 'image/jpeg', 'image/png']
+        ),
+    max_file_size_mb INTEGER NOT NULL DEFAULT 10 CHECK (max_file_size_mb > 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The types that used to be hard-coded
+INSERT INTO public.document_types (code, label, description, expiry_required, default_validity_days, max_file_size_mb, sort_order) VALUES
+    ('noc', 'No Objection Certificate', 'Employer or authority approval to operate', FALSE, NULL, 10, 10),
+    ('medical_certificate', 'Medical Certificate', 'Aviation medical certificate', TRUE, NULL, 10, 20),
+    ('alcohol_test', 'Alcohol Test', 'Alcohol test result', TRUE, 30, 10, 30),
+    ('license_certification', 'License Certification', 'Pilot license and ratings', TRUE, NULL, 10, 40),
+    ('training_records', 'Training Records', 'Training and checkride records', FALSE, NULL, 100, 50)
+ON CONFLICT (code) DO NOTHING;
+
+-- Documents, requirements and retention policies now reference the registry
+ALTER TABLE documents
+    ALTER COLUMN document_type TYPE TEXT USING document_type::TEXT;
+
+ALTER TABLE documents
+    DROP CONSTRAINT IF EXISTS documents_document_type_fkey,
+    ADD CONSTRAINT documents_document_type_fkey
+        FOREIGN KEY (document_type) REFERENCES document_types(code) ON DELETE RESTRICT;
+
+ALTER TABLE compliance_requirements
+    DROP CONSTRAINT IF EXISTS compliance_requirements_document_type_check,
+    DROP CONSTRAINT IF EXISTS compliance_requirements_document_type_fkey,
+    ADD CONSTRAINT compliance_requirements_document_type_fkey
+        FOREIGN KEY (document_type) REFERENCES document_types(code) ON DELETE RESTRICT;
+
+ALTER TABLE retention_policies
+    DROP CONSTRAINT IF EXISTS retention_policies_document_type_check,
+    DROP CONSTRAINT IF EXISTS retention_policies_document_type_fkey,
+    ADD CONSTRAINT retention_policies_document_type_fkey
+        FOREIGN KEY (document_type) REFERENCES document_types(code) ON DELETE RESTRICT;
+
+-- Nothing uses the old enum any more
+DROP TYPE IF EXISTS document_type;
+
+DROP TRIGGER IF EXISTS audit_document_types_trigger ON document_types;
+CREATE TRIGGER audit_document_types_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON document_types
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- Enable RLS on document_types table
+ALTER TABLE document_types ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Everyone signed in can read the registry
+CREATE POLICY "view_document_types" ON document_types FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- Policy: Only admins can change the registry
+CREATE POLICY "admin_manage_document_types" ON document_types FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_roles ur
+            WHERE ur.user_id = auth.uid()::TEXT
+            AND ur.role = 'admin'
+        )
+    );
+
+GRANT SELECT ON document_types TO authenticated;
+GRANT INSERT, UPDATE ON document_types TO authenticated;
+
+COMMENT ON TABLE document_types IS 'Kinds of documents pilots can upload and the rules for each';
+COMMENT ON COLUMN document_types.code IS 'Stable identifier stored on documents and in storage paths';
+COMMENT ON COLUMN document_types.default_validity_days IS 'Days after upload used to suggest an expiry date';
+COMMENT ON COLUMN document_types.allowed_mime_types IS 'File types accepted for this document type';
+COMMENT ON COLUMN document_types.max_file_size_mb IS 'Largest accepted upload; the storage bucket limit must be at least as large';
@@ -0,0 +1,46 @@
+-- Document Metadata
+-- Custom structured fields per document type. Each type lists its fields in
+-- document_types.metadata_fields; the values entered on upload are stored as
+-- a JSON object on the document, keyed by field. Fields are validated by the
+-- application (lib/documentMetadata.ts) against the type's definition.
+--
+-- A field definition looks like:
+--   { "key": "medical_class", "label": "Medical Class", "type": "enum",
+--     "required": true, "options": ["Class 1", "Class 2", "Class 3"] }
+-- where type is one of text, date, enum or number. Number fields may set
+-- "min" and "max"; any field may set "help" text shown under the input.
+
+ALTER TABLE document_types
+    ADD COLUMN IF NOT EXISTS metadata_fields JSONB NOT NULL DEFAULT '[]'::jsonb
+        CHECK (jsonb_typeof(metadata_fields) = 'array');
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+        CHECK (jsonb_typeof(metadata) = 'object');
+
+-- Supports containment searches such as metadata @> '{"medical_class": "Class 1"}'
+CREATE INDEX IF NOT EXISTS idx_documents_metadata ON documents USING GIN (metadata jsonb_path_ops);
+
+-- Fields for the built-in types, unless an admin has already set some
+UPDATE document_types SET metadata_fields = '[
+    {"key": "medical_class", "label": "Medical Class", "type": "enum", "required": true, "options": ["Class 1", "Class 2", "Class 3"]},
+    {"key": "issuing_ame", "label": "Issuing AME", "type": "text", "required": true, "help": "Name of the aviation medical examiner"},
+    {"key": "examination_date", "label": "Examination Date", "type": "date", "required": false}
+]'::jsonb
+WHERE code = 'medical_certificate' AND metadata_fields = '[]'::jsonb;
+
+UPDATE document_types SET metadata_fields = '[
+    {"key": "licence_number", "label": "Licence Number", "type": "text", "required": true},
+    {"key": "ratings", "label": "Ratings", "type": "text", "required": false, "help": "Type and class ratings, comma separated"}
+]'::jsonb
+WHERE code = 'license_certification' AND metadata_fields = '[]'::jsonb;
+
+UPDATE document_types SET metadata_fields = '[
+    {"key": "result", "label": "Result", "type": "enum", "required": true, "options": ["Negative", "Positive"]},
+    {"key": "testing_lab", "label": "Testing Lab", "type": "text", "required": true},
+    {"key": "blood_alcohol_level", "label": "Blood Alcohol Level (g/dL)", "type": "number", "required": false, "min": 0, "max": 1}
+]'::jsonb
+WHERE code = 'alcohol_test' AND metadata_fields = '[]'::jsonb;
+
+COMMENT ON COLUMN document_types.metadata_fields IS 'Custom fields collected on upload for this type (see lib/documentMetadata.ts)';
+COMMENT ON COLUMN documents.metadata IS 'Values of the document type''s custom fields, keyed by field';
@@ -0,0 +1,62 @@
+-- Validity Rules
+-- Expiry dates derived from when a document was issued. Each document type
+-- may list validity rules in document_types.validity_rules; the first rule
+-- matching the pilot's age on the issue date gives the validity period, and
+-- default_validity_days applies when none match. Derivation happens in the
+-- application (lib/validityRules.ts).
+--
+-- A rule looks like:
+--   { "min_age": 40, "validity_months": 6, "description": "6 months from age 40" }
+-- min_age is inclusive and max_age exclusive; either may be left out. A rule
+-- gives validity_months, validity_days or both.
+--
+-- Expiry dates are whole days, and a document expires as its expiry date
+-- begins. A rule of N days therefore covers the rest of the issue day and
+-- the N - 1 days after it.
+--
+-- Documents record the issue date, the expiry the rules give and where the
+-- stored expiry came from, so reviewers can see when an entered expiry
+-- disagrees with the rules.
+
+ALTER TABLE document_types
+    ADD COLUMN IF NOT EXISTS validity_rules JSONB NOT NULL DEFAULT '[]'::jsonb
+        CHECK (jsonb_typeof(validity_rules) = 'array');
+
+ALTER TABLE pilots
+    ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS issue_date DATE,
+    ADD COLUMN IF NOT EXISTS computed_expiry_date DATE,
+    ADD COLUMN IF NOT EXISTS expiry_source TEXT
+        CHECK (expiry_source IN ('entered', 'derived', 'backfilled'));
+
+-- Existing expiry dates were entered by pilots
+UPDATE documents SET expiry_source = 'entered'
+WHERE expiry_date IS NOT NULL AND expiry_source IS NULL;
+
+-- Finds documents the backfill can still fill in
+CREATE INDEX IF NOT EXISTS idx_documents_missing_expiry ON documents(document_type)
+    WHERE expiry_date IS NULL AND deleted_at IS NULL;
+
+-- Rules for the built-in types, unless an admin has already set some
+UPDATE document_types SET validity_rules = '[
+    {"max_age": 40, "validity_months": 12, "description": "12 months for pilots under 40"},
+    {"min_age": 40, "validity_months": 6, "description": "6 months for pilots aged 40 and over"}
+]'::jsonb
+WHERE code = 'medical_certificate' AND validity_rules = '[]'::jsonb;
+
+UPDATE document_types SET validity_rules = '[
+    {"validity_days": 2, "description": "Valid until the end of the day after the test"}
+]'::jsonb
+WHERE code = 'alcohol_test' AND (
+    validity_rules = '[]'::jsonb
+    -- An earlier seed described one day as 24 hours, which it was not
+    OR validity_rules = '[{"validity_days": 1, "description": "Valid for 24 hours"}]'::jsonb
+);
+
+COMMENT ON COLUMN document_types.validity_rules IS 'Rules deriving the expiry date from the issue date and pilot age (see lib/validityRules.ts)';
+COMMENT ON COLUMN pilots.date_of_birth IS 'Used by age-dependent validity rules';
+COMMENT ON COLUMN documents.issue_date IS 'When the document was issued; the upload date if not given';
+COMMENT ON COLUMN documents.computed_expiry_date IS 'Expiry date given by the validity rules, if any applied';
+COMMENT ON COLUMN documents.expiry_source IS 'entered by the pilot, derived at upload, or backfilled later';
@@ -0,0 +1,19 @@
+-- Document Text
+-- Text read from uploads, so documents can be found by what they say and not
+-- just by their title. The upload form reads the text in the browser
+-- (lib/ocr.ts) to suggest the document's details, and the text is stored
+-- with the document when it is saved.
+--
+-- Search runs in the database: searchDocumentText in lib/documents.ts sends
+-- a web-search style query on extracted_text with the 'simple'
+-- configuration (extracted_text=wfts(simple).IE.FCL.12345), which the
+-- expression index below serves. The 'simple' configuration keeps licence
+-- numbers and non-English words intact. Lists leave the text out.
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_extracted_text ON documents
+    USING GIN (to_tsvector('simple', extracted_text));
+
+COMMENT ON COLUMN documents.extracted_text IS 'Text read from the file on upload, for full-text search';
@@ -0,0 +1,10 @@
+-- Server-Side Upload Recording
+-- Document records are only created on the server, after the stored file has
+-- been inspected (app/api/uploads/complete and POST /api/documents, both via
+-- lib/uploadCompletion.ts). The server inserts with the service role, which
+-- bypasses row level security, so file_type and content_hash always come
+-- from the server's own inspection rather than from the uploading browser.
+
+DROP POLICY IF EXISTS "no_direct_document_inserts" ON documents;
+CREATE POLICY "no_direct_document_inserts" ON documents AS RESTRICTIVE FOR INSERT
+    WITH CHECK (FALSE);
@@ -0,0 +1,11 @@
+-- Document Views
+-- The in-app viewer gets its copy through the same single-use tokens as
+-- downloads (see 010-document-downloads.sql), so every copy shown is watermarked
+-- and logged. A view token serves the file inline instead of as an
+-- attachment; the VIEW audit event is logged when the token is issued.
+
+ALTER TABLE public.document_download_tokens
+    ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'download'
+        CHECK (purpose IN ('view', 'download'));
+
+COMMENT ON COLUMN document_download_tokens.purpose IS 'view (shown inline in the app) or download (saved as a file)';
@@ -0,0 +1,47 @@
+-- Storage Policies
+-- Stored documents are only handed out through the watermarked, logged,
+-- single-use links in lib/downloads.ts and the inspector dossier, which
+-- read the pilot-documents bucket with the service role. App users may
+-- upload into their own folder, and may read the thumbnails of documents
+-- they can see for document lists; they cannot read, sign URLs for,
+-- change or delete anything else in the bucket.
+--
+-- The policies are restrictive, so they hold whatever permissive storage
+-- policies the project was set up with.
+
+DROP POLICY IF EXISTS "pilot_documents_own_folder_uploads" ON storage.objects;
+CREATE POLICY "pilot_documents_own_folder_uploads" ON storage.objects FOR INSERT TO authenticated
+    WITH CHECK (
+        bucket_id = 'pilot-documents'
+        AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+DROP POLICY IF EXISTS "pilot_documents_restrict_uploads" ON storage.objects;
+CREATE POLICY "pilot_documents_restrict_uploads" ON storage.objects AS RESTRICTIVE FOR INSERT TO authenticated
+    WITH CHECK (
+        bucket_id <> 'pilot-documents'
+        OR (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+-- Thumbnail reads check the document through its own row level security
+DROP POLICY IF EXISTS "pilot_documents_thumbnail_reads_only" ON storage.objects;
+CREATE POLICY "pilot_documents_thumbnail_reads_only" ON storage.objects AS RESTRICTIVE FOR SELECT TO authenticated
+    USING (
+        bucket_id <> 'pilot-documents'
+        OR EXISTS (
+            SELECT 1 FROM public.documents d
+            WHERE d.thumbnail_url = storage.objects.name
+        )
+    );
+
+DROP POLICY IF EXISTS "pilot_documents_no_updates" ON storage.objects;
+CREATE POLICY "pilot_documents_no_updates" ON storage.objects AS RESTRICTIVE FOR UPDATE TO authenticated
+    USING (bucket_id <> 'pilot-documents');
+
+DROP POLICY IF EXISTS "pilot_documents_no_deletes" ON storage.objects;
+CREATE POLICY "pilot_documents_no_deletes" ON storage.objects AS RESTRICTIVE FOR DELETE TO authenticated
+    USING (bucket_id <> 'pilot-documents');
+
+-- Serves the thumbnail check above
+CREATE INDEX IF NOT EXISTS idx_documents_thumbnail_url ON documents (thumbnail_url)
+    WHERE thumbnail_url IS NOT NULL;
@@ -17,6 +17,7 @@ const eslintConfig = [
       ".next/**",
       "out/**",
       "build/**",
+      "public/ocr/**",
       "next-env.d.ts",
     ],
   },
@@ -19,8 +19,8 @@ import {
   fetchDocumentsByStatus,
   saveDocumentMetadata,
   updateDocumentStatus,
-  deleteDocumentComplete,
-  getDocumentWithUrl,
+  trashDocument,
+  openDocumentForViewing,
   getDocumentStats,
   getExpiringDocuments,
   
@@ -47,10 +47,9 @@ export default function DocumentUsageExample() {
       }
 
       // This function handles both file upload AND metadata saving
-      const { document, fileUrl } = await uploadDocumentComplete(userId, uploadData)
+      const { document } = await uploadDocumentComplete(userId, uploadData)
       
       console.log('Document uploaded:', document)
-      console.log('File URL:', fileUrl)
       
       toast.success('Document uploaded successfully!')
       
@@ -120,13 +119,13 @@ export default function DocumentUsageExample() {
     }
   }
 
-  // Example: Delete document
-  const deleteDocument = async (documentId: string, fileUrl: string) => {
+  // Example: Delete document (moves it to the trash)
+  const deleteDocument = async (documentId: string) => {
     try {
-      await deleteDocumentComplete(documentId, fileUrl)
+      await trashDocument(documentId)
       
-      console.log('Document deleted')
-      toast.success('Document deleted!')
+      console.log('Document moved to trash')
+      toast.success('Document moved to trash!')
       
       // Remove from list
       setDocuments(prev => prev.filter(doc => doc.id !== documentId))
@@ -136,16 +135,14 @@ export default function DocumentUsageExample() {
     }
   }
 
-  // Example: Get document with viewing URL
+  // Example: Open a watermarked copy through a logged, single-use view link
   const viewDocument = async (documentId: string) => {
     try {
-      const { document, viewUrl } = await getDocumentWithUrl(documentId)
+      const viewUrl = await openDocumentForViewing(documentId)
       
-      console.log('Document:', document)
-      console.log('View URL:', viewUrl)
-      
-      // Open in new tab
+      // Open in new tab; the object URL is freed once the tab has it
       window.open(viewUrl, '_blank')
+      setTimeout(() => URL.revokeObjectURL(viewUrl), 60000)
     } catch (error) {
       console.error('Failed to get document URL:', error)
       toast.error('Failed to open document')
@@ -285,7 +282,7 @@ export default function DocumentUsageExample() {
                   )}
                   
                   <button
-                    onClick={() => deleteDocument(doc.id, doc.file_url)}
+                    onClick={() => deleteDocument(doc.id)}
                     className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
                   >
                     Delete
@@ -370,10 +367,10 @@ USAGE PATTERNS:
    await updateDocumentStatus(docId, 'approved')
 
 5. DELETE DOCUMENTS:
-   await deleteDocumentComplete(docId, fileUrl)
+   await trashDocument(docId)
 
 6. VIEW DOCUMENTS:
-   const { document, viewUrl } = await getDocumentWithUrl(docId)
+   const viewUrl = await openDocumentForViewing(docId)
    window.open(viewUrl, '_blank')
 
 7. GET STATISTICS:
@@ -0,0 +1,10 @@
+import { supabase } from './supabase'
+import { createApiClient } from './apiClient'
+
+// Client for the app's own HTTP API, authenticated as the signed-in user
+export const api = createApiClient({
+  getAccessToken: async () => {
+    const { data } = await supabase.auth.getSession()
+    return data.session?.access_token
+  }
+})
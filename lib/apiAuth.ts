@@ -0,0 +1,65 @@
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { createUserSupabase } from './supabaseServer'
+import { getUserRole, UserRole } from './roles'
+
+// Server-only helpers for authenticating API route callers
+
+// Extract the bearer token from an Authorization header
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  if (!header?.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+// Check the caller's bearer token against INTEGRATION_API_KEY, used by
+// trusted external systems such as crew scheduling
+export function hasIntegrationApiKey(request: Request): boolean {
+  const expected = process.env.INTEGRATION_API_KEY
+  const provided = getBearerToken(request)
+  if (!expected || !provided) return false
+
+  const expectedBuffer = Buffer.from(expected)
+  const providedBuffer = Buffer.from(provided)
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer)
+}
+
+// An API caller identified by their Supabase access token
+export interface AuthenticatedRequest {
+  client: SupabaseClient<Database>
+  user: User
+  role: UserRole | null
+}
+
+// Verify the caller's Supabase JWT and look up their role.
+// Returns null when the token is missing or invalid.
+export async function authenticateRequest(request: Request): Promise<AuthenticatedRequest | null> {
+  const token = getBearerToken(request)
+  if (!token) return null
+
+  const client = createUserSupabase(token)
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) return null
+
+  const role = await getUserRole(data.user.id, client)
+  return { client, user: data.user, role }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Whether a value is a UUID, as every record id is
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+// Check a route's id parameter, e.g. parseUuidParam(id, 'document').
+// Returns the id, or the 400 response to send for anything that is not a UUID.
+export function parseUuidParam(
+  value: string,
+  subject: string
+): { valid: true; id: string } | { valid: false; response: NextResponse } {
+  if (isUuid(value)) return { valid: true, id: value }
+  return { valid: false, response: NextResponse.json({ error: `Invalid ${subject} id` }, { status: 400 }) }
+}
@@ -0,0 +1,447 @@
+// Generated by scripts/generate-api-client.mjs from lib/openapi.ts.
+// Do not edit by hand: run `npm run generate:api-client` instead.
+
+// Pilot Management API 1.0.0
+
+export interface ErrorResponse {
+  error: string
+}
+
+export interface Success {
+  success: boolean
+}
+
+export type DocumentType = string
+
+export interface DocumentTypeDefinition {
+  code: DocumentType
+  label: string
+  description: string | null
+  // Uploads must have an expiry date, given or derived from default_validity_days
+  expiry_required: boolean
+  // Expiry date used when an upload gives none, in days after upload
+  default_validity_days: number | null
+  allowed_mime_types: Array<'application/pdf' | 'image/jpeg' | 'image/png'>
+  max_file_size_mb: number
+  // Custom fields collected on upload
+  metadata_fields: MetadataField[]
+  // Rules deriving the expiry date from the issue date; the first match wins, then default_validity_days
+  validity_rules: ValidityRule[]
+  sort_order: number
+  // Inactive types take no new uploads but remain on existing documents
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface MetadataField {
+  // Key of the value in a document's metadata
+  key: string
+  label: string
+  type: 'text' | 'date' | 'enum' | 'number'
+  required?: boolean
+  // Choices of an enum field
+  options?: string[]
+  // Lower bound of a number field
+  min?: number
+  // Upper bound of a number field
+  max?: number
+  help?: string
+}
+
+export interface ValidityRule {
+  // Pilot age on the issue date, inclusive
+  min_age?: number
+  // Pilot age on the issue date, exclusive
+  max_age?: number
+  validity_months?: number
+  validity_days?: number
+  description?: string
+}
+
+export type DocumentMetadata = Record<string, unknown>
+
+export interface DocumentTypeList {
+  documentTypes: DocumentTypeDefinition[]
+}
+
+export type DocumentStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+
+export interface Document {
+  id: string
+  pilot_id: string
+  document_type: DocumentType
+  title: string
+  // Storage path of the file, not a public URL
+  file_url: string
+  file_size: number | null
+  file_type: string | null
+  upload_date: string
+  expiry_date: string | null
+  // When the document was issued, if given
+  issue_date: string | null
+  // Expiry the validity rules give; differs from expiry_date when the pilot entered another one
+  computed_expiry_date: string | null
+  expiry_source: 'entered' | 'derived' | 'backfilled' | null
+  // Text read from the file on upload, searchable with the search parameter; only returned for a single document
+  extracted_text?: string | null
+  status: DocumentStatus
+  version_group_id: string
+  version_number: number
+  is_current: boolean
+  superseded_by: string | null
+  superseded_at: string | null
+  // When the version became current; null while it awaits review
+  current_from: string | null
+  scan_status: 'unscanned' | 'clean' | 'infected' | 'error'
+  // Malware signature found by the last scan
+  scan_signature: string | null
+  scanned_at: string | null
+  // Malware scans attempted while quarantined
+  scan_attempts: number
+  // SHA-256 of the file content, hex encoded
+  content_hash: string | null
+  // Storage path of the preview image
+  thumbnail_url: string | null
+  // Failed attempts at generating the preview
+  thumbnail_attempts: number
+  // Why the last preview attempt failed
+  thumbnail_error: string | null
+  // When the document was moved to the trash
+  deleted_at: string | null
+  deleted_by: string | null
+  // When the stored file was permanently removed
+  purged_at: string | null
+  metadata: DocumentMetadata
+  created_at: string
+  updated_at: string
+}
+
+export interface PilotSummary {
+  id: string
+  user_id: string
+  first_name: string
+  last_name: string
+  email: string
+  pilot_license: string
+}
+
+export type DocumentWithPilot = Document & {
+  pilots: PilotSummary
+}
+
+export interface DocumentPage {
+  documents: DocumentWithPilot[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export interface TrashPage {
+  documents: DocumentWithPilot[]
+  // Days a document stays in the trash before it is purged
+  retentionDays: number
+}
+
+export interface DocumentDetail {
+  document: DocumentWithPilot
+}
+
+export interface DocumentResult {
+  document: Document
+}
+
+export interface UploadResult {
+  document: Document
+  scan?: DocumentScanResult
+  // The pilot's earlier documents with the same file content
+  duplicates?: Document[]
+}
+
+export interface DocumentScanResult {
+  id: string
+  title: string
+  verdict: 'clean' | 'infected' | 'error'
+  // Detected malware signature
+  signature?: string
+  // Why the scan could not complete
+  detail?: string
+}
+
+export interface DownloadLink {
+  // Relative URL of the single-use download
+  url: string
+  expiresAt: string
+}
+
+export interface DossierRequest {
+  // Up to 50 pilots
+  pilotIds: string[]
+  // Include superseded versions, not just current documents
+  includeHistory?: boolean
+}
+
+export interface DocumentUpload {
+  // A file type allowed for the document type, within its size limit; checked by content, not name
+  file: Blob
+  title: string
+  document_type: DocumentType
+  // Derived from the issue date and the type's validity rules when left out; required for types that need an expiry date when none can be derived
+  expiry_date?: string
+  // When the document was issued; defaults to the upload date
+  issue_date?: string
+  // JSON object of custom field values keyed by field; required fields of the document type must be present
+  metadata?: string
+  // Text read from the file, e.g. by OCR, stored for full-text search; cut to 20000 characters
+  extracted_text?: string
+  // Whether the upload becomes the next version of the pilot's current document of this type, replacing it once approved; defaults to true
+  new_version?: 'true' | 'false'
+}
+
+export interface UploadCompletionRequest {
+  // Storage path, inside the caller's folder for the document type: {user id}/{document_type}/...
+  path: string
+  title: string
+  document_type: DocumentType
+  // Derived from the issue date and the type's validity rules when left out
+  expiry_date?: string
+  // When the document was issued; defaults to the upload date
+  issue_date?: string
+  metadata?: DocumentMetadata
+  // Text read from the file, stored for full-text search
+  extracted_text?: string
+  // Whether the upload becomes the next version of the pilot's current document of this type, replacing it once approved; defaults to true
+  new_version?: boolean
+}
+
+export interface StatusUpdate {
+  status: DocumentStatus
+  // Required when rejecting; shown to the pilot
+  reason?: string
+  comment?: string
+}
+
+export interface EligibilityReason {
+  code: 'pilot_not_active' | 'document_missing' | 'document_expired' | 'document_pending_review' | 'document_expiring'
+  message: string
+  document_type?: DocumentType
+  document_id?: string
+}
+
+export interface PilotEligibility {
+  pilotId: string
+  pilotStatus: 'active' | 'inactive' | 'suspended'
+  eligible: boolean
+  blockingReasons: EligibilityReason[]
+  warnings: EligibilityReason[]
+  checkedAt: string
+}
+
+export interface Health {
+  status: string
+  timestamp: string
+  uptime: number
+  environment: string
+}
+
+export interface CleanupResult {
+  success: boolean
+  message: string
+  dryRun: boolean
+  timestamp: string
+  // Report of each cleanup task, keyed by task name
+  tasks: Record<string, unknown>
+  // Error message of each failed task, keyed by task name
+  errors: Record<string, string>
+}
+
+export interface PerformanceMetric {
+  metric: string
+  data: Record<string, unknown>
+  timestamp: number
+  url?: string
+  userAgent?: string
+}
+
+export interface PerformanceMetrics {
+  timeframe: string
+  metrics: Record<string, unknown>
+  trends?: Record<string, string>
+  alerts?: Record<string, unknown>[]
+}
+
+export interface ApiClientOptions {
+  // Defaults to the current origin
+  baseUrl?: string
+  // Bearer token sent with every request, e.g. the Supabase access token
+  getAccessToken?: () => string | null | undefined | Promise<string | null | undefined>
+  fetch?: typeof fetch
+}
+
+// Thrown for any non-2xx response; message is the API's error text
+export class ApiError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+type QueryValue = string | number | boolean | undefined
+
+function toFormData(body: object): FormData {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue
+    formData.append(key, value instanceof Blob ? value : String(value))
+  }
+  return formData
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl?.replace(/\/$/, '') || ''
+  const fetchImpl = options.fetch || fetch
+
+  async function request<T>(
+    path: string,
+    init: { method: string; query?: Record<string, QueryValue>; json?: unknown; body?: FormData; responseType?: 'blob' }
+  ): Promise<T> {
+    const search = new URLSearchParams()
+    for (const [key, value] of Object.entries(init.query || {})) {
+      if (value !== undefined) search.set(key, String(value))
+    }
+    const queryString = search.toString()
+    const url = `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`
+
+    const headers: Record<string, string> = {}
+    const token = await options.getAccessToken?.()
+    if (token) headers.Authorization = `Bearer ${token}`
+    if (init.json !== undefined) headers['Content-Type'] = 'application/json'
+
+    const response = await fetchImpl(url, {
+      method: init.method,
+      headers,
+      body: init.json !== undefined ? JSON.stringify(init.json) : init.body
+    })
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as { error?: string } | null
+      throw new ApiError(response.status, payload?.error || `Request failed with status ${response.status}`)
+    }
+
+    if (response.status === 204) return undefined as T
+    if (init.responseType === 'blob') return response.blob() as Promise<T>
+    return response.json() as Promise<T>
+  }
+
+  return {
+    /** List documents. Pilots only see their own documents. Admins and inspectors see all documents and may filter by pilot. */
+    listDocuments(query: { status?: DocumentStatus; document_type?: DocumentType; pilot_id?: string; search?: string; include_history?: boolean; page?: number; page_size?: number } = {}): Promise<DocumentPage> {
+      return request<DocumentPage>(`/api/documents`, { method: 'GET', query })
+    },
+
+    /** Upload a document. Uploads a file for the calling pilot. A document of a type the pilot already holds becomes its next version. */
+    uploadDocument(body: DocumentUpload): Promise<UploadResult> {
+      return request<UploadResult>(`/api/documents`, { method: 'POST', body: toFormData(body) })
+    },
+
+    /** Get a document. Returns the document's details. The file itself is opened through createDocumentView or createDocumentDownload. */
+    getDocument(id: string): Promise<DocumentDetail> {
+      return request<DocumentDetail>(`/api/documents/${encodeURIComponent(id)}`, { method: 'GET' })
+    },
+
+    /** Move a document to the trash. Pilots may delete their own documents, admins any document. Deleted documents go to the trash, where admins can restore them until they are purged. Deleting the current version reinstates the previous one. */
+    deleteDocument(id: string): Promise<void> {
+      return request<void>(`/api/documents/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+
+    /** List the trash. Pilots only see their own deleted documents; admins and inspectors see all. Trashed documents are purged automatically once they have been in the trash for retentionDays. */
+    listTrashedDocuments(): Promise<TrashPage> {
+      return request<TrashPage>(`/api/documents/trash`, { method: 'GET' })
+    },
+
+    /** Restore a document from the trash. Admin only. The document becomes current again unless a newer version has been uploaded since it was deleted. */
+    restoreDocument(id: string): Promise<DocumentResult> {
+      return request<DocumentResult>(`/api/documents/${encodeURIComponent(id)}/restore`, { method: 'POST' })
+    },
+
+    /** Permanently remove a trashed document. Admin only. Deletes the stored file and thumbnail. The document record, its reviews and its audit trail are kept. */
+    purgeDocument(id: string): Promise<void> {
+      return request<void>(`/api/documents/${encodeURIComponent(id)}/purge`, { method: 'POST' })
+    },
+
+    /** Change a document's review status. Admin only. Approvals and rejections are added to the document's review thread. */
+    updateDocumentStatus(id: string, body: StatusUpdate): Promise<DocumentResult> {
+      return request<DocumentResult>(`/api/documents/${encodeURIComponent(id)}/status`, { method: 'PATCH', json: body })
+    },
+
+    /** Malware-scan a quarantined document. New documents stay quarantined until a clean scan releases them for review. Pilots may scan their own documents, admins any. */
+    scanDocument(id: string): Promise<DocumentScanResult> {
+      return request<DocumentScanResult>(`/api/documents/${encodeURIComponent(id)}/scan`, { method: 'POST' })
+    },
+
+    /** Create a download link. Logs a DOWNLOAD audit event for the caller and returns a single-use link to a watermarked copy, valid for one minute. */
+    createDocumentDownload(id: string): Promise<DownloadLink> {
+      return request<DownloadLink>(`/api/documents/${encodeURIComponent(id)}/download`, { method: 'POST' })
+    },
+
+    /** Create a view link. Logs a VIEW audit event for the caller and returns a single-use link to a watermarked copy for the in-app viewer, served inline and valid for one minute. */
+    createDocumentView(id: string): Promise<DownloadLink> {
+      return request<DownloadLink>(`/api/documents/${encodeURIComponent(id)}/view`, { method: 'POST' })
+    },
+
+    /** Download a watermarked document. The token from createDocumentDownload or createDocumentView is the only credential and is consumed on first use. View links are served inline, download links as attachments. Every page is stamped with the viewer's name, the time and "controlled copy". */
+    downloadDocumentFile(token: string): Promise<Blob> {
+      return request<Blob>(`/api/downloads/${encodeURIComponent(token)}`, { method: 'GET', responseType: 'blob' })
+    },
+
+    /** Record an uploaded file as a document. For files the caller uploaded directly to storage, e.g. resumably. The stored file is inspected and, if it passes, recorded with its detected type and content hash, then scanned. Files that fail inspection are deleted. App users cannot create document records any other way. */
+    completeUpload(body: UploadCompletionRequest): Promise<UploadResult> {
+      return request<UploadResult>(`/api/uploads/complete`, { method: 'POST', json: body })
+    },
+
+    /** List document types. The registry of document types, with the expiry rules and accepted files of each. Admins manage the registry in the app. */
+    listDocumentTypes(query: { include_inactive?: boolean } = {}): Promise<DocumentTypeList> {
+      return request<DocumentTypeList>(`/api/document-types`, { method: 'GET', query })
+    },
+
+    /** Export pilots' documents as a ZIP. Admins and inspectors only. The archive has a folder per pilot with watermarked copies of their current documents (or every version), plus manifest.csv and manifest.json listing type, status, expiry and reviewer. Files that cannot be fetched or watermarked are left out and listed in NOT INCLUDED.txt. The export is recorded in the audit log. */
+    exportPilotDossier(body: DossierRequest): Promise<Blob> {
+      return request<Blob>(`/api/pilots/dossier`, { method: 'POST', json: body, responseType: 'blob' })
+    },
+
+    /** Check whether a pilot is fit to fly */
+    getPilotEligibility(id: string): Promise<PilotEligibility> {
+      return request<PilotEligibility>(`/api/pilots/${encodeURIComponent(id)}/eligibility`, { method: 'GET' })
+    },
+
+    /** This OpenAPI document */
+    getOpenApiSpec(): Promise<Record<string, unknown>> {
+      return request<Record<string, unknown>>(`/api/openapi`, { method: 'GET' })
+    },
+
+    /** Health check */
+    getHealth(): Promise<Health> {
+      return request<Health>(`/api/health`, { method: 'GET' })
+    },
+
+    /** Run scheduled cleanup tasks. Cron endpoint: scans quarantined uploads, backfills missing thumbnails, derives missing expiry dates from the validity rules, expires overdue documents, sends expiry reminders, purges documents past their trash retention period and applies the retention policies to documents and audit logs. Documents under legal hold are neither given an expiry, expired nor purged, and their audit log entries are kept. Requires CRON_SECRET as a bearer token outside local development. A failing task does not stop the others; the run then returns 500 with the report. */
+    runCleanup(query: { dryRun?: boolean } = {}): Promise<CleanupResult> {
+      return request<CleanupResult>(`/api/cleanup`, { method: 'GET', query })
+    },
+
+    /** Aggregated web vitals */
+    getPerformanceMetrics(query: { timeframe?: string } = {}): Promise<PerformanceMetrics> {
+      return request<PerformanceMetrics>(`/api/performance`, { method: 'GET', query })
+    },
+
+    /** Report a web vitals measurement */
+    reportPerformanceMetric(body: PerformanceMetric): Promise<Success> {
+      return request<Success>(`/api/performance`, { method: 'POST', json: body })
+    }
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
@@ -1,5 +1,7 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from './supabase'
 import { Database } from './database.types'
+import type { LegalHold } from './legalHolds'
 
 export type AuditLog = Database['public']['Tables']['audit_logs']['Row']
 export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert']
@@ -26,14 +28,16 @@ export interface AuditStats {
 }
 
 // Log custom actions (approvals, uploads, etc.)
+// Server tasks pass their own client; otherwise the browser session is used.
 export async function logAuditAction(
   tableName: string,
   recordId: string,
   actionType: ActionType,
-  metadata: Record<string, unknown> = {}
+  metadata: Record<string, unknown> = {},
+  client: SupabaseClient<Database> = supabase
 ): Promise<string | null> {
   try {
-    const { data, error } = await (supabase as any).rpc('log_custom_action', { // eslint-disable-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (client as any).rpc('log_custom_action', { // eslint-disable-line @typescript-eslint/no-explicit-any
       p_table_name: tableName,
       p_record_id: recordId,
       p_action_type: actionType,
@@ -302,41 +306,90 @@ export async function exportAuditLogsToJSON(filters: AuditFilters = {}): Promise
 // Utility functions for common audit actions
 export const auditHelpers = {
   // Document actions
-  async logDocumentUpload(documentId: string, documentTitle: string) {
+  async logDocumentUpload(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
     return logAuditAction('documents', documentId, 'UPLOAD', {
       document_title: documentTitle,
       action_description: 'Document uploaded'
-    })
+    }, client)
   },
 
-  async logDocumentApproval(documentId: string, documentTitle: string, previousStatus: string) {
+  async logDocumentApproval(documentId: string, documentTitle: string, previousStatus: string, client?: SupabaseClient<Database>) {
     return logAuditAction('documents', documentId, 'APPROVE', {
       document_title: documentTitle,
       previous_status: previousStatus,
       action_description: 'Document approved'
-    })
+    }, client)
   },
 
-  async logDocumentRejection(documentId: string, documentTitle: string, reason?: string) {
+  async logDocumentRejection(documentId: string, documentTitle: string, reason?: string, client?: SupabaseClient<Database>) {
     return logAuditAction('documents', documentId, 'REJECT', {
       document_title: documentTitle,
       rejection_reason: reason,
       action_description: 'Document rejected'
-    })
+    }, client)
+  },
+
+  async logDocumentResubmission(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
+    return logAuditAction('documents', documentId, 'UPDATE', {
+      document_title: documentTitle,
+      new_status: 'pending',
+      action_description: 'Document resubmitted for review'
+    }, client)
   },
 
-  async logDocumentDownload(documentId: string, documentTitle: string) {
+  async logDocumentDownload(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
     return logAuditAction('documents', documentId, 'DOWNLOAD', {
       document_title: documentTitle,
       action_description: 'Document downloaded'
-    })
+    }, client)
   },
 
-  async logDocumentView(documentId: string, documentTitle: string) {
+  async logDocumentView(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
     return logAuditAction('documents', documentId, 'VIEW', {
       document_title: documentTitle,
       action_description: 'Document viewed'
-    })
+    }, client)
+  },
+
+  async logDocumentTrashed(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
+    return logAuditAction('documents', documentId, 'DELETE', {
+      document_title: documentTitle,
+      action_description: 'Document moved to trash'
+    }, client)
+  },
+
+  async logDocumentRestored(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
+    return logAuditAction('documents', documentId, 'UPDATE', {
+      document_title: documentTitle,
+      action_description: 'Document restored from trash'
+    }, client)
+  },
+
+  async logDocumentPurged(documentId: string, documentTitle: string, client?: SupabaseClient<Database>) {
+    return logAuditAction('documents', documentId, 'DELETE', {
+      document_title: documentTitle,
+      action_description: 'Document purged permanently'
+    }, client)
+  },
+
+  // Legal holds
+  async logLegalHoldPlaced(hold: LegalHold, client?: SupabaseClient<Database>) {
+    return logAuditAction('legal_holds', hold.id, 'CREATE', {
+      pilot_id: hold.pilot_id,
+      document_id: hold.document_id,
+      reason: hold.reason,
+      action_description: hold.pilot_id ? 'Legal hold placed on pilot' : 'Legal hold placed on document'
+    }, client)
+  },
+
+  async logLegalHoldReleased(hold: LegalHold, client?: SupabaseClient<Database>) {
+    return logAuditAction('legal_holds', hold.id, 'UPDATE', {
+      pilot_id: hold.pilot_id,
+      document_id: hold.document_id,
+      reason: hold.reason,
+      release_reason: hold.release_reason,
+      action_description: 'Legal hold released'
+    }, client)
   },
 
   // User actions
@@ -355,12 +408,12 @@ export const auditHelpers = {
   },
 
   // Export actions
-  async logDataExport(userId: string, exportType: string, filters: Record<string, unknown>) {
+  async logDataExport(userId: string, exportType: string, filters: Record<string, unknown>, client?: SupabaseClient<Database>) {
     return logAuditAction('system', userId, 'EXPORT', {
       export_type: exportType,
       filters,
       action_description: `Data exported: ${exportType}`
-    })
+    }, client)
   }
 }
 
@@ -388,6 +441,9 @@ export const formatters = {
       documents: 'Documents',
       pilots: 'Pilots',
       user_roles: 'User Roles',
+      legal_holds: 'Legal Holds',
+      retention_policies: 'Retention Policies',
+      document_types: 'Document Types',
       auth: 'Authentication',
       system: 'System'
     }
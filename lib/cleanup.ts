@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { logAuditAction } from './audit'
+import { fetchHeldDocumentIds } from './legalHolds'
+import type { DocumentStatus, DocumentType } from './documents'
+
+// Statuses that move to 'expired' once the expiry date has passed.
+// Rejected documents keep their rejection.
+const EXPIRABLE_STATUSES: DocumentStatus[] = ['pending', 'approved']
+
+// Document affected by the expiry sweep
+export interface ExpiredDocumentSummary {
+  id: string
+  pilot_id: string
+  document_type: DocumentType
+  title: string
+  expiry_date: string
+  previous_status: DocumentStatus
+}
+
+// Summary of an expiry sweep run
+export interface ExpirySweepReport {
+  dryRun: boolean
+  checkedAt: string
+  expiredCount: number
+  documents: ExpiredDocumentSummary[]
+  // Documents that could not be expired, e.g. because a legal hold was placed during the run
+  failedCount: number
+  failures: Array<{ id: string; title: string; error: string }>
+}
+
+/**
+ * Move documents whose expiry date has passed to the 'expired' status.
+ * Each document is updated on its own, so one the database refuses does
+ * not hold back the others.
+ * In dry-run mode nothing is written; the report lists what would change.
+ */
+export async function expireOverdueDocuments(
+  client: SupabaseClient<Database>,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<ExpirySweepReport> {
+  const { dryRun = false, now = new Date() } = options
+  const checkedAt = now.toISOString()
+
+  const { data, error } = await client
+    .from('documents')
+    .select('id, pilot_id, document_type, title, expiry_date, status')
+    .in('status', EXPIRABLE_STATUSES)
+    .is('deleted_at', null)
+    .not('expiry_date', 'is', null)
+    .lt('expiry_date', checkedAt)
+    .order('expiry_date', { ascending: true })
+
+  if (error) {
+    throw new Error('Error fetching overdue documents: ' + error.message)
+  }
+
+  const candidates = (data || []) as Array<{
+    id: string
+    pilot_id: string
+    document_type: DocumentType
+    title: string
+    expiry_date: string
+    status: DocumentStatus
+  }>
+
+  // Documents under legal hold keep their status
+  const heldIds = await fetchHeldDocumentIds(candidates, client)
+
+  const overdue: ExpiredDocumentSummary[] = candidates.filter(doc => !heldIds.has(doc.id)).map(doc => ({
+    id: doc.id,
+    pilot_id: doc.pilot_id,
+    document_type: doc.document_type,
+    title: doc.title,
+    expiry_date: doc.expiry_date,
+    previous_status: doc.status
+  }))
+
+  const report: ExpirySweepReport = {
+    dryRun,
+    checkedAt,
+    expiredCount: 0,
+    documents: [],
+    failedCount: 0,
+    failures: []
+  }
+
+  if (dryRun) {
+    return { ...report, expiredCount: overdue.length, documents: overdue }
+  }
+
+  for (const doc of overdue) {
+    // Re-check the status in the update so a concurrent review is not
+    // overwritten. The database refuses the update if a hold has been
+    // placed since the check above.
+    const { data: updated, error: updateError } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .from('documents')
+      .update({ status: 'expired', updated_at: checkedAt })
+      .eq('id', doc.id)
+      .in('status', EXPIRABLE_STATUSES)
+      .select('id')
+
+    if (updateError) {
+      report.failedCount++
+      report.failures.push({ id: doc.id, title: doc.title, error: updateError.message })
+      continue
+    }
+    if (!updated || updated.length === 0) continue
+
+    report.expiredCount++
+    report.documents.push(doc)
+
+    await logAuditAction('documents', doc.id, 'UPDATE', {
+      document_title: doc.title,
+      previous_status: doc.previous_status,
+      new_status: 'expired',
+      expiry_date: doc.expiry_date,
+      action_description: 'Document expired automatically'
+    }, client)
+  }
+
+  return report
+}
@@ -0,0 +1,249 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from './database.types'
+import type { Document, DocumentType } from './documents'
+
+export type ComplianceRequirement = Database['public']['Tables']['compliance_requirements']['Row']
+export type RequirementStatus = 'missing' | 'pending' | 'valid' | 'expiring' | 'expired'
+
+// Outcome of one requirement for one pilot
+export interface RequirementResult {
+  requirement: ComplianceRequirement
+  status: RequirementStatus
+  // Document that determined the status, if any
+  document: Document | null
+  // When the satisfying document stops counting, if it has a limit
+  validUntil: string | null
+}
+
+export interface PilotCompliance {
+  pilotId: string
+  compliant: boolean
+  satisfiedCount: number
+  requirements: RequirementResult[]
+}
+
+export interface FleetComplianceRow {
+  pilot: {
+    id: string
+    first_name: string
+    last_name: string
+    pilot_license: string
+  }
+  compliance: PilotCompliance
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Higher rank wins when a pilot holds several documents for one requirement,
+// e.g. a pending renewal next to a still-valid approved document
+const STATUS_RANK: Record<RequirementStatus, number> = {
+  missing: 0,
+  expired: 1,
+  pending: 2,
+  expiring: 3,
+  valid: 4
+}
+
+/**
+ * Statuses that count as holding the required document
+ */
+export function isRequirementSatisfied(status: RequirementStatus): boolean {
+  return status === 'valid' || status === 'expiring'
+}
+
+/**
+ * Date after which a document no longer satisfies a requirement:
+ * the earlier of its expiry date and its maximum age.
+ */
+export function getRequirementValidUntil(requirement: ComplianceRequirement, document: Document): Date | null {
+  const limits: Date[] = []
+
+  if (document.expiry_date) {
+    limits.push(new Date(document.expiry_date))
+  }
+
+  if (requirement.max_age_days) {
+    limits.push(new Date(new Date(document.upload_date).getTime() + requirement.max_age_days * DAY_MS))
+  }
+
+  if (limits.length === 0) return null
+  return new Date(Math.min(...limits.map(limit => limit.getTime())))
+}
+
+/**
+ * Evaluate a requirement against all of a pilot's documents of that type
+ */
+export function evaluateRequirement(
+  requirement: ComplianceRequirement,
+  documents: Document[],
+  now: Date = new Date()
+): RequirementResult {
+  let best: RequirementResult = { requirement, status: 'missing', document: null, validUntil: null }
+  const expiringThreshold = new Date(now.getTime() + requirement.expiring_window_days * DAY_MS)
+
+  for (const document of documents) {
+    if (document.document_type !== requirement.document_type) continue
+    // A rejected document does not count towards anything
+    if (document.status === 'rejected') continue
+
+    const validUntil = getRequirementValidUntil(requirement, document)
+    let status: RequirementStatus
+
+    if (document.status === 'expired' || (validUntil && validUntil <= now)) {
+      status = 'expired'
+    } else if (document.status === 'pending' || document.status === 'quarantined') {
+      status = 'pending'
+    } else if (validUntil && validUntil <= expiringThreshold) {
+      status = 'expiring'
+    } else {
+      status = 'valid'
+    }
+
+    if (STATUS_RANK[status] > STATUS_RANK[best.status]) {
+      best = {
+        requirement,
+        status,
+        document,
+        validUntil: validUntil ? validUntil.toISOString() : null
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Evaluate every requirement for one pilot
+ */
+export function evaluatePilotCompliance(
+  pilotId: string,
+  requirements: ComplianceRequirement[],
+  documents: Document[],
+  now: Date = new Date()
+): PilotCompliance {
+  const results = requirements.map(requirement => evaluateRequirement(requirement, documents, now))
+  const satisfiedCount = results.filter(result => isRequirementSatisfied(result.status)).length
+
+  return {
+    pilotId,
+    compliant: satisfiedCount === results.length,
+    satisfiedCount,
+    requirements: results
+  }
+}
+
+/**
+ * Get the active compliance requirements
+ */
+export async function getComplianceRequirements(
+  client: SupabaseClient<Database> = supabase
+): Promise<ComplianceRequirement[]> {
+  try {
+    const { data, error } = await client
+      .from('compliance_requirements')
+      .select('*')
+      .eq('is_active', true)
+      .order('label', { ascending: true })
+
+    if (error) {
+      throw new Error('Error fetching compliance requirements: ' + error.message)
+    }
+
+    return (data as ComplianceRequirement[]) || []
+  } catch (error) {
+    console.error('Error in getComplianceRequirements:', error)
+    throw error
+  }
+}
+
+async function fetchRequiredDocuments(
+  client: SupabaseClient<Database>,
+  requirements: ComplianceRequirement[],
+  pilotId?: string
+): Promise<Document[]> {
+  const requiredTypes: DocumentType[] = requirements.map(requirement => requirement.document_type)
+  if (requiredTypes.length === 0) return []
+
+  // All versions are considered so a pending renewal does not hide a valid predecessor
+  let query = client
+    .from('documents')
+    .select('*')
+    .in('document_type', requiredTypes)
+    .neq('status', 'rejected')
+    .is('deleted_at', null)
+
+  if (pilotId) {
+    query = query.eq('pilot_id', pilotId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error('Error fetching pilot documents: ' + error.message)
+  }
+
+  return (data as Document[]) || []
+}
+
+/**
+ * Get per-requirement compliance status for a pilot
+ */
+export async function getPilotCompliance(
+  pilotId: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<PilotCompliance> {
+  try {
+    const requirements = await getComplianceRequirements(client)
+    const documents = await fetchRequiredDocuments(client, requirements, pilotId)
+
+    return evaluatePilotCompliance(pilotId, requirements, documents)
+  } catch (error) {
+    console.error('Error in getPilotCompliance:', error)
+    throw error
+  }
+}
+
+/**
+ * Get compliance for every active pilot (admin fleet view)
+ */
+export async function getFleetCompliance(
+  client: SupabaseClient<Database> = supabase
+): Promise<{ requirements: ComplianceRequirement[]; rows: FleetComplianceRow[] }> {
+  try {
+    const [requirements, pilotsQuery] = await Promise.all([
+      getComplianceRequirements(client),
+      client
+        .from('pilots')
+        .select('id, first_name, last_name, pilot_license')
+        .eq('status', 'active')
+        .order('last_name', { ascending: true })
+    ])
+
+    if (pilotsQuery.error) {
+      throw new Error('Error fetching pilots: ' + pilotsQuery.error.message)
+    }
+
+    const documents = await fetchRequiredDocuments(client, requirements)
+
+    // Group documents by pilot in a single pass
+    const documentsByPilot = new Map<string, Document[]>()
+    for (const document of documents) {
+      const pilotDocuments = documentsByPilot.get(document.pilot_id) || []
+      pilotDocuments.push(document)
+      documentsByPilot.set(document.pilot_id, pilotDocuments)
+    }
+
+    const now = new Date()
+    const pilots = (pilotsQuery.data || []) as FleetComplianceRow['pilot'][]
+    const rows = pilots.map(pilot => ({
+      pilot,
+      compliance: evaluatePilotCompliance(pilot.id, requirements, documentsByPilot.get(pilot.id) || [], now)
+    }))
+
+    return { requirements, rows }
+  } catch (error) {
+    console.error('Error in getFleetCompliance:', error)
+    throw error
+  }
+}
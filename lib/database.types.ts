@@ -95,6 +95,7 @@ export interface Database {
           email: string
           phone: string | null
           hire_date: string | null
+          date_of_birth: string | null
           status: 'active' | 'inactive' | 'suspended'
           created_at: string
           updated_at: string
@@ -108,6 +109,7 @@ export interface Database {
           email: string
           phone?: string | null
           hire_date?: string | null
+          date_of_birth?: string | null
           status?: 'active' | 'inactive' | 'suspended'
           created_at?: string
           updated_at?: string
@@ -121,6 +123,7 @@ export interface Database {
           email?: string
           phone?: string | null
           hire_date?: string | null
+          date_of_birth?: string | null
           status?: 'active' | 'inactive' | 'suspended'
           created_at?: string
           updated_at?: string
@@ -130,42 +133,365 @@ export interface Database {
         Row: {
           id: string
           pilot_id: string
-          document_type: 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records'
+          document_type: string
           title: string
           file_url: string
           file_size: number | null
           file_type: string | null
           upload_date: string
           expiry_date: string | null
-          status: 'pending' | 'approved' | 'rejected' | 'expired'
+          status: 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+          version_group_id: string
+          version_number: number
+          is_current: boolean
+          superseded_by: string | null
+          superseded_at: string | null
+          current_from: string | null
+          scan_status: 'unscanned' | 'clean' | 'infected' | 'error'
+          scan_signature: string | null
+          scanned_at: string | null
+          scan_attempts: number
+          content_hash: string | null
+          thumbnail_url: string | null
+          thumbnail_attempts: number
+          thumbnail_error: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          purged_at: string | null
+          metadata: Json
+          issue_date: string | null
+          computed_expiry_date: string | null
+          expiry_source: 'entered' | 'derived' | 'backfilled' | null
+          extracted_text: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           pilot_id: string
-          document_type: 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records'
+          document_type: string
           title: string
           file_url: string
           file_size?: number | null
           file_type?: string | null
           upload_date?: string
           expiry_date?: string | null
-          status?: 'pending' | 'approved' | 'rejected' | 'expired'
+          status?: 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+          version_group_id?: string
+          version_number?: number
+          is_current?: boolean
+          superseded_by?: string | null
+          superseded_at?: string | null
+          current_from?: string | null
+          scan_status?: 'unscanned' | 'clean' | 'infected' | 'error'
+          scan_signature?: string | null
+          scanned_at?: string | null
+          scan_attempts?: number
+          content_hash?: string | null
+          thumbnail_url?: string | null
+          thumbnail_attempts?: number
+          thumbnail_error?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          purged_at?: string | null
+          metadata?: Json
+          issue_date?: string | null
+          computed_expiry_date?: string | null
+          expiry_source?: 'entered' | 'derived' | 'backfilled' | null
+          extracted_text?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           pilot_id?: string
-          document_type?: 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records'
+          document_type?: string
           title?: string
           file_url?: string
           file_size?: number | null
           file_type?: string | null
           upload_date?: string
           expiry_date?: string | null
-          status?: 'pending' | 'approved' | 'rejected' | 'expired'
+          status?: 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+          version_group_id?: string
+          version_number?: number
+          is_current?: boolean
+          superseded_by?: string | null
+          superseded_at?: string | null
+          current_from?: string | null
+          scan_status?: 'unscanned' | 'clean' | 'infected' | 'error'
+          scan_signature?: string | null
+          scanned_at?: string | null
+          scan_attempts?: number
+          content_hash?: string | null
+          thumbnail_url?: string | null
+          thumbnail_attempts?: number
+          thumbnail_error?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          purged_at?: string | null
+          metadata?: Json
+          issue_date?: string | null
+          computed_expiry_date?: string | null
+          expiry_source?: 'entered' | 'derived' | 'backfilled' | null
+          extracted_text?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      document_reviews: {
+        Row: {
+          id: string
+          document_id: string
+          author_id: string | null
+          author_email: string | null
+          author_role: 'pilot' | 'admin' | 'inspector' | null
+          decision: 'approved' | 'rejected' | 'resubmitted' | null
+          reason: string | null
+          comment: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          author_id?: string | null
+          author_email?: string | null
+          author_role?: 'pilot' | 'admin' | 'inspector' | null
+          decision?: 'approved' | 'rejected' | 'resubmitted' | null
+          reason?: string | null
+          comment?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          author_id?: string | null
+          author_email?: string | null
+          author_role?: 'pilot' | 'admin' | 'inspector' | null
+          decision?: 'approved' | 'rejected' | 'resubmitted' | null
+          reason?: string | null
+          comment?: string | null
+          created_at?: string
+        }
+      }
+      document_download_tokens: {
+        Row: {
+          token_hash: string
+          document_id: string
+          user_id: string
+          viewer_name: string
+          expires_at: string
+          used_at: string | null
+          purpose: 'view' | 'download'
+          created_at: string
+        }
+        Insert: {
+          token_hash: string
+          document_id: string
+          user_id: string
+          viewer_name: string
+          expires_at: string
+          used_at?: string | null
+          purpose?: 'view' | 'download'
+          created_at?: string
+        }
+        Update: {
+          token_hash?: string
+          document_id?: string
+          user_id?: string
+          viewer_name?: string
+          expires_at?: string
+          used_at?: string | null
+          purpose?: 'view' | 'download'
+          created_at?: string
+        }
+      }
+      document_reminders: {
+        Row: {
+          id: string
+          document_id: string
+          offset_days: number
+          expiry_date: string
+          recipient: string
+          transport: string
+          sent_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          offset_days: number
+          expiry_date: string
+          recipient: string
+          transport: string
+          sent_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          offset_days?: number
+          expiry_date?: string
+          recipient?: string
+          transport?: string
+          sent_at?: string
+        }
+      }
+      compliance_requirements: {
+        Row: {
+          id: string
+          document_type: string
+          label: string
+          max_age_days: number | null
+          expiring_window_days: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_type: string
+          label: string
+          max_age_days?: number | null
+          expiring_window_days?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_type?: string
+          label?: string
+          max_age_days?: number | null
+          expiring_window_days?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      legal_holds: {
+        Row: {
+          id: string
+          pilot_id: string | null
+          document_id: string | null
+          reason: string
+          placed_by: string | null
+          placed_by_email: string | null
+          placed_at: string
+          released_by: string | null
+          released_by_email: string | null
+          released_at: string | null
+          release_reason: string | null
+        }
+        Insert: {
+          id?: string
+          pilot_id?: string | null
+          document_id?: string | null
+          reason: string
+          placed_by?: string | null
+          placed_by_email?: string | null
+          placed_at?: string
+          released_by?: string | null
+          released_by_email?: string | null
+          released_at?: string | null
+          release_reason?: string | null
+        }
+        Update: {
+          id?: string
+          pilot_id?: string | null
+          document_id?: string | null
+          reason?: string
+          placed_by?: string | null
+          placed_by_email?: string | null
+          placed_at?: string
+          released_by?: string | null
+          released_by_email?: string | null
+          released_at?: string | null
+          release_reason?: string | null
+        }
+      }
+      document_types: {
+        Row: {
+          code: string
+          label: string
+          description: string | null
+          expiry_required: boolean
+          default_validity_days: number | null
+          allowed_mime_types: string[]
+          max_file_size_mb: number
+          metadata_fields: Json
+          validity_rules: Json
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          label: string
+          description?: string | null
+          expiry_required?: boolean
+          default_validity_days?: number | null
+          allowed_mime_types?: string[]
+          max_file_size_mb?: number
+          metadata_fields?: Json
+          validity_rules?: Json
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          label?: string
+          description?: string | null
+          expiry_required?: boolean
+          default_validity_days?: number | null
+          allowed_mime_types?: string[]
+          max_file_size_mb?: number
+          metadata_fields?: Json
+          validity_rules?: Json
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      retention_policies: {
+        Row: {
+          id: string
+          target: 'documents' | 'audit_logs'
+          document_type: string | null
+          retain_from: 'expiry_date' | 'upload_date' | null
+          audit_table_name: string | null
+          audit_action_type: string | null
+          retention_days: number
+          description: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          target: 'documents' | 'audit_logs'
+          document_type?: string | null
+          retain_from?: 'expiry_date' | 'upload_date' | null
+          audit_table_name?: string | null
+          audit_action_type?: string | null
+          retention_days: number
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          target?: 'documents' | 'audit_logs'
+          document_type?: string | null
+          retain_from?: 'expiry_date' | 'upload_date' | null
+          audit_table_name?: string | null
+          audit_action_type?: string | null
+          retention_days?: number
+          description?: string | null
+          is_active?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -211,6 +537,25 @@ export interface Database {
           created_at: string
         }[]
       }
+      promote_document_version: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: undefined
+      }
+      trash_document: {
+        Args: {
+          p_document_id: string
+          p_deleted_by: string | null
+        }
+        Returns: boolean
+      }
+      restore_trashed_document: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: boolean
+      }
       get_audit_statistics: {
         Args: {
           p_start_date?: string
@@ -224,12 +569,23 @@ export interface Database {
           daily_activity: Json
         }[]
       }
+      apply_audit_log_retention: {
+        Args: {
+          p_now?: string
+          p_dry_run?: boolean
+          p_limit?: number
+        }
+        Returns: {
+          policy_id: string
+          purged_count: number
+          held_count: number
+        }[]
+      }
     }
     Enums: {
       user_role: 'pilot' | 'admin' | 'inspector'
       pilot_status: 'active' | 'inactive' | 'suspended'
-      document_type: 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records'
-      document_status: 'pending' | 'approved' | 'rejected' | 'expired'
+      document_status: 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
     }
     CompositeTypes: {
       [_ in never]: never
@@ -0,0 +1,296 @@
+import { format, isValid } from 'date-fns'
+import type { DocumentTypeDefinition } from './documentTypes'
+
+// Suggestions for the upload form read from a document's text. The text
+// comes from lib/ocr.ts, which reads it in the browser; this module only
+// looks for the document type, issue and expiry dates and licence number in
+// it, so the pilot can confirm them instead of typing them out.
+
+export interface ExtractedLine {
+  text: string
+  // 0-100, as reported by the OCR engine; 100 for a PDF's own text
+  confidence: number
+}
+
+export interface ExtractedText {
+  text: string
+  lines: ExtractedLine[]
+  // Mean confidence over the document, 0-100
+  confidence: number
+  // Whether the text was recognised from an image or read from a PDF's text layer
+  source: 'ocr' | 'text_layer'
+}
+
+export interface FieldSuggestion {
+  value: string
+  // 0-1; how likely the value is right
+  confidence: number
+  // The line the value was read from
+  evidence: string
+}
+
+export interface DocumentSuggestions {
+  documentType?: FieldSuggestion
+  issueDate?: FieldSuggestion
+  expiryDate?: FieldSuggestion
+  licenceNumber?: FieldSuggestion
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low'
+
+// Custom fields a suggested licence number is filled into
+export const LICENCE_NUMBER_FIELD_KEYS = ['licence_number', 'license_number', 'certificate_number']
+
+// Stored for full-text search; scans rarely come near this
+export const MAX_EXTRACTED_TEXT_LENGTH = 20000
+
+// Words too common on certificates to tell the types apart
+const GENERIC_WORDS = new Set([
+  'aviation', 'certificate', 'certification', 'document', 'documents', 'pilot', 'pilots',
+  'record', 'records', 'result', 'results', 'with', 'from', 'that', 'this', 'their'
+])
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+}
+
+const EXPIRY_LABEL = /expir|\bexp\b|valid\s*(until|till|to|thru|through)|\buntil\b/i
+const ISSUE_LABEL = /issu|examin|date\s*of\s*test|test\s*date|valid\s*from|\bdated\b/i
+const BIRTH_LABEL = /birth|\bdob\b|\bborn\b/i
+
+const LABELLED_LICENCE = /(?:licen[cs]e|certificate|cert\.?)\s*(?:no\.?|number|nr\.?|#)\s*[:.]?\s*([A-Z0-9][A-Z0-9./-]{3,24})/i
+const LICENCE_LABEL_ONLY = /(?:licen[cs]e|certificate|cert\.?)\s*(?:no\.?|number|nr\.?|#)\s*[:.]?\s*$/i
+const LICENCE_TOKEN = /^([A-Z0-9][A-Z0-9./-]{3,24})/i
+const FCL_LICENCE = /\b([A-Z]{2,3}\.?FCL\.?[A-Z0-9./-]{2,20})\b/
+
+/**
+ * Extracted text as stored on the document: whitespace collapsed and cut
+ * to MAX_EXTRACTED_TEXT_LENGTH. Null when nothing was read.
+ */
+export function normaliseExtractedText(text?: string | null): string | null {
+  const normalised = (text || '').replace(/[^\S\n]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim()
+  return normalised ? normalised.slice(0, MAX_EXTRACTED_TEXT_LENGTH) : null
+}
+
+export function describeConfidence(confidence: number): ConfidenceLevel {
+  if (confidence >= 0.75) return 'high'
+  if (confidence >= 0.45) return 'medium'
+  return 'low'
+}
+
+/**
+ * Look for the upload form's fields in a document's text. Each suggestion
+ * carries its own confidence, combining how sure the OCR engine was of the
+ * line and how clearly the value was labelled.
+ */
+export function suggestDocumentDetails(
+  extracted: ExtractedText,
+  documentTypes: DocumentTypeDefinition[]
+): DocumentSuggestions {
+  const lines = extracted.lines.filter(line => line.text.trim())
+  return {
+    documentType: suggestDocumentType(extracted, documentTypes),
+    ...suggestDates(lines),
+    licenceNumber: suggestLicenceNumber(lines)
+  }
+}
+
+// Spelling differs between issuing countries
+function normaliseWords(text: string): string {
+  return ` ${text.toLowerCase().replace(/licence/g, 'license').replace(/[^a-z0-9]+/g, ' ').trim()} `
+}
+
+// Scores each type by its label and the distinctive words of its label and
+// description found in the text
+function suggestDocumentType(
+  extracted: ExtractedText,
+  documentTypes: DocumentTypeDefinition[]
+): FieldSuggestion | undefined {
+  const text = normaliseWords(extracted.text)
+
+  const scored = documentTypes
+    .filter(type => type.is_active)
+    .map(type => {
+      const label = normaliseWords(type.label).trim()
+      const words = new Set(
+        normaliseWords(`${type.label} ${type.description || ''}`)
+          .split(' ')
+          .filter(word => word.length >= 4 && !GENERIC_WORDS.has(word))
+      )
+      let score = text.includes(` ${label} `) ? 3 : 0
+      words.forEach(word => {
+        if (text.includes(` ${word} `)) score += 1
+      })
+      return { type, label, score }
+    })
+    .sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scored
+  if (!best || best.score < 2) return undefined
+
+  // A close runner-up makes the match less certain
+  const margin = best.score / (best.score + (runnerUp?.score || 0))
+  const strength = Math.min(1, best.score / 4)
+  const evidence = extracted.lines.find(line => normaliseWords(line.text).includes(` ${best.label} `))
+
+  return {
+    value: best.type.code,
+    confidence: round(margin * strength * (extracted.confidence / 100)),
+    evidence: evidence?.text.trim() || best.type.label
+  }
+}
+
+interface DateMatch {
+  date: string
+  index: number
+  end: number
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year + 2000 > new Date().getFullYear() + 30 ? 1900 : 2000
+  const date = new Date(year, month - 1, day)
+  if (!isValid(date) || date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return format(date, 'yyyy-MM-dd')
+}
+
+function monthNumber(name: string): number | undefined {
+  const lower = name.toLowerCase()
+  return MONTHS[lower.slice(0, 4)] || MONTHS[lower.slice(0, 3)]
+}
+
+// Dates written as 2025-03-14, 14/03/2025, 14 Mar 2025 or March 14, 2025.
+// Numeric dates are read day first, as on ICAO documents, unless that
+// cannot be a valid date.
+function findDates(text: string): DateMatch[] {
+  const patterns: { pattern: RegExp; parse: (match: RegExpExecArray) => string | null }[] = [
+    {
+      pattern: /\b(\d{4})[-./](\d{1,2})[-./](\d{1,2})\b/g,
+      parse: match => toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+    },
+    {
+      pattern: /\b(\d{1,2})[-./](\d{1,2})[-./](\d{4}|\d{2})\b/g,
+      parse: match => toIsoDate(Number(match[3]), Number(match[2]), Number(match[1])) ||
+        toIsoDate(Number(match[3]), Number(match[1]), Number(match[2]))
+    },
+    {
+      pattern: /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?[\s,-]+(\d{4})\b/g,
+      parse: match => {
+        const month = monthNumber(match[2])
+        return month ? toIsoDate(Number(match[3]), month, Number(match[1])) : null
+      }
+    },
+    {
+      pattern: /\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/g,
+      parse: match => {
+        const month = monthNumber(match[1])
+        return month ? toIsoDate(Number(match[3]), month, Number(match[2])) : null
+      }
+    }
+  ]
+
+  const matches: DateMatch[] = []
+  for (const { pattern, parse } of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index
+      const end = index + match[0].length
+      if (matches.some(existing => index < existing.end && end > existing.index)) continue
+      const date = parse(match as RegExpExecArray)
+      if (date) matches.push({ date, index, end })
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index)
+}
+
+interface DateCandidate {
+  date: string
+  kind: 'issue' | 'expiry' | 'unlabelled'
+  confidence: number
+  evidence: string
+}
+
+// A date is labelled by the words before it on its line, or by the line
+// above when the date stands alone
+function suggestDates(lines: ExtractedLine[]): Pick<DocumentSuggestions, 'issueDate' | 'expiryDate'> {
+  const candidates: DateCandidate[] = []
+
+  lines.forEach((line, lineIndex) => {
+    let previousEnd = 0
+    for (const match of findDates(line.text)) {
+      let context = line.text.slice(previousEnd, match.index)
+      previousEnd = match.end
+      if (!/[a-z]/i.test(context) && lineIndex > 0) context = lines[lineIndex - 1].text
+
+      if (BIRTH_LABEL.test(context)) continue
+      const kind = EXPIRY_LABEL.test(context) ? 'expiry' : ISSUE_LABEL.test(context) ? 'issue' : 'unlabelled'
+      candidates.push({
+        date: match.date,
+        kind,
+        confidence: (line.confidence / 100) * (kind === 'unlabelled' ? 0.5 : 0.95),
+        evidence: line.text.trim()
+      })
+    }
+  })
+
+  const best = (kind: DateCandidate['kind']) => candidates
+    .filter(candidate => candidate.kind === kind)
+    .sort((a, b) => b.confidence - a.confidence)[0]
+
+  let issue = best('issue')
+  let expiry = best('expiry')
+
+  // Unlabelled dates: the latest is probably the expiry, the earliest the issue
+  const unlabelled = candidates
+    .filter(candidate => candidate.kind === 'unlabelled')
+    .sort((a, b) => a.date.localeCompare(b.date))
+  if (!expiry && unlabelled.length > 1) expiry = unlabelled[unlabelled.length - 1]
+  if (!issue && unlabelled.length > 0 && unlabelled[0] !== expiry) {
+    issue = { ...unlabelled[0], confidence: unlabelled[0].confidence * (unlabelled.length > 1 ? 1 : 0.8) }
+  }
+
+  // An expiry on or before the issue date has been misread somewhere
+  if (issue && expiry && expiry.date <= issue.date) {
+    expiry = { ...expiry, confidence: expiry.confidence / 2 }
+  }
+
+  const toSuggestion = (candidate?: DateCandidate): FieldSuggestion | undefined => candidate && {
+    value: candidate.date,
+    confidence: round(candidate.confidence),
+    evidence: candidate.evidence
+  }
+
+  return { issueDate: toSuggestion(issue), expiryDate: toSuggestion(expiry) }
+}
+
+function suggestLicenceNumber(lines: ExtractedLine[]): FieldSuggestion | undefined {
+  const candidates: FieldSuggestion[] = []
+  const hasDigit = (value: string) => /\d/.test(value)
+
+  lines.forEach((line, lineIndex) => {
+    const lineConfidence = line.confidence / 100
+
+    const labelled = LABELLED_LICENCE.exec(line.text)
+    if (labelled && hasDigit(labelled[1])) {
+      candidates.push({ value: labelled[1], confidence: lineConfidence * 0.95, evidence: line.text.trim() })
+    }
+
+    // "Licence No." with the number on the line below
+    const next = lines[lineIndex + 1]
+    const nextToken = next && LICENCE_LABEL_ONLY.test(line.text) ? LICENCE_TOKEN.exec(next.text.trim()) : null
+    if (nextToken && hasDigit(nextToken[1])) {
+      candidates.push({ value: nextToken[1], confidence: (next.confidence / 100) * 0.75, evidence: next.text.trim() })
+    }
+
+    // EASA Part-FCL numbers such as "IE.FCL.12345" carry their own marker
+    const fcl = FCL_LICENCE.exec(line.text)
+    if (fcl && hasDigit(fcl[1])) {
+      candidates.push({ value: fcl[1], confidence: lineConfidence * 0.8, evidence: line.text.trim() })
+    }
+  })
+
+  const best = candidates.sort((a, b) => b.confidence - a.confidence)[0]
+  return best && { ...best, value: best.value.replace(/[.-]+$/, ''), confidence: round(best.confidence) }
+}
+
+function round(confidence: number): number {
+  return Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100
+}
@@ -0,0 +1,178 @@
+import { format } from 'date-fns'
+import type { DocumentTypeDefinition } from './documentTypes'
+
+// Custom fields per document type, e.g. the class and issuing AME of a
+// medical certificate. Each type lists its fields in metadata_fields; the
+// values entered on upload are stored on the document as a JSON object keyed
+// by field. Values are validated here both in the upload forms and before
+// a document is saved.
+
+export type MetadataFieldType = 'text' | 'date' | 'enum' | 'number'
+
+export interface MetadataFieldDefinition {
+  // Key of the value in documents.metadata
+  key: string
+  label: string
+  type: MetadataFieldType
+  required?: boolean
+  // Choices of an enum field
+  options?: string[]
+  // Bounds of a number field
+  min?: number
+  max?: number
+  // Shown under the input
+  help?: string
+}
+
+export type MetadataValue = string | number
+export type DocumentMetadata = Record<string, MetadataValue>
+
+export const METADATA_FIELD_TYPES: { value: MetadataFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'Choice' },
+  { value: 'number', label: 'Number' }
+]
+
+export const METADATA_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/
+
+const MAX_TEXT_LENGTH = 500
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Custom fields of a document type. Malformed entries are skipped so a bad
+ * registry row cannot break the upload forms.
+ */
+export function getMetadataFields(
+  definition?: Pick<DocumentTypeDefinition, 'metadata_fields'> | null
+): MetadataFieldDefinition[] {
+  const fields = definition?.metadata_fields
+  if (!Array.isArray(fields)) return []
+  return fields.filter(field =>
+    field && typeof field.key === 'string' && typeof field.label === 'string' &&
+    METADATA_FIELD_TYPES.some(type => type.value === field.type)
+  )
+}
+
+/**
+ * Check entered values against a type's fields. Strings are trimmed, empty
+ * values and keys the type does not define are dropped, and numbers are
+ * converted, so `metadata` is what should be stored. `errors` is keyed by field.
+ */
+export function validateDocumentMetadata(
+  fields: MetadataFieldDefinition[],
+  values: Record<string, unknown> = {}
+): { valid: boolean; metadata: DocumentMetadata; errors: Record<string, string> } {
+  const metadata: DocumentMetadata = {}
+  const errors: Record<string, string> = {}
+
+  for (const field of fields) {
+    const raw = values[field.key]
+    const value = typeof raw === 'string' ? raw.trim() : raw
+
+    if (value === undefined || value === null || value === '') {
+      if (field.required) errors[field.key] = `${field.label} is required`
+      continue
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value)
+        if (typeof value === 'boolean' || !Number.isFinite(number)) {
+          errors[field.key] = `${field.label} must be a number`
+        } else if (field.min !== undefined && number < field.min) {
+          errors[field.key] = `${field.label} must be at least ${field.min}`
+        } else if (field.max !== undefined && number > field.max) {
+          errors[field.key] = `${field.label} must be at most ${field.max}`
+        } else {
+          metadata[field.key] = number
+        }
+        break
+      }
+      case 'date':
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+          errors[field.key] = `${field.label} must be a date`
+        } else {
+          metadata[field.key] = value
+        }
+        break
+      case 'enum':
+        if (typeof value !== 'string' || !field.options?.includes(value)) {
+          errors[field.key] = `${field.label} must be one of: ${(field.options || []).join(', ')}`
+        } else {
+          metadata[field.key] = value
+        }
+        break
+      default:
+        if (typeof value !== 'string') {
+          errors[field.key] = `${field.label} must be text`
+        } else if (value.length > MAX_TEXT_LENGTH) {
+          errors[field.key] = `${field.label} must be at most ${MAX_TEXT_LENGTH} characters`
+        } else {
+          metadata[field.key] = value
+        }
+    }
+  }
+
+  return { valid: Object.keys(errors).length === 0, metadata, errors }
+}
+
+/**
+ * Check a set of field definitions before it is saved to the registry.
+ * Returns the first problem found, or null.
+ */
+export function validateMetadataFieldDefinitions(fields: MetadataFieldDefinition[]): string | null {
+  const keys = new Set<string>()
+
+  for (const field of fields) {
+    if (!field.label.trim()) {
+      return 'Every custom field needs a label'
+    }
+    if (!METADATA_FIELD_KEY_PATTERN.test(field.key)) {
+      return `${field.label}: keys must start with a letter and use only lowercase letters, digits and underscores`
+    }
+    if (keys.has(field.key)) {
+      return `${field.label}: the key ${field.key} is used twice`
+    }
+    keys.add(field.key)
+
+    if (field.type === 'enum' && (!field.options || field.options.length === 0)) {
+      return `${field.label}: choice fields need at least one option`
+    }
+    if (field.type === 'number' && field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      return `${field.label}: the minimum is above the maximum`
+    }
+  }
+
+  return null
+}
+
+/**
+ * A stored value as shown to reviewers
+ */
+export function formatMetadataValue(field: MetadataFieldDefinition | undefined, value: MetadataValue): string {
+  if (field?.type === 'date' && typeof value === 'string' && DATE_PATTERN.test(value)) {
+    return format(new Date(`${value}T00:00:00`), 'MMM d, yyyy')
+  }
+  return String(value)
+}
+
+/**
+ * A document's custom field values in the order its type defines them.
+ * Values of fields since removed from the type are listed last under their key.
+ */
+export function describeDocumentMetadata(
+  fields: MetadataFieldDefinition[],
+  metadata: DocumentMetadata | null | undefined
+): Array<{ key: string; label: string; value: string }> {
+  if (!metadata) return []
+
+  const known = fields
+    .filter(field => metadata[field.key] !== undefined && metadata[field.key] !== '')
+    .map(field => ({ key: field.key, label: field.label, value: formatMetadataValue(field, metadata[field.key]) }))
+  const removed = Object.keys(metadata)
+    .filter(key => !fields.some(field => field.key === key))
+    .map(key => ({ key, label: key, value: formatMetadataValue(undefined, metadata[key]) }))
+
+  return [...known, ...removed]
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from './database.types'
+import type { DetectedFileType } from './fileInspection'
+import type { MetadataFieldDefinition } from './documentMetadata'
+import type { ValidityRule } from './validityRules'
+
+// The document_types table lists the kinds of documents pilots can upload,
+// with each type's label, expiry rules and accepted files. Everything that
+// used to hard-code the list of types reads it from here instead.
+
+export type DocumentTypeDefinition = Omit<Database['public']['Tables']['document_types']['Row'], 'metadata_fields' | 'validity_rules'> & {
+  // Custom fields collected on upload (see lib/documentMetadata.ts)
+  metadata_fields: MetadataFieldDefinition[]
+  // Rules deriving the expiry date (see lib/validityRules.ts)
+  validity_rules: ValidityRule[]
+}
+export type DocumentTypeInput = Omit<DocumentTypeDefinition, 'created_at' | 'updated_at'>
+
+const MB = 1024 * 1024
+
+// File types the upload inspection recognises; a document type accepts a
+// subset of these
+export const SUPPORTED_FILE_TYPES: Record<DetectedFileType, { label: string; extensions: string[] }> = {
+  'application/pdf': { label: 'PDF', extensions: ['.pdf'] },
+  'image/jpeg': { label: 'JPEG', extensions: ['.jpg', '.jpeg'] },
+  'image/png': { label: 'PNG', extensions: ['.png'] }
+}
+
+export const DEFAULT_ALLOWED_MIME_TYPES = Object.keys(SUPPORTED_FILE_TYPES) as DetectedFileType[]
+export const DEFAULT_MAX_FILE_SIZE = 10 * MB // 10MB
+
+// Codes are stored on documents and in storage paths
+export const DOCUMENT_TYPE_CODE_PATTERN = /^[a-z][a-z0-9_]{1,49}$/
+
+/**
+ * Human readable name of a document type, falling back to its code
+ * while the registry is loading or for types it no longer lists
+ */
+export function formatDocumentType(code: string, types?: DocumentTypeDefinition[]): string {
+  return types?.find(type => type.code === code)?.label || code
+}
+
+/**
+ * MIME types accepted for a document type. Browsers report some JPEGs as
+ * image/jpg, so that alias is accepted wherever JPEG is.
+ */
+export function getAllowedMimeTypes(definition?: DocumentTypeDefinition | null): string[] {
+  const allowed = definition?.allowed_mime_types || DEFAULT_ALLOWED_MIME_TYPES
+  return allowed.includes('image/jpeg') ? [...allowed, 'image/jpg'] : allowed
+}
+
+/**
+ * Largest upload accepted for a document type, in bytes
+ */
+export function getMaxFileSize(definition?: DocumentTypeDefinition | null): number {
+  return definition ? definition.max_file_size_mb * MB : DEFAULT_MAX_FILE_SIZE
+}
+
+/**
+ * Accepted files in the format react-dropzone expects
+ */
+export function getAcceptedFileTypes(definition?: DocumentTypeDefinition | null): Record<string, string[]> {
+  const allowed = definition?.allowed_mime_types || DEFAULT_ALLOWED_MIME_TYPES
+  return Object.fromEntries(
+    allowed
+      .filter((mimeType): mimeType is DetectedFileType => mimeType in SUPPORTED_FILE_TYPES)
+      .map(mimeType => [mimeType, SUPPORTED_FILE_TYPES[mimeType].extensions])
+  )
+}
+
+/**
+ * Accepted files as shown to pilots, e.g. "PDF, JPEG"
+ */
+export function describeAllowedFileTypes(definition?: DocumentTypeDefinition | null): string {
+  const allowed = definition?.allowed_mime_types || DEFAULT_ALLOWED_MIME_TYPES
+  return allowed
+    .map(mimeType => SUPPORTED_FILE_TYPES[mimeType as DetectedFileType]?.label || mimeType)
+    .join(', ')
+}
+
+/**
+ * Fetch the registry in display order. Inactive types are left out unless
+ * asked for; existing documents may still use them.
+ */
+export async function fetchDocumentTypes(
+  options: { includeInactive?: boolean } = {},
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentTypeDefinition[]> {
+  try {
+    let query = client
+      .from('document_types')
+      .select('*')
+
+    if (!options.includeInactive) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+      .order('sort_order', { ascending: true })
+      .order('label', { ascending: true })
+
+    if (error) {
+      throw new Error('Error fetching document types: ' + error.message)
+    }
+
+    return (data || []) as DocumentTypeDefinition[]
+  } catch (error) {
+    console.error('Error in fetchDocumentTypes:', error)
+    throw error
+  }
+}
+
+/**
+ * Look up a single document type, active or not. Returns null for unknown codes.
+ */
+export async function getDocumentTypeDefinition(
+  code: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentTypeDefinition | null> {
+  if (!DOCUMENT_TYPE_CODE_PATTERN.test(code)) return null
+
+  const { data, error } = await client
+    .from('document_types')
+    .select('*')
+    .eq('code', code)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error fetching document type: ' + error.message)
+  }
+
+  return data as DocumentTypeDefinition | null
+}
+
+/**
+ * Add a document type to the registry (admin only)
+ */
+export async function createDocumentType(
+  input: DocumentTypeInput,
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentTypeDefinition> {
+  try {
+    if (!DOCUMENT_TYPE_CODE_PATTERN.test(input.code)) {
+      throw new Error('Codes must start with a letter and use only lowercase letters, digits and underscores')
+    }
+
+    const { data, error } = await client
+      .from('document_types')
+      .insert({ ...input, label: input.label.trim() } as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error('Error creating document type: ' + error.message)
+    }
+
+    return data as DocumentTypeDefinition
+  } catch (error) {
+    console.error('Error in createDocumentType:', error)
+    throw error
+  }
+}
+
+/**
+ * Change a document type's settings (admin only). The code cannot change,
+ * since documents and storage paths refer to it.
+ */
+export async function updateDocumentType(
+  code: string,
+  updates: Partial<Omit<DocumentTypeInput, 'code'>>,
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentTypeDefinition> {
+  try {
+    const { data, error } = await ((client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .from('document_types')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('code', code)
+      .select()
+      .single() as Promise<{ data: DocumentTypeDefinition | null; error: Error | null }>)
+
+    if (error) {
+      throw new Error('Error updating document type: ' + error.message)
+    }
+
+    return data as DocumentTypeDefinition
+  } catch (error) {
+    console.error('Error in updateDocumentType:', error)
+    throw error
+  }
+}
@@ -1,10 +1,23 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js'
 import { supabase } from './supabase'
-import { uploadPilotDocument, getDocumentUrl, deleteDocument } from './storage'
+import { Database } from './database.types'
+import { uploadPilotDocument } from './storage'
 import { auditHelpers } from './audit'
+import { createDocumentReview } from './reviews'
+import { assertNotOnLegalHold } from './legalHolds'
+import { getDocumentTypeDefinition } from './documentTypes'
+import { getMetadataFields, validateDocumentMetadata, DocumentMetadata } from './documentMetadata'
+import { resolveDocumentExpiry, fetchPilotDateOfBirth, needsDateOfBirth, ExpirySource } from './validityRules'
+import { normaliseExtractedText } from './documentExtraction'
+import { api } from './api'
 
 // Document types
-export type DocumentType = 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records'
-export type DocumentStatus = 'pending' | 'approved' | 'rejected' | 'expired'
+// Code of a type in the document_types registry (see lib/documentTypes.ts)
+export type DocumentType = string
+export type DocumentStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'quarantined'
+export type ScanStatus = 'unscanned' | 'clean' | 'infected' | 'error'
+
+export const DOCUMENT_STATUSES: DocumentStatus[] = ['pending', 'approved', 'rejected', 'expired', 'quarantined']
 
 // Document interface
 export interface Document {
@@ -17,11 +30,56 @@ export interface Document {
   file_type: string | null
   upload_date: string
   expiry_date: string | null
+  // When the document was issued, if the pilot gave it
+  issue_date: string | null
+  // Expiry the type's validity rules give; differs from expiry_date when
+  // the pilot entered another one
+  computed_expiry_date: string | null
+  expiry_source: ExpirySource | null
   status: DocumentStatus
+  version_group_id: string
+  version_number: number
+  is_current: boolean
+  superseded_by: string | null
+  superseded_at: string | null
+  // When the version became current; null while it awaits review
+  current_from: string | null
+  scan_status: ScanStatus
+  scan_signature: string | null
+  scanned_at: string | null
+  // Malware scans attempted while the document was quarantined
+  scan_attempts: number
+  // SHA-256 of the file content, hex encoded
+  content_hash: string | null
+  // Storage path of the preview image, once generated
+  thumbnail_url: string | null
+  // Failed attempts at generating it, and why the last one failed
+  thumbnail_attempts: number
+  thumbnail_error: string | null
+  // Set while the document is in the trash
+  deleted_at: string | null
+  deleted_by: string | null
+  // When the stored file was permanently removed
+  purged_at: string | null
+  // Values of the document type's custom fields
+  metadata: DocumentMetadata
+  // Text read from the file on upload, for full-text search. Left out of
+  // lists, see DOCUMENT_LIST_COLUMNS.
+  extracted_text?: string | null
   created_at: string
   updated_at: string
 }
 
+// Columns read for document lists: all but the extracted text, which can
+// run to 20000 characters and is only searched, on the server
+export const DOCUMENT_LIST_COLUMNS = [
+  'id', 'pilot_id', 'document_type', 'title', 'file_url', 'file_size', 'file_type', 'upload_date',
+  'expiry_date', 'issue_date', 'computed_expiry_date', 'expiry_source', 'status', 'metadata',
+  'version_group_id', 'version_number', 'is_current', 'superseded_by', 'superseded_at', 'current_from',
+  'scan_status', 'scan_signature', 'scanned_at', 'scan_attempts', 'content_hash', 'thumbnail_url',
+  'thumbnail_attempts', 'thumbnail_error', 'deleted_at', 'deleted_by', 'purged_at', 'created_at', 'updated_at'
+].join(', ')
+
 // Extended document with pilot info
 export interface DocumentWithPilot extends Document {
   pilots: {
@@ -38,17 +96,30 @@ export interface DocumentWithPilot extends Document {
 export interface DocumentUploadData {
   title: string
   document_type: DocumentType
+  // Derived from the issue date and the type's validity rules when left out
   expiry_date?: string
+  issue_date?: string
+  // Values of the document type's custom fields, keyed by field
+  metadata?: Record<string, unknown>
+  // Text read from the file, see lib/ocr.ts
+  extracted_text?: string
+  // Whether the upload supersedes the current document of its type; defaults to true
+  new_version?: boolean
   file: File
 }
 
 /**
- * Get or create pilot record for a user
+ * Get or create pilot record for a user.
+ * Server callers pass the verified auth user since their client has no session.
  */
-export async function getOrCreatePilotRecord(userId: string): Promise<string> {
+export async function getOrCreatePilotRecord(
+  userId: string,
+  client: SupabaseClient<Database> = supabase,
+  authUser?: User
+): Promise<string> {
   try {
     // Check if pilot record exists
-    const { data: existingPilot, error: pilotCheckError } = await supabase
+    const { data: existingPilot, error: pilotCheckError } = await client
       .from('pilots')
       .select('id')
       .eq('user_id', userId)
@@ -63,11 +134,15 @@ export async function getOrCreatePilotRecord(userId: string): Promise<string> {
     }
 
     // Get user info from auth
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    if (userError) throw userError
+    let user = authUser
+    if (!user) {
+      const { data, error: userError } = await client.auth.getUser()
+      if (userError) throw userError
+      user = data.user ?? undefined
+    }
 
     // Create pilot record if it doesn't exist
-    const { data: newPilot, error: createPilotError } = await (supabase
+    const { data: newPilot, error: createPilotError } = await (client
       .from('pilots')
       .insert({
         user_id: userId,
@@ -92,7 +167,64 @@ export async function getOrCreatePilotRecord(userId: string): Promise<string> {
 }
 
 /**
- * Save document metadata to database
+ * Get the current version of a pilot's document of the given type, if any
+ */
+export async function getCurrentDocumentVersion(
+  pilotId: string,
+  documentType: DocumentType,
+  client: SupabaseClient<Database> = supabase
+): Promise<Document | null> {
+  try {
+    const { data, error } = await client
+      .from('documents')
+      .select('*')
+      .eq('pilot_id', pilotId)
+      .eq('document_type', documentType)
+      .eq('is_current', true)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error('Error fetching current document version: ' + error.message)
+    }
+
+    return (data as Document | null) || null
+  } catch (error) {
+    console.error('Error in getCurrentDocumentVersion:', error)
+    throw error
+  }
+}
+
+// Highest version number in a group, counting versions awaiting review
+async function getLatestVersionNumber(
+  versionGroupId: string,
+  client: SupabaseClient<Database>
+): Promise<number> {
+  const { data, error } = await client
+    .from('documents')
+    .select('version_number')
+    .eq('version_group_id', versionGroupId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error fetching latest version number: ' + error.message)
+  }
+
+  return (data as { version_number: number } | null)?.version_number || 0
+}
+
+/**
+ * Save document metadata to database.
+ * If the pilot already holds a current document of the same type, the new
+ * record becomes its next version, unless `new_version` is false. The
+ * current version stays in place until the new one is approved (see
+ * updateDocumentStatus).
+ * The previous file is left in storage so the full history stays viewable.
+ * Custom field values are checked against the document type's fields, and
+ * a missing expiry date is derived from the type's validity rules.
  */
 export async function saveDocumentMetadata(
   pilotId: string,
@@ -102,12 +234,42 @@ export async function saveDocumentMetadata(
     file_url: string
     file_size: number
     file_type: string
+    content_hash?: string
     expiry_date?: string
+    issue_date?: string
+    metadata?: Record<string, unknown>
+    extracted_text?: string
     status?: DocumentStatus
-  }
+    // False to start a separate document instead of superseding the current one
+    new_version?: boolean
+  },
+  client: SupabaseClient<Database> = supabase
 ): Promise<Document> {
   try {
-    const { data, error } = await supabase
+    const definition = await getDocumentTypeDefinition(documentData.document_type, client)
+    if (!definition) {
+      throw new Error(`Unknown document type: ${documentData.document_type}`)
+    }
+
+    const metadataCheck = validateDocumentMetadata(getMetadataFields(definition), documentData.metadata)
+    if (!metadataCheck.valid) {
+      throw new Error('Invalid document details: ' + Object.values(metadataCheck.errors).join('; '))
+    }
+
+    const expiry = resolveDocumentExpiry(definition, {
+      enteredExpiryDate: documentData.expiry_date,
+      issueDate: documentData.issue_date,
+      dateOfBirth: needsDateOfBirth(definition) ? await fetchPilotDateOfBirth({ id: pilotId }, client) : null
+    })
+    if (definition.expiry_required && !expiry.expiry_date) {
+      throw new Error(`An expiry date is required for ${definition.label}`)
+    }
+
+    const previousVersion = documentData.new_version === false
+      ? null
+      : await getCurrentDocumentVersion(pilotId, documentData.document_type, client)
+
+    const { data, error } = await client
       .from('documents')
       .insert({
         pilot_id: pilotId,
@@ -116,9 +278,21 @@ export async function saveDocumentMetadata(
         file_url: documentData.file_url,
         file_size: documentData.file_size,
         file_type: documentData.file_type,
+        content_hash: documentData.content_hash || null,
         upload_date: new Date().toISOString(),
-        expiry_date: documentData.expiry_date || null,
-        status: documentData.status || 'pending'
+        ...expiry,
+        issue_date: documentData.issue_date || null,
+        metadata: metadataCheck.metadata,
+        extracted_text: normaliseExtractedText(documentData.extracted_text),
+        // Held back from review until the malware scan passes
+        status: documentData.status || 'quarantined',
+        version_group_id: previousVersion?.version_group_id,
+        version_number: previousVersion
+          ? await getLatestVersionNumber(previousVersion.version_group_id, client) + 1
+          : 1,
+        // A new version waits for approval before it replaces the current one
+        is_current: !previousVersion,
+        current_from: previousVersion ? null : new Date().toISOString()
       } as any) // eslint-disable-line @typescript-eslint/no-explicit-any
       .select()
       .single()
@@ -127,64 +301,104 @@ export async function saveDocumentMetadata(
       throw new Error('Error saving document metadata: ' + error.message)
     }
 
-    return data as Document
+    const document = data as Document
+
+    return document
   } catch (error) {
     console.error('Error in saveDocumentMetadata:', error)
     throw error
   }
 }
 
+/**
+ * Record a file uploaded straight to storage as a document. The server
+ * inspects the stored file, creates the record and starts its malware scan;
+ * app users cannot insert documents themselves.
+ */
+export async function completeDocumentUpload(
+  filePath: string,
+  uploadData: Omit<DocumentUploadData, 'file'>
+): Promise<{ document: Document; duplicates: Document[] }> {
+  try {
+    const result = await api.completeUpload({
+      path: filePath,
+      title: uploadData.title,
+      document_type: uploadData.document_type,
+      expiry_date: uploadData.expiry_date,
+      issue_date: uploadData.issue_date,
+      metadata: uploadData.metadata,
+      extracted_text: uploadData.extracted_text,
+      new_version: uploadData.new_version
+    })
+
+    return {
+      document: result.document as Document,
+      duplicates: (result.duplicates || []) as Document[]
+    }
+  } catch (error) {
+    console.error('Error in completeDocumentUpload:', error)
+    throw error
+  }
+}
+
 /**
  * Complete document upload (file + metadata)
  */
 export async function uploadDocumentComplete(
   userId: string,
-  uploadData: DocumentUploadData
-): Promise<{ document: Document; fileUrl: string }> {
+  uploadData: DocumentUploadData,
+  client: SupabaseClient<Database> = supabase
+): Promise<{ document: Document; duplicates: Document[] }> {
   try {
-    // 1. Get or create pilot record
-    const pilotId = await getOrCreatePilotRecord(userId)
-
-    // 2. Upload file to storage
+    // 1. Upload file to storage (the file is inspected and named by its content)
     const uploadResult = await uploadPilotDocument(
       uploadData.file,
       userId,
       uploadData.document_type,
-      `${uploadData.document_type}_${Date.now()}.${uploadData.file.name.split('.').pop()}`
+      undefined,
+      client
     )
 
     if (!uploadResult.success) {
       throw new Error(uploadResult.error)
     }
 
-    // 3. Save metadata to database
-    const document = await saveDocumentMetadata(pilotId, {
-      document_type: uploadData.document_type,
-      title: uploadData.title,
-      file_url: uploadResult.fullPath!,
-      file_size: uploadData.file.size,
-      file_type: uploadData.file.type,
-      expiry_date: uploadData.expiry_date
-    })
+    // 2. Have the server check the stored file and record the document
+    return await completeDocumentUpload(uploadResult.fullPath!, uploadData)
+  } catch (error) {
+    console.error('Error in uploadDocumentComplete:', error)
+    throw error
+  }
+}
 
-    // 4. Get file viewing URL
-    const urlResult = await getDocumentUrl(uploadResult.fullPath!)
-    const fileUrl = urlResult.success ? urlResult.url! : ''
+/**
+ * Download a watermarked copy of a document through a single-use link.
+ * The server logs the download before handing out the link.
+ */
+export async function downloadDocument(documentId: string): Promise<void> {
+  try {
+    const { url } = await api.createDocumentDownload(documentId)
 
-    // 5. Log the upload action
-    try {
-      await auditHelpers.logDocumentUpload(document.id, document.title)
-    } catch (auditError) {
-      // Don't fail the main operation if audit logging fails
-      console.warn('Failed to log document upload:', auditError)
-    }
+    const link = window.document.createElement('a')
+    link.href = url
+    window.document.body.appendChild(link)
+    link.click()
+    link.remove()
+  } catch (error) {
+    console.error('Error in downloadDocument:', error)
+    throw error
+  }
+}
 
-    return {
-      document,
-      fileUrl
-    }
+/**
+ * Export pilots' documents as a ZIP dossier with an index manifest.
+ * The server records the export in the audit log.
+ */
+export async function exportPilotDossier(pilotIds: string[], includeHistory = false): Promise<Blob> {
+  try {
+    return await api.exportPilotDossier({ pilotIds, includeHistory })
   } catch (error) {
-    console.error('Error in uploadDocumentComplete:', error)
+    console.error('Error in exportPilotDossier:', error)
     throw error
   }
 }
@@ -197,7 +411,7 @@ export async function fetchUserDocuments(userId: string): Promise<DocumentWithPi
     const { data, error } = await supabase
       .from('documents')
       .select(`
-        *,
+        ${DOCUMENT_LIST_COLUMNS},
         pilots!inner (
           id,
           user_id,
@@ -208,6 +422,7 @@ export async function fetchUserDocuments(userId: string): Promise<DocumentWithPi
         )
       `)
       .eq('pilots.user_id', userId)
+      .is('superseded_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -229,7 +444,7 @@ export async function fetchAllDocuments(): Promise<DocumentWithPilot[]> {
     const { data, error } = await supabase
       .from('documents')
       .select(`
-        *,
+        ${DOCUMENT_LIST_COLUMNS},
         pilots!inner (
           id,
           user_id,
@@ -239,6 +454,7 @@ export async function fetchAllDocuments(): Promise<DocumentWithPilot[]> {
           pilot_license
         )
       `)
+      .is('superseded_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -260,7 +476,7 @@ export async function fetchDocumentsByStatus(status: DocumentStatus): Promise<Do
     const { data, error } = await supabase
       .from('documents')
       .select(`
-        *,
+        ${DOCUMENT_LIST_COLUMNS},
         pilots!inner (
           id,
           user_id,
@@ -271,6 +487,7 @@ export async function fetchDocumentsByStatus(status: DocumentStatus): Promise<Do
         )
       `)
       .eq('status', status)
+      .is('superseded_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -285,18 +502,228 @@ export async function fetchDocumentsByStatus(status: DocumentStatus): Promise<Do
 }
 
 /**
- * Update document status
+ * Find a user's documents with the given content hash, i.e. earlier
+ * uploads of the same file
+ */
+export async function findDuplicateDocuments(
+  userId: string,
+  contentHash: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<Document[]> {
+  try {
+    const { data, error } = await client
+      .from('documents')
+      .select(`${DOCUMENT_LIST_COLUMNS}, pilots!inner ( user_id )`)
+      .eq('pilots.user_id', userId)
+      .eq('content_hash', contentHash)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error('Error checking for duplicate documents: ' + error.message)
+    }
+
+    return (data || []) as unknown as Document[]
+  } catch (error) {
+    console.error('Error in findDuplicateDocuments:', error)
+    throw error
+  }
+}
+
+// A document with the same content uploaded by a different pilot
+export interface CrossPilotDuplicate {
+  id: string
+  title: string
+  pilot_id: string
+  pilot_name: string
+  upload_date: string
+}
+
+/**
+ * For each of the given documents, find documents with the same content
+ * hash that belong to other pilots. The result is keyed by document id and
+ * only contains documents that have such matches.
+ */
+export async function findCrossPilotDuplicates(
+  documents: Pick<Document, 'id' | 'pilot_id' | 'content_hash'>[],
+  client: SupabaseClient<Database> = supabase
+): Promise<Record<string, CrossPilotDuplicate[]>> {
+  try {
+    const hashes = Array.from(new Set(documents.map(doc => doc.content_hash).filter((hash): hash is string => Boolean(hash))))
+    if (hashes.length === 0) return {}
+
+    const { data, error } = await client
+      .from('documents')
+      .select('id, title, pilot_id, content_hash, upload_date, pilots!inner ( first_name, last_name )')
+      .in('content_hash', hashes)
+
+    if (error) {
+      throw new Error('Error checking for cross-pilot duplicates: ' + error.message)
+    }
+
+    const matches = (data || []) as unknown as Array<{
+      id: string
+      title: string
+      pilot_id: string
+      content_hash: string
+      upload_date: string
+      pilots: { first_name: string; last_name: string }
+    }>
+
+    const duplicates: Record<string, CrossPilotDuplicate[]> = {}
+    for (const document of documents) {
+      const others = matches
+        .filter(match => match.content_hash === document.content_hash && match.pilot_id !== document.pilot_id)
+        .map(match => ({
+          id: match.id,
+          title: match.title,
+          pilot_id: match.pilot_id,
+          pilot_name: `${match.pilots.first_name} ${match.pilots.last_name}`,
+          upload_date: match.upload_date
+        }))
+
+      if (others.length > 0) {
+        duplicates[document.id] = others
+      }
+    }
+
+    return duplicates
+  } catch (error) {
+    console.error('Error in findCrossPilotDuplicates:', error)
+    throw error
+  }
+}
+
+// Filters for a paged document listing
+export interface DocumentListFilters {
+  userId?: string
+  pilotId?: string
+  status?: DocumentStatus
+  documentType?: DocumentType
+  search?: string
+  includeHistory?: boolean
+  page?: number
+  pageSize?: number
+}
+
+export interface DocumentPage {
+  documents: DocumentWithPilot[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export const MAX_DOCUMENT_PAGE_SIZE = 100
+// Most documents a text search matches
+const MAX_TEXT_SEARCH_MATCHES = 200
+
+/**
+ * Ids of the documents whose extracted text matches a search, by words as
+ * in a web search engine. Runs in the database on the full-text index.
+ */
+export async function searchDocumentText(
+  search: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<string[]> {
+  try {
+    const { data, error } = await client
+      .from('documents')
+      .select('id')
+      .textSearch('extracted_text', search, { config: 'simple', type: 'websearch' })
+      .limit(MAX_TEXT_SEARCH_MATCHES)
+
+    if (error) {
+      throw new Error('Error searching document text: ' + error.message)
+    }
+
+    return ((data || []) as Array<{ id: string }>).map(row => row.id)
+  } catch (error) {
+    console.error('Error in searchDocumentText:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch one page of documents matching the given filters, newest first.
+ * Only current versions and versions awaiting review are returned unless
+ * includeHistory is set.
+ */
+export async function fetchDocumentsPage(
+  filters: DocumentListFilters = {},
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentPage> {
+  try {
+    const page = Math.max(1, Math.floor(filters.page || 1))
+    const pageSize = Math.min(MAX_DOCUMENT_PAGE_SIZE, Math.max(1, Math.floor(filters.pageSize || 20)))
+    const from = (page - 1) * pageSize
+
+    let query = client
+      .from('documents')
+      .select(`
+        ${DOCUMENT_LIST_COLUMNS},
+        pilots!inner (
+          id,
+          user_id,
+          first_name,
+          last_name,
+          email,
+          pilot_license
+        )
+      `, { count: 'exact' })
+
+    if (filters.userId) query = query.eq('pilots.user_id', filters.userId)
+    if (filters.pilotId) query = query.eq('pilot_id', filters.pilotId)
+    if (filters.status) query = query.eq('status', filters.status)
+    if (filters.documentType) query = query.eq('document_type', filters.documentType)
+    if (!filters.includeHistory) query = query.is('superseded_at', null)
+
+    // Titles match as typed; the text read from the file matches by words
+    const search = filters.search?.trim().replace(/[%,()"\\]/g, '')
+    if (search) {
+      const textMatches = await searchDocumentText(search, client)
+      query = query.or([`title.ilike."%${search}%"`, ...(textMatches.length ? [`id.in.(${textMatches.join(',')})`] : [])].join(','))
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error('Error fetching documents page: ' + error.message)
+    }
+
+    return {
+      documents: (data as DocumentWithPilot[]) || [],
+      total: count || 0,
+      page,
+      pageSize
+    }
+  } catch (error) {
+    console.error('Error in fetchDocumentsPage:', error)
+    throw error
+  }
+}
+
+/**
+ * Update document status.
+ * Approvals and rejections are recorded in the document's review thread;
+ * a rejection requires a reason the pilot will see.
  */
 export async function updateDocumentStatus(
   documentId: string,
   status: DocumentStatus,
-  reason?: string
+  reason?: string,
+  comment?: string,
+  client: SupabaseClient<Database> = supabase
 ): Promise<Document> {
   try {
+    if (status === 'rejected' && !reason?.trim()) {
+      throw new Error('A reason is required to reject a document')
+    }
+
     // Get current document for audit logging
-    const { data: currentDoc, error: fetchError } = await supabase
+    const { data: currentDoc, error: fetchError } = await client
       .from('documents')
-      .select('status, title')
+      .select('status, title, pilot_id')
       .eq('id', documentId)
       .single()
 
@@ -304,10 +731,14 @@ export async function updateDocumentStatus(
       throw new Error('Error fetching current document: ' + fetchError.message)
     }
 
-    const previousStatus = (currentDoc as { status: string; title: string }).status
-    const documentTitle = (currentDoc as { status: string; title: string }).title
+    const typedCurrentDoc = currentDoc as { status: string; title: string; pilot_id: string }
+    const previousStatus = typedCurrentDoc.status
+    const documentTitle = typedCurrentDoc.title
 
-    const { data, error } = await ((supabase as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    // Held documents keep their status until the hold is released
+    await assertNotOnLegalHold({ pilotId: typedCurrentDoc.pilot_id, documentId }, client)
+
+    const { data, error } = await ((client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
       .from('documents')
       .update({
         status,
@@ -321,12 +752,29 @@ export async function updateDocumentStatus(
       throw new Error('Error updating document status: ' + error.message)
     }
 
+    // An approved version takes over from the one it replaces. The swap is
+    // a single transaction, so the group is never left without a current version.
+    if (status === 'approved') {
+      const { error: promoteError } = await (client as any).rpc('promote_document_version', { // eslint-disable-line @typescript-eslint/no-explicit-any
+        p_document_id: documentId
+      })
+
+      if (promoteError) {
+        throw new Error('Error making approved version current: ' + promoteError.message)
+      }
+    }
+
+    // Persist the decision so the pilot can see it
+    if (status === 'approved' || status === 'rejected') {
+      await createDocumentReview(documentId, { decision: status, reason, comment }, client)
+    }
+
     // Log the appropriate audit action
     try {
       if (status === 'approved') {
-        await auditHelpers.logDocumentApproval(documentId, documentTitle, previousStatus)
+        await auditHelpers.logDocumentApproval(documentId, documentTitle, previousStatus, client)
       } else if (status === 'rejected') {
-        await auditHelpers.logDocumentRejection(documentId, documentTitle, reason)
+        await auditHelpers.logDocumentRejection(documentId, documentTitle, reason, client)
       }
     } catch (auditError) {
       // Don't fail the main operation if audit logging fails
@@ -341,41 +789,105 @@ export async function updateDocumentStatus(
 }
 
 /**
- * Delete document (file + metadata)
+ * Send a rejected document back for review, optionally replying to the reviewer
  */
-export async function deleteDocumentComplete(documentId: string, fileUrl: string): Promise<void> {
+export async function resubmitDocument(documentId: string, comment?: string): Promise<Document> {
   try {
-    // 1. Delete file from storage
-    const storageResult = await deleteDocument(fileUrl)
-    if (!storageResult.success) {
-      throw new Error('Failed to delete file from storage')
-    }
-
-    // 2. Delete metadata from database
-    const { error } = await supabase
+    const { data, error } = await ((supabase as any) // eslint-disable-line @typescript-eslint/no-explicit-any
       .from('documents')
-      .delete()
+      .update({
+        status: 'pending',
+        updated_at: new Date().toISOString()
+      })
       .eq('id', documentId)
+      .eq('status', 'rejected')
+      .select()
+      .single() as Promise<{ data: Document | null; error: Error | null }>)
 
     if (error) {
-      throw new Error('Error deleting document metadata: ' + error.message)
+      throw new Error('Error resubmitting document: ' + error.message)
     }
+
+    await createDocumentReview(documentId, { decision: 'resubmitted', comment })
+
+    try {
+      await auditHelpers.logDocumentResubmission(documentId, (data as Document).title)
+    } catch (auditError) {
+      // Don't fail the main operation if audit logging fails
+      console.warn('Failed to log document resubmission:', auditError)
+    }
+
+    return data as Document
   } catch (error) {
-    console.error('Error in deleteDocumentComplete:', error)
+    console.error('Error in resubmitDocument:', error)
     throw error
   }
 }
 
 /**
- * Get document with signed URL for viewing
+ * Move a document to the trash. Admins can restore it until it is purged.
  */
-export async function getDocumentWithUrl(documentId: string): Promise<{
-  document: DocumentWithPilot
-  viewUrl: string
-}> {
+export async function trashDocument(documentId: string): Promise<void> {
   try {
-    // Get document details
-    const { data: document, error: docError } = await supabase
+    await api.deleteDocument(documentId)
+  } catch (error) {
+    console.error('Error in trashDocument:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the trash: the caller's own documents for pilots, every trashed
+ * document for admins and inspectors
+ */
+export async function fetchTrashedDocuments(): Promise<{ documents: DocumentWithPilot[]; retentionDays: number }> {
+  try {
+    const result = await api.listTrashedDocuments()
+    return {
+      documents: result.documents as DocumentWithPilot[],
+      retentionDays: result.retentionDays
+    }
+  } catch (error) {
+    console.error('Error in fetchTrashedDocuments:', error)
+    throw error
+  }
+}
+
+/**
+ * Take a document out of the trash (admin only)
+ */
+export async function restoreTrashedDocument(documentId: string): Promise<Document> {
+  try {
+    const { document } = await api.restoreDocument(documentId)
+    return document as Document
+  } catch (error) {
+    console.error('Error in restoreTrashedDocument:', error)
+    throw error
+  }
+}
+
+/**
+ * Permanently remove a trashed document's file (admin only)
+ */
+export async function purgeTrashedDocument(documentId: string): Promise<void> {
+  try {
+    await api.purgeDocument(documentId)
+  } catch (error) {
+    console.error('Error in purgeTrashedDocument:', error)
+    throw error
+  }
+}
+
+/**
+ * Get a document with its pilot. The file is not included; it is opened
+ * with openDocumentForViewing or downloadDocument, which log the access.
+ */
+export async function getDocumentWithPilot(
+  documentId: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentWithPilot> {
+  try {
+    const { data: document, error: docError } = await client
       .from('documents')
       .select(`
         *,
@@ -395,35 +907,92 @@ export async function getDocumentWithUrl(documentId: string): Promise<{
       throw new Error('Error fetching document: ' + docError.message)
     }
 
-    // Get signed URL
-    const typedDoc = document as Document
-    const urlResult = await getDocumentUrl(typedDoc.file_url)
-    if (!urlResult.success) {
-      throw new Error(`Error getting document URL: ${urlResult.error || 'Unknown error'}`)
-    }
+    return document as DocumentWithPilot
+  } catch (error) {
+    console.error('Error in getDocumentWithPilot:', error)
+    throw error
+  }
+}
 
-    if (!urlResult.url) {
-      throw new Error('Document URL is empty')
+/**
+ * Fetch a watermarked copy of a document for the in-app viewer through a
+ * single-use view link; the server logs the view before handing it out.
+ * Returns an object URL for the copy, which the caller must revoke.
+ */
+export async function openDocumentForViewing(documentId: string): Promise<string> {
+  try {
+    const { url } = await api.createDocumentView(documentId)
+
+    const response = await fetch(url, { cache: 'no-store' })
+    if (!response.ok) {
+      // e.g. a stored file that cannot be watermarked
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error || 'Could not open document')
     }
 
-    // Log the document view action
-    try {
-      await auditHelpers.logDocumentView(documentId, (document as DocumentWithPilot).title)
-    } catch (auditError) {
-      // Don't fail the main operation if audit logging fails
-      console.warn('Failed to log document view:', auditError)
+    return URL.createObjectURL(await response.blob())
+  } catch (error) {
+    console.error('Error in openDocumentForViewing:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the full revision history of a document, newest version first.
+ * Accepts the id of any version in the history.
+ */
+export async function getDocumentHistory(documentId: string): Promise<DocumentWithPilot[]> {
+  try {
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('version_group_id')
+      .eq('id', documentId)
+      .single()
+
+    if (docError) {
+      throw new Error('Error fetching document: ' + docError.message)
     }
 
-    return {
-      document: document as DocumentWithPilot,
-      viewUrl: urlResult.url
+    const { data, error } = await supabase
+      .from('documents')
+      .select(`
+        ${DOCUMENT_LIST_COLUMNS},
+        pilots!inner (
+          id,
+          user_id,
+          first_name,
+          last_name,
+          email,
+          pilot_license
+        )
+      `)
+      .eq('version_group_id', (document as { version_group_id: string }).version_group_id)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error('Error fetching document history: ' + error.message)
     }
+
+    return (data as DocumentWithPilot[]) || []
   } catch (error) {
-    console.error('Error in getDocumentWithUrl:', error)
+    console.error('Error in getDocumentHistory:', error)
     throw error
   }
 }
 
+/**
+ * Find the version that was current at a given point in time. Versions
+ * that never passed review were never current.
+ */
+export function getVersionCurrentAt<T extends Document>(history: T[], date: Date): T | null {
+  return history.find(version => {
+    if (!version.current_from) return false
+    const from = new Date(version.current_from)
+    const until = version.superseded_at ? new Date(version.superseded_at) : null
+    return from <= date && (!until || date < until)
+  }) || null
+}
+
 /**
  * Check if document is expired
  */
@@ -446,7 +1015,7 @@ export async function getExpiringDocuments(
     const { data, error } = await supabase
       .from('documents')
       .select(`
-        *,
+        ${DOCUMENT_LIST_COLUMNS},
         pilots!inner (
           id,
           user_id,
@@ -457,6 +1026,7 @@ export async function getExpiringDocuments(
         )
       `)
       .eq('pilots.user_id', userId)
+      .eq('is_current', true)
       .not('expiry_date', 'is', null)
       .lte('expiry_date', futureDate.toISOString())
       .gte('expiry_date', new Date().toISOString())
@@ -495,7 +1065,7 @@ export async function getUserDashboardData(userId: string): Promise<{
     const { data, error } = await supabase
       .from('documents')
       .select(`
-        *,
+        ${DOCUMENT_LIST_COLUMNS},
         pilots!inner (
           id,
           user_id,
@@ -506,6 +1076,7 @@ export async function getUserDashboardData(userId: string): Promise<{
         )
       `)
       .eq('pilots.user_id', userId)
+      .is('superseded_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -577,7 +1148,7 @@ export async function getAdminOverview(): Promise<{
       supabase
         .from('documents')
         .select(`
-          *,
+          ${DOCUMENT_LIST_COLUMNS},
           pilots!inner (
             id,
             user_id,
@@ -587,6 +1158,7 @@ export async function getAdminOverview(): Promise<{
             pilot_license
           )
         `)
+        .is('superseded_at', null)
         .order('created_at', { ascending: false })
         .limit(50),
       supabase
@@ -640,6 +1212,7 @@ export async function getDocumentStats(userId: string): Promise<{
         pilots!inner (user_id)
       `)
       .eq('pilots.user_id', userId)
+      .is('superseded_at', null)
 
     if (error) {
       throw new Error('Error fetching document stats: ' + error.message)
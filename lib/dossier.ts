@@ -0,0 +1,319 @@
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import type { DocumentWithPilot } from './documents'
+import { fetchLatestDecisions } from './reviews'
+import { watermarkDocument } from './watermark'
+import { getServiceSupabase } from './supabaseServer'
+
+// Server-only. Packages pilots' documents into a ZIP for inspectors: one
+// folder per pilot, one subfolder per document type, plus an index
+// manifest as CSV and JSON. Files are watermarked for the exporter like
+// single downloads, and the archive is built as it is streamed, so only
+// one document is held in memory at a time.
+
+const BUCKET_NAME = 'pilot-documents'
+export const MAX_DOSSIER_PILOTS = 50
+
+export interface DossierOptions {
+  pilotIds: string[]
+  // Include superseded versions, not just the current ones
+  includeHistory?: boolean
+}
+
+// One row of the manifest
+export interface DossierEntry {
+  document_id: string
+  pilot_id: string
+  pilot_name: string
+  pilot_license: string
+  document_type: string
+  title: string
+  version_number: number
+  is_current: boolean
+  status: string
+  upload_date: string
+  expiry_date: string | null
+  reviewer: string | null
+  review_decision: string | null
+  reviewed_at: string | null
+  content_hash: string | null
+  // Path inside the archive; null when the file is not included
+  file: string | null
+  note: string | null
+}
+
+export interface Dossier {
+  generatedAt: string
+  // Name of the exporter, as printed on the watermarks
+  generatedBy: string
+  includeHistory: boolean
+  pilots: Array<{ id: string; name: string; pilot_license: string }>
+  entries: DossierEntry[]
+  // Storage path of each entry's file, keyed by document id
+  storagePaths: Record<string, string>
+}
+
+const MANIFEST_COLUMNS: Array<[keyof DossierEntry, string]> = [
+  ['pilot_name', 'Pilot'],
+  ['pilot_license', 'License'],
+  ['document_type', 'Type'],
+  ['title', 'Title'],
+  ['version_number', 'Version'],
+  ['is_current', 'Current'],
+  ['status', 'Status'],
+  ['upload_date', 'Uploaded'],
+  ['expiry_date', 'Expires'],
+  ['reviewer', 'Reviewer'],
+  ['review_decision', 'Decision'],
+  ['reviewed_at', 'Reviewed'],
+  ['content_hash', 'SHA-256'],
+  ['file', 'File'],
+  ['note', 'Note'],
+  ['document_id', 'Document ID']
+]
+
+// Strip characters that are not allowed in file names on common systems
+function toPathSegment(text: string): string {
+  return text.replace(/[\\/:*?"<>|\x00-\x1f]/g, '').replace(/\s+/g, ' ').trim().slice(0, 80) || 'untitled'
+}
+
+function getExtension(storagePath: string): string {
+  const match = storagePath.match(/\.([a-z0-9]+)$/i)
+  return match ? match[1].toLowerCase() : 'bin'
+}
+
+/**
+ * Collect the pilots, their documents and each document's latest review
+ * decision. Runs with the caller's client, so row level security decides
+ * what ends up in the dossier.
+ */
+export async function collectDossier(
+  client: SupabaseClient<Database>,
+  options: DossierOptions,
+  generatedBy: string
+): Promise<Dossier> {
+  const { pilotIds, includeHistory = false } = options
+
+  const { data: pilotRows, error: pilotsError } = await client
+    .from('pilots')
+    .select('id, first_name, last_name, pilot_license')
+    .in('id', pilotIds)
+    .order('last_name', { ascending: true })
+
+  if (pilotsError) {
+    throw new Error('Error fetching dossier pilots: ' + pilotsError.message)
+  }
+
+  const pilots = ((pilotRows || []) as Array<{ id: string; first_name: string; last_name: string; pilot_license: string }>)
+    .map(pilot => ({
+      id: pilot.id,
+      name: `${pilot.first_name} ${pilot.last_name}`.trim(),
+      pilot_license: pilot.pilot_license
+    }))
+
+  const dossier: Dossier = {
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    includeHistory,
+    pilots,
+    entries: [],
+    storagePaths: {}
+  }
+
+  if (pilots.length === 0) return dossier
+
+  let query = client
+    .from('documents')
+    .select(`
+      *,
+      pilots!inner (
+        id,
+        user_id,
+        first_name,
+        last_name,
+        email,
+        pilot_license
+      )
+    `)
+    .in('pilot_id', pilots.map(pilot => pilot.id))
+
+  if (!includeHistory) {
+    query = query.eq('is_current', true)
+  }
+
+  const { data, error } = await query
+    .order('document_type', { ascending: true })
+    .order('version_number', { ascending: false })
+
+  if (error) {
+    throw new Error('Error fetching dossier documents: ' + error.message)
+  }
+
+  const documents = (data || []) as DocumentWithPilot[]
+  const decisions = await fetchLatestDecisions(documents.map(doc => doc.id), client)
+  const pilotOrder = new Map(pilots.map((pilot, index) => [pilot.id, index]))
+  documents.sort((a, b) => (pilotOrder.get(a.pilot_id) || 0) - (pilotOrder.get(b.pilot_id) || 0))
+
+  const usedPaths = new Set<string>()
+
+  for (const document of documents) {
+    const decision = decisions[document.id]
+    const entry: DossierEntry = {
+      document_id: document.id,
+      pilot_id: document.pilot_id,
+      pilot_name: `${document.pilots.first_name} ${document.pilots.last_name}`.trim(),
+      pilot_license: document.pilots.pilot_license,
+      document_type: document.document_type,
+      title: document.title,
+      version_number: document.version_number,
+      is_current: document.is_current,
+      status: document.status,
+      upload_date: document.upload_date,
+      expiry_date: document.expiry_date,
+      reviewer: decision?.author_email || null,
+      review_decision: decision?.decision || null,
+      reviewed_at: decision?.created_at || null,
+      content_hash: document.content_hash,
+      file: null,
+      note: null
+    }
+
+    if (document.status === 'quarantined' || document.scan_status === 'infected') {
+      entry.note = 'Not included: the file has not passed its malware scan'
+    } else {
+      // e.g. "Doe, Jane (ATPL-1234)/medical_certificate/Class 1 medical v2.pdf"
+      const pilotFolder = toPathSegment(`${document.pilots.last_name}, ${document.pilots.first_name} (${document.pilots.pilot_license})`)
+      const base = `${pilotFolder}/${document.document_type}/${toPathSegment(document.title)} v${document.version_number}`
+      const extension = getExtension(document.file_url)
+
+      let path = `${base}.${extension}`
+      for (let copy = 2; usedPaths.has(path); copy++) {
+        path = `${base} (${copy}).${extension}`
+      }
+      usedPaths.add(path)
+
+      entry.file = path
+      dossier.storagePaths[document.id] = document.file_url
+    }
+
+    dossier.entries.push(entry)
+  }
+
+  return dossier
+}
+
+/**
+ * Render the manifest as CSV, one row per document
+ */
+export function dossierManifestCsv(dossier: Dossier): string {
+  const rows = [
+    MANIFEST_COLUMNS.map(([, header]) => header),
+    ...dossier.entries.map(entry => MANIFEST_COLUMNS.map(([key]) => entry[key] ?? ''))
+  ]
+
+  return rows
+    .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+    .join('\n')
+}
+
+/**
+ * Stream the dossier as a ZIP archive. Documents are fetched and stamped
+ * one at a time as the client reads. Files that cannot be fetched or
+ * watermarked are left out, noted in the manifest and listed in
+ * "NOT INCLUDED.txt". The manifest is written last so it reflects what the
+ * archive actually contains.
+ */
+export function createDossierStream(dossier: Dossier): ReadableStream<Uint8Array> {
+  // App users cannot read the storage bucket; the documents were already
+  // checked against the exporter's access when the dossier was collected
+  const client = getServiceSupabase()
+  const pending = dossier.entries.filter(entry => entry.file)
+  // Documents whose file could not be fetched or watermarked
+  const omitted: Array<{ document_id: string; pilot_name: string; title: string; reason: string }> = []
+  let zip: Zip
+  let finished = false
+
+  const addFile = (path: string, content: Uint8Array, mtime: Date, compress: boolean) => {
+    const file = compress ? new ZipDeflate(path, { level: 6 }) : new ZipPassThrough(path)
+    file.mtime = mtime
+    zip.add(file)
+    file.push(content, true)
+  }
+
+  // Returns whether the file made it into the archive
+  const addEntry = async (entry: DossierEntry): Promise<boolean> => {
+    try {
+      const { data: file, error } = await client.storage
+        .from(BUCKET_NAME)
+        .download(dossier.storagePaths[entry.document_id])
+
+      if (error || !file) {
+        throw new Error('Could not download file: ' + (error?.message || 'not found'))
+      }
+
+      const watermarked = await watermarkDocument(new Uint8Array(await file.arrayBuffer()), {
+        viewerName: dossier.generatedBy,
+        downloadedAt: new Date(dossier.generatedAt)
+      })
+
+      // Files stored before uploads were inspected may carry the wrong extension
+      entry.file = entry.file!.replace(/\.[^./]+$/, `.${watermarked.extension}`)
+
+      // PDFs and images are already compressed
+      addFile(entry.file, watermarked.content, new Date(entry.upload_date), false)
+      return true
+    } catch (fileError) {
+      console.warn(`Leaving ${entry.document_id} out of the dossier:`, fileError)
+      const reason = fileError instanceof Error ? fileError.message : 'file unavailable'
+      entry.file = null
+      entry.note = 'Not included: ' + reason
+      omitted.push({ document_id: entry.document_id, pilot_name: entry.pilot_name, title: entry.title, reason })
+      return false
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) controller.close()
+      })
+    },
+
+    async pull() {
+      if (finished) return
+
+      // A pull that enqueues nothing is not repeated, so skip past failed files
+      while (pending.length > 0) {
+        if (await addEntry(pending.shift()!)) return
+      }
+
+      finished = true
+      const encoder = new TextEncoder()
+      const generatedAt = new Date(dossier.generatedAt)
+      const manifest = {
+        generatedAt: dossier.generatedAt,
+        generatedBy: dossier.generatedBy,
+        includeHistory: dossier.includeHistory,
+        pilots: dossier.pilots,
+        documents: dossier.entries,
+        omitted
+      }
+      addFile('manifest.csv', encoder.encode(dossierManifestCsv(dossier)), generatedAt, true)
+      addFile('manifest.json', encoder.encode(JSON.stringify(manifest, null, 2)), generatedAt, true)
+
+      // Listed on their own as well, so a missing file is not mistaken for a missing document
+      if (omitted.length > 0) {
+        const lines = omitted.map(item => `${item.pilot_name} - ${item.title} (${item.document_id}): ${item.reason}`)
+        const notice = [`${omitted.length} document file(s) could not be included in this dossier:`, '', ...lines].join('\n')
+        addFile('NOT INCLUDED.txt', encoder.encode(notice), generatedAt, true)
+      }
+      zip.end()
+    }
+  })
+}
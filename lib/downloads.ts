@@ -0,0 +1,226 @@
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import type { AuthenticatedRequest } from './apiAuth'
+import { watermarkDocument, WatermarkedFile } from './watermark'
+import { auditHelpers } from './audit'
+import { getServiceSupabase } from './supabaseServer'
+
+// Server-only. Documents are viewed and downloaded through single-use
+// tokens that expire quickly, and every copy handed out is watermarked for
+// its viewer. There are no other links to stored files.
+// Token functions must run with the service role client: the token table
+// has no row level security policies. App users cannot read the storage
+// bucket, so files are always fetched here with the service role.
+
+const BUCKET_NAME = 'pilot-documents'
+export const DOWNLOAD_TOKEN_TTL_SECONDS = 60
+
+// 32 random bytes, base64url encoded
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+export type DownloadToken = Database['public']['Tables']['document_download_tokens']['Row']
+// Views are served inline for the app's viewer, downloads as attachments
+export type DownloadPurpose = DownloadToken['purpose']
+
+export type DocumentLinkResult =
+  | { success: true; url: string; expiresAt: string }
+  | { success: false; status: number; error: string }
+
+export interface PreparedDownload extends WatermarkedFile {
+  fileName: string
+  documentId: string
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Name printed on a viewer's watermarks: their pilot name, or their email
+ * for staff without a pilot record
+ */
+export async function getViewerName(client: SupabaseClient<Database>, user: User): Promise<string> {
+  const { data: viewer } = await client
+    .from('pilots')
+    .select('first_name, last_name')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  const typedViewer = viewer as { first_name: string; last_name: string } | null
+  return typedViewer
+    ? `${typedViewer.first_name} ${typedViewer.last_name}`.trim()
+    : user.email || user.id
+}
+
+/**
+ * Issue a download token for a document the caller has already been
+ * authorized to read. Only the token's hash is stored.
+ */
+export async function createDownloadToken(
+  client: SupabaseClient<Database>,
+  grant: { documentId: string; userId: string; viewerName: string; purpose?: DownloadPurpose }
+): Promise<{ token: string; expiresAt: string }> {
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = new Date(Date.now() + DOWNLOAD_TOKEN_TTL_SECONDS * 1000).toISOString()
+
+  // Drop the caller's stale tokens so the table does not grow unbounded
+  const { error: purgeError } = await client
+    .from('document_download_tokens')
+    .delete()
+    .eq('user_id', grant.userId)
+    .lt('expires_at', new Date().toISOString())
+
+  if (purgeError) {
+    console.warn('Failed to purge expired download tokens:', purgeError)
+  }
+
+  const { error } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('document_download_tokens')
+    .insert({
+      token_hash: hashToken(token),
+      document_id: grant.documentId,
+      user_id: grant.userId,
+      viewer_name: grant.viewerName,
+      purpose: grant.purpose || 'download',
+      expires_at: expiresAt
+    })
+
+  if (error) {
+    throw new Error('Error creating download token: ' + error.message)
+  }
+
+  return { token, expiresAt }
+}
+
+/**
+ * Issue a single-use link to a document the caller can read. The view or
+ * download is logged under the caller's own session before the link is
+ * handed out; without an audit entry there is no link. The route checks
+ * the id with parseUuidParam first.
+ */
+export async function issueDocumentLink(
+  auth: AuthenticatedRequest,
+  documentId: string,
+  purpose: DownloadPurpose
+): Promise<DocumentLinkResult> {
+  const { data: document } = await auth.client
+    .from('documents')
+    .select('id, title, status, scan_status, pilots!inner ( user_id )')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  const typedDocument = document as unknown as {
+    id: string
+    title: string
+    status: string
+    scan_status: string
+    pilots: { user_id: string }
+  } | null
+
+  if (!typedDocument || (auth.role === 'pilot' && typedDocument.pilots.user_id !== auth.user.id)) {
+    return { success: false, status: 404, error: 'Document not found' }
+  }
+
+  if (typedDocument.status === 'quarantined' || typedDocument.scan_status === 'infected') {
+    return { success: false, status: 409, error: 'Document has not passed its malware scan' }
+  }
+
+  const auditId = purpose === 'view'
+    ? await auditHelpers.logDocumentView(typedDocument.id, typedDocument.title, auth.client)
+    : await auditHelpers.logDocumentDownload(typedDocument.id, typedDocument.title, auth.client)
+  if (!auditId) {
+    return { success: false, status: 500, error: `The ${purpose} could not be logged` }
+  }
+
+  const { token, expiresAt } = await createDownloadToken(getServiceSupabase(), {
+    documentId: typedDocument.id,
+    userId: auth.user.id,
+    viewerName: await getViewerName(auth.client, auth.user),
+    purpose
+  })
+
+  return { success: true, url: `/api/downloads/${token}`, expiresAt }
+}
+
+/**
+ * Mark a token as used and return it. Returns null for unknown, expired or
+ * already used tokens. The check and the update are a single statement, so
+ * two requests racing for the same token cannot both win.
+ */
+export async function redeemDownloadToken(
+  client: SupabaseClient<Database>,
+  token: string
+): Promise<DownloadToken | null> {
+  if (!TOKEN_PATTERN.test(token)) return null
+
+  const now = new Date().toISOString()
+  const { data, error } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('document_download_tokens')
+    .update({ used_at: now })
+    .eq('token_hash', hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error redeeming download token: ' + error.message)
+  }
+
+  return data as DownloadToken | null
+}
+
+// Download file name from the document title, e.g. "Medical Certificate 2025.pdf"
+function toFileName(title: string, extension: string): string {
+  const base = title.replace(/[\\/:*?"<>|\x00-\x1f]/g, '').trim().slice(0, 100) || 'document'
+  return `${base}.${extension}`
+}
+
+/**
+ * Load the document behind a redeemed token and stamp it for the viewer
+ */
+export async function prepareDownload(redeemed: DownloadToken): Promise<PreparedDownload> {
+  const client = getServiceSupabase()
+  const { data: document, error } = await client
+    .from('documents')
+    .select('id, title, file_url, status, scan_status')
+    .eq('id', redeemed.document_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (error || !document) {
+    throw new Error('Error fetching document: ' + (error?.message || 'not found'))
+  }
+
+  const typedDocument = document as {
+    id: string
+    title: string
+    file_url: string
+    status: string
+    scan_status: string
+  }
+
+  if (typedDocument.status === 'quarantined' || typedDocument.scan_status === 'infected') {
+    throw new Error('Document has not passed its malware scan')
+  }
+
+  const { data: file, error: downloadError } = await client.storage
+    .from(BUCKET_NAME)
+    .download(typedDocument.file_url)
+
+  if (downloadError || !file) {
+    throw new Error('Could not download file: ' + (downloadError?.message || 'not found'))
+  }
+
+  const watermarked = await watermarkDocument(new Uint8Array(await file.arrayBuffer()), {
+    viewerName: redeemed.viewer_name,
+    downloadedAt: new Date()
+  })
+
+  return {
+    ...watermarked,
+    fileName: toFileName(typedDocument.title, watermarked.extension),
+    documentId: typedDocument.id
+  }
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from './database.types'
+import { getPilotCompliance, PilotCompliance } from './compliance'
+import type { DocumentType } from './documents'
+
+type PilotStatus = Database['public']['Tables']['pilots']['Row']['status']
+
+export type EligibilityReasonCode =
+  | 'pilot_not_active'
+  | 'document_missing'
+  | 'document_expired'
+  | 'document_pending_review'
+  | 'document_expiring'
+
+// Why a pilot is (or soon may be) not cleared to fly
+export interface EligibilityReason {
+  code: EligibilityReasonCode
+  message: string
+  document_type?: DocumentType
+  document_id?: string
+}
+
+export interface PilotEligibility {
+  pilotId: string
+  pilotStatus: PilotStatus
+  eligible: boolean
+  // Any of these keeps the pilot on the ground
+  blockingReasons: EligibilityReason[]
+  // Informational only, e.g. a document that expires soon
+  warnings: EligibilityReason[]
+  checkedAt: string
+}
+
+/**
+ * Combine pilot status and document compliance into a fit-to-fly decision
+ */
+export function evaluateEligibility(
+  pilot: { id: string; status: PilotStatus },
+  compliance: PilotCompliance,
+  now: Date = new Date()
+): PilotEligibility {
+  const blockingReasons: EligibilityReason[] = []
+  const warnings: EligibilityReason[] = []
+
+  if (pilot.status !== 'active') {
+    blockingReasons.push({
+      code: 'pilot_not_active',
+      message: `Pilot status is ${pilot.status}`
+    })
+  }
+
+  for (const result of compliance.requirements) {
+    const { label, document_type } = result.requirement
+    const document_id = result.document?.id
+
+    switch (result.status) {
+      case 'missing':
+        blockingReasons.push({ code: 'document_missing', message: `${label} is missing`, document_type })
+        break
+      case 'expired':
+        blockingReasons.push({ code: 'document_expired', message: `${label} has expired`, document_type, document_id })
+        break
+      case 'pending':
+        blockingReasons.push({ code: 'document_pending_review', message: `${label} is awaiting review`, document_type, document_id })
+        break
+      case 'expiring':
+        warnings.push({
+          code: 'document_expiring',
+          message: `${label} expires ${result.validUntil ? `on ${result.validUntil.slice(0, 10)}` : 'soon'}`,
+          document_type,
+          document_id
+        })
+        break
+    }
+  }
+
+  return {
+    pilotId: pilot.id,
+    pilotStatus: pilot.status,
+    eligible: blockingReasons.length === 0,
+    blockingReasons,
+    warnings,
+    checkedAt: now.toISOString()
+  }
+}
+
+/**
+ * Determine whether a pilot is currently cleared to fly.
+ * Returns null when the pilot does not exist.
+ */
+export async function getPilotEligibility(
+  pilotId: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<PilotEligibility | null> {
+  try {
+    const { data: pilot, error } = await client
+      .from('pilots')
+      .select('id, status')
+      .eq('id', pilotId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error('Error fetching pilot: ' + error.message)
+    }
+
+    if (!pilot) return null
+
+    const compliance = await getPilotCompliance(pilotId, client)
+    return evaluateEligibility(pilot as { id: string; status: PilotStatus }, compliance)
+  } catch (error) {
+    console.error('Error in getPilotEligibility:', error)
+    throw error
+  }
+}
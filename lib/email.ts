@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+// Server-only email delivery with swappable transports.
+// EMAIL_TRANSPORT selects 'smtp', 'file' or 'console' (the default).
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+const DEFAULT_FROM = 'Pilot Document Management <no-reply@localhost>'
+
+// SMTP transport for production delivery
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    }
+  }
+}
+
+// Writes each message as a JSON file for inspection during development
+export function createFileTransport(outboxDir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true })
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`
+      await fs.writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      )
+    }
+  }
+}
+
+// Prints messages to the server log
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`)
+    }
+  }
+}
+
+// Build the transport configured through environment variables
+export function createEmailTransport(): EmailTransport {
+  const transport = process.env.EMAIL_TRANSPORT || 'console'
+
+  switch (transport) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT is smtp')
+      }
+      const port = Number(process.env.SMTP_PORT || 587)
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from: process.env.EMAIL_FROM || DEFAULT_FROM
+      })
+    }
+    case 'file':
+      return createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'pilot-docs-outbox'))
+    case 'console':
+      return createConsoleTransport()
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`)
+  }
+}
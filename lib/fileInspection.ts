@@ -0,0 +1,221 @@
+import type { PDFObject } from 'pdf-lib'
+
+// Content inspection for uploaded documents.
+// The browser's file.type and the file name are only guesses, so the bytes
+// decide what a file is. Runs in the browser for early feedback and on the
+// server before an upload is accepted.
+
+export type DetectedFileType = 'application/pdf' | 'image/jpeg' | 'image/png'
+
+export interface FileInspectionResult {
+  valid: boolean
+  mimeType?: DetectedFileType
+  // Normalized extension for the storage path
+  extension?: 'pdf' | 'jpg' | 'png'
+  // SHA-256 of the content, hex encoded; set once the stored file is verified
+  contentHash?: string
+  error?: string
+}
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d] // %PDF-
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff]
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const PNG_IEND_TRAILER = [0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82] // IEND + CRC
+
+// Readers look for these markers in a limited window, which is where a
+// polyglot has to put them: %PDF- in the first 1KB, a ZIP directory in the
+// last 64KB, and HTML where content sniffing or a lenient parser would see it
+// at either end. Compressed image and PDF data is effectively random, so
+// searching all of it would reject genuine files by chance.
+const PDF_HEADER_WINDOW = 1024
+const ZIP_DIRECTORY_WINDOW = 65557
+const HTML_WINDOW = 1024
+const ZIP_END_OF_DIRECTORY = 'PK\x05\x06'
+const HTML_PATTERN = /<(?:html|script|svg|iframe)[\s>]/i
+
+// PDF features that run code or hide content from inspection
+const FORBIDDEN_PDF_NAMES: { error: string; pattern: RegExp }[] = [
+  { error: 'Encrypted PDF files are not allowed', pattern: /\/Encrypt\b/ },
+  { error: 'PDF files containing JavaScript are not allowed', pattern: /\/(?:JavaScript|JS)\b/ },
+  { error: 'PDF files with launch actions are not allowed', pattern: /\/Launch\b/ },
+  { error: 'PDF files with embedded files are not allowed', pattern: /\/EmbeddedFiles?\b/ },
+  { error: 'PDF files with XFA forms are not allowed', pattern: /\/XFA\b/ }
+]
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false
+  return signature.every((byte, index) => bytes[offset + index] === byte)
+}
+
+function endsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return startsWith(bytes, signature, bytes.length - signature.length)
+}
+
+// Byte-for-byte string view, so byte patterns can be matched with regexes
+function toBinaryString(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes)
+}
+
+// PDF names may hex-escape characters (/J#61vaScript) to dodge simple matching
+function decodePdfNames(text: string): string {
+  return text.replace(/\/[^\s/<>[\]()]*/g, name =>
+    name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  )
+}
+
+// Another format that a reader could pick up from the same bytes
+function findEmbeddedFormat(text: string, checkPdf: boolean): string | null {
+  if (text.slice(-ZIP_DIRECTORY_WINDOW).includes(ZIP_END_OF_DIRECTORY)) return 'ZIP archive'
+  if (HTML_PATTERN.test(text.slice(0, HTML_WINDOW)) || HTML_PATTERN.test(text.slice(-HTML_WINDOW))) return 'HTML'
+  if (checkPdf && text.slice(0, PDF_HEADER_WINDOW).includes('%PDF-')) return 'PDF'
+  return null
+}
+
+// Every name used in the PDF's objects, including objects packed into
+// compressed object streams, where the raw bytes do not show them. Returns
+// null when the structure cannot be read, e.g. an object stream with a
+// filter pdf-lib cannot decode.
+async function readPdfNames(bytes: Uint8Array): Promise<{ encrypted: boolean; names: string } | null> {
+  // pdf-lib is only needed for PDFs, so it is loaded on first use
+  const { PDFDocument, PDFArray, PDFDict, PDFName, PDFStream } = await import('pdf-lib')
+  const pdf = await PDFDocument
+    .load(bytes, { ignoreEncryption: true, throwOnInvalidObject: true, updateMetadata: false })
+    .catch(() => null)
+  if (!pdf) return null
+
+  const names: string[] = []
+  const collect = (object: PDFObject) => {
+    if (object instanceof PDFName) {
+      names.push('/' + object.decodeText())
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(collect)
+    } else if (object instanceof PDFDict) {
+      object.entries().forEach(([key, value]) => {
+        collect(key)
+        collect(value)
+      })
+    } else if (object instanceof PDFStream) {
+      collect(object.dict)
+    }
+  }
+  pdf.context.enumerateIndirectObjects().forEach(([, object]) => collect(object))
+
+  return { encrypted: pdf.isEncrypted, names: decodePdfNames(names.join(' ')) }
+}
+
+async function inspectPdf(bytes: Uint8Array): Promise<FileInspectionResult> {
+  const text = toBinaryString(bytes)
+
+  // Only whitespace may follow the final end-of-file marker
+  const eofIndex = text.lastIndexOf('%%EOF')
+  if (eofIndex === -1 || text.slice(eofIndex + 5).trim().length > 0) {
+    return { valid: false, error: 'PDF file is truncated or has data appended after its end' }
+  }
+
+  const structure = await readPdfNames(bytes)
+  if (!structure) {
+    return { valid: false, error: 'PDF file structure could not be read for inspection' }
+  }
+
+  if (structure.encrypted) {
+    return { valid: false, error: 'Encrypted PDF files are not allowed' }
+  }
+
+  // The raw bytes as well as the parsed objects, in case the parser skipped
+  // something a more lenient reader would still act on
+  const names = decodePdfNames(text)
+  const forbidden = FORBIDDEN_PDF_NAMES.find(feature =>
+    feature.pattern.test(names) || feature.pattern.test(structure.names)
+  )
+  if (forbidden) {
+    return { valid: false, error: forbidden.error }
+  }
+
+  const embedded = findEmbeddedFormat(text, false)
+  if (embedded) {
+    return { valid: false, error: `PDF file contains embedded ${embedded} content` }
+  }
+
+  return { valid: true, mimeType: 'application/pdf', extension: 'pdf' }
+}
+
+function inspectJpeg(bytes: Uint8Array): FileInspectionResult {
+  // Allow trailing padding some scanners add after the end-of-image marker
+  let end = bytes.length
+  while (end > 0 && (bytes[end - 1] === 0x00 || bytes[end - 1] === 0x0a || bytes[end - 1] === 0x0d)) end--
+
+  if (end < 2 || bytes[end - 2] !== 0xff || bytes[end - 1] !== 0xd9) {
+    return { valid: false, error: 'JPEG file is truncated or has data appended after its end' }
+  }
+
+  const embedded = findEmbeddedFormat(toBinaryString(bytes), true)
+  if (embedded) {
+    return { valid: false, error: `JPEG file contains embedded ${embedded} content` }
+  }
+
+  return { valid: true, mimeType: 'image/jpeg', extension: 'jpg' }
+}
+
+function inspectPng(bytes: Uint8Array): FileInspectionResult {
+  if (!endsWith(bytes, PNG_IEND_TRAILER)) {
+    return { valid: false, error: 'PNG file is truncated or has data appended after its end' }
+  }
+
+  const embedded = findEmbeddedFormat(toBinaryString(bytes), true)
+  if (embedded) {
+    return { valid: false, error: `PNG file contains embedded ${embedded} content` }
+  }
+
+  return { valid: true, mimeType: 'image/png', extension: 'png' }
+}
+
+/**
+ * Identify a document from its bytes and reject anything that is not a
+ * plain PDF, JPEG or PNG: unknown formats, polyglots that are valid as more
+ * than one format, and PDFs that are encrypted or carry active content.
+ */
+export async function inspectFileContent(bytes: Uint8Array): Promise<FileInspectionResult> {
+  if (bytes.length === 0) {
+    return { valid: false, error: 'File is empty' }
+  }
+
+  if (startsWith(bytes, PDF_SIGNATURE)) return await inspectPdf(bytes)
+  if (startsWith(bytes, JPEG_SIGNATURE)) return inspectJpeg(bytes)
+  if (startsWith(bytes, PNG_SIGNATURE)) return inspectPng(bytes)
+
+  return { valid: false, error: 'File content is not a PDF, JPEG or PNG document' }
+}
+
+/**
+ * Identify a stored file by its signature alone, without the upload
+ * checks. Files stored before those checks existed may not pass them but
+ * still need to be served. Returns null for anything else.
+ */
+export function detectFileType(bytes: Uint8Array): { mimeType: DetectedFileType; extension: 'pdf' | 'jpg' | 'png' } | null {
+  if (startsWith(bytes, PDF_SIGNATURE)) return { mimeType: 'application/pdf', extension: 'pdf' }
+  if (startsWith(bytes, JPEG_SIGNATURE)) return { mimeType: 'image/jpeg', extension: 'jpg' }
+  if (startsWith(bytes, PNG_SIGNATURE)) return { mimeType: 'image/png', extension: 'png' }
+  return null
+}
+
+/**
+ * Inspect a File or Blob
+ */
+export async function inspectFile(file: Blob): Promise<FileInspectionResult> {
+  return inspectFileContent(new Uint8Array(await file.arrayBuffer()))
+}
+
+/**
+ * SHA-256 of a file's content as a hex string, used to spot duplicate uploads
+ */
+export async function hashFileContent(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Hash a File or Blob
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  return hashFileContent(new Uint8Array(await file.arrayBuffer()))
+}
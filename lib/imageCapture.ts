@@ -0,0 +1,248 @@
+// Browser-side processing of phone captures: photos are straightened,
+// cropped to the page, downscaled and recompressed before upload, and
+// multi-page captures are combined into a single PDF.
+
+export const CAPTURE_MAX_DIMENSION = 2000
+export const CAPTURE_JPEG_QUALITY = 0.8
+
+// Page detection runs on a small copy of the photo
+const ANALYSIS_MAX_DIMENSION = 300
+const MAX_SKEW_DEGREES = 15
+// Share of the photo the page must cover for a crop to be trusted
+const MIN_PAGE_COVERAGE = 0.2
+const MAX_PAGE_COVERAGE = 0.97
+// Ignore stray bright pixels when measuring the page's extent
+const EDGE_PERCENTILE = 0.002
+// Keep a little of the background so page edges are not clipped
+const CROP_MARGIN = 0.01
+
+// A4 width in PDF points; pages keep the aspect ratio of their photo
+const PDF_PAGE_WIDTH = 595.28
+
+export interface PageBounds {
+  // Rotation in radians that straightens the page
+  angle: number
+  // Page rectangle in the straightened photo, in source pixels
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface CapturedPage {
+  blob: Blob
+  width: number
+  height: number
+  // Whether a page was found and the photo cropped to it
+  cropped: boolean
+}
+
+// Otsu's method: the grey level that best separates paper from background
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array(256).fill(0)
+  for (const value of gray) histogram[value]++
+
+  const total = gray.length
+  let sum = 0
+  for (let level = 0; level < 256; level++) sum += level * histogram[level]
+
+  let backgroundSum = 0
+  let backgroundCount = 0
+  let bestThreshold = 128
+  let bestVariance = 0
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level]
+    if (backgroundCount === 0) continue
+    const foregroundCount = total - backgroundCount
+    if (foregroundCount === 0) break
+
+    backgroundSum += level * histogram[level]
+    const backgroundMean = backgroundSum / backgroundCount
+    const foregroundMean = (sum - backgroundSum) / foregroundCount
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2
+
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = level
+    }
+  }
+
+  return bestThreshold
+}
+
+// Extent of the points along one axis, ignoring outliers at both ends
+function percentileRange(values: Float32Array): [number, number] {
+  const sorted = values.slice().sort()
+  const cut = Math.floor(sorted.length * EDGE_PERCENTILE)
+  return [sorted[cut], sorted[sorted.length - 1 - cut]]
+}
+
+// Bounding box of the points after rotating them by -angle
+function rotatedBounds(xs: Float32Array, ys: Float32Array, angle: number) {
+  const cos = Math.cos(-angle)
+  const sin = Math.sin(-angle)
+  const rotatedX = new Float32Array(xs.length)
+  const rotatedY = new Float32Array(xs.length)
+
+  for (let i = 0; i < xs.length; i++) {
+    rotatedX[i] = xs[i] * cos - ys[i] * sin
+    rotatedY[i] = xs[i] * sin + ys[i] * cos
+  }
+
+  const [minX, maxX] = percentileRange(rotatedX)
+  const [minY, maxY] = percentileRange(rotatedY)
+  return { minX, minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Find the page in a photo: a bright rectangle on a darker background.
+ * The straightening angle is the one whose bounding box around the page is
+ * smallest, which for a rectangle is when its edges are axis-aligned.
+ * Returns null when no page stands out clearly enough to crop to.
+ */
+export function detectPageBounds(source: ImageBitmap): PageBounds | null {
+  const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(source.width, source.height))
+  const width = Math.max(1, Math.round(source.width * scale))
+  const height = Math.max(1, Math.round(source.height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) return null
+
+  context.drawImage(source, 0, 0, width, height)
+  const { data } = context.getImageData(0, 0, width, height)
+
+  const gray = new Uint8Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2])
+  }
+
+  const threshold = otsuThreshold(gray)
+  const pagePixels: number[] = []
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] > threshold) pagePixels.push(i)
+  }
+
+  const coverage = pagePixels.length / gray.length
+  if (coverage < MIN_PAGE_COVERAGE || coverage > MAX_PAGE_COVERAGE) return null
+
+  const xs = new Float32Array(pagePixels.length)
+  const ys = new Float32Array(pagePixels.length)
+  pagePixels.forEach((index, i) => {
+    xs[i] = index % width
+    ys[i] = Math.floor(index / width)
+  })
+
+  // Coarse search in whole degrees, then refine around the best match
+  const area = (angle: number) => {
+    const bounds = rotatedBounds(xs, ys, angle)
+    return bounds.width * bounds.height
+  }
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+  let bestDegrees = 0
+  let bestArea = area(0)
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees++) {
+    const candidate = area(toRadians(degrees))
+    if (candidate < bestArea) {
+      bestArea = candidate
+      bestDegrees = degrees
+    }
+  }
+  const coarseDegrees = bestDegrees
+  for (let degrees = coarseDegrees - 0.75; degrees <= coarseDegrees + 0.75; degrees += 0.25) {
+    const candidate = area(toRadians(degrees))
+    if (candidate < bestArea) {
+      bestArea = candidate
+      bestDegrees = degrees
+    }
+  }
+
+  const angle = toRadians(bestDegrees)
+  const bounds = rotatedBounds(xs, ys, angle)
+  const margin = CROP_MARGIN * Math.max(bounds.width, bounds.height)
+
+  return {
+    angle,
+    x: (bounds.minX - margin) / scale,
+    y: (bounds.minY - margin) / scale,
+    width: (bounds.width + margin * 2) / scale,
+    height: (bounds.height + margin * 2) / scale
+  }
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      'image/jpeg',
+      CAPTURE_JPEG_QUALITY
+    )
+  })
+}
+
+/**
+ * Straighten, crop, downscale and recompress a photo of a document page.
+ * EXIF orientation is applied first, so portrait phone photos stay upright.
+ */
+export async function processCapturedImage(
+  file: Blob,
+  options: { autoCrop?: boolean } = {}
+): Promise<CapturedPage> {
+  const { autoCrop = true } = options
+  const source = await createImageBitmap(file, { imageOrientation: 'from-image' })
+
+  try {
+    const bounds = autoCrop ? detectPageBounds(source) : null
+    const region = bounds || { angle: 0, x: 0, y: 0, width: source.width, height: source.height }
+    const scale = Math.min(1, CAPTURE_MAX_DIMENSION / Math.max(region.width, region.height))
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(region.width * scale)
+    canvas.height = Math.round(region.height * scale)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Image processing is not supported in this browser')
+    }
+
+    // White shows through where straightening exposes the corners
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.imageSmoothingQuality = 'high'
+    context.scale(scale, scale)
+    context.translate(-region.x, -region.y)
+    context.rotate(-region.angle)
+    context.drawImage(source, 0, 0)
+
+    return {
+      blob: await canvasToJpeg(canvas),
+      width: canvas.width,
+      height: canvas.height,
+      cropped: Boolean(bounds)
+    }
+  } finally {
+    source.close()
+  }
+}
+
+/**
+ * Combine processed pages into one PDF, one page per photo
+ */
+export async function assemblePdf(pages: CapturedPage[], fileName: string): Promise<File> {
+  // pdf-lib is only needed for multi-page captures, so it is loaded on first use
+  const { PDFDocument } = await import('pdf-lib')
+  const pdf = await PDFDocument.create()
+
+  for (const page of pages) {
+    const image = await pdf.embedJpg(await page.blob.arrayBuffer())
+    const pageHeight = PDF_PAGE_WIDTH * (page.height / page.width)
+    const pdfPage = pdf.addPage([PDF_PAGE_WIDTH, pageHeight])
+    pdfPage.drawImage(image, { x: 0, y: 0, width: PDF_PAGE_WIDTH, height: pageHeight })
+  }
+
+  const bytes = await pdf.save()
+  return new File([bytes as Uint8Array<ArrayBuffer>], fileName, { type: 'application/pdf' })
+}
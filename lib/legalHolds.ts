@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from './database.types'
+import { auditHelpers } from './audit'
+
+// Legal holds freeze a pilot, or single documents, during an investigation.
+// The database enforces them: held documents cannot be trashed, restored,
+// purged or change status, and a held pilot's record cannot change. The
+// checks here let callers fail early with a clear message and let batch
+// jobs skip held documents instead of failing as a whole.
+
+export type LegalHold = Database['public']['Tables']['legal_holds']['Row']
+
+// Hold with a summary of what it covers
+export interface LegalHoldWithTarget extends LegalHold {
+  pilots: {
+    id: string
+    first_name: string
+    last_name: string
+    pilot_license: string
+  } | null
+  documents: {
+    id: string
+    title: string
+    document_type: string
+    version_number: number
+    pilots: {
+      first_name: string
+      last_name: string
+    }
+  } | null
+}
+
+// What a hold is placed on: a whole pilot or a single document
+export type LegalHoldTarget = { pilotId: string } | { documentId: string }
+
+// Active holds indexed for lookups while rendering lists
+export interface LegalHoldIndex {
+  byPilot: Record<string, LegalHold>
+  byDocument: Record<string, LegalHold>
+}
+
+export class LegalHoldError extends Error {
+  hold: LegalHold
+
+  constructor(hold: LegalHold, subject = 'Document') {
+    super(`${subject} is under legal hold: ${hold.reason}`)
+    this.name = 'LegalHoldError'
+    this.hold = hold
+  }
+}
+
+/**
+ * Find the active hold covering a document, either on the document itself
+ * or on its pilot. Returns null when the document is not held.
+ */
+export async function getActiveLegalHold(
+  target: { pilotId: string; documentId?: string },
+  client: SupabaseClient<Database> = supabase
+): Promise<LegalHold | null> {
+  const filter = target.documentId
+    ? `pilot_id.eq.${target.pilotId},document_id.eq.${target.documentId}`
+    : `pilot_id.eq.${target.pilotId}`
+
+  const { data, error } = await client
+    .from('legal_holds')
+    .select('*')
+    .is('released_at', null)
+    .or(filter)
+    .order('placed_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error checking legal holds: ' + error.message)
+  }
+
+  return data as LegalHold | null
+}
+
+/**
+ * Throw a LegalHoldError if the document or its pilot is under an active hold
+ */
+export async function assertNotOnLegalHold(
+  target: { pilotId: string; documentId?: string },
+  client: SupabaseClient<Database> = supabase
+): Promise<void> {
+  const hold = await getActiveLegalHold(target, client)
+  if (hold) {
+    throw new LegalHoldError(hold, target.documentId ? 'Document' : 'Pilot')
+  }
+}
+
+/**
+ * Fetch every active hold the caller can see, indexed by pilot and document
+ */
+export async function fetchLegalHoldIndex(
+  client: SupabaseClient<Database> = supabase
+): Promise<LegalHoldIndex> {
+  const { data, error } = await client
+    .from('legal_holds')
+    .select('*')
+    .is('released_at', null)
+
+  if (error) {
+    throw new Error('Error fetching legal holds: ' + error.message)
+  }
+
+  const index: LegalHoldIndex = { byPilot: {}, byDocument: {} }
+  for (const hold of (data as LegalHold[]) || []) {
+    if (hold.pilot_id) index.byPilot[hold.pilot_id] = hold
+    if (hold.document_id) index.byDocument[hold.document_id] = hold
+  }
+
+  return index
+}
+
+/**
+ * Look up the hold covering a document in an index, if any
+ */
+export function findLegalHold(
+  index: LegalHoldIndex,
+  document: { id: string; pilot_id: string }
+): LegalHold | null {
+  return index.byDocument[document.id] || index.byPilot[document.pilot_id] || null
+}
+
+/**
+ * Ids of the given documents that are under an active hold
+ */
+export async function fetchHeldDocumentIds(
+  documents: Array<{ id: string; pilot_id: string }>,
+  client: SupabaseClient<Database> = supabase
+): Promise<Set<string>> {
+  if (documents.length === 0) return new Set()
+
+  const index = await fetchLegalHoldIndex(client)
+  return new Set(documents.filter(doc => findLegalHold(index, doc)).map(doc => doc.id))
+}
+
+/**
+ * List holds with what they cover, newest first
+ */
+export async function fetchLegalHolds(
+  options: { includeReleased?: boolean } = {},
+  client: SupabaseClient<Database> = supabase
+): Promise<LegalHoldWithTarget[]> {
+  try {
+    let query = client
+      .from('legal_holds')
+      .select(`
+        *,
+        pilots (
+          id,
+          first_name,
+          last_name,
+          pilot_license
+        ),
+        documents (
+          id,
+          title,
+          document_type,
+          version_number,
+          pilots (
+            first_name,
+            last_name
+          )
+        )
+      `)
+
+    if (!options.includeReleased) {
+      query = query.is('released_at', null)
+    }
+
+    const { data, error } = await query.order('placed_at', { ascending: false })
+
+    if (error) {
+      throw new Error('Error fetching legal holds: ' + error.message)
+    }
+
+    return (data as unknown as LegalHoldWithTarget[]) || []
+  } catch (error) {
+    console.error('Error in fetchLegalHolds:', error)
+    throw error
+  }
+}
+
+/**
+ * Place a legal hold on a pilot or a document (admin only).
+ * Who placed it and when is filled in by the database.
+ */
+export async function placeLegalHold(
+  target: LegalHoldTarget,
+  reason: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<LegalHold> {
+  try {
+    if (!reason.trim()) {
+      throw new Error('A reason is required to place a legal hold')
+    }
+
+    const { data, error } = await client
+      .from('legal_holds')
+      .insert({
+        pilot_id: 'pilotId' in target ? target.pilotId : null,
+        document_id: 'documentId' in target ? target.documentId : null,
+        reason: reason.trim()
+      } as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error('Error placing legal hold: ' + error.message)
+    }
+
+    const hold = data as LegalHold
+
+    try {
+      await auditHelpers.logLegalHoldPlaced(hold, client)
+    } catch (auditError) {
+      // The hold row is audited by the database as well
+      console.warn('Failed to log legal hold:', auditError)
+    }
+
+    return hold
+  } catch (error) {
+    console.error('Error in placeLegalHold:', error)
+    throw error
+  }
+}
+
+/**
+ * Release an active legal hold (admin only). Released holds are kept.
+ */
+export async function releaseLegalHold(
+  holdId: string,
+  releaseReason: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<LegalHold> {
+  try {
+    if (!releaseReason.trim()) {
+      throw new Error('A reason is required to release a legal hold')
+    }
+
+    const { data, error } = await ((client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .from('legal_holds')
+      .update({
+        released_at: new Date().toISOString(),
+        release_reason: releaseReason.trim()
+      })
+      .eq('id', holdId)
+      .is('released_at', null)
+      .select()
+      .single() as Promise<{ data: LegalHold | null; error: Error | null }>)
+
+    if (error) {
+      throw new Error('Error releasing legal hold: ' + error.message)
+    }
+
+    const hold = data as LegalHold
+
+    try {
+      await auditHelpers.logLegalHoldReleased(hold, client)
+    } catch (auditError) {
+      // The hold row is audited by the database as well
+      console.warn('Failed to log legal hold release:', auditError)
+    }
+
+    return hold
+  } catch (error) {
+    console.error('Error in releaseLegalHold:', error)
+    throw error
+  }
+}
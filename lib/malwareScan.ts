@@ -0,0 +1,294 @@
+import net from 'net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { logAuditAction } from './audit'
+import { hashFileContent } from './fileInspection'
+import { generateDocumentThumbnail } from './thumbnails'
+
+// Server-only malware scanning with swappable scanners.
+// MALWARE_SCANNER selects 'clamav' or 'stub' (the default outside
+// production; production refuses to run without a real scanner).
+// New documents are stored as 'quarantined' and only move on to 'pending'
+// review once a scan comes back clean.
+
+export type ScanVerdict = 'clean' | 'infected' | 'error'
+
+export interface ScanResult {
+  verdict: ScanVerdict
+  // Name of the detected signature, for infected files
+  signature?: string
+  detail?: string
+}
+
+export interface MalwareScanner {
+  name: string
+  scan(content: Uint8Array): Promise<ScanResult>
+}
+
+export interface ClamAvConfig {
+  host: string
+  port: number
+  timeoutMs: number
+}
+
+// Summary of one document's scan
+export interface DocumentScanSummary {
+  id: string
+  title: string
+  verdict: ScanVerdict
+  signature?: string
+  detail?: string
+}
+
+// Summary of a scan run over the quarantine
+export interface ScanRunReport {
+  dryRun: boolean
+  scanner: string
+  // Documents picked up from the quarantine this run
+  queued: Array<{ id: string; title: string }>
+  scannedCount: number
+  cleanCount: number
+  infectedCount: number
+  errorCount: number
+  documents: DocumentScanSummary[]
+}
+
+const BUCKET_NAME = 'pilot-documents'
+// Quarantined documents are left for an admin to rescan after this many attempts
+export const MAX_SCAN_ATTEMPTS = 5
+const CLAMAV_CHUNK_SIZE = 64 * 1024
+
+// The standard antivirus test file, so the stub can exercise the infected path
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!'
+
+// ClamAV daemon adapter speaking the INSTREAM protocol over TCP
+export function createClamAvScanner(config: ClamAvConfig): MalwareScanner {
+  return {
+    name: 'clamav',
+    scan(content: Uint8Array): Promise<ScanResult> {
+      return new Promise(resolve => {
+        const socket = net.createConnection({ host: config.host, port: config.port })
+        const chunks: Buffer[] = []
+        let settled = false
+
+        const finish = (result: ScanResult) => {
+          if (settled) return
+          settled = true
+          socket.destroy()
+          resolve(result)
+        }
+
+        socket.setTimeout(config.timeoutMs, () => {
+          finish({ verdict: 'error', detail: 'ClamAV scan timed out' })
+        })
+
+        socket.on('error', error => {
+          finish({ verdict: 'error', detail: 'ClamAV connection failed: ' + error.message })
+        })
+
+        socket.on('data', data => chunks.push(data))
+
+        socket.on('end', () => {
+          // Replies look like "stream: OK" or "stream: Eicar-Signature FOUND"
+          const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim()
+          const found = reply.match(/^stream: (.+) FOUND$/)
+
+          if (reply === 'stream: OK') {
+            finish({ verdict: 'clean' })
+          } else if (found) {
+            finish({ verdict: 'infected', signature: found[1] })
+          } else {
+            finish({ verdict: 'error', detail: `Unexpected ClamAV reply: ${reply || 'empty'}` })
+          }
+        })
+
+        socket.on('connect', () => {
+          socket.write('zINSTREAM\0')
+          for (let offset = 0; offset < content.length; offset += CLAMAV_CHUNK_SIZE) {
+            const chunk = content.subarray(offset, offset + CLAMAV_CHUNK_SIZE)
+            const length = Buffer.alloc(4)
+            length.writeUInt32BE(chunk.length)
+            socket.write(length)
+            socket.write(chunk)
+          }
+          // A zero-length chunk ends the stream
+          socket.write(Buffer.alloc(4))
+        })
+      })
+    }
+  }
+}
+
+// Deterministic scanner for development and tests: only the EICAR test
+// file is reported as infected
+export function createStubScanner(): MalwareScanner {
+  return {
+    name: 'stub',
+    async scan(content: Uint8Array): Promise<ScanResult> {
+      const text = Buffer.from(content).toString('latin1')
+      return text.includes(EICAR_SIGNATURE)
+        ? { verdict: 'infected', signature: 'Eicar-Test-Signature' }
+        : { verdict: 'clean' }
+    }
+  }
+}
+
+// Pick the scanner from environment configuration. The stub clears almost
+// everything, so production throws rather than falling back to it and
+// quarantined documents stay quarantined until a real scanner is configured.
+export function createMalwareScanner(): MalwareScanner {
+  const isProduction = process.env.NODE_ENV === 'production'
+  const scanner = process.env.MALWARE_SCANNER || (isProduction ? '' : 'stub')
+
+  switch (scanner) {
+    case 'clamav':
+      return createClamAvScanner({
+        host: process.env.CLAMAV_HOST || '127.0.0.1',
+        port: Number(process.env.CLAMAV_PORT || 3310),
+        timeoutMs: Number(process.env.CLAMAV_TIMEOUT_MS || 60000)
+      })
+    case 'stub':
+      if (isProduction) {
+        throw new Error('The stub malware scanner cannot be used in production')
+      }
+      return createStubScanner()
+    case '':
+      throw new Error('MALWARE_SCANNER must be set in production')
+    default:
+      throw new Error(`Unknown MALWARE_SCANNER: ${scanner}`)
+  }
+}
+
+/**
+ * Scan one quarantined document and record the outcome.
+ * Clean documents are released for review; infected ones stay quarantined
+ * and failed scans are retried on the next run, up to MAX_SCAN_ATTEMPTS.
+ * Must run with the service role client: only it may release a document.
+ */
+export async function scanDocument(
+  client: SupabaseClient<Database>,
+  scanner: MalwareScanner,
+  document: { id: string; title: string; file_url: string; scan_attempts: number }
+): Promise<DocumentScanSummary> {
+  let result: ScanResult
+  let content: Uint8Array | undefined
+  let contentHash: string | undefined
+
+  const { data: file, error: downloadError } = await client.storage
+    .from(BUCKET_NAME)
+    .download(document.file_url)
+
+  if (downloadError || !file) {
+    result = { verdict: 'error', detail: 'Could not download file: ' + (downloadError?.message || 'not found') }
+  } else {
+    try {
+      content = new Uint8Array(await file.arrayBuffer())
+      // Recorded from the stored bytes, so it does not rely on the uploader's own hash
+      contentHash = await hashFileContent(content)
+      result = await scanner.scan(content)
+    } catch (error) {
+      result = { verdict: 'error', detail: error instanceof Error ? error.message : 'Scan failed' }
+    }
+  }
+
+  const scannedAt = new Date().toISOString()
+  const { error: updateError } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('documents')
+    .update({
+      status: result.verdict === 'clean' ? 'pending' : 'quarantined',
+      scan_status: result.verdict,
+      scan_signature: result.signature || null,
+      scanned_at: scannedAt,
+      scan_attempts: document.scan_attempts + 1,
+      ...(contentHash ? { content_hash: contentHash } : {}),
+      updated_at: scannedAt
+    })
+    .eq('id', document.id)
+    .eq('status', 'quarantined')
+
+  if (updateError) {
+    throw new Error('Error recording scan result: ' + updateError.message)
+  }
+
+  await logAuditAction('documents', document.id, 'UPDATE', {
+    document_title: document.title,
+    scanner: scanner.name,
+    scan_verdict: result.verdict,
+    scan_signature: result.signature,
+    scan_detail: result.detail,
+    new_status: result.verdict === 'clean' ? 'pending' : 'quarantined',
+    action_description: result.verdict === 'clean'
+      ? 'Malware scan passed; document released for review'
+      : result.verdict === 'infected'
+        ? `Malware detected (${result.signature}); document kept in quarantine`
+        : document.scan_attempts + 1 < MAX_SCAN_ATTEMPTS
+          ? 'Malware scan failed; will retry'
+          : 'Malware scan failed; left in quarantine for an admin to rescan'
+  }, client)
+
+  // Previews are only rendered for files that scanned clean. A failure here is
+  // picked up again by the thumbnail backfill in the cleanup job.
+  if (result.verdict === 'clean' && content) {
+    try {
+      await generateDocumentThumbnail(client, document, content)
+    } catch (thumbnailError) {
+      console.warn('Failed to generate thumbnail:', thumbnailError)
+    }
+  }
+
+  return { id: document.id, title: document.title, ...result }
+}
+
+/**
+ * Scan the quarantined documents that have not been found infected or
+ * failed MAX_SCAN_ATTEMPTS times, least tried first, so documents that
+ * keep failing cannot hold up newer uploads.
+ * In dry-run mode nothing is scanned; the report lists the queue.
+ */
+export async function scanQuarantinedDocuments(
+  client: SupabaseClient<Database>,
+  scanner: MalwareScanner,
+  options: { dryRun?: boolean; limit?: number } = {}
+): Promise<ScanRunReport> {
+  const { dryRun = false, limit = 50 } = options
+
+  const { data, error } = await client
+    .from('documents')
+    .select('id, title, file_url, scan_attempts')
+    .eq('status', 'quarantined')
+    .neq('scan_status', 'infected')
+    .lt('scan_attempts', MAX_SCAN_ATTEMPTS)
+    .is('deleted_at', null)
+    .order('scan_attempts', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error('Error fetching quarantined documents: ' + error.message)
+  }
+
+  const queue = (data || []) as Array<{ id: string; title: string; file_url: string; scan_attempts: number }>
+  const report: ScanRunReport = {
+    dryRun,
+    scanner: scanner.name,
+    queued: queue.map(doc => ({ id: doc.id, title: doc.title })),
+    scannedCount: 0,
+    cleanCount: 0,
+    infectedCount: 0,
+    errorCount: 0,
+    documents: []
+  }
+
+  if (dryRun) return report
+
+  for (const document of queue) {
+    const summary = await scanDocument(client, scanner, document)
+    report.documents.push(summary)
+    report.scannedCount++
+    if (summary.verdict === 'clean') report.cleanCount++
+    else if (summary.verdict === 'infected') report.infectedCount++
+    else report.errorCount++
+  }
+
+  return report
+}
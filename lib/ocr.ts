@@ -0,0 +1,125 @@
+import type { Worker } from 'tesseract.js'
+import { loadPdfJs } from './pdf'
+import type { ExtractedLine, ExtractedText } from './documentExtraction'
+
+// Reads the text of an upload in the browser with Tesseract. The engine and
+// English language data are served from /ocr (copied there on install by
+// scripts/copy-ocr-assets.mjs), so documents never leave the device to be read.
+
+const OCR_ASSET_PATH = '/ocr'
+
+// Scanned certificates rarely put anything the form needs past the first pages
+const MAX_PDF_PAGES = 2
+// Pages with less text than this are treated as scans and recognised instead
+const MIN_TEXT_LAYER_LENGTH = 20
+// Rendering scale for scanned PDF pages; Tesseract reads small print poorly
+const PDF_RENDER_SCALE = 2
+
+export type OcrProgressHandler = (progress: number) => void
+
+let workerPromise: Promise<Worker> | null = null
+let progressHandler: OcrProgressHandler | null = null
+
+// The engine takes a few seconds to start, so one worker is kept for the session
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    const assetUrl = (path: string) => new URL(`${OCR_ASSET_PATH}/${path}`, window.location.origin).toString()
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker }) => createWorker('eng', undefined, {
+        workerPath: assetUrl('worker.min.js'),
+        corePath: assetUrl('core'),
+        langPath: assetUrl('lang'),
+        workerBlobURL: false,
+        logger: message => {
+          if (message.status === 'recognizing text') progressHandler?.(message.progress)
+        }
+      }))
+      .catch(error => {
+        workerPromise = null
+        throw error
+      })
+  }
+  return workerPromise
+}
+
+async function recognise(image: File | HTMLCanvasElement): Promise<ExtractedLine[]> {
+  const worker = await getWorker()
+  const { data } = await worker.recognize(image, {}, { text: true, blocks: true })
+  return (data.blocks || [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .map(line => ({ text: line.text.trim(), confidence: line.confidence }))
+    .filter(line => line.text)
+}
+
+// Uses the PDF's own text where it has some and recognises scanned pages
+async function extractPdfLines(file: File, onProgress?: OcrProgressHandler): Promise<{ lines: ExtractedLine[]; recognised: boolean }> {
+  const pdfjs = await loadPdfJs()
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), isEvalSupported: false }).promise
+  const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES)
+  const lines: ExtractedLine[] = []
+  let recognised = false
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+
+      let pageText = ''
+      for (const item of content.items) {
+        if ('str' in item) pageText += item.str + (item.hasEOL ? '\n' : ' ')
+      }
+
+      if (pageText.replace(/\s/g, '').length >= MIN_TEXT_LAYER_LENGTH) {
+        pageText.split('\n').forEach(text => {
+          if (text.trim()) lines.push({ text: text.trim(), confidence: 100 })
+        })
+      } else {
+        const viewport = page.getViewport({ scale: PDF_RENDER_SCALE })
+        const canvas = document.createElement('canvas')
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+        await page.render({ canvas, viewport }).promise
+        progressHandler = progress => onProgress?.((pageNumber - 1 + progress) / pageCount)
+        lines.push(...await recognise(canvas))
+        recognised = true
+      }
+      onProgress?.(pageNumber / pageCount)
+    }
+  } finally {
+    await pdf.destroy()
+  }
+
+  return { lines, recognised }
+}
+
+/**
+ * Read the text of an image or PDF upload. Runs entirely in the browser;
+ * progress is reported from 0 to 1 while text is being recognised.
+ */
+export async function extractDocumentText(file: File, onProgress?: OcrProgressHandler): Promise<ExtractedText> {
+  let lines: ExtractedLine[]
+  let recognised = true
+
+  try {
+    if (file.type === 'application/pdf') {
+      ({ lines, recognised } = await extractPdfLines(file, onProgress))
+    } else {
+      progressHandler = progress => onProgress?.(progress)
+      lines = await recognise(file)
+    }
+  } finally {
+    progressHandler = null
+  }
+
+  const confidence = lines.length
+    ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length
+    : 0
+
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    lines,
+    confidence,
+    source: recognised ? 'ocr' : 'text_layer'
+  }
+}
@@ -0,0 +1,790 @@
+import type { Database } from './database.types'
+
+// OpenAPI 3 description of every route under app/api.
+// Served from /api/openapi; lib/apiClient.ts is generated from it with
+// `npm run generate:api-client`, so regenerate after changing this file.
+//
+// Keep this module free of runtime imports: the generator loads it
+// outside of Next.js.
+
+export interface SchemaObject {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+  format?: string
+  enum?: string[]
+  nullable?: boolean
+  description?: string
+  properties?: Record<string, SchemaObject>
+  required?: string[]
+  items?: SchemaObject
+  additionalProperties?: boolean | SchemaObject
+  allOf?: SchemaObject[]
+  $ref?: string
+}
+
+type Tables = Database['public']['Tables']
+
+// Property maps are keyed by the database row types, so adding or removing
+// a column without updating the contract fails the type check
+type RowSchema<Row> = Record<keyof Row & string, SchemaObject>
+
+const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` })
+const uuid: SchemaObject = { type: 'string', format: 'uuid' }
+const timestamp: SchemaObject = { type: 'string', format: 'date-time' }
+const nullable = (schema: SchemaObject): SchemaObject => ({ ...schema, nullable: true })
+
+const documentStatuses: Tables['documents']['Row']['status'][] = ['pending', 'approved', 'rejected', 'expired', 'quarantined']
+const pilotStatuses: Tables['pilots']['Row']['status'][] = ['active', 'inactive', 'suspended']
+
+const documentTypeProperties: RowSchema<Tables['document_types']['Row']> = {
+  code: ref('DocumentType'),
+  label: { type: 'string' },
+  description: nullable({ type: 'string' }),
+  expiry_required: { type: 'boolean', description: 'Uploads must have an expiry date, given or derived from default_validity_days' },
+  default_validity_days: nullable({ type: 'integer', description: 'Expiry date used when an upload gives none, in days after upload' }),
+  allowed_mime_types: { type: 'array', items: { type: 'string', enum: ['application/pdf', 'image/jpeg', 'image/png'] } },
+  max_file_size_mb: { type: 'integer' },
+  metadata_fields: { type: 'array', items: ref('MetadataField'), description: 'Custom fields collected on upload' },
+  validity_rules: { type: 'array', items: ref('ValidityRule'), description: 'Rules deriving the expiry date from the issue date; the first match wins, then default_validity_days' },
+  sort_order: { type: 'integer' },
+  is_active: { type: 'boolean', description: 'Inactive types take no new uploads but remain on existing documents' },
+  created_at: timestamp,
+  updated_at: timestamp
+}
+
+const documentProperties: RowSchema<Tables['documents']['Row']> = {
+  id: uuid,
+  pilot_id: uuid,
+  document_type: ref('DocumentType'),
+  title: { type: 'string' },
+  file_url: { type: 'string', description: 'Storage path of the file, not a public URL' },
+  file_size: nullable({ type: 'integer' }),
+  file_type: nullable({ type: 'string' }),
+  upload_date: timestamp,
+  expiry_date: nullable(timestamp),
+  issue_date: nullable({ type: 'string', format: 'date', description: 'When the document was issued, if given' }),
+  computed_expiry_date: nullable({ type: 'string', format: 'date', description: 'Expiry the validity rules give; differs from expiry_date when the pilot entered another one' }),
+  expiry_source: nullable({ type: 'string', enum: ['entered', 'derived', 'backfilled'] }),
+  extracted_text: nullable({ type: 'string', description: 'Text read from the file on upload, searchable with the search parameter; only returned for a single document' }),
+  status: ref('DocumentStatus'),
+  version_group_id: uuid,
+  version_number: { type: 'integer' },
+  is_current: { type: 'boolean' },
+  superseded_by: nullable(uuid),
+  superseded_at: nullable(timestamp),
+  current_from: nullable({ ...timestamp, description: 'When the version became current; null while it awaits review' }),
+  scan_status: { type: 'string', enum: ['unscanned', 'clean', 'infected', 'error'] },
+  scan_signature: nullable({ type: 'string', description: 'Malware signature found by the last scan' }),
+  scanned_at: nullable(timestamp),
+  scan_attempts: { type: 'integer', description: 'Malware scans attempted while quarantined' },
+  content_hash: nullable({ type: 'string', description: 'SHA-256 of the file content, hex encoded' }),
+  thumbnail_url: nullable({ type: 'string', description: 'Storage path of the preview image' }),
+  thumbnail_attempts: { type: 'integer', description: 'Failed attempts at generating the preview' },
+  thumbnail_error: nullable({ type: 'string', description: 'Why the last preview attempt failed' }),
+  deleted_at: nullable({ ...timestamp, description: 'When the document was moved to the trash' }),
+  deleted_by: nullable(uuid),
+  purged_at: nullable({ ...timestamp, description: 'When the stored file was permanently removed' }),
+  metadata: ref('DocumentMetadata'),
+  created_at: timestamp,
+  updated_at: timestamp
+}
+
+const pilotSummaryProperties: Partial<RowSchema<Tables['pilots']['Row']>> = {
+  id: uuid,
+  user_id: uuid,
+  first_name: { type: 'string' },
+  last_name: { type: 'string' },
+  email: { type: 'string', format: 'email' },
+  pilot_license: { type: 'string' }
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('ErrorResponse') } }
+})
+
+const jsonResponse = (description: string, schema: SchemaObject) => ({
+  description,
+  content: { 'application/json': { schema } }
+})
+
+const idParameter = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: uuid
+})
+
+const queryParameter = (name: string, schema: SchemaObject, description: string) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema
+})
+
+export const openApiSpec = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Pilot Management API',
+    version: '1.0.0',
+    description: 'HTTP API for pilot documents and compliance. Document routes take the caller\'s Supabase access token as a bearer token; row level security and role checks apply as in the app.'
+  },
+  servers: [{ url: '/' }],
+  tags: [
+    { name: 'documents' },
+    { name: 'pilots' },
+    { name: 'system' }
+  ],
+  paths: {
+    '/api/documents': {
+      get: {
+        tags: ['documents'],
+        operationId: 'listDocuments',
+        summary: 'List documents',
+        description: 'Pilots only see their own documents. Admins and inspectors see all documents and may filter by pilot.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [
+          queryParameter('status', ref('DocumentStatus'), 'Only documents with this status'),
+          queryParameter('document_type', ref('DocumentType'), 'Only documents of this type'),
+          queryParameter('pilot_id', uuid, 'Only documents of this pilot (admins and inspectors)'),
+          queryParameter('search', { type: 'string' }, 'Case-insensitive match on the title, or words in the text read from the file'),
+          queryParameter('include_history', { type: 'boolean' }, 'Include superseded versions'),
+          queryParameter('page', { type: 'integer', format: 'int32' }, 'Page number, starting at 1'),
+          queryParameter('page_size', { type: 'integer', format: 'int32' }, 'Documents per page, at most 100')
+        ],
+        responses: {
+          200: jsonResponse('A page of documents, newest first', ref('DocumentPage')),
+          400: errorResponse('Invalid filter'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller has no role')
+        }
+      },
+      post: {
+        tags: ['documents'],
+        operationId: 'uploadDocument',
+        summary: 'Upload a document',
+        description: 'Uploads a file for the calling pilot. A document of a type the pilot already holds becomes its next version.',
+        security: [{ supabaseAuth: [] }],
+        requestBody: {
+          required: true,
+          content: { 'multipart/form-data': { schema: ref('DocumentUpload') } }
+        },
+        responses: {
+          201: jsonResponse('The stored document', ref('UploadResult')),
+          400: errorResponse('Invalid upload'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not a pilot')
+        }
+      }
+    },
+    '/api/documents/{id}': {
+      get: {
+        tags: ['documents'],
+        operationId: 'getDocument',
+        summary: 'Get a document',
+        description: 'Returns the document\'s details. The file itself is opened through createDocumentView or createDocumentDownload.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          200: jsonResponse('The document', ref('DocumentDetail')),
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller has no role'),
+          404: errorResponse('Document not found')
+        }
+      },
+      delete: {
+        tags: ['documents'],
+        operationId: 'deleteDocument',
+        summary: 'Move a document to the trash',
+        description: 'Pilots may delete their own documents, admins any document. Deleted documents go to the trash, where admins can restore them until they are purged. Deleting the current version reinstates the previous one.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          204: { description: 'Document moved to the trash' },
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller may not delete documents'),
+          404: errorResponse('Document not found'),
+          409: errorResponse('Document is under legal hold')
+        }
+      }
+    },
+    '/api/documents/trash': {
+      get: {
+        tags: ['documents'],
+        operationId: 'listTrashedDocuments',
+        summary: 'List the trash',
+        description: 'Pilots only see their own deleted documents; admins and inspectors see all. Trashed documents are purged automatically once they have been in the trash for retentionDays.',
+        security: [{ supabaseAuth: [] }],
+        responses: {
+          200: jsonResponse('Trashed documents, most recently deleted first', ref('TrashPage')),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller has no role')
+        }
+      }
+    },
+    '/api/documents/{id}/restore': {
+      post: {
+        tags: ['documents'],
+        operationId: 'restoreDocument',
+        summary: 'Restore a document from the trash',
+        description: 'Admin only. The document becomes current again unless a newer version has been uploaded since it was deleted.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          200: jsonResponse('The restored document', ref('DocumentResult')),
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not an admin'),
+          404: errorResponse('Document not found in trash'),
+          409: errorResponse('Document has been purged or is under legal hold')
+        }
+      }
+    },
+    '/api/documents/{id}/purge': {
+      post: {
+        tags: ['documents'],
+        operationId: 'purgeDocument',
+        summary: 'Permanently remove a trashed document',
+        description: 'Admin only. Deletes the stored file and thumbnail. The document record, its reviews and its audit trail are kept.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          204: { description: 'Document purged' },
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not an admin'),
+          404: errorResponse('Document not found in trash'),
+          409: errorResponse('Document is under legal hold')
+        }
+      }
+    },
+    '/api/documents/{id}/status': {
+      patch: {
+        tags: ['documents'],
+        operationId: 'updateDocumentStatus',
+        summary: 'Change a document\'s review status',
+        description: 'Admin only. Approvals and rejections are added to the document\'s review thread.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref('StatusUpdate') } }
+        },
+        responses: {
+          200: jsonResponse('The updated document', ref('DocumentResult')),
+          400: errorResponse('Invalid document id or status, or missing rejection reason'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not an admin'),
+          404: errorResponse('Document not found'),
+          409: errorResponse('Document is under legal hold')
+        }
+      }
+    },
+    '/api/documents/{id}/scan': {
+      post: {
+        tags: ['documents'],
+        operationId: 'scanDocument',
+        summary: 'Malware-scan a quarantined document',
+        description: 'New documents stay quarantined until a clean scan releases them for review. Pilots may scan their own documents, admins any.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          200: jsonResponse('Scan outcome', ref('DocumentScanResult')),
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller may not scan documents'),
+          404: errorResponse('Document not found')
+        }
+      }
+    },
+    '/api/documents/{id}/download': {
+      post: {
+        tags: ['documents'],
+        operationId: 'createDocumentDownload',
+        summary: 'Create a download link',
+        description: 'Logs a DOWNLOAD audit event for the caller and returns a single-use link to a watermarked copy, valid for one minute.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          200: jsonResponse('Download link', ref('DownloadLink')),
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller has no role'),
+          404: errorResponse('Document not found'),
+          409: errorResponse('Document has not passed its malware scan')
+        }
+      }
+    },
+    '/api/documents/{id}/view': {
+      post: {
+        tags: ['documents'],
+        operationId: 'createDocumentView',
+        summary: 'Create a view link',
+        description: 'Logs a VIEW audit event for the caller and returns a single-use link to a watermarked copy for the in-app viewer, served inline and valid for one minute.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [idParameter('Document id')],
+        responses: {
+          200: jsonResponse('View link', ref('DownloadLink')),
+          400: errorResponse('Invalid document id'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller has no role'),
+          404: errorResponse('Document not found'),
+          409: errorResponse('Document has not passed its malware scan')
+        }
+      }
+    },
+    '/api/downloads/{token}': {
+      get: {
+        tags: ['documents'],
+        operationId: 'downloadDocumentFile',
+        summary: 'Download a watermarked document',
+        description: 'The token from createDocumentDownload or createDocumentView is the only credential and is consumed on first use. View links are served inline, download links as attachments. Every page is stamped with the viewer\'s name, the time and "controlled copy".',
+        parameters: [{
+          name: 'token',
+          in: 'path',
+          required: true,
+          description: 'Single-use download token',
+          schema: { type: 'string' }
+        }],
+        responses: {
+          200: {
+            description: 'The watermarked file, in its original format',
+            content: {
+              'application/pdf': { schema: { type: 'string', format: 'binary' } },
+              'image/jpeg': { schema: { type: 'string', format: 'binary' } },
+              'image/png': { schema: { type: 'string', format: 'binary' } }
+            }
+          },
+          404: errorResponse('Link is invalid, expired or already used'),
+          422: errorResponse('The stored file cannot be watermarked, so no copy is served')
+        }
+      }
+    },
+    '/api/uploads/complete': {
+      post: {
+        tags: ['documents'],
+        operationId: 'completeUpload',
+        summary: 'Record an uploaded file as a document',
+        description: 'For files the caller uploaded directly to storage, e.g. resumably. The stored file is inspected and, if it passes, recorded with its detected type and content hash, then scanned. Files that fail inspection are deleted. App users cannot create document records any other way.',
+        security: [{ supabaseAuth: [] }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref('UploadCompletionRequest') } }
+        },
+        responses: {
+          201: jsonResponse('The stored document', ref('UploadResult')),
+          400: errorResponse('Invalid details, or a path outside the caller\'s folder for the type'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not a pilot'),
+          422: errorResponse('The file failed inspection and was deleted')
+        }
+      }
+    },
+    '/api/document-types': {
+      get: {
+        tags: ['documents'],
+        operationId: 'listDocumentTypes',
+        summary: 'List document types',
+        description: 'The registry of document types, with the expiry rules and accepted files of each. Admins manage the registry in the app.',
+        security: [{ supabaseAuth: [] }],
+        parameters: [
+          queryParameter('include_inactive', { type: 'boolean' }, 'Include types that no longer take uploads')
+        ],
+        responses: {
+          200: jsonResponse('Document types in display order', ref('DocumentTypeList')),
+          401: errorResponse('Missing or invalid access token')
+        }
+      }
+    },
+    '/api/pilots/dossier': {
+      post: {
+        tags: ['pilots'],
+        operationId: 'exportPilotDossier',
+        summary: 'Export pilots\' documents as a ZIP',
+        description: 'Admins and inspectors only. The archive has a folder per pilot with watermarked copies of their current documents (or every version), plus manifest.csv and manifest.json listing type, status, expiry and reviewer. Files that cannot be fetched or watermarked are left out and listed in NOT INCLUDED.txt. The export is recorded in the audit log.',
+        security: [{ supabaseAuth: [] }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref('DossierRequest') } }
+        },
+        responses: {
+          200: {
+            description: 'ZIP archive, streamed',
+            content: { 'application/zip': { schema: { type: 'string', format: 'binary' } } }
+          },
+          400: errorResponse('Missing, invalid or too many pilot ids'),
+          401: errorResponse('Missing or invalid access token'),
+          403: errorResponse('Caller is not an admin or inspector'),
+          404: errorResponse('Pilot not found')
+        }
+      }
+    },
+    '/api/pilots/{id}/eligibility': {
+      get: {
+        tags: ['pilots'],
+        operationId: 'getPilotEligibility',
+        summary: 'Check whether a pilot is fit to fly',
+        security: [{ integrationApiKey: [] }],
+        parameters: [idParameter('Pilot id')],
+        responses: {
+          200: jsonResponse('Eligibility decision', ref('PilotEligibility')),
+          400: errorResponse('Invalid pilot id'),
+          401: errorResponse('Missing or invalid integration API key'),
+          404: errorResponse('Pilot not found')
+        }
+      }
+    },
+    '/api/openapi': {
+      get: {
+        tags: ['system'],
+        operationId: 'getOpenApiSpec',
+        summary: 'This OpenAPI document',
+        responses: {
+          200: jsonResponse('OpenAPI 3 document', { type: 'object', additionalProperties: true })
+        }
+      }
+    },
+    '/api/health': {
+      get: {
+        tags: ['system'],
+        operationId: 'getHealth',
+        summary: 'Health check',
+        responses: {
+          200: jsonResponse('Service is healthy', ref('Health')),
+          500: jsonResponse('Service is unhealthy', ref('ErrorResponse'))
+        }
+      }
+    },
+    '/api/cleanup': {
+      get: {
+        tags: ['system'],
+        operationId: 'runCleanup',
+        summary: 'Run scheduled cleanup tasks',
+        description: 'Cron endpoint: scans quarantined uploads, backfills missing thumbnails, derives missing expiry dates from the validity rules, expires overdue documents, sends expiry reminders, purges documents past their trash retention period and applies the retention policies to documents and audit logs. Documents under legal hold are neither given an expiry, expired nor purged, and their audit log entries are kept. Requires CRON_SECRET as a bearer token outside local development. A failing task does not stop the others; the run then returns 500 with the report.',
+        security: [{ cronSecret: [] }],
+        parameters: [
+          queryParameter('dryRun', { type: 'boolean' }, 'Report what would change without changing anything')
+        ],
+        responses: {
+          200: jsonResponse('Cleanup report', ref('CleanupResult')),
+          401: errorResponse('Not allowed to run cleanup, or CRON_SECRET is not set'),
+          500: jsonResponse('Some tasks failed; errors lists them', ref('CleanupResult'))
+        }
+      }
+    },
+    '/api/performance': {
+      get: {
+        tags: ['system'],
+        operationId: 'getPerformanceMetrics',
+        summary: 'Aggregated web vitals',
+        parameters: [
+          queryParameter('timeframe', { type: 'string' }, 'Aggregation window, e.g. 24h')
+        ],
+        responses: {
+          200: jsonResponse('Aggregated metrics', ref('PerformanceMetrics')),
+          500: errorResponse('Internal server error')
+        }
+      },
+      post: {
+        tags: ['system'],
+        operationId: 'reportPerformanceMetric',
+        summary: 'Report a web vitals measurement',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref('PerformanceMetric') } }
+        },
+        responses: {
+          200: jsonResponse('Metric accepted', ref('Success')),
+          400: errorResponse('Missing required fields'),
+          500: errorResponse('Internal server error')
+        }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      supabaseAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Supabase access token of the signed-in user'
+      },
+      integrationApiKey: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'INTEGRATION_API_KEY shared with trusted systems'
+      },
+      cronSecret: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'CRON_SECRET sent by the scheduler'
+      }
+    },
+    schemas: {
+      ErrorResponse: {
+        type: 'object',
+        required: ['error'],
+        properties: { error: { type: 'string' } }
+      },
+      Success: {
+        type: 'object',
+        required: ['success'],
+        properties: { success: { type: 'boolean' } }
+      },
+      DocumentType: {
+        type: 'string',
+        pattern: '^[a-z][a-z0-9_]{1,49}$',
+        description: 'Code of a type in the document type registry; see GET /api/document-types'
+      },
+      DocumentTypeDefinition: {
+        type: 'object',
+        required: Object.keys(documentTypeProperties),
+        properties: documentTypeProperties
+      },
+      MetadataField: {
+        type: 'object',
+        required: ['key', 'label', 'type'],
+        properties: {
+          key: { type: 'string', description: 'Key of the value in a document\'s metadata' },
+          label: { type: 'string' },
+          type: { type: 'string', enum: ['text', 'date', 'enum', 'number'] },
+          required: { type: 'boolean' },
+          options: { type: 'array', items: { type: 'string' }, description: 'Choices of an enum field' },
+          min: { type: 'number', description: 'Lower bound of a number field' },
+          max: { type: 'number', description: 'Upper bound of a number field' },
+          help: { type: 'string' }
+        }
+      },
+      ValidityRule: {
+        type: 'object',
+        properties: {
+          min_age: { type: 'integer', description: 'Pilot age on the issue date, inclusive' },
+          max_age: { type: 'integer', description: 'Pilot age on the issue date, exclusive' },
+          validity_months: { type: 'integer' },
+          validity_days: { type: 'integer' },
+          description: { type: 'string' }
+        }
+      },
+      DocumentMetadata: {
+        type: 'object',
+        additionalProperties: true,
+        description: 'Values of the document type\'s custom fields keyed by field: strings, yyyy-MM-dd dates for date fields and numbers for number fields'
+      },
+      DocumentTypeList: {
+        type: 'object',
+        required: ['documentTypes'],
+        properties: {
+          documentTypes: { type: 'array', items: ref('DocumentTypeDefinition') }
+        }
+      },
+      DocumentStatus: { type: 'string', enum: documentStatuses },
+      Document: {
+        type: 'object',
+        // The extracted text is left out of lists
+        required: Object.keys(documentProperties).filter(key => key !== 'extracted_text'),
+        properties: documentProperties
+      },
+      PilotSummary: {
+        type: 'object',
+        required: Object.keys(pilotSummaryProperties),
+        properties: pilotSummaryProperties as Record<string, SchemaObject>
+      },
+      DocumentWithPilot: {
+        allOf: [
+          ref('Document'),
+          {
+            type: 'object',
+            required: ['pilots'],
+            properties: { pilots: ref('PilotSummary') }
+          }
+        ]
+      },
+      DocumentPage: {
+        type: 'object',
+        required: ['documents', 'total', 'page', 'pageSize'],
+        properties: {
+          documents: { type: 'array', items: ref('DocumentWithPilot') },
+          total: { type: 'integer' },
+          page: { type: 'integer' },
+          pageSize: { type: 'integer' }
+        }
+      },
+      TrashPage: {
+        type: 'object',
+        required: ['documents', 'retentionDays'],
+        properties: {
+          documents: { type: 'array', items: ref('DocumentWithPilot') },
+          retentionDays: { type: 'integer', description: 'Days a document stays in the trash before it is purged' }
+        }
+      },
+      DocumentDetail: {
+        type: 'object',
+        required: ['document'],
+        properties: {
+          document: ref('DocumentWithPilot')
+        }
+      },
+      DocumentResult: {
+        type: 'object',
+        required: ['document'],
+        properties: { document: ref('Document') }
+      },
+      UploadResult: {
+        type: 'object',
+        required: ['document'],
+        properties: {
+          document: ref('Document'),
+          scan: ref('DocumentScanResult'),
+          duplicates: {
+            type: 'array',
+            description: 'The pilot\'s earlier documents with the same file content',
+            items: ref('Document')
+          }
+        }
+      },
+      DocumentScanResult: {
+        type: 'object',
+        required: ['id', 'title', 'verdict'],
+        properties: {
+          id: uuid,
+          title: { type: 'string' },
+          verdict: { type: 'string', enum: ['clean', 'infected', 'error'] },
+          signature: { type: 'string', description: 'Detected malware signature' },
+          detail: { type: 'string', description: 'Why the scan could not complete' }
+        }
+      },
+      DownloadLink: {
+        type: 'object',
+        required: ['url', 'expiresAt'],
+        properties: {
+          url: { type: 'string', description: 'Relative URL of the single-use download' },
+          expiresAt: timestamp
+        }
+      },
+      DossierRequest: {
+        type: 'object',
+        required: ['pilotIds'],
+        properties: {
+          pilotIds: { type: 'array', items: uuid, description: 'Up to 50 pilots' },
+          includeHistory: { type: 'boolean', description: 'Include superseded versions, not just current documents' }
+        }
+      },
+      DocumentUpload: {
+        type: 'object',
+        required: ['file', 'title', 'document_type'],
+        properties: {
+          file: { type: 'string', format: 'binary', description: 'A file type allowed for the document type, within its size limit; checked by content, not name' },
+          title: { type: 'string' },
+          document_type: ref('DocumentType'),
+          expiry_date: { type: 'string', format: 'date', description: 'Derived from the issue date and the type\'s validity rules when left out; required for types that need an expiry date when none can be derived' },
+          issue_date: { type: 'string', format: 'date', description: 'When the document was issued; defaults to the upload date' },
+          metadata: { type: 'string', description: 'JSON object of custom field values keyed by field; required fields of the document type must be present' },
+          extracted_text: { type: 'string', description: 'Text read from the file, e.g. by OCR, stored for full-text search; cut to 20000 characters' },
+          new_version: { type: 'string', enum: ['true', 'false'], description: 'Whether the upload becomes the next version of the pilot\'s current document of this type, replacing it once approved; defaults to true' }
+        }
+      },
+      UploadCompletionRequest: {
+        type: 'object',
+        required: ['path', 'title', 'document_type'],
+        properties: {
+          path: { type: 'string', description: 'Storage path, inside the caller\'s folder for the document type: {user id}/{document_type}/...' },
+          title: { type: 'string' },
+          document_type: ref('DocumentType'),
+          expiry_date: { type: 'string', format: 'date', description: 'Derived from the issue date and the type\'s validity rules when left out' },
+          issue_date: { type: 'string', format: 'date', description: 'When the document was issued; defaults to the upload date' },
+          metadata: ref('DocumentMetadata'),
+          extracted_text: { type: 'string', description: 'Text read from the file, stored for full-text search' },
+          new_version: { type: 'boolean', description: 'Whether the upload becomes the next version of the pilot\'s current document of this type, replacing it once approved; defaults to true' }
+        }
+      },
+      StatusUpdate: {
+        type: 'object',
+        required: ['status'],
+        properties: {
+          status: ref('DocumentStatus'),
+          reason: { type: 'string', description: 'Required when rejecting; shown to the pilot' },
+          comment: { type: 'string' }
+        }
+      },
+      EligibilityReason: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: {
+            type: 'string',
+            enum: ['pilot_not_active', 'document_missing', 'document_expired', 'document_pending_review', 'document_expiring']
+          },
+          message: { type: 'string' },
+          document_type: ref('DocumentType'),
+          document_id: uuid
+        }
+      },
+      PilotEligibility: {
+        type: 'object',
+        required: ['pilotId', 'pilotStatus', 'eligible', 'blockingReasons', 'warnings', 'checkedAt'],
+        properties: {
+          pilotId: uuid,
+          pilotStatus: { type: 'string', enum: pilotStatuses },
+          eligible: { type: 'boolean' },
+          blockingReasons: { type: 'array', items: ref('EligibilityReason') },
+          warnings: { type: 'array', items: ref('EligibilityReason') },
+          checkedAt: timestamp
+        }
+      },
+      Health: {
+        type: 'object',
+        required: ['status', 'timestamp', 'uptime', 'environment'],
+        properties: {
+          status: { type: 'string' },
+          timestamp: timestamp,
+          uptime: { type: 'number' },
+          environment: { type: 'string' }
+        }
+      },
+      CleanupResult: {
+        type: 'object',
+        required: ['success', 'message', 'dryRun', 'timestamp', 'tasks', 'errors'],
+        properties: {
+          success: { type: 'boolean' },
+          message: { type: 'string' },
+          dryRun: { type: 'boolean' },
+          timestamp: timestamp,
+          tasks: {
+            type: 'object',
+            description: 'Report of each cleanup task, keyed by task name',
+            additionalProperties: true
+          },
+          errors: {
+            type: 'object',
+            description: 'Error message of each failed task, keyed by task name',
+            additionalProperties: { type: 'string' }
+          }
+        }
+      },
+      PerformanceMetric: {
+        type: 'object',
+        required: ['metric', 'data', 'timestamp'],
+        properties: {
+          metric: { type: 'string' },
+          data: { type: 'object', additionalProperties: true },
+          timestamp: { type: 'number' },
+          url: { type: 'string' },
+          userAgent: { type: 'string' }
+        }
+      },
+      PerformanceMetrics: {
+        type: 'object',
+        required: ['timeframe', 'metrics'],
+        properties: {
+          timeframe: { type: 'string' },
+          metrics: { type: 'object', additionalProperties: true },
+          trends: { type: 'object', additionalProperties: { type: 'string' } },
+          alerts: { type: 'array', items: { type: 'object', additionalProperties: true } }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+
+// PDF.js is large and browser-only, so it is loaded on first use
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null
+
+export function loadPdfJs(): Promise<typeof import('pdfjs-dist')> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+      return pdfjs
+    })
+  }
+  return pdfjsPromise
+}
+
+/**
+ * Open a PDF from a (signed) URL for rendering.
+ * Eval is turned off: documents are only ever displayed.
+ */
+export async function openPdf(url: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs()
+  return pdfjs.getDocument({ url, isEvalSupported: false }).promise
+}
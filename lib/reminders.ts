@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { format } from 'date-fns'
+import type { Database } from './database.types'
+import type { DocumentStatus } from './documents'
+import type { EmailTransport } from './email'
+
+// Days before expiry_date at which pilots are reminded
+export const DEFAULT_REMINDER_OFFSETS = [60, 30, 7, 1]
+
+// Documents that still need renewing; rejected and expired ones are excluded
+const REMINDABLE_STATUSES: DocumentStatus[] = ['pending', 'approved']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A reminder sent (or, in dry-run mode, due) for one document
+export interface ReminderSummary {
+  document_id: string
+  title: string
+  recipient: string
+  offset_days: number
+  expiry_date: string
+}
+
+// Summary of a reminder run
+export interface ReminderRunReport {
+  dryRun: boolean
+  transport: string
+  offsets: number[]
+  sent: ReminderSummary[]
+  failed: (ReminderSummary & { error: string })[]
+}
+
+interface RemindableDocument {
+  id: string
+  title: string
+  expiry_date: string
+  pilots: {
+    email: string
+    first_name: string
+    last_name: string
+  }
+}
+
+/**
+ * Read reminder offsets from REMINDER_OFFSET_DAYS (e.g. "60,30,7,1")
+ */
+export function getReminderOffsets(): number[] {
+  const configured = process.env.REMINDER_OFFSET_DAYS
+  if (!configured) return DEFAULT_REMINDER_OFFSETS
+
+  const offsets = configured
+    .split(',')
+    .map(value => parseInt(value.trim(), 10))
+    .filter(value => Number.isInteger(value) && value >= 0)
+
+  return offsets.length > 0 ? offsets : DEFAULT_REMINDER_OFFSETS
+}
+
+/**
+ * Pick the reminder that is due for a document: the tightest offset the
+ * document has already entered. Earlier offsets that were missed (e.g. the
+ * document was uploaded with only a week left) are not sent retroactively.
+ */
+export function getDueReminderOffset(expiryDate: Date, now: Date, offsets: number[]): number | null {
+  const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / DAY_MS)
+  if (daysUntilExpiry < 0) return null
+
+  const applicable = offsets.filter(offset => offset >= daysUntilExpiry)
+  return applicable.length > 0 ? Math.min(...applicable) : null
+}
+
+function buildReminderEmail(document: RemindableDocument, offsetDays: number) {
+  const expiry = format(new Date(document.expiry_date), 'MMM d, yyyy')
+  const when = offsetDays === 0 ? 'today' : offsetDays === 1 ? 'within 1 day' : `within ${offsetDays} days`
+
+  return {
+    to: document.pilots.email,
+    subject: `Reminder: "${document.title}" expires ${when}`,
+    text: [
+      `Hello ${document.pilots.first_name},`,
+      '',
+      `Your document "${document.title}" expires on ${expiry}.`,
+      'Please upload a renewed copy before it expires to stay compliant.',
+      '',
+      'Pilot Document Management'
+    ].join('\n')
+  }
+}
+
+/**
+ * Send due expiry reminders. Each document receives at most one reminder per
+ * offset: a row in document_reminders is claimed before sending and released
+ * again if delivery fails, so the next run retries it.
+ */
+export async function sendExpiryReminders(
+  client: SupabaseClient<Database>,
+  transport: EmailTransport,
+  options: { dryRun?: boolean; now?: Date; offsets?: number[] } = {}
+): Promise<ReminderRunReport> {
+  const { dryRun = false, now = new Date(), offsets = getReminderOffsets() } = options
+  const report: ReminderRunReport = { dryRun, transport: transport.name, offsets, sent: [], failed: [] }
+
+  if (offsets.length === 0) return report
+
+  const horizon = new Date(now.getTime() + Math.max(...offsets) * DAY_MS)
+
+  const { data, error } = await client
+    .from('documents')
+    .select(`
+      id,
+      title,
+      expiry_date,
+      pilots!inner (
+        email,
+        first_name,
+        last_name
+      )
+    `)
+    .eq('is_current', true)
+    .is('deleted_at', null)
+    .in('status', REMINDABLE_STATUSES)
+    .gte('expiry_date', now.toISOString())
+    .lte('expiry_date', horizon.toISOString())
+
+  if (error) {
+    throw new Error('Error fetching documents for reminders: ' + error.message)
+  }
+
+  const documents = (data || []) as unknown as RemindableDocument[]
+  if (documents.length === 0) return report
+
+  // Skip reminders already on record
+  const { data: sentRows, error: sentError } = await client
+    .from('document_reminders')
+    .select('document_id, offset_days, expiry_date')
+    .in('document_id', documents.map(doc => doc.id))
+
+  if (sentError) {
+    throw new Error('Error fetching sent reminders: ' + sentError.message)
+  }
+
+  const reminderKey = (documentId: string, offsetDays: number, expiryDate: string) =>
+    `${documentId}:${offsetDays}:${new Date(expiryDate).getTime()}`
+
+  const alreadySent = new Set(
+    ((sentRows || []) as Array<{ document_id: string; offset_days: number; expiry_date: string }>)
+      .map(row => reminderKey(row.document_id, row.offset_days, row.expiry_date))
+  )
+
+  for (const document of documents) {
+    const offsetDays = getDueReminderOffset(new Date(document.expiry_date), now, offsets)
+    if (offsetDays === null) continue
+    if (alreadySent.has(reminderKey(document.id, offsetDays, document.expiry_date))) continue
+
+    const summary: ReminderSummary = {
+      document_id: document.id,
+      title: document.title,
+      recipient: document.pilots.email,
+      offset_days: offsetDays,
+      expiry_date: document.expiry_date
+    }
+
+    if (dryRun) {
+      report.sent.push(summary)
+      continue
+    }
+
+    // Claim the reminder first; a unique violation means another run already has it
+    const { data: claim, error: claimError } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .from('document_reminders')
+      .insert({
+        document_id: document.id,
+        offset_days: offsetDays,
+        expiry_date: document.expiry_date,
+        recipient: document.pilots.email,
+        transport: transport.name
+      })
+      .select('id')
+      .single()
+
+    if (claimError) {
+      if (claimError.code !== '23505') {
+        report.failed.push({ ...summary, error: claimError.message })
+      }
+      continue
+    }
+
+    try {
+      await transport.send(buildReminderEmail(document, offsetDays))
+      report.sent.push(summary)
+    } catch (sendError) {
+      await client.from('document_reminders').delete().eq('id', (claim as { id: string }).id)
+      report.failed.push({
+        ...summary,
+        error: sendError instanceof Error ? sendError.message : 'Send failed'
+      })
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,267 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { logAuditAction } from './audit'
+import { fetchHeldDocumentIds } from './legalHolds'
+import { moveDocumentToTrash, purgeTrashedDocument, TrashCandidate } from './trash'
+import type { DocumentType } from './documents'
+
+// Server-only. Applies the retention policies in the retention_policies
+// table. Document policies purge documents of one type a number of days
+// after their expiry or upload date: the file goes, the row stays marked as
+// purged. Audit log policies delete log entries by table and action. Legal
+// holds win over any policy, and a summary of each run that removed
+// anything is written to the audit log.
+
+export type RetentionPolicy = Database['public']['Tables']['retention_policies']['Row']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Document removed, or kept, by a document policy
+export interface RetainedDocumentSummary {
+  id: string
+  pilot_id: string
+  title: string
+  // Expiry or upload date the retention period ran from
+  retained_from: string
+}
+
+// Outcome of one document policy
+export interface DocumentRetentionResult {
+  policyId: string
+  documentType: DocumentType
+  retainFrom: 'expiry_date' | 'upload_date'
+  retentionDays: number
+  purgedCount: number
+  documents: RetainedDocumentSummary[]
+  // Past retention but kept because of a legal hold
+  held: RetainedDocumentSummary[]
+}
+
+// Outcome of one audit log policy
+export interface AuditLogRetentionResult {
+  policyId: string
+  tableName: string | null
+  actionType: string | null
+  retentionDays: number
+  purgedCount: number
+  heldCount: number
+}
+
+// Summary of a retention run
+export interface RetentionReport {
+  dryRun: boolean
+  checkedAt: string
+  // Record id of the run's summary audit entry; null if nothing was removed
+  runId: string | null
+  purgedDocumentCount: number
+  purgedAuditLogCount: number
+  documents: DocumentRetentionResult[]
+  auditLogs: AuditLogRetentionResult[]
+  failedCount: number
+  failures: Array<{ id: string; title: string; error: string }>
+}
+
+type RetentionCandidate = TrashCandidate & {
+  upload_date: string
+  expiry_date: string | null
+}
+
+/**
+ * Fetch the active retention policies
+ */
+export async function fetchRetentionPolicies(
+  client: SupabaseClient<Database>
+): Promise<RetentionPolicy[]> {
+  const { data, error } = await client
+    .from('retention_policies')
+    .select('*')
+    .eq('is_active', true)
+    .order('target', { ascending: true })
+
+  if (error) {
+    throw new Error('Error fetching retention policies: ' + error.message)
+  }
+
+  return (data || []) as RetentionPolicy[]
+}
+
+/**
+ * Records dated before the cutoff are past a policy's retention period
+ */
+export function getRetentionCutoff(policy: RetentionPolicy, now: Date = new Date()): Date {
+  return new Date(now.getTime() - policy.retention_days * DAY_MS)
+}
+
+/**
+ * Purge the documents past one document policy's retention period,
+ * oldest first. Documents that are not yet in the trash are moved there
+ * first, so version bookkeeping matches a manual delete.
+ */
+async function applyDocumentPolicy(
+  client: SupabaseClient<Database>,
+  policy: RetentionPolicy,
+  report: RetentionReport,
+  options: { dryRun: boolean; limit: number; now: Date }
+): Promise<DocumentRetentionResult> {
+  const retainFrom = policy.retain_from!
+  const cutoff = getRetentionCutoff(policy, options.now).toISOString()
+
+  const { data, error } = await client
+    .from('documents')
+    .select('id, pilot_id, title, file_url, thumbnail_url, deleted_at, purged_at, upload_date, expiry_date, pilots!inner ( user_id )')
+    .eq('document_type', policy.document_type!)
+    .is('purged_at', null)
+    .not(retainFrom, 'is', null)
+    .lt(retainFrom, cutoff)
+    .order(retainFrom, { ascending: true })
+    .limit(options.limit)
+
+  if (error) {
+    throw new Error('Error fetching documents past retention: ' + error.message)
+  }
+
+  const candidates = (data || []) as unknown as RetentionCandidate[]
+  const heldIds = await fetchHeldDocumentIds(candidates, client)
+  const summarize = (doc: RetentionCandidate): RetainedDocumentSummary => ({
+    id: doc.id,
+    pilot_id: doc.pilot_id,
+    title: doc.title,
+    retained_from: doc[retainFrom]!
+  })
+
+  const result: DocumentRetentionResult = {
+    policyId: policy.id,
+    documentType: policy.document_type!,
+    retainFrom,
+    retentionDays: policy.retention_days,
+    purgedCount: 0,
+    documents: [],
+    held: candidates.filter(doc => heldIds.has(doc.id)).map(summarize)
+  }
+
+  const expired = candidates.filter(doc => !heldIds.has(doc.id))
+
+  if (options.dryRun) {
+    result.documents = expired.map(summarize)
+    result.purgedCount = expired.length
+    return result
+  }
+
+  for (const document of expired) {
+    try {
+      let trashed = document
+      if (!document.deleted_at) {
+        if (!(await moveDocumentToTrash(client, document, null))) continue
+        trashed = { ...document, deleted_at: options.now.toISOString() }
+      }
+
+      if (!(await purgeTrashedDocument(client, trashed))) continue
+
+      result.purgedCount++
+      result.documents.push(summarize(document))
+
+      await logAuditAction('documents', document.id, 'DELETE', {
+        document_title: document.title,
+        retention_policy_id: policy.id,
+        retained_from: document[retainFrom],
+        retention_days: policy.retention_days,
+        action_description: 'Document purged under its retention policy'
+      }, client)
+    } catch (purgeError) {
+      report.failedCount++
+      report.failures.push({
+        id: document.id,
+        title: document.title,
+        error: purgeError instanceof Error ? purgeError.message : 'Purge failed'
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Apply every active retention policy. In dry-run mode nothing is removed;
+ * the report lists what would be. Each policy handles at most `limit`
+ * documents per run, and at most `auditLogLimit` audit log entries are
+ * deleted in total; the rest are picked up by later runs.
+ */
+export async function applyRetentionPolicies(
+  client: SupabaseClient<Database>,
+  options: { dryRun?: boolean; limit?: number; auditLogLimit?: number; now?: Date } = {}
+): Promise<RetentionReport> {
+  const { dryRun = false, limit = 100, auditLogLimit = 10000, now = new Date() } = options
+
+  const policies = await fetchRetentionPolicies(client)
+  const report: RetentionReport = {
+    dryRun,
+    checkedAt: now.toISOString(),
+    runId: null,
+    purgedDocumentCount: 0,
+    purgedAuditLogCount: 0,
+    documents: [],
+    auditLogs: [],
+    failedCount: 0,
+    failures: []
+  }
+
+  for (const policy of policies.filter(p => p.target === 'documents')) {
+    const result = await applyDocumentPolicy(client, policy, report, { dryRun, limit, now })
+    report.documents.push(result)
+    report.purgedDocumentCount += result.purgedCount
+  }
+
+  const auditPolicies = policies.filter(p => p.target === 'audit_logs')
+  if (auditPolicies.length > 0) {
+    const { data, error } = await (client as any).rpc('apply_audit_log_retention', { // eslint-disable-line @typescript-eslint/no-explicit-any
+      p_now: report.checkedAt,
+      p_dry_run: dryRun,
+      p_limit: auditLogLimit
+    })
+
+    if (error) {
+      throw new Error('Error applying audit log retention: ' + error.message)
+    }
+
+    const counts = (data || []) as Array<{ policy_id: string; purged_count: number; held_count: number }>
+    for (const policy of auditPolicies) {
+      const count = counts.find(row => row.policy_id === policy.id)
+      report.auditLogs.push({
+        policyId: policy.id,
+        tableName: policy.audit_table_name,
+        actionType: policy.audit_action_type,
+        retentionDays: policy.retention_days,
+        purgedCount: count?.purged_count || 0,
+        heldCount: count?.held_count || 0
+      })
+      report.purgedAuditLogCount += count?.purged_count || 0
+    }
+  }
+
+  if (!dryRun && (report.purgedDocumentCount > 0 || report.purgedAuditLogCount > 0)) {
+    report.runId = crypto.randomUUID()
+
+    await logAuditAction('retention_policies', report.runId, 'DELETE', {
+      purged_document_count: report.purgedDocumentCount,
+      purged_audit_log_count: report.purgedAuditLogCount,
+      documents: report.documents
+        .filter(result => result.purgedCount > 0)
+        .map(result => ({
+          policy_id: result.policyId,
+          document_type: result.documentType,
+          document_ids: result.documents.map(doc => doc.id)
+        })),
+      audit_logs: report.auditLogs
+        .filter(result => result.purgedCount > 0)
+        .map(result => ({
+          policy_id: result.policyId,
+          table_name: result.tableName,
+          action_type: result.actionType,
+          purged_count: result.purgedCount
+        })),
+      action_description: 'Records purged under the retention policies'
+    }, client)
+  }
+
+  return report
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from './database.types'
+
+export type DocumentReview = Database['public']['Tables']['document_reviews']['Row']
+export type ReviewDecision = 'approved' | 'rejected' | 'resubmitted'
+
+// Review entry data
+export interface DocumentReviewData {
+  decision?: ReviewDecision
+  reason?: string
+  comment?: string
+}
+
+/**
+ * Record a review entry (decision and/or comment) on a document.
+ * The author is filled in by the database from the current session.
+ */
+export async function createDocumentReview(
+  documentId: string,
+  reviewData: DocumentReviewData,
+  client: SupabaseClient<Database> = supabase
+): Promise<DocumentReview> {
+  try {
+    const reason = reviewData.reason?.trim() || null
+    const comment = reviewData.comment?.trim() || null
+
+    if (reviewData.decision === 'rejected' && !reason) {
+      throw new Error('A reason is required to reject a document')
+    }
+
+    if (!reviewData.decision && !comment) {
+      throw new Error('Comment cannot be empty')
+    }
+
+    const { data, error } = await client
+      .from('document_reviews')
+      .insert({
+        document_id: documentId,
+        decision: reviewData.decision || null,
+        reason,
+        comment
+      } as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error('Error saving document review: ' + error.message)
+    }
+
+    return data as DocumentReview
+  } catch (error) {
+    console.error('Error in createDocumentReview:', error)
+    throw error
+  }
+}
+
+/**
+ * Add a free-text comment to a document's review thread
+ */
+export async function addReviewComment(documentId: string, comment: string): Promise<DocumentReview> {
+  return createDocumentReview(documentId, { comment })
+}
+
+/**
+ * Fetch the review thread for a document, oldest entry first
+ */
+export async function fetchDocumentReviews(documentId: string): Promise<DocumentReview[]> {
+  try {
+    const { data, error } = await supabase
+      .from('document_reviews')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error('Error fetching document reviews: ' + error.message)
+    }
+
+    return (data as DocumentReview[]) || []
+  } catch (error) {
+    console.error('Error in fetchDocumentReviews:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the most recent decision for each of the given documents
+ */
+export async function fetchLatestDecisions(
+  documentIds: string[],
+  client: SupabaseClient<Database> = supabase
+): Promise<Record<string, DocumentReview>> {
+  try {
+    if (documentIds.length === 0) return {}
+
+    const { data, error } = await client
+      .from('document_reviews')
+      .select('*')
+      .in('document_id', documentIds)
+      .not('decision', 'is', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error('Error fetching latest decisions: ' + error.message)
+    }
+
+    const latest: Record<string, DocumentReview> = {}
+    for (const review of (data as DocumentReview[]) || []) {
+      // Rows are newest first, so the first one seen per document wins
+      if (!latest[review.document_id]) {
+        latest[review.document_id] = review
+      }
+    }
+
+    return latest
+  } catch (error) {
+    console.error('Error in fetchLatestDecisions:', error)
+    throw error
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from './supabase'
-import { User } from '@supabase/supabase-js'
+import { User, SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
 import { logger } from './logger'
 
 export type UserRole = 'pilot' | 'admin' | 'inspector'
@@ -9,9 +10,12 @@ export interface UserWithRole extends User {
 }
 
 // Get user's role from the database
-export async function getUserRole(userId: string): Promise<UserRole | null> {
+export async function getUserRole(
+  userId: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<UserRole | null> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('user_roles')
       .select('role')
       .eq('user_id', userId)
@@ -1,26 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import * as tus from 'tus-js-client'
 import { supabase } from './supabase'
+import type { Database } from './database.types'
+import type { DocumentType } from './documents'
+import {
+  getDocumentTypeDefinition,
+  getAllowedMimeTypes,
+  getMaxFileSize,
+  describeAllowedFileTypes,
+  DocumentTypeDefinition
+} from './documentTypes'
+import { inspectFile, inspectFileContent, hashFile, hashFileContent, FileInspectionResult } from './fileInspection'
+
+const BUCKET_NAME = 'pilot-documents'
+
+// Supabase only accepts resumable uploads in 6MB chunks
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024
+
+// Build the storage path, with the extension taken from the detected content
+// rather than whatever the pilot's file happened to be called
+function buildDocumentPath(
+  userId: string,
+  documentType: DocumentType,
+  inspection: FileInspectionResult,
+  fileName?: string
+) {
+  const baseName = fileName ? fileName.replace(/\.[^/.]+$/, '') : `${documentType}_${Date.now()}`
+  return `${userId}/${documentType}/${baseName}.${inspection.extension}`
+}
+
+// Thumbnails live next to the original: a/b/name.pdf -> a/b/name.thumb.webp
+export function getThumbnailPath(filePath: string) {
+  return filePath.replace(/\.[^/.]+$/, '') + '.thumb.webp'
+}
 
 // File upload utility for pilot documents
 export async function uploadPilotDocument(
   file: File, 
   userId: string, 
-  documentType: 'noc' | 'medical_certificate' | 'alcohol_test' | 'license_certification' | 'training_records',
-  fileName?: string
+  documentType: DocumentType,
+  fileName?: string,
+  client: SupabaseClient<Database> = supabase
 ) {
   try {
-    // Generate unique filename
-    const timestamp = Date.now()
-    const fileExt = file.name.split('.').pop()
-    const finalFileName = fileName || `${documentType}_${timestamp}.${fileExt}`
-    
+    // Check what the file really is before storing it
+    const inspection = await inspectFile(file)
+    if (!inspection.valid) {
+      throw new Error(inspection.error)
+    }
+
+    const contentHash = await hashFile(file)
+
     // Create folder structure: userId/documentType/filename
-    const filePath = `${userId}/${documentType}/${finalFileName}`
+    const filePath = buildDocumentPath(userId, documentType, inspection, fileName)
 
     // Upload file
-    const { data, error } = await supabase.storage
-      .from('pilot-documents')
+    const { data, error } = await client.storage
+      .from(BUCKET_NAME)
       .upload(filePath, file, {
         cacheControl: '3600',
+        contentType: inspection.mimeType,
         upsert: false,
         metadata: {
           userId,
@@ -36,7 +75,9 @@ export async function uploadPilotDocument(
     return {
       success: true,
       path: data.path,
-      fullPath: filePath
+      fullPath: filePath,
+      fileType: inspection.mimeType,
+      contentHash
     }
   } catch (error) {
     // Upload failed
@@ -47,40 +88,225 @@ export async function uploadPilotDocument(
   }
 }
 
-// Get signed URL for viewing documents
-export async function getDocumentUrl(filePath: string) {
+// Options for a resumable upload
+export interface ResumableUploadOptions {
+  fileName?: string
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+  client?: SupabaseClient<Database>
+}
+
+// An upload that was interrupted and can be resumed by selecting the same file again
+export interface InterruptedUpload {
+  urlStorageKey: string
+  objectName: string
+  originalName: string
+  documentType: DocumentType
+  size: number | null
+  startedAt: string
+}
+
+function getResumableEndpoint() {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`
+}
+
+// Resumable (TUS) upload for large scans on unreliable connections.
+// The upload URL is kept in localStorage, so selecting the same file again
+// after a dropped connection or page reload continues where it stopped.
+export async function uploadPilotDocumentResumable(
+  file: File,
+  userId: string,
+  documentType: DocumentType,
+  options: ResumableUploadOptions = {}
+) {
+  const client = options.client || supabase
+
   try {
-    const { data, error } = await supabase.storage
-      .from('pilot-documents')
-      .createSignedUrl(filePath, 3600) // 1 hour expiry
+    const { data: { session } } = await client.auth.getSession()
+    if (!session) {
+      throw new Error('You must be signed in to upload documents')
+    }
 
-    if (error) {
-      throw error
+    // Catch mislabelled files before spending bandwidth on them
+    const inspection = await inspectFile(file)
+    if (!inspection.valid) {
+      throw new Error(inspection.error)
     }
 
-    if (!data || !data.signedUrl) {
-      throw new Error('No signed URL returned')
+    let filePath = buildDocumentPath(userId, documentType, inspection, options.fileName)
+
+    const upload = new tus.Upload(file, {
+      endpoint: getResumableEndpoint(),
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      chunkSize: RESUMABLE_CHUNK_SIZE,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      headers: {
+        'x-upsert': 'false'
+      },
+      metadata: {
+        bucketName: BUCKET_NAME,
+        objectName: filePath,
+        contentType: inspection.mimeType!,
+        cacheControl: '3600',
+        metadata: JSON.stringify({ userId, documentType, originalName: file.name })
+      },
+      // Long uploads can outlive an access token, so fetch the current one per request
+      onBeforeRequest: async (req) => {
+        const { data } = await client.auth.getSession()
+        req.setHeader('Authorization', `Bearer ${data.session?.access_token || session.access_token}`)
+      },
+      onProgress: options.onProgress
+    })
+
+    // Continue an earlier upload of this file into the same folder
+    const previousUploads = await upload.findPreviousUploads()
+    const previous = previousUploads.find(previousUpload =>
+      previousUpload.metadata.objectName?.startsWith(`${userId}/${documentType}/`)
+    )
+
+    if (previous) {
+      filePath = previous.metadata.objectName
+      upload.options.metadata = { ...upload.options.metadata, objectName: filePath }
+      upload.resumeFromPreviousUpload(previous)
     }
 
+    await new Promise<void>((resolve, reject) => {
+      upload.options.onSuccess = () => resolve()
+      upload.options.onError = (error) => reject(error)
+      upload.start()
+    })
+
+    // The bytes went straight to storage; completeDocumentUpload has the
+    // server check them before a document record can point at them
     return {
       success: true,
-      url: data.signedUrl
+      path: filePath,
+      fullPath: filePath,
+      resumed: Boolean(previous)
     }
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to get URL'
+      error: error instanceof Error ? error.message : 'Upload failed'
     }
   }
 }
 
+// List this browser's unfinished resumable uploads for a user
+export async function getInterruptedUploads(userId: string): Promise<InterruptedUpload[]> {
+  if (!tus.canStoreURLs) return []
+
+  try {
+    const uploads = await tus.defaultOptions.urlStorage.findAllUploads()
+
+    return uploads
+      .filter(upload => upload.metadata.objectName?.startsWith(`${userId}/`))
+      .map(upload => {
+        let details: { documentType?: DocumentType; originalName?: string } = {}
+        try {
+          details = JSON.parse(upload.metadata.metadata || '{}')
+        } catch {
+          // Older entries without custom metadata fall back to the object path
+        }
+
+        return {
+          urlStorageKey: upload.urlStorageKey,
+          objectName: upload.metadata.objectName,
+          originalName: details.originalName || upload.metadata.objectName.split('/').pop() || 'Unknown file',
+          documentType: details.documentType || (upload.metadata.objectName.split('/')[1] as DocumentType),
+          size: upload.size,
+          startedAt: upload.creationTime
+        }
+      })
+  } catch (error) {
+    console.warn('Failed to read interrupted uploads:', error)
+    return []
+  }
+}
+
+// Forget an interrupted upload so it is not offered for resuming again
+export async function discardInterruptedUpload(upload: InterruptedUpload): Promise<void> {
+  try {
+    await tus.defaultOptions.urlStorage.removeUpload(upload.urlStorageKey)
+  } catch (error) {
+    console.warn('Failed to discard interrupted upload:', error)
+  }
+}
+
+/**
+ * Inspect a stored upload on the server. Anything that fails inspection,
+ * exceeds its type's size limit or is stored under the wrong extension
+ * is deleted from storage.
+ */
+export async function verifyStoredDocument(
+  filePath: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<FileInspectionResult & { size?: number }> {
+  const { data, error } = await client.storage
+    .from(BUCKET_NAME)
+    .download(filePath)
+
+  if (error || !data) {
+    throw new Error('Error downloading upload for inspection: ' + (error?.message || 'not found'))
+  }
+
+  const definition = await getDocumentTypeDefinition(filePath.split('/')[1], client)
+  const bytes = new Uint8Array(await data.arrayBuffer())
+  let result = await inspectFileContent(bytes)
+
+  if (result.valid && !definition) {
+    result = { valid: false, error: 'Upload is not stored under a known document type' }
+  } else if (result.valid && !definition!.allowed_mime_types.includes(result.mimeType!)) {
+    result = { valid: false, error: `${definition!.label} uploads must be ${describeAllowedFileTypes(definition)}` }
+  } else if (result.valid && data.size > getMaxFileSize(definition)) {
+    result = { valid: false, error: `File size too large. Maximum size is ${Math.round(getMaxFileSize(definition) / 1024 / 1024)}MB.` }
+  } else if (result.valid && !filePath.endsWith(`.${result.extension}`)) {
+    result = { valid: false, error: `File is stored with the wrong extension for ${result.mimeType}` }
+  }
+
+  if (!result.valid) {
+    const { error: removeError } = await client.storage.from(BUCKET_NAME).remove([filePath])
+    if (removeError) {
+      console.warn('Failed to remove rejected upload:', removeError)
+    }
+    return result
+  }
+
+  return { ...result, contentHash: await hashFileContent(bytes), size: data.size }
+}
+
+// Signed thumbnail URLs in one request, keyed by document id.
+// Documents without a thumbnail are left out.
+export async function getThumbnailUrls(
+  documents: { id: string; thumbnail_url: string | null }[],
+  client: SupabaseClient<Database> = supabase
+): Promise<Record<string, string>> {
+  const withThumbnails = documents.filter(doc => doc.thumbnail_url)
+  if (withThumbnails.length === 0) return {}
+
+  const { data, error } = await client.storage
+    .from(BUCKET_NAME)
+    .createSignedUrls(withThumbnails.map(doc => doc.thumbnail_url!), 3600) // 1 hour expiry
+
+  if (error) {
+    throw new Error('Error getting thumbnail URLs: ' + error.message)
+  }
+
+  const urls: Record<string, string> = {}
+  withThumbnails.forEach((doc, index) => {
+    const signedUrl = data?.[index]?.signedUrl
+    if (signedUrl) urls[doc.id] = signedUrl
+  })
+  return urls
+}
+
 // List user's documents
 export async function listUserDocuments(userId: string, documentType?: string) {
   try {
     const folderPath = documentType ? `${userId}/${documentType}` : `${userId}/`
     
     const { data, error } = await supabase.storage
-      .from('pilot-documents')
+      .from(BUCKET_NAME)
       .list(folderPath, {
         limit: 100,
         offset: 0,
@@ -104,11 +330,12 @@ export async function listUserDocuments(userId: string, documentType?: string) {
 }
 
 // Delete document
-export async function deleteDocument(filePath: string) {
+export async function deleteDocument(filePath: string, client: SupabaseClient<Database> = supabase) {
   try {
-    const { error } = await supabase.storage
-      .from('pilot-documents')
-      .remove([filePath])
+    // Removing a thumbnail that was never generated is not an error
+    const { error } = await client.storage
+      .from(BUCKET_NAME)
+      .remove([filePath, getThumbnailPath(filePath)])
 
     if (error) {
       throw error
@@ -127,7 +354,7 @@ export async function deleteDocument(filePath: string) {
 export async function getAllDocuments() {
   try {
     const { data, error } = await supabase.storage
-      .from('pilot-documents')
+      .from(BUCKET_NAME)
       .list('', {
         limit: 1000,
         offset: 0,
@@ -150,28 +377,23 @@ export async function getAllDocuments() {
   }
 }
 
-// Validate file type and size
-export function validateFile(file: File) {
-  const allowedTypes = [
-    'application/pdf',
-    'image/jpeg',
-    'image/jpg', 
-    'image/png'
-  ]
+// Validate file type and size against the rules of the document type
+export function validateFile(file: File, documentType?: DocumentTypeDefinition | null) {
+  const allowedTypes = getAllowedMimeTypes(documentType)
   
-  const maxSize = 10 * 1024 * 1024 // 10MB
+  const maxSize = getMaxFileSize(documentType)
   
   if (!allowedTypes.includes(file.type)) {
     return {
       valid: false,
-      error: 'Invalid file type. Only PDF and image files are allowed.'
+      error: `Invalid file type. Only ${describeAllowedFileTypes(documentType)} files are allowed.`
     }
   }
   
   if (file.size > maxSize) {
     return {
       valid: false,
-      error: 'File size too large. Maximum size is 10MB.'
+      error: `File size too large. Maximum size is ${Math.round(maxSize / 1024 / 1024)}MB.`
     }
   }
   
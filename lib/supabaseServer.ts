@@ -0,0 +1,57 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+
+// Server-only Supabase access. Never import this from client components:
+// the service role key bypasses row level security.
+
+let serviceClient: SupabaseClient<Database> | null = null
+
+// Service role client for trusted server tasks such as cron jobs
+export function getServiceSupabase(): SupabaseClient<Database> {
+  if (serviceClient) return serviceClient
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+  }
+
+  serviceClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    },
+    global: {
+      headers: {
+        'X-Client-Info': 'pilot-management-server',
+      },
+    },
+  })
+
+  return serviceClient
+}
+
+// Client that acts as the caller, so row level security and auth.uid() apply
+// exactly as they would in the browser
+export function createUserSupabase(accessToken: string): SupabaseClient<Database> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY')
+  }
+
+  return createClient<Database>(supabaseUrl, anonKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    },
+    global: {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'X-Client-Info': 'pilot-management-api',
+      },
+    },
+  })
+}
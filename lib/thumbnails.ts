@@ -0,0 +1,225 @@
+import path from 'path'
+import sharp from 'sharp'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { inspectFileContent } from './fileInspection'
+import { getThumbnailPath } from './storage'
+
+// Server-only preview generation. Thumbnails are stored next to the
+// original as "<name>.thumb.webp" and referenced from documents.thumbnail_url.
+
+const BUCKET_NAME = 'pilot-documents'
+export const THUMBNAIL_SIZE = 320
+// The backfill gives up on a document after this many failed attempts
+export const MAX_THUMBNAIL_ATTEMPTS = 3
+
+// Summary of a thumbnail backfill run
+export interface ThumbnailRunReport {
+  dryRun: boolean
+  queued: Array<{ id: string; title: string }>
+  generatedCount: number
+  failedCount: number
+  failures: Array<{ id: string; title: string; error: string }>
+}
+
+// PDF pages are rendered at twice the thumbnail size and scaled down, which
+// keeps small print legible
+const PDF_RENDER_WIDTH = THUMBNAIL_SIZE * 2
+
+// PDFs that use the standard 14 fonts without embedding them render their
+// text from these. pdfjs-dist is kept out of the server bundle (see
+// next.config.js), so its files are where npm installed them.
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts') + path.sep
+
+async function renderPdfFirstPage(content: Uint8Array): Promise<Buffer> {
+  // The legacy build runs in Node and draws through @napi-rs/canvas
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const pdf = await pdfjs.getDocument({
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    data: content.slice(),
+    isEvalSupported: false,
+    disableFontFace: true,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL
+  }).promise
+
+  try {
+    const page = await pdf.getPage(1)
+    const baseViewport = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / baseViewport.width })
+
+    const canvasFactory = pdf.canvasFactory as {
+      create(width: number, height: number): {
+        canvas: { toBuffer(mimeType: 'image/png'): Buffer }
+        context: CanvasRenderingContext2D
+      }
+    }
+    const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+    await page.render({ canvas: null, canvasContext: context, viewport }).promise
+    return canvas.toBuffer('image/png')
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * Render a WebP thumbnail: the first page of a PDF, or a downscaled image.
+ * The type is taken from the content, not from the stored metadata.
+ */
+export async function renderThumbnail(content: Uint8Array): Promise<Buffer> {
+  const inspection = await inspectFileContent(content)
+  if (!inspection.valid) {
+    throw new Error('Cannot render a thumbnail: ' + inspection.error)
+  }
+
+  const source = inspection.mimeType === 'application/pdf'
+    ? await renderPdfFirstPage(content)
+    : Buffer.from(content)
+
+  return sharp(source)
+    // Apply EXIF orientation so phone photos are not shown sideways
+    .rotate()
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .webp({ quality: 75 })
+    .toBuffer()
+}
+
+// Count a failed attempt against the document, so the backfill can give up on it
+async function recordThumbnailFailure(
+  client: SupabaseClient<Database>,
+  documentId: string,
+  reason: string
+): Promise<void> {
+  const { data } = await client
+    .from('documents')
+    .select('thumbnail_attempts')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  const attempts = (data as { thumbnail_attempts: number } | null)?.thumbnail_attempts || 0
+  const { error } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('documents')
+    .update({ thumbnail_attempts: attempts + 1, thumbnail_error: reason })
+    .eq('id', documentId)
+
+  if (error) {
+    console.warn('Failed to record thumbnail failure:', error)
+  }
+}
+
+/**
+ * Generate, store and record the thumbnail of a document. A failure is
+ * recorded on the document before it is thrown.
+ * Must run with the service role client, like the malware scan that calls it.
+ */
+export async function generateDocumentThumbnail(
+  client: SupabaseClient<Database>,
+  document: { id: string; file_url: string },
+  content: Uint8Array
+): Promise<string> {
+  try {
+    return await storeDocumentThumbnail(client, document, content)
+  } catch (error) {
+    await recordThumbnailFailure(client, document.id, error instanceof Error ? error.message : 'Thumbnail generation failed')
+    throw error
+  }
+}
+
+async function storeDocumentThumbnail(
+  client: SupabaseClient<Database>,
+  document: { id: string; file_url: string },
+  content: Uint8Array
+): Promise<string> {
+  const thumbnail = await renderThumbnail(content)
+  const thumbnailPath = getThumbnailPath(document.file_url)
+
+  const { error: uploadError } = await client.storage
+    .from(BUCKET_NAME)
+    .upload(thumbnailPath, thumbnail, {
+      cacheControl: '3600',
+      contentType: 'image/webp',
+      upsert: true
+    })
+
+  if (uploadError) {
+    throw new Error('Error storing thumbnail: ' + uploadError.message)
+  }
+
+  const { error: updateError } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('documents')
+    .update({ thumbnail_url: thumbnailPath, thumbnail_error: null })
+    .eq('id', document.id)
+
+  if (updateError) {
+    throw new Error('Error recording thumbnail: ' + updateError.message)
+  }
+
+  return thumbnailPath
+}
+
+/**
+ * Generate thumbnails for documents that have none yet: uploads from before
+ * thumbnails existed and any whose generation failed after the scan.
+ * Quarantined documents are skipped until they scan clean, and documents
+ * that have failed MAX_THUMBNAIL_ATTEMPTS times are left without one.
+ * Those with the fewest failures go first.
+ */
+export async function generateMissingThumbnails(
+  client: SupabaseClient<Database>,
+  options: { dryRun?: boolean; limit?: number } = {}
+): Promise<ThumbnailRunReport> {
+  const { dryRun = false, limit = 25 } = options
+
+  const { data, error } = await client
+    .from('documents')
+    .select('id, title, file_url')
+    .is('thumbnail_url', null)
+    .lt('thumbnail_attempts', MAX_THUMBNAIL_ATTEMPTS)
+    .neq('status', 'quarantined')
+    .is('deleted_at', null)
+    .order('thumbnail_attempts', { ascending: true })
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error('Error fetching documents without thumbnails: ' + error.message)
+  }
+
+  const queue = (data || []) as Array<{ id: string; title: string; file_url: string }>
+  const report: ThumbnailRunReport = {
+    dryRun,
+    queued: queue.map(doc => ({ id: doc.id, title: doc.title })),
+    generatedCount: 0,
+    failedCount: 0,
+    failures: []
+  }
+
+  if (dryRun) return report
+
+  for (const document of queue) {
+    try {
+      const { data: file, error: downloadError } = await client.storage
+        .from(BUCKET_NAME)
+        .download(document.file_url)
+
+      if (downloadError || !file) {
+        const reason = 'Could not download file: ' + (downloadError?.message || 'not found')
+        await recordThumbnailFailure(client, document.id, reason)
+        throw new Error(reason)
+      }
+
+      await generateDocumentThumbnail(client, document, new Uint8Array(await file.arrayBuffer()))
+      report.generatedCount++
+    } catch (thumbnailError) {
+      report.failedCount++
+      report.failures.push({
+        id: document.id,
+        title: document.title,
+        error: thumbnailError instanceof Error ? thumbnailError.message : 'Thumbnail generation failed'
+      })
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,287 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { logAuditAction } from './audit'
+import { deleteDocument } from './storage'
+import { assertNotOnLegalHold, fetchHeldDocumentIds } from './legalHolds'
+import { DOCUMENT_LIST_COLUMNS, DocumentWithPilot } from './documents'
+
+// Server-only. Deleting a document moves it to the trash: the row is flagged
+// with deleted_at/deleted_by and hidden from the app by row level security,
+// while the file stays in storage. Admins can restore a trashed document or
+// purge it, and the cleanup job purges whatever has been in the trash longer
+// than the retention window. Purging removes the stored files but keeps the
+// row, so the document's reviews and audit trail stay on record.
+// These functions must run with the service role client: app users can
+// neither see nor change trashed rows.
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The parts of a document that trash operations need
+export interface TrashCandidate {
+  id: string
+  pilot_id: string
+  title: string
+  file_url: string
+  thumbnail_url: string | null
+  deleted_at: string | null
+  purged_at: string | null
+  pilots: {
+    user_id: string
+  }
+}
+
+// Document removed by the retention purge
+export interface PurgedDocumentSummary {
+  id: string
+  title: string
+  deleted_at: string
+}
+
+// Summary of a retention purge run
+export interface TrashPurgeReport {
+  dryRun: boolean
+  checkedAt: string
+  retentionDays: number
+  purgedCount: number
+  documents: PurgedDocumentSummary[]
+  // Past retention but kept because of a legal hold
+  held: PurgedDocumentSummary[]
+  failedCount: number
+  failures: Array<{ id: string; title: string; error: string }>
+}
+
+/**
+ * Read the retention window from TRASH_RETENTION_DAYS (default 30)
+ */
+export function getTrashRetentionDays(): number {
+  const configured = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10)
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Fetch a document whether or not it is in the trash, for the routes'
+ * ownership checks. Returns null for unknown ids.
+ */
+export async function getTrashCandidate(
+  client: SupabaseClient<Database>,
+  documentId: string
+): Promise<TrashCandidate | null> {
+  const { data, error } = await client
+    .from('documents')
+    .select('id, pilot_id, title, file_url, thumbnail_url, deleted_at, purged_at, pilots!inner ( user_id )')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error fetching document: ' + error.message)
+  }
+
+  return data as unknown as TrashCandidate | null
+}
+
+/**
+ * Move a document to the trash. Trashing the current version reinstates
+ * the previous one. Returns false if the document was already trashed.
+ * Throws a LegalHoldError if the document is under legal hold.
+ * deletedBy is null when a scheduled task removes the document.
+ */
+export async function moveDocumentToTrash(
+  client: SupabaseClient<Database>,
+  document: TrashCandidate,
+  deletedBy: string | null
+): Promise<boolean> {
+  await assertNotOnLegalHold({ pilotId: document.pilot_id, documentId: document.id }, client)
+
+  // Trashing the current version and reinstating the previous one happen in
+  // one transaction, so the group is never left without a current version
+  const { data, error } = await (client as any).rpc('trash_document', { // eslint-disable-line @typescript-eslint/no-explicit-any
+    p_document_id: document.id,
+    p_deleted_by: deletedBy
+  })
+
+  if (error) {
+    throw new Error('Error moving document to trash: ' + error.message)
+  }
+
+  return data === true
+}
+
+/**
+ * Take a document out of the trash. It becomes current again if no newer
+ * version has been uploaded in the meantime. Returns false if the document
+ * is not in the trash or has been purged. Held documents stay where they
+ * are, so this throws a LegalHoldError for them too.
+ */
+export async function restoreDocumentFromTrash(
+  client: SupabaseClient<Database>,
+  document: TrashCandidate
+): Promise<boolean> {
+  await assertNotOnLegalHold({ pilotId: document.pilot_id, documentId: document.id }, client)
+
+  const { data, error } = await (client as any).rpc('restore_trashed_document', { // eslint-disable-line @typescript-eslint/no-explicit-any
+    p_document_id: document.id
+  })
+
+  if (error) {
+    throw new Error('Error restoring document: ' + error.message)
+  }
+
+  return data === true
+}
+
+/**
+ * Permanently remove a trashed document's file and thumbnail from storage.
+ * The row stays behind, marked as purged. Returns false if the document is
+ * not in the trash or has already been purged. Throws a LegalHoldError if
+ * the document is under legal hold.
+ */
+export async function purgeTrashedDocument(
+  client: SupabaseClient<Database>,
+  document: TrashCandidate
+): Promise<boolean> {
+  if (!document.deleted_at || document.purged_at) return false
+
+  await assertNotOnLegalHold({ pilotId: document.pilot_id, documentId: document.id }, client)
+
+  // Mark the row first: the database refuses this for held documents, so a
+  // hold placed since the check above still keeps the file
+  const { data, error } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('documents')
+    .update({ purged_at: new Date().toISOString(), thumbnail_url: null })
+    .eq('id', document.id)
+    .not('deleted_at', 'is', null)
+    .is('purged_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error recording purge: ' + error.message)
+  }
+
+  if (!data) return false
+
+  const storageResult = await deleteDocument(document.file_url, client)
+  if (!storageResult.success) {
+    // Put the document back in the trash so a later run can try again
+    await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+      .from('documents')
+      .update({ purged_at: null, thumbnail_url: document.thumbnail_url })
+      .eq('id', document.id)
+
+    throw new Error('Failed to delete file from storage: ' + (storageResult.error || 'unknown error'))
+  }
+
+  return true
+}
+
+/**
+ * List the documents in the trash, most recently deleted first.
+ * Pass a user id to list only that pilot's documents.
+ */
+export async function listTrashedDocuments(
+  client: SupabaseClient<Database>,
+  options: { ownerUserId?: string } = {}
+): Promise<DocumentWithPilot[]> {
+  let query = client
+    .from('documents')
+    .select(`
+      ${DOCUMENT_LIST_COLUMNS},
+      pilots!inner (
+        id,
+        user_id,
+        first_name,
+        last_name,
+        email,
+        pilot_license
+      )
+    `)
+    .not('deleted_at', 'is', null)
+    .is('purged_at', null)
+
+  if (options.ownerUserId) {
+    query = query.eq('pilots.user_id', options.ownerUserId)
+  }
+
+  const { data, error } = await query.order('deleted_at', { ascending: false })
+
+  if (error) {
+    throw new Error('Error fetching trash: ' + error.message)
+  }
+
+  return (data || []) as DocumentWithPilot[]
+}
+
+/**
+ * Purge documents that have been in the trash longer than the retention
+ * window. Documents under legal hold are kept and listed as held.
+ * In dry-run mode nothing is removed; the report lists what would be.
+ */
+export async function purgeExpiredTrash(
+  client: SupabaseClient<Database>,
+  options: { dryRun?: boolean; limit?: number; now?: Date; retentionDays?: number } = {}
+): Promise<TrashPurgeReport> {
+  const { dryRun = false, limit = 100, now = new Date(), retentionDays = getTrashRetentionDays() } = options
+  const checkedAt = now.toISOString()
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString()
+
+  const { data, error } = await client
+    .from('documents')
+    .select('id, pilot_id, title, file_url, thumbnail_url, deleted_at, purged_at, pilots!inner ( user_id )')
+    .not('deleted_at', 'is', null)
+    .lt('deleted_at', cutoff)
+    .is('purged_at', null)
+    .order('deleted_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error('Error fetching expired trash: ' + error.message)
+  }
+
+  const candidates = (data || []) as unknown as TrashCandidate[]
+  const heldIds = await fetchHeldDocumentIds(candidates, client)
+  const expired = candidates.filter(doc => !heldIds.has(doc.id))
+  const report: TrashPurgeReport = {
+    dryRun,
+    checkedAt,
+    retentionDays,
+    purgedCount: 0,
+    documents: [],
+    held: candidates
+      .filter(doc => heldIds.has(doc.id))
+      .map(doc => ({ id: doc.id, title: doc.title, deleted_at: doc.deleted_at! })),
+    failedCount: 0,
+    failures: []
+  }
+
+  if (dryRun) {
+    report.documents = expired.map(doc => ({ id: doc.id, title: doc.title, deleted_at: doc.deleted_at! }))
+    report.purgedCount = expired.length
+    return report
+  }
+
+  for (const document of expired) {
+    try {
+      if (!(await purgeTrashedDocument(client, document))) continue
+
+      report.purgedCount++
+      report.documents.push({ id: document.id, title: document.title, deleted_at: document.deleted_at! })
+
+      await logAuditAction('documents', document.id, 'DELETE', {
+        document_title: document.title,
+        deleted_at: document.deleted_at,
+        retention_days: retentionDays,
+        action_description: 'Document purged automatically after its trash retention period'
+      }, client)
+    } catch (purgeError) {
+      report.failedCount++
+      report.failures.push({
+        id: document.id,
+        title: document.title,
+        error: purgeError instanceof Error ? purgeError.message : 'Purge failed'
+      })
+    }
+  }
+
+  return report
+}
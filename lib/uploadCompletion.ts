@@ -0,0 +1,189 @@
+import type { AuthenticatedRequest } from './apiAuth'
+import { getServiceSupabase } from './supabaseServer'
+import { verifyStoredDocument, deleteDocument } from './storage'
+import { getDocumentTypeDefinition, DocumentTypeDefinition } from './documentTypes'
+import { getMetadataFields, validateDocumentMetadata, DocumentMetadata } from './documentMetadata'
+import { resolveDocumentExpiry, fetchPilotDateOfBirth, needsDateOfBirth } from './validityRules'
+import { createMalwareScanner, scanDocument, DocumentScanSummary } from './malwareScan'
+import { auditHelpers } from './audit'
+import { getOrCreatePilotRecord, saveDocumentMetadata, findDuplicateDocuments, Document } from './documents'
+
+// Server-only: turning a stored upload into a document record. App users
+// cannot insert documents themselves; every upload path ends here, where
+// the stored bytes are inspected and the detected type and content hash
+// are recorded rather than anything the browser reports.
+
+// Upload details as received, before validation
+export interface UploadDetailsInput {
+  title: unknown
+  document_type: unknown
+  expiry_date?: unknown
+  issue_date?: unknown
+  metadata?: unknown
+  extracted_text?: unknown
+  new_version?: unknown
+}
+
+export interface UploadDetails {
+  title: string
+  document_type: string
+  expiry_date?: string
+  issue_date?: string
+  metadata: DocumentMetadata
+  extracted_text?: string
+  // Whether the upload supersedes the pilot's current document of its type
+  new_version: boolean
+}
+
+export interface UploadDetailsCheck {
+  valid: boolean
+  details?: UploadDetails
+  definition?: DocumentTypeDefinition
+  error?: string
+  // Custom field errors keyed by field
+  fields?: Record<string, string>
+}
+
+export type UploadCompletion =
+  | { success: true; document: Document; scan: DocumentScanSummary; duplicates: Document[] }
+  | { success: false; status: number; error: string }
+
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value))
+
+/**
+ * Check the details sent with an upload. Inactive types stay on existing
+ * documents but take no new uploads.
+ */
+export async function checkUploadDetails(
+  input: UploadDetailsInput,
+  auth: AuthenticatedRequest
+): Promise<UploadDetailsCheck> {
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    return { valid: false, error: 'title is required' }
+  }
+
+  const definition = typeof input.document_type === 'string'
+    ? await getDocumentTypeDefinition(input.document_type, auth.client)
+    : null
+  if (!definition || !definition.is_active) {
+    return { valid: false, error: 'A valid document_type is required' }
+  }
+
+  if (input.expiry_date != null && !isDate(input.expiry_date)) {
+    return { valid: false, error: 'expiry_date must be a date' }
+  }
+  if (input.issue_date != null && !isDate(input.issue_date)) {
+    return { valid: false, error: 'issue_date must be a date' }
+  }
+  if (input.extracted_text != null && typeof input.extracted_text !== 'string') {
+    return { valid: false, error: 'extracted_text must be text' }
+  }
+  // Form uploads send it as text
+  const newVersion = input.new_version === 'true' ? true : input.new_version === 'false' ? false : input.new_version ?? true
+  if (typeof newVersion !== 'boolean') {
+    return { valid: false, error: 'new_version must be true or false' }
+  }
+
+  const metadata = input.metadata ?? {}
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return { valid: false, error: 'metadata must be a JSON object' }
+  }
+  const metadataCheck = validateDocumentMetadata(getMetadataFields(definition), metadata as Record<string, unknown>)
+  if (!metadataCheck.valid) {
+    return { valid: false, error: Object.values(metadataCheck.errors).join('; '), fields: metadataCheck.errors }
+  }
+
+  return {
+    valid: true,
+    definition,
+    details: {
+      title: input.title.trim(),
+      document_type: definition.code,
+      expiry_date: (input.expiry_date as string | undefined) || undefined,
+      issue_date: (input.issue_date as string | undefined) || undefined,
+      metadata: metadataCheck.metadata,
+      extracted_text: (input.extracted_text as string | undefined) || undefined,
+      new_version: newVersion
+    }
+  }
+}
+
+/**
+ * Record a file the caller has put in storage as their document, then scan
+ * it. The file must sit in the caller's folder for the document's type;
+ * a file failing inspection is deleted and no record is created.
+ */
+export async function completeStoredUpload(
+  auth: AuthenticatedRequest,
+  filePath: string,
+  details: UploadDetails,
+  definition: DocumentTypeDefinition
+): Promise<UploadCompletion> {
+  if (!filePath.startsWith(`${auth.user.id}/${definition.code}/`) || filePath.includes('..')) {
+    return { success: false, status: 400, error: 'The file must be stored in your folder for this document type' }
+  }
+
+  // Only the service role may insert documents or read and remove stored files
+  const serviceClient = getServiceSupabase()
+
+  // Create the pilot record up front with the verified user's profile,
+  // since the server client has no session to read it from
+  const pilotId = await getOrCreatePilotRecord(auth.user.id, auth.client, auth.user)
+
+  // Without an expiry date, one is derived from the issue date and the type's validity rules
+  const expiry = resolveDocumentExpiry(definition, {
+    enteredExpiryDate: details.expiry_date,
+    issueDate: details.issue_date,
+    dateOfBirth: needsDateOfBirth(definition) ? await fetchPilotDateOfBirth({ id: pilotId }, auth.client) : null
+  })
+  if (definition.expiry_required && !expiry.expiry_date) {
+    // Nothing will point at the file, so it is not left behind in storage
+    await deleteDocument(filePath, serviceClient)
+    return { success: false, status: 400, error: `expiry_date is required for ${definition.label}` }
+  }
+
+  const verification = await verifyStoredDocument(filePath, serviceClient)
+  if (!verification.valid) {
+    return { success: false, status: 422, error: verification.error || 'File failed inspection' }
+  }
+
+  // Earlier uploads of the same content, reported back to the pilot
+  const duplicates = await findDuplicateDocuments(auth.user.id, verification.contentHash!, auth.client)
+
+  const document = await saveDocumentMetadata(pilotId, {
+    ...details,
+    file_url: filePath,
+    file_size: verification.size!,
+    file_type: verification.mimeType!,
+    content_hash: verification.contentHash
+  }, serviceClient)
+
+  try {
+    await auditHelpers.logDocumentUpload(document.id, document.title, auth.client)
+  } catch (auditError) {
+    // Don't fail the main operation if audit logging fails
+    console.warn('Failed to log document upload:', auditError)
+  }
+
+  // Scan straight away so a clean upload goes to review without waiting for
+  // the cron; without a usable scanner the document simply stays quarantined
+  let scan: DocumentScanSummary
+  try {
+    scan = await scanDocument(serviceClient, createMalwareScanner(), document)
+  } catch (scanError) {
+    console.error('Upload scan failed:', scanError)
+    scan = { id: document.id, title: document.title, verdict: 'error', detail: 'Scanner unavailable' }
+  }
+
+  return {
+    success: true,
+    document: {
+      ...document,
+      status: scan.verdict === 'clean' ? 'pending' : 'quarantined',
+      scan_status: scan.verdict,
+      scan_signature: scan.signature || null
+    },
+    scan,
+    duplicates
+  }
+}
@@ -0,0 +1,397 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addDays, addMonths, differenceInYears, format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import type { Database } from './database.types'
+import type { DocumentTypeDefinition } from './documentTypes'
+import { logAuditAction } from './audit'
+import { fetchLegalHoldIndex, findLegalHold } from './legalHolds'
+
+// Expiry dates derived from a document's issue date. Each document type may
+// list validity rules; the first rule matching the pilot's age on the issue
+// date gives the validity period, and the type's default_validity_days
+// applies when none match. The expiry a pilot enters always wins, but the
+// derived one is stored alongside it so reviewers can spot mismatches.
+
+export interface ValidityRule {
+  // Pilot age on the issue date: min_age inclusive, max_age exclusive
+  min_age?: number
+  max_age?: number
+  validity_months?: number
+  validity_days?: number
+  // Shown to pilots and reviewers, e.g. "12 months for pilots under 40"
+  description?: string
+}
+
+export type ExpirySource = 'entered' | 'derived' | 'backfilled'
+
+// Expiry derived for a document and how it was reached
+export interface ExpiryDerivation {
+  expiryDate: string
+  // null when the type's default validity was used
+  rule: ValidityRule | null
+  description: string
+}
+
+// Expiry fields stored on a document
+export interface ResolvedExpiry {
+  expiry_date: string | null
+  computed_expiry_date: string | null
+  expiry_source: ExpirySource | null
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd'
+
+/**
+ * Validity rules of a document type. Rules without a validity period are
+ * skipped so a bad registry row cannot break uploads.
+ */
+export function getValidityRules(
+  definition?: Pick<DocumentTypeDefinition, 'validity_rules'> | null
+): ValidityRule[] {
+  const rules = definition?.validity_rules
+  if (!Array.isArray(rules)) return []
+  return rules.filter(rule => rule && ((rule.validity_months || 0) > 0 || (rule.validity_days || 0) > 0))
+}
+
+/**
+ * Whether any of the type's rules depends on the pilot's age
+ */
+export function needsDateOfBirth(definition?: Pick<DocumentTypeDefinition, 'validity_rules'> | null): boolean {
+  return getValidityRules(definition).some(rule => rule.min_age !== undefined || rule.max_age !== undefined)
+}
+
+/**
+ * Whether an expiry date can be derived for the type at all, so pilots may
+ * leave it empty even when the type requires one
+ */
+export function canDeriveExpiry(
+  definition?: Pick<DocumentTypeDefinition, 'validity_rules' | 'default_validity_days'> | null
+): boolean {
+  return getValidityRules(definition).length > 0 || Boolean(definition?.default_validity_days)
+}
+
+/**
+ * Human readable validity period of a rule, e.g. "12 months"
+ */
+export function describeValidityRule(rule: ValidityRule): string {
+  if (rule.description) return rule.description
+
+  const parts: string[] = []
+  if (rule.validity_months) parts.push(`${rule.validity_months} month${rule.validity_months !== 1 ? 's' : ''}`)
+  if (rule.validity_days) parts.push(`${rule.validity_days} day${rule.validity_days !== 1 ? 's' : ''}`)
+  const ages = rule.min_age !== undefined && rule.max_age !== undefined
+    ? ` for pilots aged ${rule.min_age} to ${rule.max_age - 1}`
+    : rule.min_age !== undefined
+      ? ` for pilots aged ${rule.min_age} and over`
+      : rule.max_age !== undefined
+        ? ` for pilots under ${rule.max_age}`
+        : ''
+  return parts.join(' and ') + ages
+}
+
+/**
+ * Check a set of rules before it is saved to the registry. Returns the
+ * first problem found, or null.
+ */
+export function validateValidityRules(rules: ValidityRule[]): string | null {
+  for (const [index, rule] of rules.entries()) {
+    const name = `Rule ${index + 1}`
+    const values = [rule.min_age, rule.max_age, rule.validity_months, rule.validity_days]
+    if (values.some(value => value !== undefined && (!Number.isInteger(value) || value < 0))) {
+      return `${name}: ages and periods must be whole numbers`
+    }
+    if (!rule.validity_months && !rule.validity_days) {
+      return `${name}: give a validity period in months or days`
+    }
+    if (rule.min_age !== undefined && rule.max_age !== undefined && rule.min_age >= rule.max_age) {
+      return `${name}: the minimum age must be below the maximum age`
+    }
+  }
+
+  return null
+}
+
+function ruleMatches(rule: ValidityRule, age: number | null): boolean {
+  if (rule.min_age === undefined && rule.max_age === undefined) return true
+  if (age === null) return false
+  if (rule.min_age !== undefined && age < rule.min_age) return false
+  if (rule.max_age !== undefined && age >= rule.max_age) return false
+  return true
+}
+
+/**
+ * Expiry date (yyyy-MM-dd) of a document of this type issued on the given
+ * day, or null if no rule applies and the type has no default validity.
+ * Age-dependent rules are skipped when the pilot's date of birth is unknown.
+ * Documents expire as their expiry date begins, so a rule of one day only
+ * covers the rest of the issue day.
+ */
+export function computeExpiryDate(
+  definition: Pick<DocumentTypeDefinition, 'validity_rules' | 'default_validity_days'> | null | undefined,
+  options: { issueDate?: string | null; dateOfBirth?: string | null } = {}
+): ExpiryDerivation | null {
+  if (!definition) return null
+
+  const issued = options.issueDate ? parseISO(options.issueDate.slice(0, 10)) : new Date()
+  const age = options.dateOfBirth ? differenceInYears(issued, parseISO(options.dateOfBirth)) : null
+
+  const rule = getValidityRules(definition).find(candidate => ruleMatches(candidate, age))
+  if (rule) {
+    const expiry = addDays(addMonths(issued, rule.validity_months || 0), rule.validity_days || 0)
+    return { expiryDate: format(expiry, DATE_FORMAT), rule, description: describeValidityRule(rule) }
+  }
+
+  if (definition.default_validity_days) {
+    return {
+      expiryDate: format(addDays(issued, definition.default_validity_days), DATE_FORMAT),
+      rule: null,
+      description: `${definition.default_validity_days} days by default`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Expiry fields to store for a new document: the entered expiry if given,
+ * otherwise the derived one
+ */
+export function resolveDocumentExpiry(
+  definition: Pick<DocumentTypeDefinition, 'validity_rules' | 'default_validity_days'> | null | undefined,
+  options: { enteredExpiryDate?: string | null; issueDate?: string | null; dateOfBirth?: string | null }
+): ResolvedExpiry {
+  const computed = computeExpiryDate(definition, options)
+
+  if (options.enteredExpiryDate) {
+    return {
+      expiry_date: options.enteredExpiryDate,
+      computed_expiry_date: computed?.expiryDate || null,
+      expiry_source: 'entered'
+    }
+  }
+
+  return {
+    expiry_date: computed?.expiryDate || null,
+    computed_expiry_date: computed?.expiryDate || null,
+    expiry_source: computed ? 'derived' : null
+  }
+}
+
+/**
+ * Whether the expiry a pilot entered differs from the one the rules give
+ */
+export function hasExpiryMismatch(document: {
+  expiry_date: string | null
+  computed_expiry_date: string | null
+  expiry_source: ExpirySource | null
+}): boolean {
+  return document.expiry_source === 'entered' &&
+    Boolean(document.expiry_date && document.computed_expiry_date) &&
+    document.expiry_date!.slice(0, 10) !== document.computed_expiry_date!.slice(0, 10)
+}
+
+/**
+ * Date of birth of a pilot, looked up by pilot or user id, if they have given it
+ */
+export async function fetchPilotDateOfBirth(
+  pilot: { id: string } | { user_id: string },
+  client: SupabaseClient<Database> = supabase
+): Promise<string | null> {
+  const [column, value] = 'id' in pilot ? ['id', pilot.id] : ['user_id', pilot.user_id]
+  const { data, error } = await client
+    .from('pilots')
+    .select('date_of_birth')
+    .eq(column, value)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error('Error fetching pilot date of birth: ' + error.message)
+  }
+
+  return (data as { date_of_birth: string | null } | null)?.date_of_birth || null
+}
+
+/**
+ * Record a pilot's date of birth, used by age-dependent validity rules
+ */
+export async function updatePilotDateOfBirth(
+  pilotId: string,
+  dateOfBirth: string,
+  client: SupabaseClient<Database> = supabase
+): Promise<void> {
+  const { error } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+    .from('pilots')
+    .update({ date_of_birth: dateOfBirth, updated_at: new Date().toISOString() })
+    .eq('id', pilotId)
+
+  if (error) {
+    throw new Error('Error updating pilot date of birth: ' + error.message)
+  }
+}
+
+// Document given an expiry date by the backfill
+export interface BackfilledExpirySummary {
+  id: string
+  pilot_id: string
+  document_type: string
+  title: string
+  issue_date: string
+  expiry_date: string
+  rule: string
+}
+
+// Summary of an expiry backfill run
+export interface ExpiryBackfillReport {
+  dryRun: boolean
+  checkedAt: string
+  backfilledCount: number
+  documents: BackfilledExpirySummary[]
+  // No rule applied, e.g. the pilot's date of birth is unknown
+  skippedCount: number
+  // Left alone because of a legal hold
+  heldCount: number
+  // Updates the database refused, e.g. for a hold placed during the run
+  failedCount: number
+  failures: Array<{ id: string; title: string; error: string }>
+}
+
+// Documents without an expiry date read per query by the backfill
+const BACKFILL_PAGE_SIZE = 500
+
+/**
+ * Give existing documents without an expiry date the one their type's
+ * validity rules derive, counting from the issue date or, failing that, the
+ * upload date. Documents whose expiry comes out in the past are picked up
+ * by the next expiry sweep. At most `limit` documents are backfilled per
+ * run; documents that get none do not count towards it. A document whose
+ * update fails is reported and does not hold back the others.
+ */
+export async function backfillMissingExpiryDates(
+  client: SupabaseClient<Database>,
+  options: { dryRun?: boolean; limit?: number; now?: Date } = {}
+): Promise<ExpiryBackfillReport> {
+  const { dryRun = false, limit = 500, now = new Date() } = options
+  const report: ExpiryBackfillReport = {
+    dryRun,
+    checkedAt: now.toISOString(),
+    backfilledCount: 0,
+    documents: [],
+    skippedCount: 0,
+    heldCount: 0,
+    failedCount: 0,
+    failures: []
+  }
+
+  const { data: typeData, error: typeError } = await client
+    .from('document_types')
+    .select('code, validity_rules, default_validity_days')
+
+  if (typeError) {
+    throw new Error('Error fetching document types: ' + typeError.message)
+  }
+
+  const definitions = ((typeData || []) as Array<Pick<DocumentTypeDefinition, 'code' | 'validity_rules' | 'default_validity_days'>>)
+    .filter(definition => canDeriveExpiry(definition))
+  if (definitions.length === 0) return report
+
+  const holds = await fetchLegalHoldIndex(client)
+
+  // Documents that get no expiry, such as those of pilots without a date of
+  // birth, under a legal hold or whose update fails, are passed over without counting against
+  // the limit, so they cannot keep the rest waiting
+  let lastId: string | null = null
+  while (report.backfilledCount < limit) {
+    let query = client
+      .from('documents')
+      .select('id, pilot_id, document_type, title, issue_date, upload_date, pilots!inner ( date_of_birth )')
+      .in('document_type', definitions.map(definition => definition.code))
+      .is('expiry_date', null)
+      .is('deleted_at', null)
+      .is('purged_at', null)
+      .order('id', { ascending: true })
+      .limit(BACKFILL_PAGE_SIZE)
+    if (lastId) query = query.gt('id', lastId)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error('Error fetching documents without an expiry date: ' + error.message)
+    }
+
+    const candidates = (data || []) as unknown as Array<{
+      id: string
+      pilot_id: string
+      document_type: string
+      title: string
+      issue_date: string | null
+      upload_date: string
+      pilots: { date_of_birth: string | null }
+    }>
+    if (candidates.length === 0) break
+    lastId = candidates[candidates.length - 1].id
+
+    for (const document of candidates) {
+      if (report.backfilledCount >= limit) break
+      if (findLegalHold(holds, document)) {
+        report.heldCount++
+        continue
+      }
+
+      const issueDate = (document.issue_date || document.upload_date).slice(0, 10)
+      const derived = computeExpiryDate(
+        definitions.find(definition => definition.code === document.document_type),
+        { issueDate, dateOfBirth: document.pilots.date_of_birth }
+      )
+
+      if (!derived) {
+        report.skippedCount++
+        continue
+      }
+
+      if (!dryRun) {
+        // Only fill in a still-missing expiry, in case one was entered meanwhile
+        const { data: updated, error: updateError } = await (client as any) // eslint-disable-line @typescript-eslint/no-explicit-any
+          .from('documents')
+          .update({
+            expiry_date: derived.expiryDate,
+            computed_expiry_date: derived.expiryDate,
+            expiry_source: 'backfilled',
+            updated_at: report.checkedAt
+          })
+          .eq('id', document.id)
+          .is('expiry_date', null)
+          .select('id')
+
+        if (updateError) {
+          report.failedCount++
+          report.failures.push({ id: document.id, title: document.title, error: updateError.message })
+          continue
+        }
+        if (!updated || updated.length === 0) continue
+
+        await logAuditAction('documents', document.id, 'UPDATE', {
+          document_title: document.title,
+          expiry_date: derived.expiryDate,
+          issue_date: issueDate,
+          validity_rule: derived.description,
+          action_description: 'Missing expiry date derived from the document type\'s validity rules'
+        }, client)
+      }
+
+      report.backfilledCount++
+      report.documents.push({
+        id: document.id,
+        pilot_id: document.pilot_id,
+        document_type: document.document_type,
+        title: document.title,
+        issue_date: issueDate,
+        expiry_date: derived.expiryDate,
+        rule: derived.description
+      })
+    }
+
+    if (candidates.length < BACKFILL_PAGE_SIZE) break
+  }
+
+  return report
+}
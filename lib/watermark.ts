@@ -0,0 +1,141 @@
+import sharp from 'sharp'
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib'
+import { detectFileType } from './fileInspection'
+
+// Server-only stamping of downloaded copies. Every page or image gets a
+// large diagonal "CONTROLLED COPY" mark and a footer naming the viewer and
+// the time of download.
+
+export const WATERMARK_TITLE = 'CONTROLLED COPY'
+
+// A stored file that could not be stamped, so no copy of it can be served
+export class WatermarkError extends Error {
+  constructor(reason: string) {
+    super('Cannot watermark this file: ' + reason)
+    this.name = 'WatermarkError'
+  }
+}
+
+export interface WatermarkStamp {
+  viewerName: string
+  downloadedAt: Date
+}
+
+export interface WatermarkedFile {
+  content: Uint8Array
+  mimeType: 'application/pdf' | 'image/jpeg' | 'image/png'
+  extension: 'pdf' | 'jpg' | 'png'
+}
+
+// Footer line, e.g. "Controlled copy · Downloaded by Jane Doe · 2025-03-01 14:05 UTC"
+export function watermarkFooter(stamp: WatermarkStamp): string {
+  const timestamp = stamp.downloadedAt.toISOString().slice(0, 16).replace('T', ' ')
+  return `Controlled copy · Downloaded by ${stamp.viewerName} · ${timestamp} UTC`
+}
+
+// The standard PDF fonts only cover Latin-1
+function toWinAnsi(text: string): string {
+  return text.normalize('NFC').replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+async function watermarkPdf(content: Uint8Array, stamp: WatermarkStamp): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(content, { updateMetadata: false })
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const footer = toWinAnsi(watermarkFooter(stamp))
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize()
+
+    // Diagonal mark across the middle of the page
+    const angle = Math.atan2(height, width)
+    const titleSize = Math.min(width, height) / 9
+    const titleWidth = font.widthOfTextAtSize(WATERMARK_TITLE, titleSize)
+    page.drawText(WATERMARK_TITLE, {
+      x: width / 2 - (Math.cos(angle) * titleWidth) / 2 + (Math.sin(angle) * titleSize) / 3,
+      y: height / 2 - (Math.sin(angle) * titleWidth) / 2 - (Math.cos(angle) * titleSize) / 3,
+      size: titleSize,
+      font,
+      rotate: degrees((angle * 180) / Math.PI),
+      color: rgb(0.8, 0.1, 0.1),
+      opacity: 0.18
+    })
+
+    // Footer, shrunk to fit narrow pages
+    const footerSize = Math.min(8, ((width - 24) / font.widthOfTextAtSize(footer, 8)) * 8)
+    page.drawText(footer, {
+      x: 12,
+      y: 12,
+      size: footerSize,
+      font,
+      color: rgb(0.8, 0.1, 0.1),
+      opacity: 0.8
+    })
+  }
+
+  return pdf.save()
+}
+
+async function watermarkImage(content: Uint8Array, mimeType: 'image/jpeg' | 'image/png', stamp: WatermarkStamp): Promise<Uint8Array> {
+  // Apply EXIF orientation first so the mark is drawn on the upright image
+  const { data, info } = await sharp(content).rotate().toBuffer({ resolveWithObject: true })
+  const { width, height } = info
+
+  const angle = (Math.atan2(height, width) * 180) / Math.PI
+  const titleSize = Math.round(Math.min(width, height) / 9)
+  const footerSize = Math.max(10, Math.round(Math.min(width, height) / 50))
+
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle"
+      transform="rotate(${(-angle).toFixed(2)} ${width / 2} ${height / 2})"
+      font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="${titleSize}"
+      fill="#cc1a1a" fill-opacity="0.22">${WATERMARK_TITLE}</text>
+    <rect x="0" y="${height - footerSize * 2}" width="${width}" height="${footerSize * 2}" fill="#ffffff" fill-opacity="0.7"/>
+    <text x="${footerSize}" y="${height - footerSize * 0.6}"
+      font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="${footerSize}"
+      fill="#cc1a1a">${escapeXml(watermarkFooter(stamp))}</text>
+  </svg>`
+
+  const stamped = sharp(data).composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+  const output = mimeType === 'image/png'
+    ? await stamped.png().toBuffer()
+    : await stamped.jpeg({ quality: 90 }).toBuffer()
+
+  return new Uint8Array(output)
+}
+
+/**
+ * Stamp a document for download. The type is taken from the content's
+ * signature, not from the stored metadata, and the output keeps the
+ * original format. Stored files were inspected on upload, so they are not
+ * inspected again here. Throws a WatermarkError if the file cannot be
+ * stamped.
+ */
+export async function watermarkDocument(content: Uint8Array, stamp: WatermarkStamp): Promise<WatermarkedFile> {
+  const fileType = detectFileType(content)
+  if (!fileType) {
+    throw new WatermarkError('File content is not a PDF, JPEG or PNG document')
+  }
+
+  let stamped: Uint8Array
+  try {
+    stamped = fileType.mimeType === 'application/pdf'
+      ? await watermarkPdf(content, stamp)
+      : await watermarkImage(content, fileType.mimeType, stamp)
+  } catch (error) {
+    throw new WatermarkError(error instanceof Error ? error.message : 'the file could not be read')
+  }
+
+  return {
+    content: stamped,
+    mimeType: fileType.mimeType,
+    extension: fileType.extension
+  }
+}
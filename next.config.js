@@ -14,6 +14,9 @@ const nextConfig = {
     ]
   },
   
+  // Native and worker-based packages used for server-side thumbnails
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'],
+
   // Compression
   compress: true,
   
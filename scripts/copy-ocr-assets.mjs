@@ -0,0 +1,36 @@
+// Copies the OCR engine into public/ocr so uploads are read entirely in the
+// browser from this app's own origin, without fetching anything from a CDN.
+// Runs after npm install; lib/ocr.ts loads the files from /ocr.
+
+import { copyFile, mkdir } from 'fs/promises'
+import { createRequire } from 'module'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const outputDir = path.join(root, 'public/ocr')
+const require = createRequire(import.meta.url)
+
+const packageDir = name => path.dirname(require.resolve(`${name}/package.json`))
+
+// The worker picks the fastest core the browser supports; only the LSTM
+// engine is used, so the legacy builds are left out
+const CORE_FILES = [
+  'tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-relaxedsimd-lstm.wasm.js'
+]
+
+const assets = [
+  [path.join(packageDir('tesseract.js'), 'dist/worker.min.js'), 'worker.min.js'],
+  ...CORE_FILES.map(file => [path.join(packageDir('tesseract.js-core'), file), path.join('core', file)]),
+  [path.join(packageDir('@tesseract.js-data/eng'), '4.0.0_best_int/eng.traineddata.gz'), 'lang/eng.traineddata.gz']
+]
+
+for (const [source, target] of assets) {
+  const destination = path.join(outputDir, target)
+  await mkdir(path.dirname(destination), { recursive: true })
+  await copyFile(source, destination)
+}
+
+console.log(`Copied ${assets.length} OCR assets to ${path.relative(root, outputDir)}`)
@@ -0,0 +1,233 @@
+// Generates lib/apiClient.ts from the OpenAPI document in lib/openapi.ts.
+// Usage: npm run generate:api-client
+
+import { readFile, writeFile, mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import ts from 'typescript'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const specPath = path.join(root, 'lib/openapi.ts')
+const outputPath = path.join(root, 'lib/apiClient.ts')
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+
+// lib/openapi.ts only has type imports, so a plain transpile is enough to load it
+async function loadSpec() {
+  const source = await readFile(specPath, 'utf8')
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+  })
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'openapi-'))
+  try {
+    const modulePath = path.join(dir, 'openapi.mjs')
+    await writeFile(modulePath, outputText)
+    const { openApiSpec } = await import(pathToFileURL(modulePath).href)
+    return openApiSpec
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+const refName = (ref) => ref.split('/').pop()
+const quoteKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`)
+const camelCase = (name) => name.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase())
+
+function toType(schema, indent = '') {
+  if (!schema) return 'unknown'
+  let type
+
+  if (schema.$ref) {
+    type = refName(schema.$ref)
+  } else if (schema.allOf) {
+    type = schema.allOf.map(part => toType(part, indent)).join(' & ')
+  } else if (schema.enum) {
+    type = schema.enum.map(value => `'${value}'`).join(' | ')
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'Blob' : 'string'
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number'
+  } else if (schema.type === 'boolean') {
+    type = 'boolean'
+  } else if (schema.type === 'array') {
+    const itemType = toType(schema.items, indent)
+    type = /[|&{]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`
+  } else if (schema.properties) {
+    type = `{\n${toProperties(schema, indent + '  ')}\n${indent}}`
+  } else if (schema.additionalProperties && schema.additionalProperties !== true) {
+    type = `Record<string, ${toType(schema.additionalProperties, indent)}>`
+  } else {
+    type = 'Record<string, unknown>'
+  }
+
+  return schema.nullable ? `${type} | null` : type
+}
+
+function toProperties(schema, indent) {
+  const required = new Set(schema.required || [])
+  return Object.entries(schema.properties)
+    .map(([key, property]) => {
+      const comment = property.description ? `${indent}// ${property.description}\n` : ''
+      return `${comment}${indent}${quoteKey(key)}${required.has(key) ? '' : '?'}: ${toType(property, indent)}`
+    })
+    .join('\n')
+}
+
+function generateSchemas(schemas) {
+  return Object.entries(schemas)
+    .map(([name, schema]) => {
+      if (schema.type === 'object' && schema.properties) {
+        return `export interface ${name} {\n${toProperties(schema, '  ')}\n}`
+      }
+      return `export type ${name} = ${toType(schema)}`
+    })
+    .join('\n\n')
+}
+
+function jsonSchemaOf(content) {
+  return content?.['application/json']?.schema
+}
+
+// File responses (PDFs, images) are returned as a Blob
+function isBinaryContent(content) {
+  return Object.values(content || {}).some(media => media.schema?.format === 'binary')
+}
+
+function generateOperation(urlPath, method, operation) {
+  const parameters = operation.parameters || []
+  const pathParameters = parameters.filter(parameter => parameter.in === 'path')
+  const queryParameters = parameters.filter(parameter => parameter.in === 'query')
+
+  const args = pathParameters.map(parameter => `${camelCase(parameter.name)}: ${toType(parameter.schema)}`)
+  const requestContent = operation.requestBody?.content || {}
+  const isMultipart = Boolean(requestContent['multipart/form-data'])
+  const bodySchema = isMultipart ? requestContent['multipart/form-data'].schema : jsonSchemaOf(requestContent)
+
+  if (bodySchema) {
+    args.push(`body: ${toType(bodySchema)}`)
+  }
+  if (queryParameters.length > 0) {
+    const queryType = queryParameters
+      .map(parameter => `${quoteKey(parameter.name)}?: ${toType(parameter.schema)}`)
+      .join('; ')
+    args.push(`query: { ${queryType} } = {}`)
+  }
+
+  const [status, success] = Object.entries(operation.responses)
+    .find(([code]) => code.startsWith('2'))
+  const responseSchema = jsonSchemaOf(success.content)
+  const isBinary = !responseSchema && isBinaryContent(success.content)
+  const returnType = isBinary ? 'Blob' : status === '204' || !responseSchema ? 'void' : toType(responseSchema)
+
+  const url = urlPath.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${camelCase(name)})}`)
+  const requestOptions = [`method: '${method.toUpperCase()}'`]
+  if (queryParameters.length > 0) requestOptions.push('query')
+  if (bodySchema) requestOptions.push(isMultipart ? 'body: toFormData(body)' : 'json: body')
+  if (isBinary) requestOptions.push(`responseType: 'blob'`)
+
+  const doc = [operation.summary, operation.description].filter(Boolean).join('. ')
+  return [
+    `    /** ${doc} */`,
+    `    ${operation.operationId}(${args.join(', ')}): Promise<${returnType}> {`,
+    `      return request<${returnType}>(\`${url}\`, { ${requestOptions.join(', ')} })`,
+    '    }'
+  ].join('\n')
+}
+
+function generateClient(spec) {
+  const operations = []
+  for (const [urlPath, pathItem] of Object.entries(spec.paths)) {
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        operations.push(generateOperation(urlPath, method, pathItem[method]))
+      }
+    }
+  }
+
+  return `// Generated by scripts/generate-api-client.mjs from lib/openapi.ts.
+// Do not edit by hand: run \`npm run generate:api-client\` instead.
+
+// ${spec.info.title} ${spec.info.version}
+
+${generateSchemas(spec.components.schemas)}
+
+export interface ApiClientOptions {
+  // Defaults to the current origin
+  baseUrl?: string
+  // Bearer token sent with every request, e.g. the Supabase access token
+  getAccessToken?: () => string | null | undefined | Promise<string | null | undefined>
+  fetch?: typeof fetch
+}
+
+// Thrown for any non-2xx response; message is the API's error text
+export class ApiError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+type QueryValue = string | number | boolean | undefined
+
+function toFormData(body: object): FormData {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue
+    formData.append(key, value instanceof Blob ? value : String(value))
+  }
+  return formData
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl?.replace(/\\/$/, '') || ''
+  const fetchImpl = options.fetch || fetch
+
+  async function request<T>(
+    path: string,
+    init: { method: string; query?: Record<string, QueryValue>; json?: unknown; body?: FormData; responseType?: 'blob' }
+  ): Promise<T> {
+    const search = new URLSearchParams()
+    for (const [key, value] of Object.entries(init.query || {})) {
+      if (value !== undefined) search.set(key, String(value))
+    }
+    const queryString = search.toString()
+    const url = \`\${baseUrl}\${path}\${queryString ? \`?\${queryString}\` : ''}\`
+
+    const headers: Record<string, string> = {}
+    const token = await options.getAccessToken?.()
+    if (token) headers.Authorization = \`Bearer \${token}\`
+    if (init.json !== undefined) headers['Content-Type'] = 'application/json'
+
+    const response = await fetchImpl(url, {
+      method: init.method,
+      headers,
+      body: init.json !== undefined ? JSON.stringify(init.json) : init.body
+    })
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as { error?: string } | null
+      throw new ApiError(response.status, payload?.error || \`Request failed with status \${response.status}\`)
+    }
+
+    if (response.status === 204) return undefined as T
+    if (init.responseType === 'blob') return response.blob() as Promise<T>
+    return response.json() as Promise<T>
+  }
+
+  return {
+${operations.join(',\n\n')}
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+`
+}
+
+const spec = await loadSpec()
+await writeFile(outputPath, generateClient(spec))
+console.log(`Wrote ${path.relative(root, outputPath)}`)